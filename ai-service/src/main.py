@@ -1,4 +1,6 @@
 import os
+import json
+from http.server import BaseHTTPRequestHandler, ThreadingHTTPServer
 import pandas as pd
 import numpy as np
 from typing import List, Tuple
@@ -41,8 +43,9 @@ class AiService:
         trading_scores = predictions.astype(int)
 
         df['trading_score'] = trading_scores
-        scores = list(zip(df['player_key'], df['trading_score']))
-        return scores
+        # Players without trading data have not traded: they score 0 rather than going missing.
+        scored = dict(zip(df['player_key'], df['trading_score']))
+        return [(key, scored.get(key, 0)) for key in player_keys]
 
     def detect_anomalies(self, player_key: str) -> bool:
         cached = self.redis_client.get(player_key)
@@ -71,9 +74,46 @@ class AiService:
                 validated_scores.append((key, 0))
         return validated_scores
 
-if __name__ == "__main__":
-    ai_service = AiService()
-    players = ['PlayerPubKey1', 'PlayerPubKey2', 'PlayerPubKey3']
-    scores = ai_service.compute_scores_with_anomaly_detection(players)
-    print(scores)
+    def compute_scores(self, player_keys: List[str], detect_anomalies: bool = True) -> List[Tuple[str, int]]:
+        # The backend flags anomalies itself and asks for raw scores: nothing is zeroed or cached then.
+        if not detect_anomalies:
+            return self.compute_trading_scores(player_keys)
+        return self.compute_scores_with_anomaly_detection(player_keys)
+
+def make_handler(ai_service):
+    # POST /scores {"playerKeys": [str], "detectAnomalies": bool} -> {"scores": [{"playerKey": str, "score": int}]},
+    # the contract the backend's AiScoringClient relies on.
+    class ScoresHandler(BaseHTTPRequestHandler):
+        def do_POST(self):
+            if self.path != '/scores':
+                return self.respond(404, {"error": "Not found."})
+            try:
+                body = json.loads(self.rfile.read(int(self.headers.get('Content-Length', 0))))
+                player_keys = body['playerKeys']
+                detect_anomalies = body.get('detectAnomalies', True)
+                if not isinstance(player_keys, list) or not all(isinstance(key, str) for key in player_keys):
+                    raise ValueError
+                if not isinstance(detect_anomalies, bool):
+                    raise ValueError
+            except (ValueError, KeyError, TypeError, AttributeError):
+                return self.respond(400, {"error": "Expected {playerKeys: string[], detectAnomalies?: boolean}."})
+
+            try:
+                scores = ai_service.compute_scores(player_keys, detect_anomalies)
+            except Exception as error:
+                return self.respond(500, {"error": str(error)})
+            self.respond(200, {"scores": [{"playerKey": key, "score": int(score)} for key, score in scores]})
 
+        def respond(self, status: int, body: dict):
+            payload = json.dumps(body).encode()
+            self.send_response(status)
+            self.send_header('Content-Type', 'application/json')
+            self.send_header('Content-Length', str(len(payload)))
+            self.end_headers()
+            self.wfile.write(payload)
+
+    return ScoresHandler
+
+if __name__ == "__main__":
+    server = ThreadingHTTPServer(('0.0.0.0', int(os.getenv('PORT', '8000'))), make_handler(AiService()))
+    server.serve_forever()
@@ -0,0 +1,109 @@
+import json
+import os
+import sys
+import threading
+import unittest
+from http.server import ThreadingHTTPServer
+from urllib.error import HTTPError
+from urllib.request import Request, urlopen
+
+import numpy as np
+import pandas as pd
+
+sys.path.insert(0, os.path.join(os.path.dirname(__file__), '..', 'src'))
+from main import AiService, make_handler
+
+
+class FakeAiService:
+    def __init__(self):
+        self.calls = []
+
+    def compute_scores(self, player_keys, detect_anomalies=True):
+        self.calls.append((player_keys, detect_anomalies))
+        return [(key, 10 * (i + 1)) for i, key in enumerate(player_keys)]
+
+
+class FixedModel:
+    def __init__(self, predictions):
+        self.predictions = predictions
+
+    def predict(self, features):
+        return np.array(self.predictions[:len(features)])
+
+
+# An AiService scoring the rows given, without the database, Redis or a trained model.
+def scoring_service(rows, predictions):
+    ai_service = AiService.__new__(AiService)
+    ai_service.fetch_trading_data = lambda player_keys: pd.DataFrame(rows)
+    ai_service.preprocess_data = lambda df: df[['hold_duration', 'buy_volume', 'sell_volume', 'transaction_frequency']].values
+    ai_service.model = FixedModel(predictions)
+    return ai_service
+
+
+# Holds /scores to the request and response shapes backend/src/ai/ai-scoring.client.ts uses.
+class ScoresEndpointTest(unittest.TestCase):
+    def setUp(self):
+        self.ai_service = FakeAiService()
+        self.serve(self.ai_service)
+
+    def tearDown(self):
+        self.server.shutdown()
+        self.server.server_close()
+
+    def serve(self, ai_service):
+        if hasattr(self, 'server'):
+            self.tearDown()
+        self.server = ThreadingHTTPServer(('127.0.0.1', 0), make_handler(ai_service))
+        threading.Thread(target=self.server.serve_forever, daemon=True).start()
+
+    def post(self, path, body):
+        request = Request(
+            f'http://127.0.0.1:{self.server.server_port}{path}',
+            data=json.dumps(body).encode(),
+            headers={'Content-Type': 'application/json'},
+            method='POST',
+        )
+        try:
+            with urlopen(request, timeout=5) as response:
+                return response.status, json.loads(response.read())
+        except HTTPError as error:
+            return error.code, json.loads(error.read())
+
+    def test_scores_players_the_way_the_backend_asks(self):
+        status, body = self.post('/scores', {'playerKeys': ['a', 'b'], 'detectAnomalies': False})
+
+        self.assertEqual(status, 200)
+        self.assertEqual(body, {'scores': [{'playerKey': 'a', 'score': 10}, {'playerKey': 'b', 'score': 20}]})
+        self.assertEqual(self.ai_service.calls, [(['a', 'b'], False)])
+
+    def test_detects_anomalies_unless_told_not_to(self):
+        self.post('/scores', {'playerKeys': ['a']})
+
+        self.assertEqual(self.ai_service.calls, [(['a'], True)])
+
+    def test_scores_every_requested_player_even_without_trading_data(self):
+        row = {'player_key': 'b', 'hold_duration': 1, 'buy_volume': 2, 'sell_volume': 3, 'transaction_frequency': 4}
+        self.serve(scoring_service([row], [42]))
+
+        status, body = self.post('/scores', {'playerKeys': ['a', 'b', 'c'], 'detectAnomalies': False})
+
+        self.assertEqual(status, 200)
+        self.assertEqual(
+            body,
+            {'scores': [{'playerKey': 'a', 'score': 0}, {'playerKey': 'b', 'score': 42}, {'playerKey': 'c', 'score': 0}]},
+        )
+
+    def test_rejects_malformed_requests(self):
+        status, _ = self.post('/scores', {'playerKeys': 'a'})
+
+        self.assertEqual(status, 400)
+        self.assertEqual(self.ai_service.calls, [])
+
+    def test_answers_unknown_paths_with_404(self):
+        status, _ = self.post('/score', {'playerKeys': ['a']})
+
+        self.assertEqual(status, 404)
+
+
+if __name__ == '__main__':
+    unittest.main()
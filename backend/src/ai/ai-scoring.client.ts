@@ -0,0 +1,122 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { CircuitBreaker, CircuitOpenError } from './circuit-breaker';
+
+export const AI_SCORING_OPTIONS = Symbol('AI_SCORING_OPTIONS');
+
+export interface AiScoringOptions {
+  baseUrl: string;
+  timeoutMs: number;
+  // Attempts per batch, including the first.
+  maxAttempts: number;
+  retryDelayMs: number;
+  batchSize: number;
+  failureThreshold: number;
+  resetAfterMs: number;
+}
+
+export const DEFAULT_AI_SCORING_OPTIONS: AiScoringOptions = {
+  baseUrl: process.env.AI_SERVICE_URL ?? 'http://localhost:8000',
+  timeoutMs: Number(process.env.AI_SCORING_TIMEOUT_MS ?? 5000),
+  maxAttempts: Number(process.env.AI_SCORING_MAX_ATTEMPTS ?? 3),
+  retryDelayMs: 250,
+  batchSize: Number(process.env.AI_SCORING_BATCH_SIZE ?? 200),
+  failureThreshold: 5,
+  resetAfterMs: 30_000,
+};
+
+export interface TradingScores {
+  scores: Map<string, number>;
+  // Players without a score, whether their batch failed or the response left them out.
+  missing: string[];
+  errors: string[];
+}
+
+class ScoringRequestError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+  ) {
+    super(message);
+  }
+}
+
+// Client for the Python scoring service's `POST /scores`, which takes `{ playerKeys, detectAnomalies }` and
+// answers `{ scores: [{ playerKey, score }] }`. Anomalies are flagged by the anomaly rules instead, so the
+// service is asked not to zero anyone itself. Never throws: whatever could not be scored is reported in
+// `missing` for the caller's fallback policy to handle.
+@Injectable()
+export class AiScoringClient {
+  private readonly logger = new Logger(AiScoringClient.name);
+  private readonly options: AiScoringOptions;
+  private readonly breaker: CircuitBreaker;
+
+  constructor(@Optional() @Inject(AI_SCORING_OPTIONS) options?: Partial<AiScoringOptions>) {
+    this.options = { ...DEFAULT_AI_SCORING_OPTIONS, ...(options ?? {}) };
+    this.breaker = new CircuitBreaker(this.options);
+  }
+
+  async computeTradingScores(playerKeys: string[]): Promise<TradingScores> {
+    const result: TradingScores = { scores: new Map(), missing: [], errors: [] };
+
+    for (let start = 0; start < playerKeys.length; start += this.options.batchSize) {
+      const batch = playerKeys.slice(start, start + this.options.batchSize);
+      try {
+        const scores = await this.scoreBatch(batch);
+        for (const { playerKey, score } of scores) {
+          if (batch.includes(playerKey) && Number.isFinite(score)) result.scores.set(playerKey, score);
+        }
+        result.missing.push(...batch.filter(key => !result.scores.has(key)));
+      } catch (error) {
+        this.logger.warn(`Scoring failed for ${batch.length} players: ${error.message}`);
+        result.missing.push(...batch);
+        result.errors.push(error.message);
+      }
+    }
+
+    return result;
+  }
+
+  private async scoreBatch(playerKeys: string[]): Promise<{ playerKey: string; score: number }[]> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.breaker.execute(() => this.post(playerKeys));
+      } catch (error) {
+        const retryable = !(error instanceof CircuitOpenError) && !(error instanceof ScoringRequestError && !error.retryable);
+        if (!retryable || attempt >= this.options.maxAttempts) throw error;
+        await delay(this.options.retryDelayMs * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  private async post(playerKeys: string[]): Promise<{ playerKey: string; score: number }[]> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+    try {
+      const response = await fetch(`${this.options.baseUrl}/scores`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playerKeys, detectAnomalies: false }),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new ScoringRequestError(`Scoring service answered ${response.status}.`, response.status >= 500 || response.status === 429);
+      }
+      const body = await response.json();
+      if (!Array.isArray(body?.scores)) {
+        throw new ScoringRequestError('Scoring service returned a malformed response.', false);
+      }
+      return body.scores;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new ScoringRequestError(`Scoring service did not answer within ${this.options.timeoutMs}ms.`, true);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
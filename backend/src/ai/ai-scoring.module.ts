@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { AiScoringClient } from './ai-scoring.client';
+
+@Module({
+  providers: [AiScoringClient],
+  exports: [AiScoringClient],
+})
+export class AiScoringModule {}
@@ -0,0 +1,58 @@
+export enum CircuitState {
+  Closed = 'closed',
+  Open = 'open',
+  HalfOpen = 'halfOpen',
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit.
+  failureThreshold: number;
+  // How long the circuit stays open before a single trial call is let through.
+  resetAfterMs: number;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(readonly retryAt: Date) {
+    super(`Circuit open until ${retryAt.toISOString()}.`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly options: CircuitBreakerOptions,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return CircuitState.Closed;
+    return this.now() - this.openedAt >= this.options.resetAfterMs ? CircuitState.HalfOpen : CircuitState.Open;
+  }
+
+  async execute<T>(call: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === CircuitState.Open || (state === CircuitState.HalfOpen && this.trialInFlight)) {
+      throw new CircuitOpenError(new Date(this.openedAt + this.options.resetAfterMs));
+    }
+
+    this.trialInFlight = state === CircuitState.HalfOpen;
+    try {
+      const result = await call();
+      this.failures = 0;
+      this.openedAt = null;
+      return result;
+    } catch (error) {
+      this.failures += 1;
+      if (state === CircuitState.HalfOpen || this.failures >= this.options.failureThreshold) {
+        this.openedAt = this.now();
+      }
+      throw error;
+    } finally {
+      if (state === CircuitState.HalfOpen) this.trialInFlight = false;
+    }
+  }
+}
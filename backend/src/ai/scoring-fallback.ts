@@ -0,0 +1,17 @@
+import { median } from '../scoring/statistics';
+
+// What an evaluation does with players the scoring service could not score.
+export enum ScoringFallback {
+  // Give them the median score of the players that were scored, and settle normally.
+  Neutral = 'neutral',
+  // Score them 0 for now and keep re-evaluating until everyone is scored or the round settles.
+  RetryLater = 'retryLater',
+  // As RetryLater, but winners cannot be selected until an evaluation of the round is complete.
+  BlockSettlement = 'blockSettlement',
+}
+
+export const SCORING_RETRY_INTERVAL_MS = Number(process.env.AI_SCORING_RETRY_INTERVAL_MS ?? 60_000);
+
+export function neutralTradingScore(scores: number[]): number {
+  return median(scores);
+}
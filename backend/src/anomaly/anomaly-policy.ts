@@ -0,0 +1,29 @@
+import { Player } from '../database/entities/player.entity';
+import { AnomalyFlag } from '../database/entities/anomaly-flag.entity';
+import { AnomalySeverity } from './anomaly-rules';
+
+// How winner selection treats players with a critical anomaly flag for the round.
+export enum AnomalyPolicy {
+  // Flags are recorded and shown, nothing else.
+  Ignore = 'ignore',
+  // The flagged player's trading score counts as 0, as the old threshold check did.
+  ZeroTradingScore = 'zeroTradingScore',
+  // The flagged player is still scored, but left out of the ranking and cannot win.
+  Disqualify = 'disqualify',
+}
+
+// Players still eligible to win under `policy`. Flagged players whose trading score counts as 0 come back as
+// copies, so their own recorded score is kept.
+export function applyAnomalyPolicy(policy: AnomalyPolicy, players: Player[], flags: AnomalyFlag[]): Player[] {
+  const flagged = new Set(flags.filter(f => f.severity === AnomalySeverity.Critical).map(f => f.playerKey));
+  switch (policy) {
+    case AnomalyPolicy.Ignore:
+      return players;
+    case AnomalyPolicy.ZeroTradingScore:
+      return players.map(p => (flagged.has(p.key) ? Object.assign(new Player(), p, { tradingScore: 0 }) : p));
+    case AnomalyPolicy.Disqualify:
+      return players.filter(p => !flagged.has(p.key));
+    default:
+      throw new Error(`Unknown anomaly policy: ${policy}`);
+  }
+}
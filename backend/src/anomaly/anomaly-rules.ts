@@ -0,0 +1,186 @@
+import { GameState } from '../database/entities/game-state.entity';
+import { Player } from '../database/entities/player.entity';
+import { Deposit } from '../database/entities/deposit.entity';
+import { median } from '../scoring/statistics';
+import { Trade, TradeSide } from './trade-activity.provider';
+
+export enum AnomalySeverity {
+  // Recorded and shown to the player, but never affects winner selection.
+  Warning = 'warning',
+  // Subject to the game's anomaly policy.
+  Critical = 'critical',
+}
+
+export interface AnomalyContext {
+  game: GameState;
+  players: Player[];
+  // RUMBLE trades by the round's players while the round was open.
+  trades: Trade[];
+  deposits: Deposit[];
+}
+
+export interface AnomalyFinding {
+  playerKey: string;
+  rule: string;
+  severity: AnomalySeverity;
+  // Shown to the player as is.
+  reason: string;
+  evidence: Record<string, unknown>;
+}
+
+// A detector. Rules are pure: everything they look at is in the context, so a flag can be reproduced
+// from the evidence it records.
+export interface AnomalyRule {
+  readonly name: string;
+  evaluate(context: AnomalyContext): AnomalyFinding[];
+}
+
+const MAX_EVIDENCE_SIGNATURES = 10;
+
+// Trading volume far above the rest of the round. Replaces the old fixed 100000 threshold, which is kept
+// as the floor below which volume is never considered a spike.
+export class VolumeSpikeRule implements AnomalyRule {
+  readonly name = 'volumeSpike';
+
+  constructor(private readonly options: { multiplier: number; minVolume: number } = { multiplier: 10, minVolume: 100_000 }) {}
+
+  evaluate({ players, trades }: AnomalyContext): AnomalyFinding[] {
+    const volumes = new Map(players.map(p => [p.key, 0]));
+    for (const trade of trades) {
+      volumes.set(trade.wallet, (volumes.get(trade.wallet) ?? 0) + trade.amount);
+    }
+    const typical = median([...volumes.values()]);
+
+    return [...volumes]
+      .filter(([, volume]) => volume >= this.options.minVolume && volume > typical * this.options.multiplier)
+      .map(([playerKey, volume]) => ({
+        playerKey,
+        rule: this.name,
+        severity: AnomalySeverity.Critical,
+        reason: `Traded ${volume} RUMBLE this round, more than ${this.options.multiplier}x the median player's ${typical}.`,
+        evidence: { volume, median: typical, multiplier: this.options.multiplier },
+      }));
+  }
+}
+
+// Tokens passed back and forth with the same counterparty: each sell to it matched by a buy from it.
+export class WashTradingRule implements AnomalyRule {
+  readonly name = 'washTrading';
+
+  constructor(private readonly options: { minRoundTrips: number } = { minRoundTrips: 2 }) {}
+
+  evaluate({ players, trades }: AnomalyContext): AnomalyFinding[] {
+    const playerKeys = new Set(players.map(p => p.key));
+    const findings: AnomalyFinding[] = [];
+
+    for (const [pair, pairTrades] of groupBy(trades.filter(t => t.counterparty), t => `${t.wallet}:${t.counterparty}`)) {
+      const [wallet, counterparty] = pair.split(':');
+      const buys = pairTrades.filter(t => t.side === TradeSide.Buy).length;
+      const sells = pairTrades.length - buys;
+      const roundTrips = Math.min(buys, sells);
+      if (!playerKeys.has(wallet) || roundTrips < this.options.minRoundTrips) continue;
+
+      findings.push({
+        playerKey: wallet,
+        rule: this.name,
+        severity: AnomalySeverity.Critical,
+        reason: `Traded RUMBLE back and forth with ${counterparty} ${roundTrips} times.`,
+        evidence: {
+          counterparty,
+          counterpartyIsPlayer: playerKeys.has(counterparty),
+          roundTrips,
+          signatures: pairTrades.slice(0, MAX_EVIDENCE_SIGNATURES).map(t => t.signature),
+        },
+      });
+    }
+    return findings;
+  }
+}
+
+// A buy and a sell of (nearly) the same amount in quick succession: volume without a change in position.
+export class SelfTradeRule implements AnomalyRule {
+  readonly name = 'selfTrade';
+
+  constructor(
+    private readonly options: { windowMs: number; tolerance: number; minPairs: number } = {
+      windowMs: 60_000,
+      tolerance: 0.01,
+      minPairs: 3,
+    },
+  ) {}
+
+  evaluate({ players, trades }: AnomalyContext): AnomalyFinding[] {
+    const findings: AnomalyFinding[] = [];
+
+    for (const player of players) {
+      const own = trades.filter(t => t.wallet === player.key).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      const pairs: [string, string][] = [];
+      const used = new Set<Trade>();
+
+      for (const [index, trade] of own.entries()) {
+        if (used.has(trade)) continue;
+        const match = own.slice(index + 1).find(
+          other =>
+            !used.has(other) &&
+            other.side !== trade.side &&
+            other.timestamp.getTime() - trade.timestamp.getTime() <= this.options.windowMs &&
+            Math.abs(other.amount - trade.amount) <= trade.amount * this.options.tolerance,
+        );
+        if (match) {
+          used.add(trade).add(match);
+          pairs.push([trade.signature, match.signature]);
+        }
+      }
+
+      if (pairs.length >= this.options.minPairs) {
+        findings.push({
+          playerKey: player.key,
+          rule: this.name,
+          severity: AnomalySeverity.Critical,
+          reason: `Bought and sold the same amount within ${this.options.windowMs / 1000}s ${pairs.length} times.`,
+          evidence: { pairs: pairs.slice(0, MAX_EVIDENCE_SIGNATURES), windowMs: this.options.windowMs },
+        });
+      }
+    }
+    return findings;
+  }
+}
+
+// Several deposits from one wallet in the last moments of the round.
+export class DepositBurstRule implements AnomalyRule {
+  readonly name = 'depositBurst';
+
+  constructor(private readonly options: { windowMs: number; minDeposits: number } = { windowMs: 60_000, minDeposits: 3 }) {}
+
+  evaluate({ game, deposits }: AnomalyContext): AnomalyFinding[] {
+    if (!game.closesAt) return [];
+    const windowStart = new Date(game.closesAt).getTime() - this.options.windowMs;
+    const late = deposits.filter(d => new Date(d.createdAt).getTime() >= windowStart);
+
+    return [...groupBy(late, d => d.playerKey)]
+      .filter(([, burst]) => burst.length >= this.options.minDeposits)
+      .map(([playerKey, burst]) => ({
+        playerKey,
+        rule: this.name,
+        severity: AnomalySeverity.Warning,
+        reason: `Made ${burst.length} deposits in the last ${this.options.windowMs / 1000}s before the round closed.`,
+        evidence: { signatures: burst.map(d => d.signature), windowMs: this.options.windowMs },
+      }));
+  }
+}
+
+export const DEFAULT_ANOMALY_RULES: AnomalyRule[] = [
+  new VolumeSpikeRule(),
+  new WashTradingRule(),
+  new SelfTradeRule(),
+  new DepositBurstRule(),
+];
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    groups.set(key(item), [...(groups.get(key(item)) ?? []), item]);
+  }
+  return groups;
+}
+
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AnomalyFlag } from '../database/entities/anomaly-flag.entity';
+import { Deposit } from '../database/entities/deposit.entity';
+import { DEFAULT_ANOMALY_RULES } from './anomaly-rules';
+import { ANOMALY_RULES, AnomalyService } from './anomaly.service';
+import { SplTradeActivityProvider, TRADE_ACTIVITY_PROVIDER } from './trade-activity.provider';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([AnomalyFlag, Deposit])],
+  providers: [
+    AnomalyService,
+    { provide: ANOMALY_RULES, useValue: DEFAULT_ANOMALY_RULES },
+    { provide: TRADE_ACTIVITY_PROVIDER, useClass: SplTradeActivityProvider },
+  ],
+  exports: [AnomalyService, TRADE_ACTIVITY_PROVIDER],
+})
+export class AnomalyModule {}
@@ -0,0 +1,66 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { GameState } from '../database/entities/game-state.entity';
+import { Player } from '../database/entities/player.entity';
+import { Deposit } from '../database/entities/deposit.entity';
+import { AnomalyFlag } from '../database/entities/anomaly-flag.entity';
+import { AnomalyFinding, AnomalyRule } from './anomaly-rules';
+import { TRADE_ACTIVITY_PROVIDER, TradeActivityProvider } from './trade-activity.provider';
+
+export const ANOMALY_RULES = Symbol('ANOMALY_RULES');
+
+@Injectable()
+export class AnomalyService {
+  private readonly logger = new Logger(AnomalyService.name);
+
+  constructor(
+    @InjectRepository(AnomalyFlag)
+    private flagRepository: Repository<AnomalyFlag>,
+    @InjectRepository(Deposit)
+    private depositRepository: Repository<Deposit>,
+    @Inject(TRADE_ACTIVITY_PROVIDER)
+    private tradeActivity: TradeActivityProvider,
+    @Inject(ANOMALY_RULES)
+    private rules: AnomalyRule[],
+  ) {}
+
+  // Runs every rule over the round so far and replaces the round's flags with what they find. A rule that
+  // throws is logged and skipped rather than failing the evaluation.
+  async detect(game: GameState, players: Player[]): Promise<AnomalyFlag[]> {
+    const from = new Date(game.openedAt ?? game.createdAt);
+    const to = game.closesAt && new Date(game.closesAt) < new Date() ? new Date(game.closesAt) : new Date();
+    const trades = await this.tradeActivity.getTrades(players.map(p => p.key), from, to);
+    const deposits = await this.depositRepository.find({ where: { game: game.gameId, round: game.round } });
+
+    const findings: AnomalyFinding[] = [];
+    for (const rule of this.rules) {
+      try {
+        findings.push(...rule.evaluate({ game, players, trades, deposits }));
+      } catch (error) {
+        this.logger.error(`Anomaly rule ${rule.name} failed for game ${game.gameId}: ${error.message}`);
+      }
+    }
+
+    await this.flagRepository.delete({ game: game.gameId, round: game.round });
+    const flags = findings
+      .map(finding => ({ finding, player: players.find(p => p.key === finding.playerKey) }))
+      .filter(({ player }) => player)
+      .map(({ finding, player }) =>
+        this.flagRepository.create({ ...finding, game: game.gameId, round: game.round, playerId: player.id }),
+      );
+    if (flags.length > 0) {
+      this.logger.warn(`Flagged ${new Set(flags.map(f => f.playerKey)).size} players in game ${game.gameId}`);
+    }
+    return this.flagRepository.save(flags);
+  }
+
+  async flagsFor(game: GameState): Promise<AnomalyFlag[]> {
+    return this.flagRepository.find({ where: { game: game.gameId, round: game.round } });
+  }
+
+  // Everything a player has been flagged for, newest first, so they can see why their score changed.
+  async flagsForPlayer(playerKey: string, skip: number, take: number): Promise<[AnomalyFlag[], number]> {
+    return this.flagRepository.findAndCount({ where: { playerKey }, order: { id: 'DESC' }, skip, take });
+  }
+}
@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import { Connection, PublicKey } from '@solana/web3.js';
+
+export const TRADE_ACTIVITY_PROVIDER = Symbol('TRADE_ACTIVITY_PROVIDER');
+
+export enum TradeSide {
+  Buy = 'buy',
+  Sell = 'sell',
+}
+
+// One wallet's side of a RUMBLE token movement. `counterparty` is the wallet whose balance moved the other
+// way in the same transaction, when there is exactly one.
+export interface Trade {
+  signature: string;
+  wallet: string;
+  counterparty: string | null;
+  side: TradeSide;
+  amount: number;
+  timestamp: Date;
+}
+
+export interface TradeActivityProvider {
+  getTrades(playerKeys: string[], from: Date, to: Date): Promise<Trade[]>;
+}
+
+const MAX_SIGNATURE_PAGES = 10;
+
+@Injectable()
+export class SplTradeActivityProvider implements TradeActivityProvider {
+  private readonly connection = new Connection(process.env.SOLANA_RPC_URL, 'confirmed');
+  private readonly mint = process.env.RUMBLE_MINT_ADDRESS;
+
+  async getTrades(playerKeys: string[], from: Date, to: Date): Promise<Trade[]> {
+    const trades: Trade[] = [];
+    for (const key of playerKeys) {
+      for (const { signature, blockTime, err } of await this.signaturesSince(new PublicKey(key), from)) {
+        if (err || !blockTime) continue;
+        const timestamp = new Date(blockTime * 1000);
+        if (timestamp < from || timestamp > to) continue;
+
+        const tx = await this.connection.getParsedTransaction(signature, { maxSupportedTransactionVersion: 0 });
+        const changes = this.balanceChanges(tx?.meta?.preTokenBalances ?? [], tx?.meta?.postTokenBalances ?? []);
+        const own = changes.get(key);
+        if (!own) continue;
+
+        const others = [...changes].filter(([owner, delta]) => owner !== key && Math.sign(delta) === -Math.sign(own));
+        trades.push({
+          signature,
+          wallet: key,
+          counterparty: others.length === 1 ? others[0][0] : null,
+          side: own > 0 ? TradeSide.Buy : TradeSide.Sell,
+          amount: Math.abs(own),
+          timestamp,
+        });
+      }
+    }
+    return trades;
+  }
+
+  // Newest first, as the RPC returns them, paging back until past `from` or MAX_SIGNATURE_PAGES pages.
+  private async signaturesSince(address: PublicKey, from: Date) {
+    const signatures = [];
+    let before: string | undefined;
+    for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+      const batch = await this.connection.getSignaturesForAddress(address, { before, limit: 1000 });
+      signatures.push(...batch);
+      const oldest = batch[batch.length - 1];
+      if (batch.length < 1000 || (oldest.blockTime && oldest.blockTime * 1000 < from.getTime())) break;
+      before = oldest.signature;
+    }
+    return signatures;
+  }
+
+  // Net change in RUMBLE balance per owner across one transaction.
+  private balanceChanges(
+    pre: { owner?: string; mint: string; uiTokenAmount: { uiAmount: number | null } }[],
+    post: { owner?: string; mint: string; uiTokenAmount: { uiAmount: number | null } }[],
+  ): Map<string, number> {
+    const changes = new Map<string, number>();
+    for (const [balances, sign] of [[pre, -1], [post, 1]] as const) {
+      for (const balance of balances) {
+        if (balance.mint !== this.mint || !balance.owner) continue;
+        changes.set(balance.owner, (changes.get(balance.owner) ?? 0) + sign * (balance.uiTokenAmount.uiAmount ?? 0));
+      }
+    }
+    for (const [owner, delta] of changes) {
+      if (delta === 0) changes.delete(owner);
+    }
+    return changes;
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { AuthService } from './auth.service';
+import { WsAuthGuard } from './ws-auth.guard';
+
+@Module({
+  providers: [AuthService, WsAuthGuard],
+  exports: [AuthService, WsAuthGuard],
+})
+export class AuthModule {}
@@ -0,0 +1,68 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PublicKey } from '@solana/web3.js';
+import { randomBytes } from 'crypto';
+import * as nacl from 'tweetnacl';
+import * as bs58 from 'bs58';
+import { Role, WalletSession } from './roles';
+import { RumbleError } from '../game/rumble.errors';
+
+export const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+export interface AuthChallenge {
+  nonce: string;
+  message: string;
+  expiresAt: Date;
+}
+
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly adminKeys = new Set(
+    (process.env.ADMIN_PUBLIC_KEYS ?? '')
+      .split(',')
+      .map(key => key.trim())
+      .filter(Boolean),
+  );
+
+  issueChallenge(): AuthChallenge {
+    const nonce = randomBytes(32).toString('hex');
+    return {
+      nonce,
+      message: challengeMessage(nonce),
+      expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS),
+    };
+  }
+
+  // Verifies an ed25519 signature over the challenge message, made by the wallet that claims `publicKey`.
+  verifyLogin(challenge: AuthChallenge | undefined, publicKey: string, signature: string): WalletSession {
+    if (!challenge || challenge.expiresAt.getTime() < Date.now()) {
+      throw new RumbleError.Unauthorized({}, 'Login challenge is missing or has expired.');
+    }
+
+    let keyBytes: Uint8Array;
+    let signatureBytes: Uint8Array;
+    try {
+      keyBytes = new PublicKey(publicKey).toBytes();
+      signatureBytes = bs58.decode(signature);
+    } catch (error) {
+      throw new RumbleError.Unauthorized({ publicKey }, 'Malformed public key or signature.');
+    }
+
+    const message = new TextEncoder().encode(challenge.message);
+    if (!nacl.sign.detached.verify(message, signatureBytes, keyBytes)) {
+      throw new RumbleError.Unauthorized({ publicKey }, 'Signature does not match the login challenge.');
+    }
+
+    const roles = this.adminKeys.has(publicKey) ? [Role.Player, Role.Admin] : [Role.Player];
+    this.logger.log(`Wallet ${publicKey} authenticated with roles ${roles.join(', ')}`);
+    return { publicKey, roles, authenticatedAt: new Date() };
+  }
+
+  isAdmin(publicKey: string): boolean {
+    return this.adminKeys.has(publicKey);
+  }
+}
+
+export function challengeMessage(nonce: string): string {
+  return `Sign in to RUMBLE\nNonce: ${nonce}`;
+}
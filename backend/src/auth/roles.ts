@@ -0,0 +1,19 @@
+import { SetMetadata } from '@nestjs/common';
+
+export enum Role {
+  Player = 'player',
+  Admin = 'admin',
+}
+
+export const ROLES_KEY = 'roles';
+export const PUBLIC_KEY = 'isPublic';
+
+// Handlers default to requiring an authenticated wallet; @Roles narrows that, @Public lifts it.
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
+export const Public = () => SetMetadata(PUBLIC_KEY, true);
+
+export interface WalletSession {
+  publicKey: string;
+  roles: Role[];
+  authenticatedAt: Date;
+}
@@ -0,0 +1,28 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Socket } from 'socket.io';
+import { PUBLIC_KEY, ROLES_KEY, Role, WalletSession } from './roles';
+import { RumbleError } from '../game/rumble.errors';
+
+@Injectable()
+export class WsAuthGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const session: WalletSession | undefined = context.switchToWs().getClient<Socket>().data.session;
+    if (!session) {
+      throw new RumbleError.Unauthorized();
+    }
+
+    const required = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, targets) ?? [];
+    if (!required.every(role => session.roles.includes(role))) {
+      throw new RumbleError.Forbidden({ required }, `Requires role: ${required.join(', ')}.`);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Buyback } from '../database/entities/buyback.entity';
+import { BuybackService } from './buyback.service';
+import { BuybackScheduler } from './buyback.scheduler';
+import { BuybacksController } from './buybacks.controller';
+import { RaydiumSwapAdapter } from './raydium-swap-adapter';
+import { SWAP_ADAPTER } from './swap-adapter';
+import { SplTokenBurner, TOKEN_BURNER } from './token-burner';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Buyback])],
+  providers: [
+    BuybackService,
+    BuybackScheduler,
+    { provide: SWAP_ADAPTER, useClass: RaydiumSwapAdapter },
+    { provide: TOKEN_BURNER, useClass: SplTokenBurner },
+  ],
+  controllers: [BuybacksController],
+  exports: [BuybackService],
+})
+export class BuybackModule {}
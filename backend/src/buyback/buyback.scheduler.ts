@@ -0,0 +1,19 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { BuybackService } from './buyback.service';
+
+@Injectable()
+export class BuybackScheduler {
+  private readonly logger = new Logger(BuybackScheduler.name);
+
+  constructor(private readonly buybackService: BuybackService) {}
+
+  @Interval(Number(process.env.BUYBACK_RETRY_INTERVAL_MS ?? 60_000))
+  async tick(): Promise<void> {
+    try {
+      await this.buybackService.retryUnfinished();
+    } catch (error) {
+      this.logger.error(`Error retrying buybacks: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThan, Repository } from 'typeorm';
+import { Buyback, BuybackStatus } from '../database/entities/buyback.entity';
+import { Settlement } from '../database/entities/settlement.entity';
+import { BPS_DENOMINATOR, assertBps } from '../prize/prize-split';
+import { SWAP_ADAPTER, SwapAdapter } from './swap-adapter';
+import { TOKEN_BURNER, TokenBurner } from './token-burner';
+
+export const BUYBACK_OPTIONS = Symbol('BUYBACK_OPTIONS');
+
+export interface BuybackOptions {
+  // Least the swap may return, below the quoted amount.
+  maxSlippageBps: number;
+  // Swaps that would move the pool's price further than this are not made.
+  maxPriceImpactBps: number;
+  maxAttempts: number;
+  tokenDecimals: number;
+}
+
+export const DEFAULT_BUYBACK_OPTIONS: BuybackOptions = {
+  maxSlippageBps: Number(process.env.BUYBACK_MAX_SLIPPAGE_BPS ?? 100),
+  maxPriceImpactBps: Number(process.env.BUYBACK_MAX_PRICE_IMPACT_BPS ?? 300),
+  maxAttempts: Number(process.env.BUYBACK_MAX_ATTEMPTS ?? 5),
+  tokenDecimals: Number(process.env.RUMBLE_DECIMALS ?? 6),
+};
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+export interface BurnTotals {
+  amountIn: bigint;
+  tokensBurned: bigint;
+  buybacks: number;
+}
+
+// Buys RUMBLE with each settlement's buyback share and burns it, keeping one record per settlement. A
+// failure is recorded and retried later rather than thrown, since the settlement is already committed.
+@Injectable()
+export class BuybackService {
+  private readonly logger = new Logger(BuybackService.name);
+  private readonly options: BuybackOptions;
+  // Work runs one piece at a time, so the scheduler never retries a buyback that is still being executed.
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    @InjectRepository(Buyback)
+    private readonly buybackRepository: Repository<Buyback>,
+    @Inject(SWAP_ADAPTER) private readonly swapAdapter: SwapAdapter,
+    @Inject(TOKEN_BURNER) private readonly burner: TokenBurner,
+    @Optional() @Inject(BUYBACK_OPTIONS) options?: Partial<BuybackOptions>,
+  ) {
+    this.options = { ...DEFAULT_BUYBACK_OPTIONS, ...(options ?? {}) };
+    assertBps(this.options.maxSlippageBps, 'Buyback slippage');
+    assertBps(this.options.maxPriceImpactBps, 'Buyback price impact');
+  }
+
+  // Calling it again for the same settlement returns the existing record.
+  async execute(settlement: Settlement, amount: bigint): Promise<Buyback> {
+    return this.exclusive(() => this.executeNow(settlement, amount));
+  }
+
+  // Picks up buybacks left unfinished by a failure or a restart.
+  async retryUnfinished(): Promise<Buyback[]> {
+    return this.exclusive(() => this.retryNow());
+  }
+
+  private async executeNow(settlement: Settlement, amount: bigint): Promise<Buyback> {
+    const existing = await this.buybackRepository.findOne({ where: { settlementId: settlement.id } });
+    if (existing) return existing;
+
+    const buyback = await this.buybackRepository.save(
+      this.buybackRepository.create({
+        game: settlement.game,
+        round: settlement.round,
+        settlementId: settlement.id,
+        status: amount > 0n ? BuybackStatus.Pending : BuybackStatus.Skipped,
+        venue: this.swapAdapter.name,
+        amountIn: amount,
+        attempts: 0,
+      }),
+    );
+    if (buyback.status === BuybackStatus.Pending) await this.advance(buyback);
+    return buyback;
+  }
+
+  private async retryNow(): Promise<Buyback[]> {
+    const buybacks = await this.buybackRepository.find({
+      where: [
+        { status: In([BuybackStatus.Pending, BuybackStatus.Submitted, BuybackStatus.Swapped]) },
+        { status: BuybackStatus.Failed, attempts: LessThan(this.options.maxAttempts) },
+      ],
+      order: { id: 'ASC' },
+    });
+    for (const buyback of buybacks) {
+      await this.advance(buyback);
+    }
+    return buybacks;
+  }
+
+  async listBuybacks(skip: number, take: number): Promise<[Buyback[], number]> {
+    return this.buybackRepository.findAndCount({ order: { id: 'DESC' }, skip, take });
+  }
+
+  async totals(): Promise<BurnTotals> {
+    const burned = await this.buybackRepository.find({ where: { status: BuybackStatus.Burned } });
+    return {
+      amountIn: burned.reduce((sum, b) => sum + b.amountIn, 0n),
+      tokensBurned: burned.reduce((sum, b) => sum + b.tokensBurned, 0n),
+      buybacks: burned.length,
+    };
+  }
+
+  private exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(work);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async advance(buyback: Buyback): Promise<void> {
+    // Following up a transaction that was already sent is not a new attempt.
+    if (buyback.status !== BuybackStatus.Submitted) buyback.attempts += 1;
+    try {
+      if (buyback.tokensBought == null && !(await this.swap(buyback))) return;
+      await this.burn(buyback);
+    } catch (error) {
+      buyback.status = BuybackStatus.Failed;
+      buyback.error = error.message;
+      await this.buybackRepository.save(buyback);
+      this.logger.error(`Buyback for game ${buyback.game} round ${buyback.round} failed: ${error.message}`);
+    }
+  }
+
+  // Resolves with whether the tokens have been bought; false while a transaction is still on its way. Every
+  // signature is saved before it is sent, and a transaction sent earlier is followed up before anything new
+  // is signed, so a retry after a crash or a failed save never swaps or wraps twice.
+  private async swap(buyback: Buyback): Promise<boolean> {
+    if (buyback.swapSignature) {
+      const sent = await this.swapAdapter.status(buyback.swapSignature, buyback.lastValidBlockHeight);
+      if (sent.status === 'pending') return false;
+      if (sent.status === 'landed') return this.swapped(buyback, sent.amountOut);
+      buyback.swapSignature = null;
+    }
+    let wrapped = false;
+    if (buyback.wrapSignature) {
+      const sent = await this.swapAdapter.status(buyback.wrapSignature, buyback.lastValidBlockHeight);
+      if (sent.status === 'pending') return false;
+      wrapped = sent.status === 'landed';
+      if (!wrapped) buyback.wrapSignature = null;
+    }
+
+    const { maxSlippageBps, maxPriceImpactBps } = this.options;
+    const quote = await this.swapAdapter.quote(buyback.amountIn, maxSlippageBps);
+    buyback.expectedTokens = quote.expectedAmountOut;
+    buyback.minimumTokens = quote.minimumAmountOut;
+    buyback.priceImpactBps = quote.priceImpactBps;
+
+    if (quote.priceImpactBps > maxPriceImpactBps) {
+      throw new Error(`Price impact of ${quote.priceImpactBps} bps exceeds the ${maxPriceImpactBps} bps limit.`);
+    }
+    // Adapters are trusted to honour the slippage they were given, but not blindly.
+    const floor = (quote.expectedAmountOut * (BPS_DENOMINATOR - BigInt(maxSlippageBps))) / BPS_DENOMINATOR;
+    if (quote.minimumAmountOut < floor) {
+      throw new Error(`Quote accepts ${quote.minimumAmountOut} tokens, below the ${maxSlippageBps} bps slippage floor of ${floor}.`);
+    }
+
+    for (const transaction of await this.swapAdapter.prepare(quote, wrapped)) {
+      buyback.status = BuybackStatus.Submitted;
+      if (transaction.kind === 'wrap') buyback.wrapSignature = transaction.signature;
+      else buyback.swapSignature = transaction.signature;
+      buyback.lastValidBlockHeight = transaction.lastValidBlockHeight;
+      await this.buybackRepository.save(buyback);
+
+      const sent = await this.swapAdapter.send(transaction);
+      if (sent.status === 'pending') return false;
+      if (sent.status === 'failed') throw new Error(sent.error);
+      if (transaction.kind === 'swap') return this.swapped(buyback, sent.amountOut);
+    }
+    throw new Error(`${this.swapAdapter.name} prepared no swap transaction.`);
+  }
+
+  private async swapped(buyback: Buyback, amountOut: bigint): Promise<boolean> {
+    buyback.status = BuybackStatus.Swapped;
+    buyback.tokensBought = amountOut;
+    buyback.price = amountOut > 0n ? solPerToken(buyback.amountIn, amountOut, this.options.tokenDecimals) : null;
+    buyback.error = null;
+    await this.buybackRepository.save(buyback);
+    return true;
+  }
+
+  // As with the swap, the burn's signature is saved before it is sent and a burn sent earlier is followed up
+  // before another is signed, so a retry never burns the same tokens twice.
+  private async burn(buyback: Buyback): Promise<void> {
+    if (buyback.burnSignature) {
+      const sent = await this.burner.status(buyback.burnSignature, buyback.lastValidBlockHeight);
+      if (sent.status === 'pending') return;
+      if (sent.status === 'landed') return this.burned(buyback);
+      buyback.burnSignature = null;
+    }
+
+    const transaction = await this.burner.prepare(buyback.tokensBought);
+    buyback.status = BuybackStatus.Submitted;
+    buyback.burnSignature = transaction.signature;
+    buyback.lastValidBlockHeight = transaction.lastValidBlockHeight;
+    await this.buybackRepository.save(buyback);
+
+    const sent = await this.burner.send(transaction);
+    if (sent.status === 'pending') return;
+    if (sent.status === 'failed') throw new Error(sent.error);
+    await this.burned(buyback);
+  }
+
+  private async burned(buyback: Buyback): Promise<void> {
+    buyback.status = BuybackStatus.Burned;
+    buyback.tokensBurned = buyback.tokensBought;
+    buyback.error = null;
+    await this.buybackRepository.save(buyback);
+    this.logger.log(`Bought back and burned ${buyback.tokensBurned} RUMBLE for ${buyback.amountIn} lamports (game ${buyback.game}).`);
+  }
+}
+
+function solPerToken(lamports: bigint, tokens: bigint, decimals: number): number {
+  return Number(lamports) / LAMPORTS_PER_SOL / (Number(tokens) / 10 ** decimals);
+}
@@ -0,0 +1,27 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiOkResponse, ApiTags } from '@nestjs/swagger';
+import { BuybackService } from './buyback.service';
+import { PaginationQueryDto, pageOptions } from '../game/dto/pagination.dto';
+import { BurnTotalsView, PaginatedBuybackView } from '../game/dto/game-views';
+import { toWire } from '../prize/lamports';
+
+// Public burn history: every settlement's buyback, newest first, and what has been burned in total.
+@ApiTags('buybacks')
+@Controller('buybacks')
+export class BuybacksController {
+  constructor(private readonly buybackService: BuybackService) {}
+
+  @Get()
+  @ApiOkResponse({ type: PaginatedBuybackView })
+  async listBuybacks(@Query() pagination: PaginationQueryDto) {
+    const { skip, take } = pageOptions(pagination);
+    const [items, total] = await this.buybackService.listBuybacks(skip, take);
+    return toWire({ items, total, ...pagination });
+  }
+
+  @Get('totals')
+  @ApiOkResponse({ type: BurnTotalsView })
+  async getTotals() {
+    return toWire(await this.buybackService.totals());
+  }
+}
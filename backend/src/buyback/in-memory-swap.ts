@@ -0,0 +1,96 @@
+import { Injectable } from '@nestjs/common';
+import { SwapAdapter, SwapQuote, SwapTransaction, SwapTransactionStatus } from './swap-adapter';
+import { BurnTransaction, BurnTransactionStatus, TokenBurner } from './token-burner';
+
+const BPS = 10_000n;
+
+// Swap stand-in for tests and offline development: a single constant-product SOL/RUMBLE pool.
+@Injectable()
+export class InMemorySwapAdapter implements SwapAdapter {
+  readonly name = 'in-memory';
+  private signed = 0;
+  private readonly quotes = new Map<string, SwapQuote>();
+  private readonly outcomes = new Map<string, SwapTransactionStatus>();
+  // Set to make the next swaps fail, as a swap reverted for slippage would.
+  failWith: Error | null = null;
+  // Set to wrap SOL in a transaction of its own ahead of each swap, as Raydium can.
+  wrapsSeparately = false;
+  readonly sent: SwapTransaction[] = [];
+
+  constructor(
+    public solReserve = 1_000_000_000_000n,
+    public tokenReserve = 1_000_000_000_000n,
+  ) {}
+
+  async quote(amountIn: bigint, slippageBps: number): Promise<SwapQuote> {
+    const expectedAmountOut = (this.tokenReserve * amountIn) / (this.solReserve + amountIn);
+    // Compared with the pool's spot price: what the same SOL would buy with no price movement at all.
+    const spotAmountOut = (this.tokenReserve * amountIn) / this.solReserve;
+    const priceImpactBps = spotAmountOut === 0n ? 0 : Number(((spotAmountOut - expectedAmountOut) * BPS) / spotAmountOut);
+
+    return {
+      amountIn,
+      expectedAmountOut,
+      minimumAmountOut: (expectedAmountOut * (BPS - BigInt(slippageBps))) / BPS,
+      priceImpactBps,
+      route: null,
+    };
+  }
+
+  async prepare(quote: SwapQuote, wrapped: boolean): Promise<SwapTransaction[]> {
+    const kinds: SwapTransaction['kind'][] = this.wrapsSeparately && !wrapped ? ['wrap', 'swap'] : ['swap'];
+    return kinds.map(kind => {
+      const signature = `${kind}-signature-${++this.signed}`;
+      this.quotes.set(signature, quote);
+      return { kind, signature, serialized: new Uint8Array(), lastValidBlockHeight: 150 };
+    });
+  }
+
+  async send(transaction: SwapTransaction): Promise<SwapTransactionStatus> {
+    this.sent.push(transaction);
+    if (this.failWith) throw this.failWith;
+    const outcome: SwapTransactionStatus =
+      transaction.kind === 'wrap' ? { status: 'landed', amountOut: 0n } : this.execute(this.quotes.get(transaction.signature));
+    this.outcomes.set(transaction.signature, outcome);
+    return outcome;
+  }
+
+  async status(signature: string): Promise<SwapTransactionStatus> {
+    return this.outcomes.get(signature) ?? { status: 'failed', error: `Swap transaction ${signature} expired before it landed.` };
+  }
+
+  private execute(quote: SwapQuote): SwapTransactionStatus {
+    const amountOut = (this.tokenReserve * quote.amountIn) / (this.solReserve + quote.amountIn);
+    if (amountOut < quote.minimumAmountOut) return { status: 'failed', error: 'Swap reverted: output below the minimum amount.' };
+
+    this.solReserve += quote.amountIn;
+    this.tokenReserve -= amountOut;
+    return { status: 'landed', amountOut };
+  }
+}
+
+@Injectable()
+export class InMemoryTokenBurner implements TokenBurner {
+  private signed = 0;
+  private readonly amounts = new Map<string, bigint>();
+  private readonly outcomes = new Map<string, BurnTransactionStatus>();
+  readonly burned: bigint[] = [];
+  failWith: Error | null = null;
+
+  async prepare(amount: bigint): Promise<BurnTransaction> {
+    const signature = `burn-signature-${++this.signed}`;
+    this.amounts.set(signature, amount);
+    return { signature, serialized: new Uint8Array(), lastValidBlockHeight: 150 };
+  }
+
+  async send(transaction: BurnTransaction): Promise<BurnTransactionStatus> {
+    if (this.failWith) throw this.failWith;
+    this.burned.push(this.amounts.get(transaction.signature));
+    this.outcomes.set(transaction.signature, { status: 'landed' });
+    return { status: 'landed' };
+  }
+
+  async status(signature: string): Promise<BurnTransactionStatus> {
+    return this.outcomes.get(signature) ?? { status: 'failed', error: `Burn transaction ${signature} expired before it landed.` };
+  }
+}
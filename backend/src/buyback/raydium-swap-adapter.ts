@@ -0,0 +1,130 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Connection,
+  Finality,
+  Keypair,
+  PublicKey,
+  TokenBalance,
+  VersionedTransaction,
+  VersionedTransactionResponse,
+} from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import * as bs58 from 'bs58';
+import { keypairFromEnv } from '../solana/keypair';
+import { SwapAdapter, SwapQuote, SwapTransaction, SwapTransactionStatus, WRAPPED_SOL_MINT } from './swap-adapter';
+
+interface RaydiumResponse<T> {
+  success: boolean;
+  msg?: string;
+  data: T;
+}
+
+// Quotes and swaps through Raydium's trade API, which routes across Raydium pools and returns the swap as
+// ready-to-sign transactions. Tokens are bought into the BUYBACK_SECRET_KEY account.
+@Injectable()
+export class RaydiumSwapAdapter implements SwapAdapter {
+  readonly name = 'raydium';
+  private readonly baseUrl = process.env.RAYDIUM_TRADE_API_URL ?? 'https://transaction-v1.raydium.io';
+  private readonly connection = new Connection(process.env.SOLANA_RPC_URL, 'confirmed');
+  private readonly mint = process.env.RUMBLE_MINT_ADDRESS;
+  private readonly priorityFeeMicroLamports = process.env.BUYBACK_PRIORITY_FEE_MICRO_LAMPORTS ?? '100000';
+  private loaded: Keypair | null = null;
+
+  private get owner(): Keypair {
+    this.loaded ??= keypairFromEnv('BUYBACK_SECRET_KEY');
+    return this.loaded;
+  }
+
+  async quote(amountIn: bigint, slippageBps: number): Promise<SwapQuote> {
+    const params = new URLSearchParams({
+      inputMint: WRAPPED_SOL_MINT,
+      outputMint: this.mint,
+      amount: amountIn.toString(),
+      slippageBps: String(slippageBps),
+      txVersion: 'V0',
+    });
+    const quote = await this.request<{ outputAmount: string; otherAmountThreshold: string; priceImpactPct: number }>(
+      `${this.baseUrl}/compute/swap-base-in?${params}`,
+    );
+
+    return {
+      amountIn,
+      expectedAmountOut: BigInt(quote.outputAmount),
+      minimumAmountOut: BigInt(quote.otherAmountThreshold),
+      priceImpactBps: Math.round(quote.priceImpactPct * 100),
+      route: quote,
+    };
+  }
+
+  async prepare(quote: SwapQuote, wrapped: boolean): Promise<SwapTransaction[]> {
+    const wallet = this.owner.publicKey;
+    const transactions = await this.request<{ transaction: string }[]>(`${this.baseUrl}/transaction/swap-base-in`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        computeUnitPriceMicroLamports: this.priorityFeeMicroLamports,
+        swapResponse: { success: true, data: quote.route },
+        txVersion: 'V0',
+        wallet: wallet.toBase58(),
+        wrapSol: !wrapped,
+        unwrapSol: false,
+        // SOL wrapped by an earlier attempt is spent from the wrapped SOL account instead.
+        ...(wrapped && { inputAccount: getAssociatedTokenAddressSync(new PublicKey(WRAPPED_SOL_MINT), wallet).toBase58() }),
+      }),
+    });
+
+    // Signed against our own blockhash so we know when each transaction expires.
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+    // Wrapping SOL can come as a separate transaction ahead of the swap itself; the last one is the swap.
+    return transactions.map(({ transaction: encoded }, i): SwapTransaction => {
+      const transaction = VersionedTransaction.deserialize(Buffer.from(encoded, 'base64'));
+      transaction.message.recentBlockhash = blockhash;
+      transaction.sign([this.owner]);
+      return {
+        kind: i === transactions.length - 1 ? 'swap' : 'wrap',
+        signature: bs58.encode(transaction.signatures[0]),
+        serialized: transaction.serialize(),
+        lastValidBlockHeight,
+      };
+    });
+  }
+
+  async send(transaction: SwapTransaction): Promise<SwapTransactionStatus> {
+    const { signature, lastValidBlockHeight } = transaction;
+    const blockhash = VersionedTransaction.deserialize(transaction.serialized).message.recentBlockhash;
+    await this.connection.sendRawTransaction(transaction.serialized, { maxRetries: 3 });
+    // Throws once it has expired or the wait times out; where it actually stands is checked below either way.
+    await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'finalized').catch(() => undefined);
+    return this.status(signature, lastValidBlockHeight);
+  }
+
+  async status(signature: string, lastValidBlockHeight: number): Promise<SwapTransactionStatus> {
+    const tx = await this.getTransaction(signature, 'finalized');
+    if (tx?.meta?.err) return { status: 'failed', error: `Swap transaction ${signature} failed on-chain: ${JSON.stringify(tx.meta.err)}` };
+    if (tx) return { status: 'landed', amountOut: this.tokensReceived(tx) };
+
+    // Not finalized. It is only given up once its blockhash has expired and it has not landed at any commitment either.
+    if ((await this.connection.getBlockHeight()) <= lastValidBlockHeight) return { status: 'pending' };
+    if (await this.getTransaction(signature, 'confirmed')) return { status: 'pending' };
+    return { status: 'failed', error: `Swap transaction ${signature} expired before it landed.` };
+  }
+
+  private getTransaction(signature: string, commitment: Finality): Promise<VersionedTransactionResponse | null> {
+    return this.connection.getTransaction(signature, { commitment, maxSupportedTransactionVersion: 0 });
+  }
+
+  private tokensReceived(tx: VersionedTransactionResponse): bigint {
+    const owner = this.owner.publicKey.toBase58();
+    const balance = (balances: TokenBalance[] = []) =>
+      BigInt(balances.find(b => b.owner === owner && b.mint === this.mint)?.uiTokenAmount.amount ?? '0');
+    return balance(tx.meta?.postTokenBalances) - balance(tx.meta?.preTokenBalances);
+  }
+
+  private async request<T>(url: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(url, init);
+    if (!response.ok) throw new Error(`Raydium answered ${response.status}.`);
+    const body: RaydiumResponse<T> = await response.json();
+    if (!body.success) throw new Error(`Raydium rejected the request: ${body.msg ?? 'unknown error'}.`);
+    return body.data;
+  }
+}
@@ -0,0 +1,46 @@
+export const SWAP_ADAPTER = Symbol('SWAP_ADAPTER');
+
+// Native SOL as an SPL mint, the input side of every buyback.
+export const WRAPPED_SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+// A quote for selling `amountIn` lamports of SOL for RUMBLE. Token amounts are in the mint's base units.
+export interface SwapQuote {
+  amountIn: bigint;
+  expectedAmountOut: bigint;
+  // The swap reverts on-chain rather than return less than this.
+  minimumAmountOut: bigint;
+  // How far the swap moves the pool's price, in basis points.
+  priceImpactBps: number;
+  // Whatever the adapter needs to execute exactly this quote.
+  route: unknown;
+}
+
+// One signed transaction of a swap. Its signature is fixed once signed, so it can be recorded before it is sent.
+export interface SwapTransaction {
+  // Wrapping SOL ahead of the swap, or the swap itself.
+  kind: 'wrap' | 'swap';
+  signature: string;
+  serialized: Uint8Array;
+  // Past this block height the transaction's blockhash has expired and it can no longer land.
+  lastValidBlockHeight: number;
+}
+
+export type SwapTransactionStatus =
+  // Tokens received are only known for the swap itself; a wrap reports 0.
+  | { status: 'landed'; amountOut: bigint }
+  | { status: 'pending' }
+  // Failed on-chain, or expired without landing.
+  | { status: 'failed'; error: string };
+
+// A DEX or aggregator the buyback can sell SOL for RUMBLE through.
+export interface SwapAdapter {
+  readonly name: string;
+  quote(amountIn: bigint, slippageBps: number): Promise<SwapQuote>;
+  // Signs the transactions that execute a quote, in the order they must land, without sending anything.
+  // `wrapped` says the SOL was already wrapped by an earlier attempt, so no wrap transaction is needed.
+  prepare(quote: SwapQuote, wrapped: boolean): Promise<SwapTransaction[]>;
+  // Sends a prepared transaction and waits until it lands, fails or expires.
+  send(transaction: SwapTransaction): Promise<SwapTransactionStatus>;
+  // Where a transaction sent earlier, possibly before a restart, stands now.
+  status(signature: string, lastValidBlockHeight: number): Promise<SwapTransactionStatus>;
+}
@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { Connection, Finality, Keypair, PublicKey, Transaction, VersionedTransactionResponse } from '@solana/web3.js';
+import { createBurnInstruction, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import * as bs58 from 'bs58';
+import { keypairFromEnv } from '../solana/keypair';
+
+export const TOKEN_BURNER = Symbol('TOKEN_BURNER');
+
+// A signed burn. Its signature is fixed once signed, so it can be recorded before it is sent.
+export interface BurnTransaction {
+  signature: string;
+  serialized: Uint8Array;
+  // Past this block height the transaction's blockhash has expired and it can no longer land.
+  lastValidBlockHeight: number;
+}
+
+export type BurnTransactionStatus =
+  | { status: 'landed' }
+  | { status: 'pending' }
+  // Failed on-chain, or expired without landing.
+  | { status: 'failed'; error: string };
+
+export interface TokenBurner {
+  // Signs a burn of `amount` base units of RUMBLE held by the buyback account, without sending it.
+  prepare(amount: bigint): Promise<BurnTransaction>;
+  // Sends a prepared burn and waits until it lands, fails or expires.
+  send(transaction: BurnTransaction): Promise<BurnTransactionStatus>;
+  // Where a burn sent earlier, possibly before a restart, stands now.
+  status(signature: string, lastValidBlockHeight: number): Promise<BurnTransactionStatus>;
+}
+
+// Burns from the buyback account's associated RUMBLE token account. BUYBACK_SECRET_KEY must be the same
+// account the swap adapter buys into.
+@Injectable()
+export class SplTokenBurner implements TokenBurner {
+  private readonly connection = new Connection(process.env.SOLANA_RPC_URL, 'confirmed');
+  private readonly mint = new PublicKey(process.env.RUMBLE_MINT_ADDRESS);
+  private loaded: Keypair | null = null;
+
+  private get owner(): Keypair {
+    this.loaded ??= keypairFromEnv('BUYBACK_SECRET_KEY');
+    return this.loaded;
+  }
+
+  async prepare(amount: bigint): Promise<BurnTransaction> {
+    const account = getAssociatedTokenAddressSync(this.mint, this.owner.publicKey);
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+    const transaction = new Transaction({ feePayer: this.owner.publicKey, blockhash, lastValidBlockHeight }).add(
+      createBurnInstruction(account, this.mint, this.owner.publicKey, amount),
+    );
+    transaction.sign(this.owner);
+    return { signature: bs58.encode(transaction.signature), serialized: transaction.serialize(), lastValidBlockHeight };
+  }
+
+  async send(transaction: BurnTransaction): Promise<BurnTransactionStatus> {
+    const { signature, lastValidBlockHeight } = transaction;
+    const blockhash = Transaction.from(transaction.serialized).recentBlockhash;
+    await this.connection.sendRawTransaction(transaction.serialized, { maxRetries: 3 });
+    // Throws once it has expired or the wait times out; where it actually stands is checked below either way.
+    await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'finalized').catch(() => undefined);
+    return this.status(signature, lastValidBlockHeight);
+  }
+
+  async status(signature: string, lastValidBlockHeight: number): Promise<BurnTransactionStatus> {
+    const tx = await this.getTransaction(signature, 'finalized');
+    if (tx?.meta?.err) return { status: 'failed', error: `Burn transaction ${signature} failed on-chain: ${JSON.stringify(tx.meta.err)}` };
+    if (tx) return { status: 'landed' };
+
+    // Not finalized. It is only given up once its blockhash has expired and it has not landed at any commitment either.
+    if ((await this.connection.getBlockHeight()) <= lastValidBlockHeight) return { status: 'pending' };
+    if (await this.getTransaction(signature, 'confirmed')) return { status: 'pending' };
+    return { status: 'failed', error: `Burn transaction ${signature} expired before it landed.` };
+  }
+
+  private getTransaction(signature: string, commitment: Finality): Promise<VersionedTransactionResponse | null> {
+    return this.connection.getTransaction(signature, { commitment, maxSupportedTransactionVersion: 0 });
+  }
+}
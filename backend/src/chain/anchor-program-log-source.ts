@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { BN, BorshCoder, EventParser } from '@project-serum/anchor';
+import { Connection, Finality, PublicKey } from '@solana/web3.js';
+import { IDL } from './idl/rumble';
+import { ProgramEvent, ProgramEventValue, ProgramLogSource, ProgramSignature, ProgramTransaction } from './program-log-source';
+
+// Reads the program's transactions over RPC and decodes the events Anchor wrote to their logs.
+@Injectable()
+export class AnchorProgramLogSource implements ProgramLogSource {
+  private readonly commitment = (process.env.INDEXER_COMMITMENT ?? 'finalized') as Finality;
+  private readonly connection = new Connection(process.env.SOLANA_RPC_URL, this.commitment);
+  private readonly programId = new PublicKey(process.env.RUMBLE_PROGRAM_ID);
+  private readonly parser = new EventParser(this.programId, new BorshCoder(IDL));
+
+  async signatures(options: { before?: string; until?: string; limit: number }): Promise<ProgramSignature[]> {
+    const signatures = await this.connection.getSignaturesForAddress(this.programId, options, this.commitment);
+    return signatures.map(s => ({ signature: s.signature, slot: s.slot, failed: s.err !== null }));
+  }
+
+  async transaction(signature: string): Promise<ProgramTransaction | null> {
+    const tx = await this.connection.getTransaction(signature, { commitment: this.commitment, maxSupportedTransactionVersion: 0 });
+    if (!tx) return null;
+
+    const message = tx.transaction.message;
+    const keys = message.getAccountKeys({ accountKeysFromLookups: tx.meta?.loadedAddresses });
+    const instruction = message.compiledInstructions.find(ix => keys.get(ix.programIdIndex)?.equals(this.programId));
+    const gameAccount = instruction?.accountKeyIndexes.length ? keys.get(instruction.accountKeyIndexes[0]).toBase58() : null;
+
+    return {
+      signature,
+      slot: tx.slot,
+      blockTime: tx.blockTime ? new Date(tx.blockTime * 1000) : null,
+      gameAccount,
+      events: [...this.parser.parseLogs(tx.meta?.logMessages ?? [])].map(event => ({
+        name: event.name as ProgramEvent['name'],
+        data: Object.fromEntries(Object.entries(event.data).map(([field, value]) => [field, decode(value)])),
+      })),
+    };
+  }
+}
+
+function decode(value: unknown): ProgramEventValue {
+  if (value instanceof PublicKey) return value.toBase58();
+  if (BN.isBN(value)) return BigInt((value as BN).toString());
+  if (Array.isArray(value)) return value.map(decode);
+  return value as ProgramEventValue;
+}
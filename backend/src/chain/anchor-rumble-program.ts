@@ -0,0 +1,166 @@
+import { Injectable } from '@nestjs/common';
+import { AnchorProvider, BN, BorshCoder, EventParser, Program, Wallet } from '@project-serum/anchor';
+import { Connection, Finality, Keypair, PublicKey, SystemProgram } from '@solana/web3.js';
+import { keypairFromEnv } from '../solana/keypair';
+import { RumbleError } from '../game/rumble.errors';
+import { IDL, Rumble } from './idl/rumble';
+import {
+  ChainStep,
+  InitializedOnChain,
+  OnChainGameState,
+  ProgramPayout,
+  ProgramScore,
+  RumbleProgramClient,
+  SettledOnChain,
+  toProgramScore,
+} from './rumble-program';
+
+// A transaction holds about 30 score entries; larger rounds are evaluated in several transactions.
+const SCORES_PER_TRANSACTION = 20;
+
+// Calls the deployed program at RUMBLE_PROGRAM_ID through Anchor, signing as RUMBLE_ADMIN_SECRET_KEY. Settlements
+// send the buyback share to BUYBACK_ADDRESS, the public key of BUYBACK_SECRET_KEY. Point SOLANA_RPC_URL at
+// `solana-test-validator` to run it against a local validator.
+@Injectable()
+export class AnchorRumbleProgram implements RumbleProgramClient {
+  private readonly commitment = (process.env.CHAIN_COMMITMENT ?? 'finalized') as Finality;
+  private loaded: Program<Rumble> | null = null;
+
+  private get program(): Program<Rumble> {
+    if (!this.loaded) {
+      const connection = new Connection(process.env.SOLANA_RPC_URL, this.commitment);
+      const wallet = new Wallet(keypairFromEnv('RUMBLE_ADMIN_SECRET_KEY'));
+      const provider = new AnchorProvider(connection, wallet, { commitment: this.commitment, preflightCommitment: 'confirmed' });
+      this.loaded = new Program<Rumble>(IDL, new PublicKey(process.env.RUMBLE_PROGRAM_ID), provider);
+    }
+    return this.loaded;
+  }
+
+  get authority(): string {
+    return this.program.provider.publicKey.toBase58();
+  }
+
+  get programId(): string {
+    return this.program.programId.toBase58();
+  }
+
+  async initialize(): Promise<InitializedOnChain> {
+    const gameState = Keypair.generate();
+    const step = await this.confirm(
+      this.program.methods
+        .initialize()
+        .accounts({
+          gameState: gameState.publicKey,
+          user: this.program.provider.publicKey,
+          systemProgram: SystemProgram.programId,
+        })
+        .signers([gameState])
+        .rpc({ commitment: this.commitment }),
+    );
+    return { ...step, account: gameState.publicKey.toBase58() };
+  }
+
+  async deposit(account: string, playerKey: string, amount: bigint): Promise<string> {
+    const player = new PublicKey(playerKey);
+    const transaction = await this.program.methods
+      .deposit(new BN(amount.toString()))
+      .accounts({ gameState: new PublicKey(account), player, systemProgram: SystemProgram.programId })
+      .transaction();
+    transaction.feePayer = player;
+    transaction.recentBlockhash = (await this.program.provider.connection.getLatestBlockhash('confirmed')).blockhash;
+    return transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).toString('base64');
+  }
+
+  async evaluateTradingActivity(account: string, scores: ProgramScore[]): Promise<ChainStep> {
+    let step: ChainStep;
+    for (let start = 0; start < Math.max(scores.length, 1); start += SCORES_PER_TRANSACTION) {
+      const batch = scores.slice(start, start + SCORES_PER_TRANSACTION).map(({ player, score }) => ({
+        player: new PublicKey(player),
+        score: toProgramScore(score),
+      }));
+      step = await this.confirm(
+        this.program.methods
+          .evaluateTradingActivity(batch)
+          .accounts({ gameState: new PublicKey(account), authority: this.program.provider.publicKey })
+          .rpc({ commitment: this.commitment }),
+      );
+    }
+    return step;
+  }
+
+  async selectWinners(account: string, payouts: ProgramPayout[], buybackAmount: bigint): Promise<SettledOnChain> {
+    const step = await this.confirm(
+      this.program.methods
+        .selectWinners(
+          payouts.map(({ player, amount }) => ({ player: new PublicKey(player), amount: new BN(amount.toString()) })),
+          new BN(buybackAmount.toString()),
+        )
+        .accounts({
+          gameState: new PublicKey(account),
+          authority: this.program.provider.publicKey,
+          buybackAccount: new PublicKey(process.env.BUYBACK_ADDRESS),
+        })
+        .remainingAccounts(payouts.map(({ player }) => ({ pubkey: new PublicKey(player), isWritable: true, isSigner: false })))
+        .rpc({ commitment: this.commitment }),
+    );
+
+    const tx = await this.program.provider.connection.getTransaction(step.signature, {
+      commitment: this.commitment,
+      maxSupportedTransactionVersion: 0,
+    });
+    const parser = new EventParser(this.program.programId, new BorshCoder(IDL));
+    for (const event of parser.parseLogs(tx?.meta?.logMessages ?? [])) {
+      if (event.name === 'WinnersSelectedEvent') {
+        return {
+          ...step,
+          winners: (event.data.winners as PublicKey[]).map(key => key.toBase58()),
+          prizes: (event.data.prizes as BN[]).map(toBigInt),
+          buybackAmount: toBigInt(event.data.buybackAmount as BN),
+        };
+      }
+    }
+    throw new Error(`select_winners transaction ${step.signature} emitted no WinnersSelectedEvent.`);
+  }
+
+  async resetGame(account: string): Promise<ChainStep> {
+    return this.confirm(
+      this.program.methods
+        .resetGame()
+        .accounts({ gameState: new PublicKey(account), authority: this.program.provider.publicKey })
+        .rpc({ commitment: this.commitment }),
+    );
+  }
+
+  async fetchGameState(account: string): Promise<OnChainGameState | null> {
+    const state = await this.program.account.gameState.fetchNullable(new PublicKey(account), this.commitment);
+    if (!state) return null;
+    const player = (p: (typeof state.players)[number]) => ({
+      key: p.key.toBase58(),
+      deposit: toBigInt(p.deposit),
+      tradingScore: p.tradingScore,
+    });
+    return {
+      totalDeposits: toBigInt(state.totalDeposits),
+      prizePool: toBigInt(state.prizePool),
+      active: state.active,
+      players: state.players.map(player),
+      winners: state.winners.map(player),
+      authority: state.authority.toBase58(),
+    };
+  }
+
+  private async confirm(send: Promise<string>): Promise<ChainStep> {
+    let signature: string;
+    try {
+      signature = await send;
+    } catch (error) {
+      throw RumbleError.fromProgramError(error) ?? error;
+    }
+    const { value } = await this.program.provider.connection.getSignatureStatus(signature);
+    return { signature, slot: value?.slot ?? null };
+  }
+}
+
+function toBigInt(value: BN): bigint {
+  return BigInt(value.toString());
+}
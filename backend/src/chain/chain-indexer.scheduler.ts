@@ -0,0 +1,31 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { ChainIndexerService } from './chain-indexer.service';
+
+@Injectable()
+export class ChainIndexerScheduler implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ChainIndexerScheduler.name);
+  private running = false;
+
+  constructor(private readonly indexerService: ChainIndexerService) {}
+
+  // INDEXER_BACKFILL=true re-walks the history older than the checkpoint once at startup.
+  onApplicationBootstrap() {
+    if (process.env.INDEXER_BACKFILL === 'true') {
+      this.indexerService.backfill().catch(error => this.logger.error(`Error backfilling program events: ${error.message}`));
+    }
+  }
+
+  @Interval(Number(process.env.INDEXER_POLL_INTERVAL_MS ?? 10_000))
+  async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.indexerService.sync();
+    } catch (error) {
+      this.logger.error(`Error indexing program events: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
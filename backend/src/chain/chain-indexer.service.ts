@@ -0,0 +1,123 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ChainEvent } from '../database/entities/chain-event.entity';
+import { IndexerCheckpoint } from '../database/entities/indexer-checkpoint.entity';
+import { GameState } from '../database/entities/game-state.entity';
+import { toWire } from '../prize/lamports';
+import { PROGRAM_LOG_SOURCE, ProgramLogSource, ProgramSignature, ProgramTransaction } from './program-log-source';
+
+const CHECKPOINT = 'rumble-program';
+const PAGE_SIZE = 1000;
+
+export interface IndexResult {
+  transactions: number;
+  events: number;
+}
+
+// Follows the program's transaction history, storing every event it emitted with its slot and signature.
+// The newest transaction processed is kept as a checkpoint, so a restart resumes where the last run stopped.
+// Nothing is relayed from here. Only the authority can evaluate, settle or reset a game, so GameService has
+// already emitted those steps, and a deposit is announced when it is credited: the indexer can see one
+// before the player submits it, or one that is never credited at all.
+@Injectable()
+export class ChainIndexerService {
+  private readonly logger = new Logger(ChainIndexerService.name);
+  // Runs one at a time, so the scheduler and a backfill never index the same transaction together.
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    @InjectRepository(ChainEvent)
+    private readonly chainEventRepository: Repository<ChainEvent>,
+    @InjectRepository(IndexerCheckpoint)
+    private readonly checkpointRepository: Repository<IndexerCheckpoint>,
+    @InjectRepository(GameState)
+    private readonly gameStateRepository: Repository<GameState>,
+    @Optional() @Inject(PROGRAM_LOG_SOURCE) private readonly source: ProgramLogSource | null = null,
+  ) {}
+
+  // Indexes everything newer than the checkpoint. The first run has no checkpoint and indexes the whole
+  // history.
+  async sync(): Promise<IndexResult> {
+    return this.exclusive(async () => {
+      if (!this.source) return { transactions: 0, events: 0 };
+      const checkpoint = await this.checkpointRepository.findOne({ where: { name: CHECKPOINT } });
+      const signatures = await this.history({ until: checkpoint?.signature ?? undefined });
+      if (!checkpoint && signatures.length === 0) {
+        // The program has no history yet, so everything from here on is new.
+        await this.checkpointRepository.save(this.checkpointRepository.create({ name: CHECKPOINT, signature: null, slot: 0 }));
+      }
+      return this.index(signatures, { advance: true });
+    });
+  }
+
+  // Walks the history older than the checkpoint again and stores any event that is missing.
+  async backfill(): Promise<IndexResult> {
+    return this.exclusive(async () => {
+      if (!this.source) return { transactions: 0, events: 0 };
+      const checkpoint = await this.checkpointRepository.findOne({ where: { name: CHECKPOINT } });
+      const signatures = await this.history({ before: checkpoint?.signature ?? undefined });
+      return this.index(signatures, { advance: !checkpoint });
+    });
+  }
+
+  private exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(work);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Signatures between `before` and `until`, oldest first.
+  private async history(range: { before?: string; until?: string }): Promise<ProgramSignature[]> {
+    const signatures: ProgramSignature[] = [];
+    let page: ProgramSignature[];
+    do {
+      const before = signatures.length > 0 ? signatures[signatures.length - 1].signature : range.before;
+      page = await this.source.signatures({ before, until: range.until, limit: PAGE_SIZE });
+      signatures.push(...page);
+    } while (page.length === PAGE_SIZE);
+    return signatures.reverse();
+  }
+
+  private async index(signatures: ProgramSignature[], options: { advance: boolean }): Promise<IndexResult> {
+    const result: IndexResult = { transactions: 0, events: 0 };
+    for (const { signature, slot, failed } of signatures) {
+      // A failed transaction changed nothing, whatever its logs say.
+      if (!failed) {
+        const tx = await this.source.transaction(signature);
+        if (!tx) throw new Error(`Transaction ${signature} is not available yet.`);
+        result.events += await this.store(tx);
+      }
+      result.transactions += 1;
+      if (options.advance) {
+        await this.checkpointRepository.save(this.checkpointRepository.create({ name: CHECKPOINT, signature, slot }));
+      }
+    }
+    if (result.events > 0) {
+      this.logger.log(`Indexed ${result.events} program events from ${result.transactions} transactions.`);
+    }
+    return result;
+  }
+
+  private async store(tx: ProgramTransaction): Promise<number> {
+    const game = tx.gameAccount ? await this.gameStateRepository.findOne({ where: { programAccount: tx.gameAccount } }) : null;
+    let stored = 0;
+    for (const [index, event] of tx.events.entries()) {
+      if (await this.chainEventRepository.findOne({ where: { signature: tx.signature, index } })) continue;
+      await this.chainEventRepository.save(
+        this.chainEventRepository.create({
+          signature: tx.signature,
+          index,
+          slot: tx.slot,
+          blockTime: tx.blockTime,
+          name: event.name,
+          programAccount: tx.gameAccount,
+          game: game?.gameId ?? null,
+          data: toWire(event.data),
+        }),
+      );
+      stored += 1;
+    }
+    return stored;
+  }
+}
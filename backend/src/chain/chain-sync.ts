@@ -0,0 +1,91 @@
+import { OnChainGameState, SettledOnChain, toProgramScore } from './rumble-program';
+
+// How the database and the program are kept in step for games with a program account:
+//  - each lifecycle step is submitted and confirmed on-chain before anything is written, so a rejected or
+//    unconfirmed step throws and leaves the database as it was. Settlement only marks the game Settling
+//    first, so that the game's lock is not held while the payment is confirmed;
+//  - once written, the account is read back and compared with what the database now holds;
+//  - differences are never resolved automatically. They are recorded on the game, which is held (later
+//    steps fail with ChainOutOfSync) until reconciliation clears them.
+export interface ChainDiscrepancy {
+  // Lifecycle step after which the difference was found.
+  step: string;
+  field: string;
+  playerKey?: string;
+  database: string;
+  chain: string;
+  detectedAt: string;
+}
+
+// What the database says the account should hold. Only the fields given are compared.
+export interface ExpectedChainState {
+  totalDeposits?: bigint;
+  prizePool?: bigint;
+  active?: boolean;
+  deposits?: Map<string, bigint>;
+  scores?: Map<string, number>;
+  winners?: string[];
+}
+
+export function findDiscrepancies(
+  step: string,
+  expected: ExpectedChainState,
+  chain: OnChainGameState | null,
+  now: Date = new Date(),
+): ChainDiscrepancy[] {
+  const { found, differ } = collector(step, now);
+
+  if (!chain) {
+    differ('account', 'present', 'missing');
+    return found;
+  }
+  if (expected.totalDeposits !== undefined) differ('totalDeposits', expected.totalDeposits, chain.totalDeposits);
+  if (expected.prizePool !== undefined) differ('prizePool', expected.prizePool, chain.prizePool);
+  if (expected.active !== undefined) differ('active', expected.active, chain.active);
+
+  const onChain = new Map(chain.players.map(p => [p.key, p]));
+  for (const [playerKey, deposit] of expected.deposits ?? []) {
+    differ('deposit', deposit, onChain.get(playerKey)?.deposit ?? 'none', playerKey);
+  }
+  for (const [playerKey, score] of expected.scores ?? []) {
+    differ('tradingScore', toProgramScore(score), onChain.get(playerKey)?.tradingScore ?? 'none', playerKey);
+  }
+  if (expected.winners) {
+    differ('winners', [...expected.winners].sort().join(','), chain.winners.map(w => w.key).sort().join(','));
+  }
+  return found;
+}
+
+// What the program reports it paid, compared with the prizes the database recorded.
+export function findPayoutDiscrepancies(
+  step: string,
+  prizes: Map<string, bigint>,
+  buybackAmount: bigint,
+  settled: SettledOnChain,
+  now: Date = new Date(),
+): ChainDiscrepancy[] {
+  const { found, differ } = collector(step, now);
+  const paid = new Map(settled.winners.map((playerKey, i) => [playerKey, settled.prizes[i]]));
+  for (const playerKey of new Set([...prizes.keys(), ...paid.keys()])) {
+    differ('prize', prizes.get(playerKey) ?? 0n, paid.get(playerKey) ?? 0n, playerKey);
+  }
+  differ('buybackAmount', buybackAmount, settled.buybackAmount);
+  return found;
+}
+
+function collector(step: string, now: Date) {
+  const found: ChainDiscrepancy[] = [];
+  const differ = (field: string, database: unknown, onChain: unknown, playerKey?: string) => {
+    if (String(database) !== String(onChain)) {
+      found.push({
+        step,
+        field,
+        ...(playerKey ? { playerKey } : {}),
+        database: String(database),
+        chain: String(onChain),
+        detectedAt: now.toISOString(),
+      });
+    }
+  };
+  return { found, differ };
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ChainEvent } from '../database/entities/chain-event.entity';
+import { IndexerCheckpoint } from '../database/entities/indexer-checkpoint.entity';
+import { GameState } from '../database/entities/game-state.entity';
+import { AnchorRumbleProgram } from './anchor-rumble-program';
+import { AnchorProgramLogSource } from './anchor-program-log-source';
+import { RUMBLE_PROGRAM } from './rumble-program';
+import { PROGRAM_LOG_SOURCE } from './program-log-source';
+import { ChainIndexerService } from './chain-indexer.service';
+import { ChainIndexerScheduler } from './chain-indexer.scheduler';
+
+// Games only run through the program when RUMBLE_PROGRAM_ID is configured; otherwise the client and the
+// log source are null and the indexer does nothing.
+@Module({
+  imports: [TypeOrmModule.forFeature([ChainEvent, IndexerCheckpoint, GameState])],
+  providers: [
+    {
+      provide: RUMBLE_PROGRAM,
+      useFactory: () => (process.env.RUMBLE_PROGRAM_ID ? new AnchorRumbleProgram() : null),
+    },
+    {
+      provide: PROGRAM_LOG_SOURCE,
+      useFactory: () => (process.env.RUMBLE_PROGRAM_ID ? new AnchorProgramLogSource() : null),
+    },
+    ChainIndexerService,
+    ChainIndexerScheduler,
+  ],
+  exports: [RUMBLE_PROGRAM, ChainIndexerService],
+})
+export class ChainModule {}
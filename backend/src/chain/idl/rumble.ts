@@ -0,0 +1,297 @@
+// Copied from contracts/target/types/rumble.ts as written by `anchor build`. Regenerate it whenever the
+// program's instructions, accounts, events or errors change.
+export type Rumble = {
+  version: '0.1.0';
+  name: 'rumble';
+  instructions: [
+    {
+      name: 'initialize';
+      accounts: [
+        { name: 'gameState'; isMut: true; isSigner: true },
+        { name: 'user'; isMut: true; isSigner: true },
+        { name: 'systemProgram'; isMut: false; isSigner: false },
+      ];
+      args: [];
+    },
+    {
+      name: 'deposit';
+      accounts: [
+        { name: 'gameState'; isMut: true; isSigner: false },
+        { name: 'player'; isMut: true; isSigner: true },
+        { name: 'systemProgram'; isMut: false; isSigner: false },
+      ];
+      args: [{ name: 'amount'; type: 'u64' }];
+    },
+    {
+      name: 'evaluateTradingActivity';
+      accounts: [
+        { name: 'gameState'; isMut: true; isSigner: false },
+        { name: 'authority'; isMut: false; isSigner: true },
+      ];
+      args: [{ name: 'scores'; type: { vec: { defined: 'ScoreEntry' } } }];
+    },
+    {
+      name: 'selectWinners';
+      accounts: [
+        { name: 'gameState'; isMut: true; isSigner: false },
+        { name: 'authority'; isMut: false; isSigner: true },
+        { name: 'buybackAccount'; isMut: true; isSigner: false },
+      ];
+      args: [
+        { name: 'payouts'; type: { vec: { defined: 'PayoutEntry' } } },
+        { name: 'buybackAmount'; type: 'u64' },
+      ];
+    },
+    {
+      name: 'resetGame';
+      accounts: [
+        { name: 'gameState'; isMut: true; isSigner: false },
+        { name: 'authority'; isMut: false; isSigner: true },
+      ];
+      args: [];
+    },
+  ];
+  accounts: [
+    {
+      name: 'gameState';
+      type: {
+        kind: 'struct';
+        fields: [
+          { name: 'totalDeposits'; type: 'u64' },
+          { name: 'prizePool'; type: 'u64' },
+          { name: 'active'; type: 'bool' },
+          { name: 'players'; type: { vec: { defined: 'Player' } } },
+          { name: 'winners'; type: { vec: { defined: 'Player' } } },
+          { name: 'gameId'; type: 'publicKey' },
+          { name: 'authority'; type: 'publicKey' },
+        ];
+      };
+    },
+  ];
+  types: [
+    {
+      name: 'Player';
+      type: {
+        kind: 'struct';
+        fields: [
+          { name: 'key'; type: 'publicKey' },
+          { name: 'deposit'; type: 'u64' },
+          { name: 'tradingScore'; type: 'u32' },
+          { name: 'lastActive'; type: 'i64' },
+        ];
+      };
+    },
+    {
+      name: 'ScoreEntry';
+      type: {
+        kind: 'struct';
+        fields: [
+          { name: 'player'; type: 'publicKey' },
+          { name: 'score'; type: 'u32' },
+        ];
+      };
+    },
+    {
+      name: 'PayoutEntry';
+      type: {
+        kind: 'struct';
+        fields: [
+          { name: 'player'; type: 'publicKey' },
+          { name: 'amount'; type: 'u64' },
+        ];
+      };
+    },
+  ];
+  events: [
+    {
+      name: 'DepositEvent';
+      fields: [
+        { name: 'player'; type: 'publicKey'; index: false },
+        { name: 'amount'; type: 'u64'; index: false },
+        { name: 'timestamp'; type: 'i64'; index: false },
+      ];
+    },
+    {
+      name: 'TradingEvaluationEvent';
+      fields: [
+        { name: 'gameId'; type: 'publicKey'; index: false },
+        { name: 'timestamp'; type: 'i64'; index: false },
+      ];
+    },
+    {
+      name: 'WinnersSelectedEvent';
+      fields: [
+        { name: 'gameId'; type: 'publicKey'; index: false },
+        { name: 'winners'; type: { vec: 'publicKey' }; index: false },
+        { name: 'prizes'; type: { vec: 'u64' }; index: false },
+        { name: 'buybackAmount'; type: 'u64'; index: false },
+        { name: 'timestamp'; type: 'i64'; index: false },
+      ];
+    },
+    {
+      name: 'GameResetEvent';
+      fields: [
+        { name: 'gameId'; type: 'publicKey'; index: false },
+        { name: 'timestamp'; type: 'i64'; index: false },
+      ];
+    },
+  ];
+  errors: [
+    { code: 6000; name: 'InvalidDeposit'; msg: 'Invalid deposit amount.' },
+    { code: 6001; name: 'NoDeposits'; msg: 'No deposits found.' },
+    { code: 6002; name: 'GameAlreadyActive'; msg: 'Game is already active.' },
+    { code: 6003; name: 'Overflow'; msg: 'Overflow occurred during deposit.' },
+    { code: 6004; name: 'DivisionByZero'; msg: 'Division by zero.' },
+    { code: 6005; name: 'WinnerAccountNotFound'; msg: 'Winner account not found.' },
+    { code: 6006; name: 'GameNotActive'; msg: 'Game is not active.' },
+    { code: 6007; name: 'InvalidPayout'; msg: "Payouts do not match the game's players or pool." },
+  ];
+};
+
+export const IDL: Rumble = {
+  version: '0.1.0',
+  name: 'rumble',
+  instructions: [
+    {
+      name: 'initialize',
+      accounts: [
+        { name: 'gameState', isMut: true, isSigner: true },
+        { name: 'user', isMut: true, isSigner: true },
+        { name: 'systemProgram', isMut: false, isSigner: false },
+      ],
+      args: [],
+    },
+    {
+      name: 'deposit',
+      accounts: [
+        { name: 'gameState', isMut: true, isSigner: false },
+        { name: 'player', isMut: true, isSigner: true },
+        { name: 'systemProgram', isMut: false, isSigner: false },
+      ],
+      args: [{ name: 'amount', type: 'u64' }],
+    },
+    {
+      name: 'evaluateTradingActivity',
+      accounts: [
+        { name: 'gameState', isMut: true, isSigner: false },
+        { name: 'authority', isMut: false, isSigner: true },
+      ],
+      args: [{ name: 'scores', type: { vec: { defined: 'ScoreEntry' } } }],
+    },
+    {
+      name: 'selectWinners',
+      accounts: [
+        { name: 'gameState', isMut: true, isSigner: false },
+        { name: 'authority', isMut: false, isSigner: true },
+        { name: 'buybackAccount', isMut: true, isSigner: false },
+      ],
+      args: [
+        { name: 'payouts', type: { vec: { defined: 'PayoutEntry' } } },
+        { name: 'buybackAmount', type: 'u64' },
+      ],
+    },
+    {
+      name: 'resetGame',
+      accounts: [
+        { name: 'gameState', isMut: true, isSigner: false },
+        { name: 'authority', isMut: false, isSigner: true },
+      ],
+      args: [],
+    },
+  ],
+  accounts: [
+    {
+      name: 'gameState',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'totalDeposits', type: 'u64' },
+          { name: 'prizePool', type: 'u64' },
+          { name: 'active', type: 'bool' },
+          { name: 'players', type: { vec: { defined: 'Player' } } },
+          { name: 'winners', type: { vec: { defined: 'Player' } } },
+          { name: 'gameId', type: 'publicKey' },
+          { name: 'authority', type: 'publicKey' },
+        ],
+      },
+    },
+  ],
+  types: [
+    {
+      name: 'Player',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'key', type: 'publicKey' },
+          { name: 'deposit', type: 'u64' },
+          { name: 'tradingScore', type: 'u32' },
+          { name: 'lastActive', type: 'i64' },
+        ],
+      },
+    },
+    {
+      name: 'ScoreEntry',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'player', type: 'publicKey' },
+          { name: 'score', type: 'u32' },
+        ],
+      },
+    },
+    {
+      name: 'PayoutEntry',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'player', type: 'publicKey' },
+          { name: 'amount', type: 'u64' },
+        ],
+      },
+    },
+  ],
+  events: [
+    {
+      name: 'DepositEvent',
+      fields: [
+        { name: 'player', type: 'publicKey', index: false },
+        { name: 'amount', type: 'u64', index: false },
+        { name: 'timestamp', type: 'i64', index: false },
+      ],
+    },
+    {
+      name: 'TradingEvaluationEvent',
+      fields: [
+        { name: 'gameId', type: 'publicKey', index: false },
+        { name: 'timestamp', type: 'i64', index: false },
+      ],
+    },
+    {
+      name: 'WinnersSelectedEvent',
+      fields: [
+        { name: 'gameId', type: 'publicKey', index: false },
+        { name: 'winners', type: { vec: 'publicKey' }, index: false },
+        { name: 'prizes', type: { vec: 'u64' }, index: false },
+        { name: 'buybackAmount', type: 'u64', index: false },
+        { name: 'timestamp', type: 'i64', index: false },
+      ],
+    },
+    {
+      name: 'GameResetEvent',
+      fields: [
+        { name: 'gameId', type: 'publicKey', index: false },
+        { name: 'timestamp', type: 'i64', index: false },
+      ],
+    },
+  ],
+  errors: [
+    { code: 6000, name: 'InvalidDeposit', msg: 'Invalid deposit amount.' },
+    { code: 6001, name: 'NoDeposits', msg: 'No deposits found.' },
+    { code: 6002, name: 'GameAlreadyActive', msg: 'Game is already active.' },
+    { code: 6003, name: 'Overflow', msg: 'Overflow occurred during deposit.' },
+    { code: 6004, name: 'DivisionByZero', msg: 'Division by zero.' },
+    { code: 6005, name: 'WinnerAccountNotFound', msg: 'Winner account not found.' },
+    { code: 6006, name: 'GameNotActive', msg: 'Game is not active.' },
+    { code: 6007, name: 'InvalidPayout', msg: "Payouts do not match the game's players or pool." },
+  ],
+};
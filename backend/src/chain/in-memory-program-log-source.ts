@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common';
+import { ProgramLogSource, ProgramSignature, ProgramTransaction } from './program-log-source';
+
+// Program history held in memory for tests, in the order it was recorded.
+@Injectable()
+export class InMemoryProgramLogSource implements ProgramLogSource {
+  private readonly history: ProgramSignature[] = [];
+  private readonly transactions = new Map<string, ProgramTransaction>();
+
+  record(transaction: Omit<ProgramTransaction, 'slot' | 'blockTime'>, failed = false): ProgramTransaction {
+    const recorded = { ...transaction, slot: this.history.length + 1, blockTime: null };
+    this.history.push({ signature: recorded.signature, slot: recorded.slot, failed });
+    this.transactions.set(recorded.signature, recorded);
+    return recorded;
+  }
+
+  async signatures(options: { before?: string; until?: string; limit: number }): Promise<ProgramSignature[]> {
+    const newestFirst = [...this.history].reverse();
+    const start = options.before ? newestFirst.findIndex(s => s.signature === options.before) + 1 : 0;
+    const end = options.until ? newestFirst.findIndex(s => s.signature === options.until) : -1;
+    return newestFirst.slice(start, end === -1 ? undefined : end).slice(0, options.limit);
+  }
+
+  async transaction(signature: string): Promise<ProgramTransaction | null> {
+    return this.transactions.get(signature) ?? null;
+  }
+}
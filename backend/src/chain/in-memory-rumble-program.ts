@@ -0,0 +1,137 @@
+import { Injectable } from '@nestjs/common';
+import { RumbleError } from '../game/rumble.errors';
+import { U64_MAX } from '../prize/lamports';
+import {
+  ChainStep,
+  InitializedOnChain,
+  OnChainGameState,
+  OnChainPlayer,
+  ProgramPayout,
+  ProgramScore,
+  RumbleProgramClient,
+  SettledOnChain,
+  toProgramScore,
+} from './rumble-program';
+
+// In-process stand-in for the program for tests and offline development. It applies the rules of
+// contracts/rumble.rs to accounts held in memory, and a call that fails changes nothing.
+@Injectable()
+export class InMemoryRumbleProgram implements RumbleProgramClient {
+  private readonly accounts = new Map<string, OnChainGameState>();
+  private slot = 0;
+  readonly authority = 'rumble-authority';
+  readonly programId = 'rumble-program';
+  // Lamports the program has paid to each winner.
+  readonly balances = new Map<string, bigint>();
+  // Lamports the program has moved to the buyback account.
+  boughtBack = 0n;
+  // Makes every call fail as if the cluster were unreachable.
+  failWith: Error | null = null;
+
+  async initialize(): Promise<InitializedOnChain> {
+    this.assertReachable();
+    const account = `game-state-${this.accounts.size + 1}`;
+    this.accounts.set(account, {
+      totalDeposits: 0n,
+      prizePool: 0n,
+      active: false,
+      players: [],
+      winners: [],
+      authority: this.authority,
+    });
+    return { ...this.step(), account };
+  }
+
+  // There is no player to sign in memory, so the deposit lands as soon as it is built.
+  async deposit(account: string, playerKey: string, amount: bigint): Promise<string> {
+    this.assertReachable();
+    const state = this.state(account);
+    if (amount <= 0n) throw new RumbleError.InvalidDeposit({ amount });
+    const player = state.players.find(p => p.key === playerKey);
+    if ((player?.deposit ?? 0n) + amount > U64_MAX || state.prizePool + amount > U64_MAX) {
+      throw new RumbleError.Overflow({ amount });
+    }
+
+    if (player) {
+      player.deposit += amount;
+    } else {
+      state.players.push({ key: playerKey, deposit: amount, tradingScore: 0 });
+    }
+    state.totalDeposits += amount;
+    state.prizePool += amount;
+    return Buffer.from(`deposit:${account}:${playerKey}:${amount}:${this.step().signature}`).toString('base64');
+  }
+
+  async evaluateTradingActivity(account: string, scores: ProgramScore[]): Promise<ChainStep> {
+    this.assertReachable();
+    const state = this.state(account);
+    for (const { player: key, score } of scores) {
+      const player = state.players.find(p => p.key === key);
+      if (player) player.tradingScore = toProgramScore(score);
+    }
+    return this.step();
+  }
+
+  async selectWinners(account: string, payouts: ProgramPayout[], buybackAmount: bigint): Promise<SettledOnChain> {
+    this.assertReachable();
+    const state = this.state(account);
+    if (state.active) throw new RumbleError.GameAlreadyActive();
+    if (state.totalDeposits === 0n) throw new RumbleError.NoDeposits();
+
+    const winners: OnChainPlayer[] = [];
+    let total = buybackAmount;
+    for (const { player: key, amount } of payouts) {
+      const player = state.players.find(p => p.key === key);
+      if (!player || winners.some(w => w.key === key)) throw new RumbleError.InvalidPayout({ playerKey: key });
+      winners.push(player);
+      total += amount;
+    }
+    if (total > U64_MAX) throw new RumbleError.Overflow({ total });
+    if (total > state.prizePool) throw new RumbleError.InvalidPayout({ total, prizePool: state.prizePool });
+
+    for (const { player, amount } of payouts) {
+      this.balances.set(player, (this.balances.get(player) ?? 0n) + amount);
+    }
+    this.boughtBack += buybackAmount;
+    state.winners = winners.map(w => ({ ...w }));
+    state.totalDeposits = 0n;
+    state.prizePool -= total;
+    state.active = true;
+    return { ...this.step(), winners: payouts.map(p => p.player), prizes: payouts.map(p => p.amount), buybackAmount };
+  }
+
+  async resetGame(account: string): Promise<ChainStep> {
+    this.assertReachable();
+    const state = this.state(account);
+    if (!state.active) throw new RumbleError.GameNotActive();
+
+    Object.assign(state, { active: false, players: [], winners: [], totalDeposits: 0n });
+    return this.step();
+  }
+
+  async fetchGameState(account: string): Promise<OnChainGameState | null> {
+    this.assertReachable();
+    const state = this.accounts.get(account);
+    if (!state) return null;
+    return {
+      ...state,
+      players: state.players.map(p => ({ ...p })),
+      winners: state.winners.map(p => ({ ...p })),
+    };
+  }
+
+  private state(account: string): OnChainGameState {
+    const state = this.accounts.get(account);
+    if (!state) throw new Error(`Account ${account} does not exist.`);
+    return state;
+  }
+
+  private assertReachable(): void {
+    if (this.failWith) throw this.failWith;
+  }
+
+  private step(): ChainStep {
+    this.slot += 1;
+    return { signature: `program-signature-${this.slot}`, slot: this.slot };
+  }
+}
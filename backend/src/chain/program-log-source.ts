@@ -0,0 +1,35 @@
+export const PROGRAM_LOG_SOURCE = Symbol('PROGRAM_LOG_SOURCE');
+
+export type ProgramEventName = 'DepositEvent' | 'TradingEvaluationEvent' | 'WinnersSelectedEvent' | 'GameResetEvent';
+
+// Decoded field values: public keys as base58, integers wider than 32 bits as bigint.
+export type ProgramEventValue = string | number | boolean | bigint | ProgramEventValue[];
+
+export interface ProgramEvent {
+  name: ProgramEventName;
+  data: Record<string, ProgramEventValue>;
+}
+
+export interface ProgramSignature {
+  signature: string;
+  slot: number;
+  failed: boolean;
+}
+
+export interface ProgramTransaction {
+  signature: string;
+  slot: number;
+  blockTime: Date | null;
+  // GameState account the program instruction ran against, the first account of every instruction.
+  gameAccount: string | null;
+  // In the order the program emitted them.
+  events: ProgramEvent[];
+}
+
+// Transaction history of the Rumble program, read at a commitment where it can no longer roll back.
+export interface ProgramLogSource {
+  // Newest first, like getSignaturesForAddress: at most `limit` signatures older than `before` and newer
+  // than `until`.
+  signatures(options: { before?: string; until?: string; limit: number }): Promise<ProgramSignature[]>;
+  transaction(signature: string): Promise<ProgramTransaction | null>;
+}
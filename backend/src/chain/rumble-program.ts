@@ -0,0 +1,75 @@
+export const RUMBLE_PROGRAM = Symbol('RUMBLE_PROGRAM');
+
+// A program call that has been confirmed at the client's commitment.
+export interface ChainStep {
+  signature: string;
+  slot: number;
+}
+
+export interface InitializedOnChain extends ChainStep {
+  // Address of the new GameState account.
+  account: string;
+}
+
+// A prize the program is told to pay.
+export interface ProgramPayout {
+  player: string;
+  amount: bigint;
+}
+
+// What the program paid out, as reported by its WinnersSelectedEvent.
+export interface SettledOnChain extends ChainStep {
+  winners: string[];
+  // Lamports paid to each of `winners`, in the same order.
+  prizes: bigint[];
+  buybackAmount: bigint;
+}
+
+export interface OnChainPlayer {
+  key: string;
+  deposit: bigint;
+  tradingScore: number;
+}
+
+// The program's GameState account.
+export interface OnChainGameState {
+  totalDeposits: bigint;
+  // This round's deposits plus whatever earlier rounds left unpaid.
+  prizePool: bigint;
+  // The program marks a game active once winners are paid, and clears it on reset.
+  active: boolean;
+  players: OnChainPlayer[];
+  winners: OnChainPlayer[];
+  // The key that initialized the account, the only one allowed to score, pay out or reset it.
+  authority: string;
+}
+
+export interface ProgramScore {
+  player: string;
+  score: number;
+}
+
+// Typed calls into the Rumble program, built on the IDL in ./idl/rumble. Every call the backend signs resolves
+// only once its transaction is confirmed, and a program error is thrown as the matching RumbleError.
+export interface RumbleProgramClient {
+  // Key the backend signs program calls with.
+  readonly authority: string;
+  readonly programId: string;
+  initialize(): Promise<InitializedOnChain>;
+  // Players sign their own deposits, so this only builds the deposit instruction for `playerKey` and returns the
+  // transaction unsigned and base64-encoded. The player sends it and then claims it with DEPOSIT.
+  deposit(account: string, playerKey: string, amount: bigint): Promise<string>;
+  evaluateTradingActivity(account: string, scores: ProgramScore[]): Promise<ChainStep>;
+  // The program checks the backend's winners and prizes against the account, then pays them itself and moves the
+  // buyback share to the buyback account.
+  selectWinners(account: string, payouts: ProgramPayout[], buybackAmount: bigint): Promise<SettledOnChain>;
+  resetGame(account: string): Promise<ChainStep>;
+  fetchGameState(account: string): Promise<OnChainGameState | null>;
+}
+
+const U32_MAX = 4_294_967_295;
+
+// Trading scores are stored on-chain as u32.
+export function toProgramScore(score: number): number {
+  return Math.min(U32_MAX, Math.max(0, Math.round(score)));
+}
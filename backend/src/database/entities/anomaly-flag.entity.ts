@@ -0,0 +1,42 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { Player } from './player.entity';
+import { AnomalySeverity } from '../../anomaly/anomaly-rules';
+
+@Entity()
+@Index(['game', 'round'])
+export class AnomalyFlag {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  game: string;
+
+  @Column()
+  round: number;
+
+  @Column()
+  playerKey: string;
+
+  // The Player row of that round the flag was raised against.
+  @Column()
+  playerId: number;
+
+  @ManyToOne(() => Player, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'playerId' })
+  player: Player;
+
+  @Column()
+  rule: string;
+
+  @Column({ type: 'enum', enum: AnomalySeverity })
+  severity: AnomalySeverity;
+
+  @Column()
+  reason: string;
+
+  @Column({ type: 'simple-json' })
+  evidence: Record<string, unknown>;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
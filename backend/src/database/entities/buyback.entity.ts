@@ -0,0 +1,94 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index, OneToOne, JoinColumn } from 'typeorm';
+import { Settlement } from './settlement.entity';
+import { lamportsTransformer } from '../lamports.transformer';
+
+export enum BuybackStatus {
+  Pending = 'pending',
+  // A wrap, swap or burn transaction was sent and has not landed yet; a retry follows it up before sending anything new.
+  Submitted = 'submitted',
+  // Tokens bought but not yet burned; a retry only burns.
+  Swapped = 'swapped',
+  Burned = 'burned',
+  // Retried while `attempts` allows, from whichever step failed.
+  Failed = 'failed',
+  // Nothing to buy back this round.
+  Skipped = 'skipped',
+}
+
+// The buyback and burn of one settlement's buyback share. Token amounts are in RUMBLE base units.
+@Entity()
+@Index(['game', 'round'])
+export class Buyback {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  game: string;
+
+  @Column()
+  round: number;
+
+  @Column({ unique: true })
+  settlementId: number;
+
+  @OneToOne(() => Settlement, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'settlementId' })
+  settlement: Settlement;
+
+  @Index()
+  @Column({ type: 'enum', enum: BuybackStatus, default: BuybackStatus.Pending })
+  status: BuybackStatus;
+
+  // Swap adapter the tokens were bought through.
+  @Column()
+  venue: string;
+
+  @Column({ type: 'bigint', transformer: lamportsTransformer })
+  amountIn: bigint;
+
+  @Column({ type: 'bigint', nullable: true, transformer: lamportsTransformer })
+  expectedTokens: bigint | null;
+
+  @Column({ type: 'bigint', nullable: true, transformer: lamportsTransformer })
+  minimumTokens: bigint | null;
+
+  @Column({ type: 'integer', nullable: true })
+  priceImpactBps: number | null;
+
+  @Column({ type: 'bigint', nullable: true, transformer: lamportsTransformer })
+  tokensBought: bigint | null;
+
+  @Column({ type: 'bigint', nullable: true, transformer: lamportsTransformer })
+  tokensBurned: bigint | null;
+
+  // SOL paid per whole RUMBLE token.
+  @Column({ type: 'double precision', nullable: true })
+  price: number | null;
+
+  // Saved before the transaction is sent, so a retry can tell whether it landed instead of sending another.
+  @Column({ type: 'varchar', nullable: true })
+  wrapSignature: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  swapSignature: string | null;
+
+  // When the transaction last sent expires.
+  @Column({ type: 'integer', nullable: true })
+  lastValidBlockHeight: number | null;
+
+  // Saved before the burn is sent, like the swap's.
+  @Column({ type: 'varchar', nullable: true })
+  burnSignature: string | null;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column({ type: 'varchar', nullable: true })
+  error: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
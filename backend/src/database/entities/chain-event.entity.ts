@@ -0,0 +1,41 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+// One row per event the program emitted, decoded from its transaction's logs.
+@Entity()
+@Index(['signature', 'index'], { unique: true })
+export class ChainEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  signature: string;
+
+  // Position among the events of the transaction.
+  @Column()
+  index: number;
+
+  @Index()
+  @Column({ type: 'bigint', transformer: { to: value => value, from: value => (value === null ? null : Number(value)) } })
+  slot: number;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  blockTime: Date | null;
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  programAccount: string | null;
+
+  // Null when the account belongs to no game the backend knows.
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  game: string | null;
+
+  // Event fields with u64 values as decimal strings.
+  @Column({ type: 'simple-json' })
+  data: Record<string, unknown>;
+
+  @CreateDateColumn()
+  indexedAt: Date;
+}
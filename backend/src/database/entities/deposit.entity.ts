@@ -0,0 +1,38 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import { lamportsTransformer } from '../lamports.transformer';
+
+// One row per credited on-chain transfer. The signature can only ever be credited once, and a client
+// may attach its own idempotency key so that a resent DEPOSIT resolves to the same row.
+@Entity()
+@Index(['playerKey', 'idempotencyKey'], { unique: true, where: '"idempotencyKey" IS NOT NULL' })
+export class Deposit {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column()
+  game: string;
+
+  @Column({ default: 1 })
+  round: number;
+
+  @Column()
+  playerKey: string;
+
+  @Column({ type: 'bigint', transformer: lamportsTransformer })
+  amount: bigint;
+
+  @Index({ unique: true })
+  @Column()
+  signature: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  idempotencyKey: string | null;
+
+  // Slot the transfer landed in, as reported by the verifier.
+  @Column({ type: 'bigint', nullable: true, transformer: { to: value => value, from: value => (value === null ? null : Number(value)) } })
+  slot: number | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,80 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import { DEFAULT_BUYBACK_BPS, DEFAULT_WINNER_BPS } from '../../prize/prize-split';
+import { ROUND_DURATION_MS } from '../../game/game-lifecycle';
+import { lamportsTransformer } from '../lamports.transformer';
+import { ScoreWeights } from '../../scoring/score-weights';
+import { DistributionStrategyName } from '../../prize/distribution-strategies';
+import { TieBreaker } from '../../scoring/ranking';
+import { ScoringFallback } from '../../ai/scoring-fallback';
+import { AnomalyPolicy } from '../../anomaly/anomaly-policy';
+import { SybilLimits } from '../../sybil/sybil-policy';
+
+// Rules of one round of a game, set when the round is created. They can be changed until the game
+// opens and never after; a new round starts from a copy of the previous round's rules.
+@Entity()
+@Index(['game', 'round'], { unique: true })
+export class GameConfig {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  game: string;
+
+  @Column()
+  round: number;
+
+  @Column({ default: ROUND_DURATION_MS })
+  durationMs: number;
+
+  // Smallest single deposit, in lamports.
+  @Column({ type: 'bigint', default: '1', transformer: lamportsTransformer })
+  minDeposit: bigint;
+
+  // Most one player may deposit over the round; null for no limit.
+  @Column({ type: 'bigint', nullable: true, transformer: lamportsTransformer })
+  maxDeposit: bigint | null;
+
+  @Column({ type: 'integer', nullable: true })
+  maxPlayers: number | null;
+
+  // Share of players who win and share of the pool bought back, in basis points.
+  @Column({ default: DEFAULT_WINNER_BPS })
+  winnerBps: number;
+
+  @Column({ default: DEFAULT_BUYBACK_BPS })
+  buybackBps: number;
+
+  // Overrides of DEFAULT_SCORE_WEIGHTS; null scores by the defaults.
+  @Column({ type: 'simple-json', nullable: true })
+  scoreWeights: Partial<ScoreWeights> | null;
+
+  @Column({ default: DistributionStrategyName.Even })
+  distributionStrategy: string;
+
+  @Column({ type: 'simple-json', nullable: true })
+  distributionOptions: Record<string, unknown> | null;
+
+  // Null means DEFAULT_TIE_BREAKERS: earlier deposit, then larger deposit, then seeded random.
+  @Column({ type: 'simple-json', nullable: true })
+  tieBreakers: TieBreaker[] | null;
+
+  @Column({ default: false })
+  splitTiesAtCutoff: boolean;
+
+  // BlockSettlement is opt-in: by default a player the scoring service misses cannot stall the round.
+  @Column({ type: 'enum', enum: ScoringFallback, default: ScoringFallback.RetryLater })
+  scoringFallback: ScoringFallback;
+
+  @Column({ type: 'enum', enum: AnomalyPolicy, default: AnomalyPolicy.ZeroTradingScore })
+  anomalyPolicy: AnomalyPolicy;
+
+  @Column({ type: 'simple-json', nullable: true })
+  sybilLimits: SybilLimits | null;
+
+  // When the game opened; the config cannot change from then on.
+  @Column({ type: 'timestamptz', nullable: true })
+  frozenAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,65 @@
+import { Entity, PrimaryColumn, Column, OneToMany, CreateDateColumn, Index } from 'typeorm';
+import { Player } from './player.entity';
+import { Winner } from './winner.entity';
+import { GamePhase } from '../../game/game-lifecycle';
+import { RemainderDestination } from '../../prize/prize-split';
+import { lamportsTransformer } from '../lamports.transformer';
+import { ChainDiscrepancy } from '../../chain/chain-sync';
+
+// Live state of a game's current round. Its rules are in the round's GameConfig.
+@Entity()
+export class GameState {
+  @PrimaryColumn()
+  gameId: string;
+
+  @Column({ type: 'bigint', default: '0', transformer: lamportsTransformer })
+  totalDeposits: bigint;
+
+  @Column({ type: 'bigint', default: '0', transformer: lamportsTransformer })
+  prizePool: bigint;
+
+  // Dust left over from the previous settlement, added to this round's pool.
+  @Column({ type: 'bigint', default: '0', transformer: lamportsTransformer })
+  rolloverLamports: bigint;
+
+  @Column({ type: 'enum', enum: RemainderDestination, default: RemainderDestination.Rollover })
+  remainderDestination: RemainderDestination;
+
+  // Account deposits must be transferred to; null falls back to GAME_VAULT_ADDRESS.
+  @Column({ type: 'varchar', nullable: true })
+  vaultAddress: string | null;
+
+  // Current round; incremented each time an archived game starts again.
+  @Column({ default: 1 })
+  round: number;
+
+  @Column({ type: 'enum', enum: GamePhase, default: GamePhase.Created })
+  phase: GamePhase;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  opensAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  openedAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  closesAt: Date | null;
+
+  // GameState account of the Rumble program; null for games run off-chain.
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  programAccount: string | null;
+
+  // Differences found between this game and its program account. The game is held while any remain.
+  @Column({ type: 'simple-json', nullable: true })
+  chainDiscrepancies: ChainDiscrepancy[] | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @OneToMany(() => Player, player => player.gameState)
+  players: Player[];
+
+  @OneToMany(() => Winner, winner => winner.gameState)
+  winners: Winner[];
+}
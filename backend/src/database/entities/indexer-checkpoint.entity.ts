@@ -0,0 +1,18 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+// Newest transaction an indexer has processed; it resumes after it on restart.
+@Entity()
+export class IndexerCheckpoint {
+  @PrimaryColumn()
+  name: string;
+
+  // Null until the program has any transactions.
+  @Column({ type: 'varchar', nullable: true })
+  signature: string | null;
+
+  @Column({ type: 'bigint', transformer: { to: value => value, from: value => (value === null ? null : Number(value)) } })
+  slot: number;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
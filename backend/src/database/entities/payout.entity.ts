@@ -0,0 +1,70 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index, OneToOne, JoinColumn } from 'typeorm';
+import { Winner } from './winner.entity';
+import { RumbleErrorCode } from '../../game/rumble.errors';
+import { lamportsTransformer } from '../lamports.transformer';
+
+export enum PayoutStatus {
+  // Not sent yet, or about to be sent again after a failed attempt.
+  Pending = 'pending',
+  // Sent under `signature` and waiting to land; it may still do so until `lastValidBlockHeight`.
+  Submitted = 'submitted',
+  Confirmed = 'confirmed',
+  // The last attempt can no longer land. Retried while `attempts` allows and the failure is retryable.
+  Failed = 'failed',
+}
+
+// The transfer of one winner's prize. At most one attempt is in flight at a time, so a prize is never sent twice.
+@Entity()
+@Index(['game', 'round'])
+export class Payout {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  game: string;
+
+  @Column()
+  round: number;
+
+  @Column({ unique: true })
+  winnerId: number;
+
+  @OneToOne(() => Winner, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'winnerId' })
+  winner: Winner;
+
+  @Column()
+  playerKey: string;
+
+  @Column({ type: 'bigint', transformer: lamportsTransformer })
+  lamports: bigint;
+
+  @Index()
+  @Column({ type: 'enum', enum: PayoutStatus, default: PayoutStatus.Pending })
+  status: PayoutStatus;
+
+  // Signature of the latest attempt.
+  @Column({ type: 'varchar', nullable: true })
+  signature: string | null;
+
+  @Column({ type: 'bigint', nullable: true, transformer: { to: value => value, from: value => (value === null ? null : Number(value)) } })
+  lastValidBlockHeight: number | null;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column({ type: 'bigint', nullable: true, transformer: { to: value => value, from: value => (value === null ? null : Number(value)) } })
+  confirmedSlot: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  errorCode: RumbleErrorCode | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  error: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
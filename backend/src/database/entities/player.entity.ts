@@ -0,0 +1,52 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { GameState } from './game-state.entity';
+import { lamportsTransformer } from '../lamports.transformer';
+
+@Entity()
+export class Player {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  key: string;
+
+  @Column({ type: 'bigint', default: '0', transformer: lamportsTransformer })
+  deposit: bigint;
+
+  @Column({ default: 0 })
+  tradingScore: number;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  firstDepositAt: Date | null;
+
+  // RUMBLE balance when deposits closed; null until the round closes or if the lookup failed then.
+  @Column({ type: 'double precision', nullable: true })
+  tokenHoldings: number | null;
+
+  // Normalized [0, 1] score components and their weighted sum, written at settlement.
+  @Column({ type: 'double precision', default: 0 })
+  tokenHoldingsScore: number;
+
+  @Column({ type: 'double precision', default: 0 })
+  tradingPerformanceScore: number;
+
+  @Column({ type: 'double precision', default: 0 })
+  depositSpeedScore: number;
+
+  @Column({ type: 'double precision', default: 0 })
+  randomScore: number;
+
+  @Column({ type: 'double precision', default: 0 })
+  compositeScore: number;
+
+  @Column()
+  game: string;
+
+  // Round of the game this row belongs to; rows from earlier rounds are kept as history.
+  @Column({ default: 1 })
+  round: number;
+
+  @ManyToOne(() => GameState, gameState => gameState.players, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'game' })
+  gameState: GameState;
+}
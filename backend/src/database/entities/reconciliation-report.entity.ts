@@ -0,0 +1,50 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import { GamePhase } from '../../game/game-lifecycle';
+import { LedgerDiscrepancy } from '../../reconciliation/ledger-checks';
+import { lamportsTransformer } from '../lamports.transformer';
+
+export enum ReconciliationTrigger {
+  Scheduled = 'scheduled',
+  // Requested by an admin.
+  Manual = 'manual',
+  // Run before winners are selected; settlement is refused unless it balances.
+  Settlement = 'settlement',
+}
+
+// The outcome of checking one round's books. A report is kept for every run, balanced or not.
+@Entity()
+@Index(['game', 'round'])
+export class ReconciliationReport {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  game: string;
+
+  @Column()
+  round: number;
+
+  @Column({ type: 'enum', enum: GamePhase })
+  phase: GamePhase;
+
+  @Column({ type: 'enum', enum: ReconciliationTrigger })
+  trigger: ReconciliationTrigger;
+
+  @Index()
+  @Column()
+  balanced: boolean;
+
+  @Column({ type: 'simple-json' })
+  discrepancies: LedgerDiscrepancy[];
+
+  // Null for games run through the program, whose funds are held by their program account.
+  @Column({ type: 'varchar', nullable: true })
+  vaultAddress: string | null;
+
+  // Null when the vault was not checked or its balance could not be read.
+  @Column({ type: 'bigint', nullable: true, transformer: lamportsTransformer })
+  vaultBalance: bigint | null;
+
+  @CreateDateColumn()
+  checkedAt: Date;
+}
@@ -0,0 +1,54 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import { lamportsTransformer } from '../lamports.transformer';
+
+// Summary of a finished round, written when the game is reset. The round's players, deposits and
+// winners keep their rows, tagged with the same `round` number, and are never modified again.
+@Entity()
+@Index(['game', 'number'], { unique: true })
+export class Round {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  game: string;
+
+  @Column()
+  number: number;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  openedAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  closesAt: Date | null;
+
+  @Column({ type: 'bigint', transformer: lamportsTransformer })
+  totalDeposits: bigint;
+
+  // Pool at settlement, including lamports rolled over from the previous round.
+  @Column({ type: 'bigint', transformer: lamportsTransformer })
+  prizePool: bigint;
+
+  @Column({ type: 'bigint', transformer: lamportsTransformer })
+  totalPayout: bigint;
+
+  @Column({ type: 'bigint', transformer: lamportsTransformer })
+  buybackAmount: bigint;
+
+  @Column({ type: 'bigint', transformer: lamportsTransformer })
+  remainder: bigint;
+
+  @Column()
+  numPlayers: number;
+
+  @Column()
+  numWinners: number;
+
+  @Column({ type: 'varchar', nullable: true })
+  seedCommitment: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  seed: string | null;
+
+  @CreateDateColumn()
+  archivedAt: Date;
+}
@@ -0,0 +1,29 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+// One per round: each round of a game commits to its own seed when it opens.
+@Entity()
+@Index(['game', 'round'])
+export class SeedCommitment {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column()
+  game: string;
+
+  @Column({ default: 1 })
+  round: number;
+
+  @Column()
+  commitment: string;
+
+  // Kept server-side until settlement; never exposed while `revealedAt` is null.
+  @Column()
+  seed: string;
+
+  @CreateDateColumn()
+  committedAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  revealedAt: Date | null;
+}
@@ -0,0 +1,44 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import { RemainderDestination } from '../../prize/prize-split';
+import { lamportsTransformer } from '../lamports.transformer';
+
+// One row per settled round; totalPayout + buybackAmount + remainder always equals prizePool.
+@Entity()
+export class Settlement {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column()
+  game: string;
+
+  @Column({ default: 1 })
+  round: number;
+
+  @Column({ type: 'bigint', transformer: lamportsTransformer })
+  prizePool: bigint;
+
+  @Column()
+  numWinners: number;
+
+  @Column()
+  distributionStrategy: string;
+
+  @Column({ type: 'bigint', transformer: lamportsTransformer })
+  prizeForWinners: bigint;
+
+  @Column({ type: 'bigint', transformer: lamportsTransformer })
+  totalPayout: bigint;
+
+  @Column({ type: 'bigint', transformer: lamportsTransformer })
+  buybackAmount: bigint;
+
+  @Column({ type: 'bigint', transformer: lamportsTransformer })
+  remainder: bigint;
+
+  @Column({ type: 'enum', enum: RemainderDestination })
+  remainderDestination: RemainderDestination;
+
+  @CreateDateColumn()
+  settledAt: Date;
+}
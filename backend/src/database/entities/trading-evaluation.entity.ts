@@ -0,0 +1,46 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import { ScoringFallback } from '../../ai/scoring-fallback';
+
+export enum EvaluationStatus {
+  Complete = 'complete',
+  Partial = 'partial',
+  // The run threw before it was recorded; nothing it scored can be relied on.
+  Failed = 'failed',
+}
+
+// One row per run of evaluateTradingActivities, so a round settled on partial scores can be told apart.
+@Entity()
+export class TradingEvaluation {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column()
+  game: string;
+
+  @Column()
+  round: number;
+
+  @Column({ type: 'enum', enum: EvaluationStatus })
+  status: EvaluationStatus;
+
+  @Column({ type: 'enum', enum: ScoringFallback })
+  fallback: ScoringFallback;
+
+  @Column()
+  scoredPlayers: number;
+
+  @Column({ type: 'simple-json' })
+  missingPlayers: string[];
+
+  @Column({ type: 'simple-json' })
+  errors: string[];
+
+  // When the scheduler should evaluate the round again; cleared once a later evaluation supersedes this one.
+  @Index()
+  @Column({ type: 'timestamptz', nullable: true })
+  retryAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
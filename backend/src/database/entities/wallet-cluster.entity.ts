@@ -0,0 +1,25 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+import { ClusterLink } from '../../sybil/wallet-clustering';
+
+// Wallets of one round believed to be controlled by one person, with the links that tied them together.
+@Entity()
+@Index(['game', 'round'])
+export class WalletCluster {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  game: string;
+
+  @Column()
+  round: number;
+
+  @Column({ type: 'simple-json' })
+  wallets: string[];
+
+  @Column({ type: 'simple-json' })
+  links: ClusterLink[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
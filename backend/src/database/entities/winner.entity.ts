@@ -0,0 +1,36 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { GameState } from './game-state.entity';
+import { lamportsTransformer } from '../lamports.transformer';
+
+@Entity()
+export class Winner {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  playerKey: string;
+
+  @Column({ type: 'bigint', default: '0', transformer: lamportsTransformer })
+  prize: bigint;
+
+  @Column({ default: 0 })
+  rank: number;
+
+  // Greater than 1 when a prize share at the cut line was split between tied players.
+  @Column({ default: 1 })
+  sharedWith: number;
+
+  // Ranking rule that placed this winner ahead of the next player.
+  @Column({ type: 'varchar', nullable: true })
+  decidedBy: string | null;
+
+  @Column()
+  game: string;
+
+  @Column({ default: 1 })
+  round: number;
+
+  @ManyToOne(() => GameState, gameState => gameState.winners, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'game' })
+  gameState: GameState;
+}
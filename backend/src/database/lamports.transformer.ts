@@ -0,0 +1,7 @@
+import { ValueTransformer } from 'typeorm';
+
+// Postgres returns `bigint` columns as strings; keep them as native bigint lamports in entities.
+export const lamportsTransformer: ValueTransformer = {
+  to: (value: bigint | null | undefined) => (value === null || value === undefined ? value : value.toString()),
+  from: (value: string | null) => (value === null ? null : BigInt(value)),
+};
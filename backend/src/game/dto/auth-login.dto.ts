@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { IsSolanaPublicKey } from '../../solana/validators';
+
+export class AuthLoginDto {
+  @IsSolanaPublicKey()
+  publicKey: string;
+
+  @IsString()
+  @IsNotEmpty()
+  signature: string;
+}
@@ -0,0 +1,28 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { GameIdDto } from './game-id.dto';
+import { IsLamportAmount, IsSolanaPublicKey, IsSolanaSignature } from '../../solana/validators';
+
+export class DepositDto extends GameIdDto {
+  // Only checked against the authenticated wallet; deposits are always credited to the session.
+  @IsOptional()
+  @IsSolanaPublicKey()
+  playerKey?: string;
+
+  @IsLamportAmount()
+  amount: string | number;
+
+  @IsSolanaSignature()
+  signature: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  idempotencyKey?: string;
+}
+
+// Asks for the program deposit of an on-chain game, to be signed by the authenticated wallet.
+export class DepositTransactionDto extends GameIdDto {
+  @IsLamportAmount()
+  amount: string | number;
+}
@@ -0,0 +1,137 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { GameIdDto } from './game-id.dto';
+import { IsLamportAmount } from '../../solana/validators';
+import { MIN_ROUND_DURATION_MS } from '../game-config';
+import { DistributionStrategyName } from '../../prize/distribution-strategies';
+import { TieBreaker } from '../../scoring/ranking';
+import { ScoringFallback } from '../../ai/scoring-fallback';
+import { AnomalyPolicy } from '../../anomaly/anomaly-policy';
+
+// Weights left out keep their default; together they must sum to 1.
+export class ScoreWeightsDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  tokenHoldings?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  tradingPerformance?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  depositSpeed?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  random?: number;
+}
+
+// Null or missing caps are not applied.
+export class SybilLimitsDto {
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @IsInt()
+  @Min(1)
+  maxWinnerSlotsPerCluster?: number | null;
+
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @IsInt()
+  @Min(0)
+  @Max(10_000)
+  maxPoolShareBps?: number | null;
+}
+
+// A round's rules. Fields left out keep their current value, or the previous round's for a new round.
+export class GameConfigDto {
+  @IsOptional()
+  @IsInt()
+  @Min(MIN_ROUND_DURATION_MS)
+  durationMs?: number;
+
+  @IsOptional()
+  @IsLamportAmount()
+  minDeposit?: string | number;
+
+  // Null removes the limit.
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @IsLamportAmount()
+  maxDeposit?: string | number | null;
+
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @IsInt()
+  @Min(1)
+  maxPlayers?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10_000)
+  winnerBps?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10_000)
+  buybackBps?: number;
+
+  // Null scores by the default weights.
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @ValidateNested()
+  @Type(() => ScoreWeightsDto)
+  scoreWeights?: ScoreWeightsDto | null;
+
+  @IsOptional()
+  @IsEnum(DistributionStrategyName)
+  distributionStrategy?: DistributionStrategyName;
+
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @IsObject()
+  distributionOptions?: Record<string, unknown> | null;
+
+  // Null uses the default order.
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(TieBreaker, { each: true })
+  tieBreakers?: TieBreaker[] | null;
+
+  @IsOptional()
+  @IsBoolean()
+  splitTiesAtCutoff?: boolean;
+
+  @IsOptional()
+  @IsEnum(ScoringFallback)
+  scoringFallback?: ScoringFallback;
+
+  @IsOptional()
+  @IsEnum(AnomalyPolicy)
+  anomalyPolicy?: AnomalyPolicy;
+
+  @ValidateIf((_, value) => value !== undefined && value !== null)
+  @ValidateNested()
+  @Type(() => SybilLimitsDto)
+  sybilLimits?: SybilLimitsDto | null;
+}
+
+export class ConfigureGameDto extends GameIdDto {
+  @ValidateNested()
+  @Type(() => GameConfigDto)
+  config: GameConfigDto;
+}
@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+// Payload of every message that only names a game: JOIN_GAME, LEAVE_GAME, EVALUATE_TRADING,
+// SELECT_WINNERS and RESET_GAME.
+export class GameIdDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  gameId: string;
+}
@@ -0,0 +1,173 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { GamePhase } from '../game-lifecycle';
+import { AnomalySeverity } from '../../anomaly/anomaly-rules';
+import { BuybackStatus } from '../../database/entities/buyback.entity';
+import { TieBreaker } from '../../scoring/ranking';
+import { ScoringFallback } from '../../ai/scoring-fallback';
+import { AnomalyPolicy } from '../../anomaly/anomaly-policy';
+
+// Response shapes for the read API. Lamport amounts are decimal strings, as on the WebSocket.
+
+export class GameConfigView {
+  @ApiProperty() durationMs: number;
+  @ApiProperty({ description: 'Lamports' }) minDeposit: string;
+  @ApiPropertyOptional({ type: String, nullable: true, description: 'Lamports per player per round; null when there is no limit' })
+  maxDeposit: string | null;
+  @ApiPropertyOptional({ type: Number, nullable: true }) maxPlayers: number | null;
+  @ApiProperty() winnerBps: number;
+  @ApiProperty() buybackBps: number;
+  @ApiPropertyOptional({ type: Object, nullable: true, description: 'Overrides of the default score weights' })
+  scoreWeights: Record<string, number> | null;
+  @ApiProperty() distributionStrategy: string;
+  @ApiPropertyOptional({ type: Object, nullable: true }) distributionOptions: Record<string, unknown> | null;
+  @ApiPropertyOptional({ enum: TieBreaker, isArray: true, nullable: true, description: 'Null for the default order' })
+  tieBreakers: TieBreaker[] | null;
+  @ApiProperty() splitTiesAtCutoff: boolean;
+  @ApiProperty({ enum: ScoringFallback }) scoringFallback: ScoringFallback;
+  @ApiProperty({ enum: AnomalyPolicy }) anomalyPolicy: AnomalyPolicy;
+  @ApiPropertyOptional({ type: Object, nullable: true }) sybilLimits: Record<string, number | null> | null;
+}
+
+export class GameView {
+  @ApiProperty() gameId: string;
+  @ApiProperty() round: number;
+  @ApiProperty({ enum: GamePhase }) phase: GamePhase;
+  @ApiProperty({ description: 'Lamports' }) totalDeposits: string;
+  @ApiProperty({ description: 'Lamports' }) prizePool: string;
+  @ApiProperty({ description: 'Lamports' }) rolloverLamports: string;
+  @ApiProperty({ type: GameConfigView, description: 'Rules of the current round' }) config: GameConfigView;
+  @ApiPropertyOptional({ type: String, format: 'date-time', nullable: true }) opensAt: Date | null;
+  @ApiPropertyOptional({ type: String, format: 'date-time', nullable: true }) openedAt: Date | null;
+  @ApiPropertyOptional({ type: String, format: 'date-time', nullable: true }) closesAt: Date | null;
+}
+
+export class LobbyEntryView {
+  @ApiProperty() gameId: string;
+  @ApiProperty() round: number;
+  @ApiProperty() playerCount: number;
+  @ApiProperty({ description: 'Lamports' }) prizePool: string;
+  @ApiProperty({ type: String, format: 'date-time' }) closesAt: Date;
+  @ApiProperty() timeRemainingMs: number;
+  @ApiProperty({ type: GameConfigView }) config: GameConfigView;
+  @ApiPropertyOptional({ type: String, nullable: true, description: 'Set when deposits go through the program' })
+  programAccount: string | null;
+  @ApiPropertyOptional({ type: String, nullable: true, description: 'Where plain transfers are deposited' })
+  vaultAddress: string | null;
+  @ApiPropertyOptional({ type: String, nullable: true, description: 'Memo a plain transfer must carry to be credited' })
+  depositMemo: string | null;
+}
+
+export class PlayerView {
+  @ApiProperty() key: string;
+  @ApiProperty() game: string;
+  @ApiProperty() round: number;
+  @ApiProperty({ description: 'Lamports' }) deposit: string;
+  @ApiPropertyOptional({ type: String, format: 'date-time', nullable: true }) firstDepositAt: Date | null;
+  @ApiProperty() tradingScore: number;
+  @ApiProperty() tokenHoldingsScore: number;
+  @ApiProperty() tradingPerformanceScore: number;
+  @ApiProperty() depositSpeedScore: number;
+  @ApiProperty() randomScore: number;
+  @ApiProperty() compositeScore: number;
+}
+
+export class LeaderboardEntryView {
+  @ApiProperty() rank: number;
+  @ApiProperty() playerKey: string;
+  @ApiProperty({ description: 'Lamports' }) deposit: string;
+  @ApiProperty() compositeScore: number;
+}
+
+export class WinnerView {
+  @ApiProperty() playerKey: string;
+  @ApiProperty() game: string;
+  @ApiProperty() round: number;
+  @ApiProperty() rank: number;
+  @ApiProperty({ description: 'Lamports' }) prize: string;
+  @ApiProperty() sharedWith: number;
+  @ApiPropertyOptional({ nullable: true }) decidedBy: string | null;
+}
+
+export class PlayerHistoryEntryView {
+  @ApiProperty() game: string;
+  @ApiProperty() round: number;
+  @ApiProperty({ description: 'Lamports' }) deposit: string;
+  @ApiProperty() compositeScore: number;
+  @ApiPropertyOptional({ type: Number, nullable: true }) rank: number | null;
+  @ApiPropertyOptional({ type: String, nullable: true, description: 'Lamports; null when the player did not win' })
+  prize: string | null;
+}
+
+export class RoundView {
+  @ApiProperty() game: string;
+  @ApiProperty() number: number;
+  @ApiProperty({ description: 'Lamports' }) totalDeposits: string;
+  @ApiProperty({ description: 'Lamports' }) prizePool: string;
+  @ApiProperty({ description: 'Lamports' }) totalPayout: string;
+  @ApiProperty({ description: 'Lamports' }) buybackAmount: string;
+  @ApiProperty({ description: 'Lamports' }) remainder: string;
+  @ApiProperty() numPlayers: number;
+  @ApiProperty() numWinners: number;
+  @ApiPropertyOptional({ type: String, nullable: true }) seedCommitment: string | null;
+  @ApiPropertyOptional({ type: String, nullable: true }) seed: string | null;
+  @ApiProperty({ type: String, format: 'date-time' }) archivedAt: Date;
+}
+
+export class ArchivedRoundView {
+  @ApiProperty({ type: RoundView }) round: RoundView;
+  @ApiProperty({ type: [PlayerView] }) players: PlayerView[];
+  @ApiProperty({ type: [WinnerView] }) winners: WinnerView[];
+  @ApiProperty({ type: 'array', items: { type: 'object' } }) deposits: object[];
+}
+
+export class AnomalyFlagView {
+  @ApiProperty() game: string;
+  @ApiProperty() round: number;
+  @ApiProperty() playerKey: string;
+  @ApiProperty() rule: string;
+  @ApiProperty({ enum: AnomalySeverity }) severity: AnomalySeverity;
+  @ApiProperty() reason: string;
+  @ApiProperty({ type: 'object', additionalProperties: true }) evidence: Record<string, unknown>;
+  @ApiProperty({ type: String, format: 'date-time' }) createdAt: Date;
+}
+
+export class BuybackView {
+  @ApiProperty() game: string;
+  @ApiProperty() round: number;
+  @ApiProperty({ enum: BuybackStatus }) status: BuybackStatus;
+  @ApiProperty() venue: string;
+  @ApiProperty({ description: 'Lamports' }) amountIn: string;
+  @ApiPropertyOptional({ type: String, nullable: true, description: 'RUMBLE base units' }) tokensBurned: string | null;
+  @ApiPropertyOptional({ type: Number, nullable: true, description: 'SOL per RUMBLE' }) price: number | null;
+  @ApiPropertyOptional({ type: Number, nullable: true }) priceImpactBps: number | null;
+  @ApiPropertyOptional({ type: String, nullable: true }) swapSignature: string | null;
+  @ApiPropertyOptional({ type: String, nullable: true }) burnSignature: string | null;
+  @ApiProperty({ type: String, format: 'date-time' }) createdAt: Date;
+}
+
+export class BurnTotalsView {
+  @ApiProperty({ description: 'Lamports' }) amountIn: string;
+  @ApiProperty({ description: 'RUMBLE base units' }) tokensBurned: string;
+  @ApiProperty() buybacks: number;
+}
+
+// Swagger cannot describe generics, so each paginated response gets a concrete class.
+export function PaginatedView<T extends Function>(item: T) {
+  class PaginatedItems {
+    @ApiProperty({ type: [item] }) items: unknown[];
+    @ApiProperty() total: number;
+    @ApiProperty() page: number;
+    @ApiProperty() limit: number;
+  }
+  Object.defineProperty(PaginatedItems, 'name', { value: `Paginated${item.name}` });
+  return PaginatedItems;
+}
+
+export const PaginatedGameView = PaginatedView(GameView);
+export const PaginatedLobbyView = PaginatedView(LobbyEntryView);
+export const PaginatedPlayerView = PaginatedView(PlayerView);
+export const PaginatedLeaderboardView = PaginatedView(LeaderboardEntryView);
+export const PaginatedPlayerHistoryView = PaginatedView(PlayerHistoryEntryView);
+export const PaginatedRoundView = PaginatedView(RoundView);
+export const PaginatedAnomalyFlagView = PaginatedView(AnomalyFlagView);
+export const PaginatedBuybackView = PaginatedView(BuybackView);
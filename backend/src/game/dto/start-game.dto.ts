@@ -0,0 +1,15 @@
+import { Type } from 'class-transformer';
+import { IsISO8601, IsOptional, ValidateNested } from 'class-validator';
+import { GameIdDto } from './game-id.dto';
+import { GameConfigDto } from './game-config.dto';
+
+export class StartGameDto extends GameIdDto {
+  @IsOptional()
+  @IsISO8601()
+  opensAt?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GameConfigDto)
+  config?: GameConfigDto;
+}
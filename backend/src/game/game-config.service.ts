@@ -0,0 +1,73 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { GameConfig } from '../database/entities/game-config.entity';
+import { GameState } from '../database/entities/game-state.entity';
+import { DEFAULT_GAME_RULES, GameRules, assertGameRules, pickGameRules } from './game-config';
+import { RumbleError } from './rumble.errors';
+
+type RoundOf = Pick<GameState, 'gameId' | 'round'>;
+
+@Injectable()
+export class GameConfigService {
+  constructor(
+    @InjectRepository(GameConfig)
+    private configRepository: Repository<GameConfig>,
+  ) {}
+
+  // The rules the game's current round is played by. A round created before configs existed has no row
+  // and is played by the defaults.
+  async forRound(game: RoundOf): Promise<GameRules> {
+    const config = await this.find(game);
+    return config ? pickGameRules(config) : DEFAULT_GAME_RULES;
+  }
+
+  // The rules of several games' current rounds, keyed by game id.
+  async forRounds(games: RoundOf[]): Promise<Map<string, GameRules>> {
+    if (games.length === 0) return new Map();
+    const configs = await this.configRepository.find({ where: games.map(g => ({ game: g.gameId, round: g.round })) });
+    return new Map(
+      games.map(g => {
+        const config = configs.find(c => c.game === g.gameId && c.round === g.round);
+        return [g.gameId, config ? pickGameRules(config) : DEFAULT_GAME_RULES];
+      }),
+    );
+  }
+
+  // Writes the rules of a new round: the previous round's rules, with `rules` applied over them.
+  async create(gameId: string, round: number, rules: Partial<GameRules> = {}): Promise<GameConfig> {
+    const previous = await this.configRepository.findOne({ where: { game: gameId, round: round - 1 } });
+    const merged = { ...(previous ? pickGameRules(previous) : DEFAULT_GAME_RULES), ...rules };
+    assertGameRules(gameId, merged);
+
+    // A row left by an earlier attempt to create the same round is overwritten.
+    const existing = await this.configRepository.findOne({ where: { game: gameId, round } });
+    return this.configRepository.save(
+      Object.assign(existing ?? this.configRepository.create({ game: gameId, round }), merged, { frozenAt: null }),
+    );
+  }
+
+  // Changes the rules of a round that has not opened yet.
+  async configure(game: RoundOf, rules: Partial<GameRules>): Promise<GameConfig> {
+    const config = await this.find(game);
+    if (config?.frozenAt) {
+      throw new RumbleError.GameAlreadyActive({ gameId: game.gameId, round: game.round, frozenAt: config.frozenAt });
+    }
+    const merged = { ...(config ? pickGameRules(config) : DEFAULT_GAME_RULES), ...rules };
+    assertGameRules(game.gameId, merged);
+    return this.configRepository.save(
+      Object.assign(config ?? this.configRepository.create({ game: game.gameId, round: game.round }), merged),
+    );
+  }
+
+  // Fixes the round's rules as the game opens.
+  async freeze(game: RoundOf, at: Date): Promise<GameConfig> {
+    const config = (await this.find(game)) ?? this.configRepository.create({ game: game.gameId, round: game.round, ...DEFAULT_GAME_RULES });
+    config.frozenAt = at;
+    return this.configRepository.save(config);
+  }
+
+  private find(game: RoundOf): Promise<GameConfig | null> {
+    return this.configRepository.findOne({ where: { game: game.gameId, round: game.round } });
+  }
+}
@@ -0,0 +1,124 @@
+import { GameConfig } from '../database/entities/game-config.entity';
+import { DEFAULT_BUYBACK_BPS, DEFAULT_WINNER_BPS, assertBps } from '../prize/prize-split';
+import { ROUND_DURATION_MS } from './game-lifecycle';
+import { RumbleError } from './rumble.errors';
+import { parseLamports } from '../prize/lamports';
+import { ScoreWeights, resolveScoreWeights } from '../scoring/score-weights';
+import { DEFAULT_DISTRIBUTION_STRATEGIES, DistributionStrategyName } from '../prize/distribution-strategies';
+import { TieBreaker } from '../scoring/ranking';
+import { ScoringFallback } from '../ai/scoring-fallback';
+import { AnomalyPolicy } from '../anomaly/anomaly-policy';
+import { SybilLimits } from '../sybil/sybil-policy';
+
+const GAME_RULE_KEYS = [
+  'durationMs',
+  'minDeposit',
+  'maxDeposit',
+  'maxPlayers',
+  'winnerBps',
+  'buybackBps',
+  'scoreWeights',
+  'distributionStrategy',
+  'distributionOptions',
+  'tieBreakers',
+  'splitTiesAtCutoff',
+  'scoringFallback',
+  'anomalyPolicy',
+  'sybilLimits',
+] as const;
+
+export type GameRules = Pick<GameConfig, (typeof GAME_RULE_KEYS)[number]>;
+
+// Rules of a round that has no GameConfig row, such as one created before configs existed.
+export const DEFAULT_GAME_RULES: GameRules = {
+  durationMs: ROUND_DURATION_MS,
+  minDeposit: 1n,
+  maxDeposit: null,
+  maxPlayers: null,
+  winnerBps: DEFAULT_WINNER_BPS,
+  buybackBps: DEFAULT_BUYBACK_BPS,
+  scoreWeights: null,
+  distributionStrategy: DistributionStrategyName.Even,
+  distributionOptions: null,
+  tieBreakers: null,
+  splitTiesAtCutoff: false,
+  scoringFallback: ScoringFallback.RetryLater,
+  anomalyPolicy: AnomalyPolicy.ZeroTradingScore,
+  sybilLimits: null,
+};
+
+export const MIN_ROUND_DURATION_MS = 60 * 1000;
+
+export function assertGameRules(gameId: string, rules: GameRules): void {
+  const invalid = (reason: string) => new RumbleError.InvalidRequest({ gameId }, `Invalid config for game ${gameId}: ${reason}`);
+  if (!Number.isInteger(rules.durationMs) || rules.durationMs < MIN_ROUND_DURATION_MS) {
+    throw invalid(`a round must last at least ${MIN_ROUND_DURATION_MS} ms.`);
+  }
+  if (rules.minDeposit <= 0n) throw invalid('the minimum deposit must be positive.');
+  if (rules.maxDeposit !== null && rules.maxDeposit < rules.minDeposit) {
+    throw invalid('the maximum deposit is below the minimum deposit.');
+  }
+  if (rules.maxPlayers !== null && (!Number.isInteger(rules.maxPlayers) || rules.maxPlayers < 1)) {
+    throw invalid('at least one player must be allowed.');
+  }
+  try {
+    assertBps(rules.winnerBps, 'Winner');
+    assertBps(rules.buybackBps, 'Buyback');
+    resolveScoreWeights(rules.scoreWeights);
+    if (rules.sybilLimits?.maxPoolShareBps != null) assertBps(rules.sybilLimits.maxPoolShareBps, 'Cluster pool share');
+    const strategy = DEFAULT_DISTRIBUTION_STRATEGIES.find(s => s.name === rules.distributionStrategy);
+    strategy?.assertOptions?.(rules.distributionOptions ?? {});
+  } catch (error) {
+    throw invalid(error.message);
+  }
+  if (rules.winnerBps === 0) throw invalid('at least some players must win.');
+  if (!isOneOf(DistributionStrategyName, rules.distributionStrategy)) {
+    throw invalid(`unknown distribution strategy ${rules.distributionStrategy}.`);
+  }
+  if (rules.tieBreakers !== null) {
+    if (!rules.tieBreakers.every(tieBreaker => isOneOf(TieBreaker, tieBreaker))) throw invalid('unknown tie-breaker.');
+    if (new Set(rules.tieBreakers).size !== rules.tieBreakers.length) throw invalid('a tie-breaker is listed twice.');
+  }
+  if (!isOneOf(ScoringFallback, rules.scoringFallback)) throw invalid(`unknown scoring fallback ${rules.scoringFallback}.`);
+  if (!isOneOf(AnomalyPolicy, rules.anomalyPolicy)) throw invalid(`unknown anomaly policy ${rules.anomalyPolicy}.`);
+  const maxSlots = rules.sybilLimits?.maxWinnerSlotsPerCluster;
+  if (maxSlots != null && (!Number.isInteger(maxSlots) || maxSlots < 1)) {
+    throw invalid('a wallet cluster must be allowed at least one winner slot.');
+  }
+}
+
+function isOneOf(values: Record<string, string>, value: unknown): boolean {
+  return Object.values(values).includes(value as string);
+}
+
+// Rules as clients send them: lamport amounts may be strings, and anything left out keeps its value.
+export interface GameRulesInput {
+  durationMs?: number;
+  minDeposit?: string | number;
+  maxDeposit?: string | number | null;
+  maxPlayers?: number | null;
+  winnerBps?: number;
+  buybackBps?: number;
+  scoreWeights?: Partial<ScoreWeights> | null;
+  distributionStrategy?: string;
+  distributionOptions?: Record<string, unknown> | null;
+  tieBreakers?: TieBreaker[] | null;
+  splitTiesAtCutoff?: boolean;
+  scoringFallback?: ScoringFallback;
+  anomalyPolicy?: AnomalyPolicy;
+  sybilLimits?: SybilLimits | null;
+}
+
+export function parseGameRules(input: GameRulesInput = {}): Partial<GameRules> {
+  const rules: Record<string, unknown> = {};
+  for (const key of GAME_RULE_KEYS) {
+    if (input[key] !== undefined) rules[key] = input[key];
+  }
+  if (input.minDeposit !== undefined) rules.minDeposit = parseLamports(input.minDeposit);
+  if (input.maxDeposit !== undefined) rules.maxDeposit = input.maxDeposit === null ? null : parseLamports(input.maxDeposit);
+  return rules as Partial<GameRules>;
+}
+
+export function pickGameRules(config: GameRules): GameRules {
+  return Object.fromEntries(GAME_RULE_KEYS.map(key => [key, config[key]])) as GameRules;
+}
@@ -0,0 +1,86 @@
+import { GameState } from '../database/entities/game-state.entity';
+import { RumbleError, RumbleErrorCode } from './rumble.errors';
+
+export const ROUND_DURATION_MS = 30 * 60 * 1000;
+
+// Created → Open → Closed → Settled → Archived, and back to Created when a new round starts.
+// Closed covers the evaluation step: deposits are refused and scores are being computed. An on-chain game
+// is Settling from Closed to Settled while the program pays its winners, and back to Closed if it refuses;
+// likewise it is Resetting from Settled to Archived while the program resets its account.
+export enum GamePhase {
+  Created = 'created',
+  Open = 'open',
+  Closed = 'closed',
+  Settling = 'settling',
+  Settled = 'settled',
+  Resetting = 'resetting',
+  Archived = 'archived',
+}
+
+const TRANSITIONS: Record<GamePhase, GamePhase[]> = {
+  [GamePhase.Created]: [GamePhase.Open],
+  [GamePhase.Open]: [GamePhase.Closed],
+  [GamePhase.Closed]: [GamePhase.Settling, GamePhase.Settled],
+  [GamePhase.Settling]: [GamePhase.Settled, GamePhase.Closed],
+  [GamePhase.Settled]: [GamePhase.Resetting, GamePhase.Archived],
+  [GamePhase.Resetting]: [GamePhase.Archived, GamePhase.Settled],
+  [GamePhase.Archived]: [GamePhase.Created],
+};
+
+// As in the program, an action that needs the round to be over fails with GameAlreadyActive and one that
+// needs a running round fails with GameNotActive.
+export type PhaseErrorCode = RumbleErrorCode.GameAlreadyActive | RumbleErrorCode.GameNotActive;
+
+export class GamePhaseError extends RumbleError {
+  constructor(
+    readonly gameId: string,
+    readonly phase: GamePhase,
+    readonly action: string,
+    code: PhaseErrorCode = RumbleErrorCode.GameNotActive,
+  ) {
+    super(code, `Cannot ${action} game ${gameId} while it is ${phase}.`, { gameId, phase, action });
+    this.name = 'GamePhaseError';
+  }
+}
+
+export function assertPhase(game: GameState, allowed: GamePhase[], action: string, code?: PhaseErrorCode): void {
+  if (!allowed.includes(game.phase)) {
+    throw new GamePhaseError(game.gameId, game.phase, action, code);
+  }
+}
+
+export function transition(game: GameState, to: GamePhase, action: string, code?: PhaseErrorCode): void {
+  assertPhase(game, Object.values(GamePhase).filter(from => TRANSITIONS[from].includes(to)), action, code);
+  game.phase = to;
+}
+
+export function isDepositWindowOpen(game: GameState, now = new Date()): boolean {
+  return game.phase === GamePhase.Open && (!game.closesAt || now.getTime() < new Date(game.closesAt).getTime());
+}
+
+// Memo a plain-transfer deposit must carry, so that a transfer into a vault shared by several games can only
+// be credited to the game and round it was made for.
+export function depositMemo(game: Pick<GameState, 'gameId' | 'round'>): string {
+  return `rumble:${game.gameId}:${game.round}`;
+}
+
+// Phases in which each gateway message is accepted. START_GAME is accepted for unknown games too.
+export const MESSAGE_PHASES: Record<string, GamePhase[]> = {
+  START_GAME: [GamePhase.Archived],
+  CONFIGURE_GAME: [GamePhase.Created],
+  DEPOSIT: [GamePhase.Open],
+  DEPOSIT_TRANSACTION: [GamePhase.Open],
+  EVALUATE_TRADING: [GamePhase.Open, GamePhase.Closed],
+  SELECT_WINNERS: [GamePhase.Closed, GamePhase.Settling],
+  RESET_GAME: [GamePhase.Settled, GamePhase.Resetting],
+};
+
+export const MESSAGE_PHASE_ERRORS: Record<string, PhaseErrorCode> = {
+  START_GAME: RumbleErrorCode.GameAlreadyActive,
+  CONFIGURE_GAME: RumbleErrorCode.GameAlreadyActive,
+  DEPOSIT: RumbleErrorCode.GameNotActive,
+  DEPOSIT_TRANSACTION: RumbleErrorCode.GameNotActive,
+  EVALUATE_TRADING: RumbleErrorCode.GameNotActive,
+  SELECT_WINNERS: RumbleErrorCode.GameAlreadyActive,
+  RESET_GAME: RumbleErrorCode.GameNotActive,
+};
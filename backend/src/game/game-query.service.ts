@@ -0,0 +1,203 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MoreThan, Repository } from 'typeorm';
+import { GameState } from '../database/entities/game-state.entity';
+import { Player } from '../database/entities/player.entity';
+import { Winner } from '../database/entities/winner.entity';
+import { Round } from '../database/entities/round.entity';
+import { GamePhase, depositMemo } from './game-lifecycle';
+import { ArchivedRound, RoundArchiveService } from './round-archive.service';
+import { Paginated, PaginationQueryDto, pageOptions } from './dto/pagination.dto';
+import { AnomalyService } from '../anomaly/anomaly.service';
+import { AnomalyFlag } from '../database/entities/anomaly-flag.entity';
+import { GameConfigService } from './game-config.service';
+import { GameRules } from './game-config';
+import { LeaderboardService } from './leaderboard.service';
+import { RandomnessService } from '../randomness/randomness.service';
+import { rankPlayers } from '../scoring/ranking';
+
+export interface LeaderboardEntry {
+  rank: number;
+  playerKey: string;
+  deposit: bigint;
+  compositeScore: number;
+}
+
+export interface PlayerHistoryEntry {
+  game: string;
+  round: number;
+  deposit: bigint;
+  compositeScore: number;
+  rank: number | null;
+  prize: bigint | null;
+}
+
+export interface GameWithConfig extends GameState {
+  config: GameRules;
+}
+
+// An open game as the lobby lists it.
+export interface LobbyEntry {
+  gameId: string;
+  round: number;
+  playerCount: number;
+  prizePool: bigint;
+  closesAt: Date;
+  timeRemainingMs: number;
+  config: GameRules;
+  // Set when deposits go through the program: players ask for DEPOSIT_TRANSACTION rather than transferring.
+  programAccount: string | null;
+  // Account plain transfers are deposited into; null when none is configured.
+  vaultAddress: string | null;
+  // Memo a plain transfer must carry to be credited to this round; null when deposits go through the program.
+  depositMemo: string | null;
+}
+
+// Read side of the game module, backing the HTTP API. Never mutates state.
+@Injectable()
+export class GameQueryService {
+  constructor(
+    @InjectRepository(GameState)
+    private gameStateRepository: Repository<GameState>,
+    @InjectRepository(Player)
+    private playerRepository: Repository<Player>,
+    @InjectRepository(Winner)
+    private winnerRepository: Repository<Winner>,
+    private roundArchiveService: RoundArchiveService,
+    private anomalyService: AnomalyService,
+    private gameConfigService: GameConfigService,
+    private leaderboardService: LeaderboardService,
+    private randomnessService: RandomnessService,
+  ) {}
+
+  async listGames(pagination: PaginationQueryDto): Promise<Paginated<GameWithConfig>> {
+    const [games, total] = await this.gameStateRepository.findAndCount({ order: { createdAt: 'DESC' }, ...pageOptions(pagination) });
+    const configs = await this.gameConfigService.forRounds(games);
+    const items = games.map(game => ({ ...game, config: configs.get(game.gameId) }));
+    return { items, total, ...pagination };
+  }
+
+  async getGame(gameId: string): Promise<GameState | null> {
+    return this.gameStateRepository.findOne({ where: { gameId } });
+  }
+
+  async withConfig(game: GameState): Promise<GameWithConfig> {
+    return { ...game, config: await this.gameConfigService.forRound(game) };
+  }
+
+  // Games taking deposits right now, those closing soonest first.
+  async listLobby(pagination: PaginationQueryDto, now: Date = new Date()): Promise<Paginated<LobbyEntry>> {
+    const [games, total] = await this.gameStateRepository.findAndCount({
+      where: { phase: GamePhase.Open, closesAt: MoreThan(now) },
+      order: { closesAt: 'ASC', gameId: 'ASC' },
+      ...pageOptions(pagination),
+    });
+    const configs = await this.gameConfigService.forRounds(games);
+    const items = await Promise.all(
+      games.map(async game => ({
+        gameId: game.gameId,
+        round: game.round,
+        playerCount: await this.playerRepository.count({ where: { game: game.gameId, round: game.round } }),
+        prizePool: game.prizePool,
+        closesAt: game.closesAt,
+        timeRemainingMs: new Date(game.closesAt).getTime() - now.getTime(),
+        config: configs.get(game.gameId),
+        programAccount: game.programAccount ?? null,
+        vaultAddress: game.vaultAddress ?? process.env.GAME_VAULT_ADDRESS ?? null,
+        depositMemo: game.programAccount ? null : depositMemo(game),
+      })),
+    );
+    return { items, total, ...pagination };
+  }
+
+  // Players of the game's current round, in order of arrival.
+  async listPlayers(game: GameState, pagination: PaginationQueryDto): Promise<Paginated<Player>> {
+    const [items, total] = await this.playerRepository.findAndCount({
+      where: { game: game.gameId, round: game.round },
+      order: { firstDepositAt: 'ASC', id: 'ASC' },
+      ...pageOptions(pagination),
+    });
+    return { items, total, ...pagination };
+  }
+
+  // While the round is played this is the provisional leaderboard the WebSocket sends. Otherwise the recorded
+  // scores are ranked as selectWinners ranks them: by the round's tie-breakers and its revealed seed.
+  async getLeaderboard(game: GameState, pagination: PaginationQueryDto): Promise<Paginated<LeaderboardEntry>> {
+    const { skip, take } = pageOptions(pagination);
+    const players = await this.playerRepository.find({ where: { game: game.gameId, round: game.round } });
+    const entries = await this.rankLeaderboard(game, players);
+    return { items: entries.slice(skip, skip + take), total: entries.length, ...pagination };
+  }
+
+  private async rankLeaderboard(game: GameState, players: Player[]): Promise<LeaderboardEntry[]> {
+    const provisional = this.leaderboardService.snapshot(game.gameId);
+    if (provisional?.round === game.round) {
+      const byKey = new Map(players.map(p => [p.key, p]));
+      return provisional.changes
+        .filter(standing => byKey.has(standing.playerKey))
+        .map(({ rank, playerKey, compositeScore }) => ({ rank, playerKey, deposit: byKey.get(playerKey).deposit, compositeScore }));
+    }
+
+    const { tieBreakers } = await this.gameConfigService.forRound(game);
+    const commitment = await this.randomnessService.getCommitment(game.gameId, game.round);
+    return rankPlayers(players, { tieBreakers, seed: commitment?.seed ?? null }).map(({ player, rank }) => ({
+      rank,
+      playerKey: player.key,
+      deposit: player.deposit,
+      compositeScore: player.compositeScore,
+    }));
+  }
+
+  // Winners of `round`, or of the most recently settled round when none is given.
+  async listWinners(game: GameState, round?: number): Promise<Winner[]> {
+    const settledRound = round ?? latestSettledRound(game);
+    if (settledRound < 1) return [];
+    return this.winnerRepository.find({ where: { game: game.gameId, round: settledRound }, order: { rank: 'ASC' } });
+  }
+
+  async listRounds(gameId: string, pagination: PaginationQueryDto): Promise<Paginated<Round>> {
+    const { skip, take } = pageOptions(pagination);
+    const [items, total] = await this.roundArchiveService.listRounds(gameId, skip, take);
+    return { items, total, ...pagination };
+  }
+
+  async getRound(gameId: string, number: number): Promise<ArchivedRound | null> {
+    return this.roundArchiveService.getRound(gameId, number);
+  }
+
+  async getPlayerFlags(playerKey: string, pagination: PaginationQueryDto): Promise<Paginated<AnomalyFlag>> {
+    const { skip, take } = pageOptions(pagination);
+    const [items, total] = await this.anomalyService.flagsForPlayer(playerKey, skip, take);
+    return { items, total, ...pagination };
+  }
+
+  // Every round the player deposited into, newest first, with the prize where they won one.
+  async getPlayerHistory(playerKey: string, pagination: PaginationQueryDto): Promise<Paginated<PlayerHistoryEntry>> {
+    const [entries, total] = await this.playerRepository.findAndCount({
+      where: { key: playerKey },
+      order: { id: 'DESC' },
+      ...pageOptions(pagination),
+    });
+    const wins =
+      entries.length > 0
+        ? await this.winnerRepository.find({ where: entries.map(({ game, round }) => ({ playerKey, game, round })) })
+        : [];
+
+    const items = entries.map(entry => {
+      const win = wins.find(w => w.game === entry.game && w.round === entry.round);
+      return {
+        game: entry.game,
+        round: entry.round,
+        deposit: entry.deposit,
+        compositeScore: entry.compositeScore,
+        rank: win ? win.rank : null,
+        prize: win ? win.prize : null,
+      };
+    });
+    return { items, total, ...pagination };
+  }
+}
+
+function latestSettledRound(game: GameState): number {
+  return [GamePhase.Settled, GamePhase.Resetting, GamePhase.Archived].includes(game.phase) ? game.round : game.round - 1;
+}
@@ -5,17 +5,49 @@ import {
   ConnectedSocket,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  WebSocketServer,
 } from '@nestjs/websockets';
-import { Socket } from 'socket.io';
+import { Server, Socket } from 'socket.io';
+import { OnEvent } from '@nestjs/event-emitter';
 import { GameService } from './game.service';
-import { Logger } from '@nestjs/common';
+import { Logger, UseFilters, UseGuards, UsePipes } from '@nestjs/common';
 import { AiService } from '../ai/ai.service';
+import { GamePhaseError, MESSAGE_PHASE_ERRORS, MESSAGE_PHASES } from './game-lifecycle';
+import { RumbleError } from './rumble.errors';
+import { parseLamports, toWire } from '../prize/lamports';
+import { AuthService } from '../auth/auth.service';
+import { WsAuthGuard } from '../auth/ws-auth.guard';
+import { Public, Role, Roles, WalletSession } from '../auth/roles';
+import { WsErrorFilter } from './ws-error.filter';
+import { WsValidationPipe } from './ws-validation.pipe';
+import { GameIdDto } from './dto/game-id.dto';
+import { StartGameDto } from './dto/start-game.dto';
+import { ConfigureGameDto } from './dto/game-config.dto';
+import { DepositDto, DepositTransactionDto } from './dto/deposit.dto';
+import { AuthLoginDto } from './dto/auth-login.dto';
+import { LeaderboardService, LeaderboardUpdate } from './leaderboard.service';
+import { PayoutEvent, PayoutFailedEvent } from '../payout/payout.service';
+import { ReconciliationService } from '../reconciliation/reconciliation.service';
+import { parseGameRules } from './game-config';
+import { GameConfig } from '../database/entities/game-config.entity';
 
 @WebSocketGateway(8080, { transports: ['websocket'], cors: { origin: '*' } })
+@UseGuards(WsAuthGuard)
+@UseFilters(WsErrorFilter)
+@UsePipes(WsValidationPipe)
 export class GameGateway implements OnGatewayConnection, OnGatewayDisconnect {
+  @WebSocketServer()
+  server: Server;
+
   private readonly logger = new Logger(GameGateway.name);
 
-  constructor(private readonly gameService: GameService, private readonly aiService: AiService) {}
+  constructor(
+    private readonly gameService: GameService,
+    private readonly aiService: AiService,
+    private readonly authService: AuthService,
+    private readonly leaderboardService: LeaderboardService,
+    private readonly reconciliationService: ReconciliationService,
+  ) {}
 
   handleConnection(client: Socket) {
     this.logger.log(`Client connected: ${client.id}`);
@@ -25,64 +57,261 @@ export class GameGateway implements OnGatewayConnection, OnGatewayDisconnect {
     this.logger.log(`Client disconnected: ${client.id}`);
   }
 
+  @Public()
+  @SubscribeMessage('AUTH_CHALLENGE')
+  handleAuthChallenge(@ConnectedSocket() client: Socket) {
+    const challenge = this.authService.issueChallenge();
+    client.data.challenge = challenge;
+    client.emit('AUTH_CHALLENGE', { message: challenge.message, expiresAt: challenge.expiresAt });
+  }
+
+  @Public()
+  @SubscribeMessage('AUTH_LOGIN')
+  handleAuthLogin(@MessageBody() data: AuthLoginDto, @ConnectedSocket() client: Socket) {
+    try {
+      const session = this.authService.verifyLogin(client.data.challenge, data.publicKey, data.signature);
+      client.data.challenge = undefined;
+      client.data.session = session;
+      client.emit('AUTHENTICATED', { publicKey: session.publicKey, roles: session.roles });
+    } catch (error) {
+      this.emitError(client, error);
+      this.logger.error(`Error authenticating ${client.id}: ${error.message}`);
+    }
+  }
+
+  @Public()
+  @SubscribeMessage('JOIN_GAME')
+  async handleJoinGame(@MessageBody() data: GameIdDto, @ConnectedSocket() client: Socket) {
+    await client.join(gameRoom(data.gameId));
+    client.emit('GAME_JOINED', { gameId: data.gameId });
+    // Later LEADERBOARD_UPDATEs are diffs, so a new subscriber starts from the full provisional board.
+    const leaderboard = this.leaderboardService.snapshot(data.gameId);
+    if (leaderboard) client.emit('LEADERBOARD_UPDATE', leaderboard);
+    this.logger.log(`Client ${client.id} joined game ${data.gameId}`);
+  }
+
+  @Public()
+  @SubscribeMessage('LEAVE_GAME')
+  async handleLeaveGame(@MessageBody() data: GameIdDto, @ConnectedSocket() client: Socket) {
+    await client.leave(gameRoom(data.gameId));
+    client.emit('GAME_LEFT', { gameId: data.gameId });
+    this.logger.log(`Client ${client.id} left game ${data.gameId}`);
+  }
+
+  @Roles(Role.Admin)
   @SubscribeMessage('START_GAME')
-  async handleStartGame(@MessageBody() data: { gameId: string }, @ConnectedSocket() client: Socket) {
+  async handleStartGame(@MessageBody() data: StartGameDto, @ConnectedSocket() client: Socket) {
     try {
-      await this.gameService.initializeGame(data.gameId);
-      client.emit('GAME_STARTED', { gameId: data.gameId });
+      await this.ensurePhase('START_GAME', data.gameId);
+      const opensAt = data.opensAt ? new Date(data.opensAt) : undefined;
+      const game = await this.gameService.initializeGame(data.gameId, opensAt, parseGameRules(data.config));
+      client.emit('GAME_STARTED', { gameId: data.gameId, phase: game.phase, opensAt: game.opensAt });
       this.logger.log(`Game initialized: ${data.gameId}`);
     } catch (error) {
-      client.emit('ERROR', { message: error.message });
+      this.emitError(client, error);
       this.logger.error(`Error starting game: ${error.message}`);
     }
   }
 
+  // Rules can change until the game opens; the room sees the new rules as GAME_CONFIGURED.
+  @Roles(Role.Admin)
+  @SubscribeMessage('CONFIGURE_GAME')
+  async handleConfigureGame(@MessageBody() data: ConfigureGameDto, @ConnectedSocket() client: Socket) {
+    try {
+      await this.ensurePhase('CONFIGURE_GAME', data.gameId);
+      const config = await this.gameService.configureGame(data.gameId, parseGameRules(data.config));
+      this.reply(client, data.gameId, 'GAME_CONFIGURED', toWire({ gameId: data.gameId, round: config.round, config }));
+      this.logger.log(`Game configured: ${data.gameId}`);
+    } catch (error) {
+      this.emitError(client, error);
+      this.logger.error(`Error configuring game: ${error.message}`);
+    }
+  }
+
   @SubscribeMessage('DEPOSIT')
-  async handleDeposit(@MessageBody() data: { playerKey: string; amount: number; gameId: string }, @ConnectedSocket() client: Socket) {
+  async handleDeposit(@MessageBody() data: DepositDto, @ConnectedSocket() client: Socket) {
     try {
-      await this.gameService.deposit(data.playerKey, data.amount, data.gameId);
-      client.emit('DEPOSIT_CONFIRMED', { playerKey: data.playerKey, amount: data.amount });
-      this.logger.log(`Deposit made by ${data.playerKey} for game ${data.gameId}`);
+      const { publicKey: playerKey }: WalletSession = client.data.session;
+      if (data.playerKey && data.playerKey !== playerKey) {
+        throw new RumbleError.Forbidden({ playerKey: data.playerKey }, 'Deposits can only be made for the authenticated wallet.');
+      }
+      await this.ensurePhase('DEPOSIT', data.gameId);
+      const amount = parseLamports(data.amount);
+      const { deposit, replayed } = await this.gameService.deposit(
+        playerKey,
+        amount,
+        data.gameId,
+        data.signature,
+        data.idempotencyKey ?? null,
+      );
+      const confirmation = { playerKey, amount: deposit.amount.toString(), signature: deposit.signature };
+      if (replayed) {
+        // The room already saw the original confirmation; repeat it only to the client that resent.
+        client.emit('DEPOSIT_CONFIRMED', { ...confirmation, replayed: true });
+        this.logger.log(`Replayed deposit ${deposit.signature} from ${playerKey} for game ${data.gameId}`);
+        return;
+      }
+      this.reply(client, data.gameId, 'DEPOSIT_CONFIRMED', confirmation);
+      this.logger.log(`Deposit made by ${playerKey} for game ${data.gameId}`);
     } catch (error) {
-      client.emit('ERROR', { message: error.message });
+      this.emitError(client, error);
       this.logger.error(`Error processing deposit: ${error.message}`);
     }
   }
 
+  // Only the client that asked receives the transaction; it signs and sends it, then claims it with DEPOSIT.
+  @SubscribeMessage('DEPOSIT_TRANSACTION')
+  async handleDepositTransaction(@MessageBody() data: DepositTransactionDto, @ConnectedSocket() client: Socket) {
+    try {
+      const { publicKey: playerKey }: WalletSession = client.data.session;
+      await this.ensurePhase('DEPOSIT_TRANSACTION', data.gameId);
+      const amount = parseLamports(data.amount);
+      const transaction = await this.gameService.depositTransaction(playerKey, amount, data.gameId);
+      client.emit('DEPOSIT_TRANSACTION', { gameId: data.gameId, amount: amount.toString(), transaction });
+    } catch (error) {
+      this.emitError(client, error);
+      this.logger.error(`Error building deposit transaction: ${error.message}`);
+    }
+  }
+
+  @Roles(Role.Admin)
   @SubscribeMessage('EVALUATE_TRADING')
-  async handleEvaluateTrading(@MessageBody() data: { gameId: string }, @ConnectedSocket() client: Socket) {
+  async handleEvaluateTrading(@MessageBody() data: GameIdDto, @ConnectedSocket() client: Socket) {
     try {
+      await this.ensurePhase('EVALUATE_TRADING', data.gameId);
       await this.gameService.evaluateTradingActivities(data.gameId);
-      client.emit('TRADING_EVALUATED', { gameId: data.gameId });
+      this.reply(client, data.gameId, 'TRADING_EVALUATED', { gameId: data.gameId });
       this.logger.log(`Trading activities evaluated for game ${data.gameId}`);
     } catch (error) {
-      client.emit('ERROR', { message: error.message });
+      this.emitError(client, error);
       this.logger.error(`Error evaluating trading activities: ${error.message}`);
     }
   }
 
+  @Roles(Role.Admin)
   @SubscribeMessage('SELECT_WINNERS')
-  async handleSelectWinners(@MessageBody() data: { gameId: string }, @ConnectedSocket() client: Socket) {
+  async handleSelectWinners(@MessageBody() data: GameIdDto, @ConnectedSocket() client: Socket) {
     try {
+      await this.ensurePhase('SELECT_WINNERS', data.gameId);
       const winners = await this.gameService.selectWinners(data.gameId);
-      client.emit('WINNERS_SELECTED', { gameId: data.gameId, winners });
+      this.reply(client, data.gameId, 'WINNERS_SELECTED', { gameId: data.gameId, winners: toWire(winners) });
       this.logger.log(`Winners selected for game ${data.gameId}`);
     } catch (error) {
-      client.emit('ERROR', { message: error.message });
+      this.emitError(client, error);
       this.logger.error(`Error selecting winners: ${error.message}`);
     }
   }
 
+  @Roles(Role.Admin)
   @SubscribeMessage('RESET_GAME')
-  async handleResetGame(@MessageBody() data: { gameId: string }, @ConnectedSocket() client: Socket) {
+  async handleResetGame(@MessageBody() data: GameIdDto, @ConnectedSocket() client: Socket) {
     try {
+      await this.ensurePhase('RESET_GAME', data.gameId);
       await this.gameService.resetGame(data.gameId);
-      client.emit('GAME_RESET', { gameId: data.gameId });
+      this.reply(client, data.gameId, 'GAME_RESET', { gameId: data.gameId });
       this.logger.log(`Game reset for game ${data.gameId}`);
     } catch (error) {
-      client.emit('ERROR', { message: error.message });
+      this.emitError(client, error);
       this.logger.error(`Error resetting game: ${error.message}`);
     }
   }
+
+  // Accepted in every phase; only the admin who asked receives the report.
+  @Roles(Role.Admin)
+  @SubscribeMessage('RECONCILE')
+  async handleReconcile(@MessageBody() data: GameIdDto, @ConnectedSocket() client: Socket) {
+    try {
+      const report = await this.reconciliationService.reconcileGame(data.gameId);
+      client.emit('RECONCILIATION_REPORT', toWire(report));
+      this.logger.log(`Game ${data.gameId} reconciled: ${report.balanced ? 'balanced' : 'unbalanced'}`);
+    } catch (error) {
+      this.emitError(client, error);
+      this.logger.error(`Error reconciling game: ${error.message}`);
+    }
+  }
+
+  @OnEvent('game.opened')
+  relayGameOpened(event: { gameId: string; openedAt: Date; closesAt: Date; seedCommitment: string }) {
+    this.broadcast(event.gameId, 'GAME_OPENED', event);
+  }
+
+  @OnEvent('game.configured')
+  relayGameConfigured(event: { gameId: string; round: number; config: GameConfig }) {
+    this.broadcast(event.gameId, 'GAME_CONFIGURED', event);
+  }
+
+  @OnEvent('game.closed')
+  relayGameClosed(event: { gameId: string }) {
+    this.broadcast(event.gameId, 'GAME_CLOSED', event);
+  }
+
+  @OnEvent('deposit.made')
+  relayDeposit(event: { playerKey: string; amount: bigint; gameId: string; signature: string }) {
+    this.broadcast(event.gameId, 'DEPOSIT_CONFIRMED', {
+      playerKey: event.playerKey,
+      amount: event.amount,
+      signature: event.signature,
+    });
+  }
+
+  @OnEvent('trading.evaluated')
+  relayTradingEvaluated(event: { gameId: string }) {
+    this.broadcast(event.gameId, 'TRADING_EVALUATED', event);
+  }
+
+  @OnEvent('winners.selected')
+  relayWinnersSelected(event: { gameId: string }) {
+    this.broadcast(event.gameId, 'WINNERS_SELECTED', event);
+  }
+
+  @OnEvent('leaderboard.updated')
+  relayLeaderboardUpdate(event: LeaderboardUpdate) {
+    this.broadcast(event.gameId, 'LEADERBOARD_UPDATE', event);
+  }
+
+  @OnEvent('payout.confirmed')
+  relayPayoutConfirmed(event: PayoutEvent) {
+    this.broadcast(event.gameId, 'PAYOUT_CONFIRMED', event);
+  }
+
+  @OnEvent('payout.failed')
+  relayPayoutFailed(event: PayoutFailedEvent) {
+    this.broadcast(event.gameId, 'PAYOUT_FAILED', event);
+  }
+
+  @OnEvent('game.reset')
+  relayGameReset(event: { gameId: string }) {
+    this.broadcast(event.gameId, 'GAME_RESET', event);
+  }
+
+  private broadcast(gameId: string, message: string, payload: object) {
+    this.server.to(gameRoom(gameId)).emit(message, toWire(payload));
+  }
+
+  // Sockets in the game room already receive the relayed domain event; only answer the others directly.
+  private reply(client: Socket, gameId: string, message: string, payload: object) {
+    if (!client.rooms.has(gameRoom(gameId))) {
+      client.emit(message, payload);
+    }
+  }
+
+  private async ensurePhase(message: string, gameId: string): Promise<void> {
+    const phase = await this.gameService.getPhase(gameId);
+    if (phase === null) {
+      if (message === 'START_GAME') return;
+      throw new RumbleError.GameNotFound({ gameId });
+    }
+    if (!MESSAGE_PHASES[message].includes(phase)) {
+      throw new GamePhaseError(gameId, phase, `accept ${message} for`, MESSAGE_PHASE_ERRORS[message]);
+    }
+  }
+
+  // Clients branch on `code`; anything that is not a RumbleError is reported as Internal.
+  private emitError(client: Socket, error: Error) {
+    client.emit('ERROR', toWire(RumbleError.toPayload(error)));
+  }
 }
 
+function gameRoom(gameId: string): string {
+  return `game:${gameId}`;
+}
@@ -1,13 +1,58 @@
 import { Module } from '@nestjs/common';
+import { ScheduleModule } from '@nestjs/schedule';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { GameService } from './game.service';
 import { GameGateway } from './game.gateway';
+import { GameScheduler } from './game.scheduler';
 import { TradingModule } from '../trading/trading.module';
 import { AiModule } from '../ai/ai.module';
+import { AiScoringModule } from '../ai/ai-scoring.module';
 import { DatabaseModule } from '../database/database.module';
+import { ScoringModule } from '../scoring/scoring.module';
+import { RandomnessModule } from '../randomness/randomness.module';
+import { Settlement } from '../database/entities/settlement.entity';
+import { Deposit } from '../database/entities/deposit.entity';
+import { Round } from '../database/entities/round.entity';
+import { TradingEvaluation } from '../database/entities/trading-evaluation.entity';
+import { GameConfig } from '../database/entities/game-config.entity';
+import { RoundArchiveService } from './round-archive.service';
+import { GameQueryService } from './game-query.service';
+import { LeaderboardService } from './leaderboard.service';
+import { GameConfigService } from './game-config.service';
+import { GamesController } from './games.controller';
+import { PlayersController } from './players.controller';
+import { PrizeModule } from '../prize/prize.module';
+import { AuthModule } from '../auth/auth.module';
+import { SolanaModule } from '../solana/solana.module';
+import { AnomalyModule } from '../anomaly/anomaly.module';
+import { SybilModule } from '../sybil/sybil.module';
+import { PayoutModule } from '../payout/payout.module';
+import { BuybackModule } from '../buyback/buyback.module';
+import { ChainModule } from '../chain/chain.module';
+import { ReconciliationModule } from '../reconciliation/reconciliation.module';
 
 @Module({
-  imports: [TradingModule, AiModule, DatabaseModule],
-  providers: [GameService, GameGateway],
+  imports: [
+    ScheduleModule.forRoot(),
+    TypeOrmModule.forFeature([Settlement, Deposit, Round, TradingEvaluation, GameConfig]),
+    TradingModule,
+    AiModule,
+    AiScoringModule,
+    DatabaseModule,
+    ScoringModule,
+    RandomnessModule,
+    PrizeModule,
+    AuthModule,
+    SolanaModule,
+    AnomalyModule,
+    SybilModule,
+    PayoutModule,
+    BuybackModule,
+    ChainModule,
+    ReconciliationModule,
+  ],
+  providers: [GameService, GameConfigService, RoundArchiveService, LeaderboardService, GameQueryService, GameGateway, GameScheduler],
+  controllers: [GamesController, PlayersController],
 })
 export class GameModule {}
 
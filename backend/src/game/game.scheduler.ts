@@ -0,0 +1,51 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { GameService } from './game.service';
+
+@Injectable()
+export class GameScheduler {
+  private readonly logger = new Logger(GameScheduler.name);
+  private running = false;
+
+  constructor(private readonly gameService: GameService) {}
+
+  @Interval(1000)
+  async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const now = new Date();
+
+      for (const game of await this.gameService.findGamesDueToOpen(now)) {
+        try {
+          await this.gameService.openGame(game.gameId);
+          this.logger.log(`Round opened for game ${game.gameId}`);
+        } catch (error) {
+          this.logger.error(`Error opening game ${game.gameId}: ${error.message}`);
+        }
+      }
+
+      for (const game of await this.gameService.findGamesDueToClose(now)) {
+        try {
+          await this.gameService.closeGame(game.gameId);
+          this.logger.log(`Round closed for game ${game.gameId}`);
+          await this.gameService.evaluateTradingActivities(game.gameId);
+          this.logger.log(`Trading activities evaluated for game ${game.gameId}`);
+        } catch (error) {
+          this.logger.error(`Error closing game ${game.gameId}: ${error.message}`);
+        }
+      }
+
+      for (const game of await this.gameService.findGamesDueForRescoring(now)) {
+        try {
+          const evaluation = await this.gameService.evaluateTradingActivities(game.gameId);
+          this.logger.log(`Trading activities re-evaluated for game ${game.gameId}: ${evaluation.status}`);
+        } catch (error) {
+          this.logger.error(`Error re-evaluating game ${game.gameId}: ${error.message}`);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+}
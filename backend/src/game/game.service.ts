@@ -1,12 +1,70 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { DataSource, EntityManager, IsNull, LessThanOrEqual, Not, Repository } from 'typeorm';
 import { GameState } from '../database/entities/game-state.entity';
 import { Player } from '../database/entities/player.entity';
 import { Winner } from '../database/entities/winner.entity';
+import { Settlement } from '../database/entities/settlement.entity';
+import { Deposit } from '../database/entities/deposit.entity';
+import { EvaluationStatus, TradingEvaluation } from '../database/entities/trading-evaluation.entity';
+import { AnomalyFlag } from '../database/entities/anomaly-flag.entity';
+import { AnomalyService } from '../anomaly/anomaly.service';
+import { WalletCluster } from '../database/entities/wallet-cluster.entity';
+import { SybilService } from '../sybil/sybil.service';
+import { capClusterPrizes } from '../sybil/sybil-policy';
 import { TradingService } from '../trading/trading.service';
-import { AiService } from '../ai/ai.service';
+import { AiScoringClient } from '../ai/ai-scoring.client';
+import { SCORING_RETRY_INTERVAL_MS, ScoringFallback, neutralTradingScore } from '../ai/scoring-fallback';
+import { RandomnessService } from '../randomness/randomness.service';
+import { PrizeSplit, executedBuyback, rolledOver, splitPrizePool, withPayouts } from '../prize/prize-split';
+import { PrizeDistributionService } from '../prize/prize-distribution.service';
+import { DepositVerifierService } from '../solana/deposit-verifier.service';
+import { BuybackService } from '../buyback/buyback.service';
+import { RUMBLE_PROGRAM, RumbleProgramClient, SettledOnChain } from '../chain/rumble-program';
+import { ChainDiscrepancy, ExpectedChainState, findDiscrepancies, findPayoutDiscrepancies } from '../chain/chain-sync';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { GamePhase, GamePhaseError, assertPhase, depositMemo, isDepositWindowOpen, transition } from './game-lifecycle';
+import { RumbleError, RumbleErrorCode } from './rumble.errors';
+import { U64_MAX } from '../prize/lamports';
+import { RoundArchiveService } from './round-archive.service';
+import { LeaderboardService } from './leaderboard.service';
+import { ScoringService } from '../scoring/scoring.service';
+import { WinnerSlot } from '../scoring/ranking';
+import { ReconciliationService } from '../reconciliation/reconciliation.service';
+import { GameConfigService } from './game-config.service';
+import { GameRules } from './game-config';
+import { GameConfig } from '../database/entities/game-config.entity';
+
+export interface DepositReceipt {
+  deposit: Deposit;
+  // True when the deposit had already been credited and this call changed nothing.
+  replayed: boolean;
+}
+
+// What a settlement pays, decided before anything is written.
+interface SettlementPlan {
+  players: Player[];
+  slots: WinnerSlot[];
+  prizes: bigint[];
+  split: PrizeSplit;
+  seed: string;
+  distributionStrategy: string;
+}
+
+interface RecordedSettlement {
+  game: GameState;
+  winners: Winner[];
+  split: PrizeSplit;
+  settlement: Settlement;
+  seed: string;
+  // What the program reported paying; null off-chain, and when an earlier attempt made the payment.
+  settled: SettledOnChain | null;
+}
+
+interface ArchivedGame {
+  game: GameState;
+  round: number;
+}
 
 @Injectable()
 export class GameService {
@@ -17,128 +75,713 @@ export class GameService {
     private gameStateRepository: Repository<GameState>,
     @InjectRepository(Player)
     private playerRepository: Repository<Player>,
-    @InjectRepository(Winner)
-    private winnerRepository: Repository<Winner>,
+    @InjectRepository(Deposit)
+    private depositRepository: Repository<Deposit>,
+    @InjectRepository(TradingEvaluation)
+    private evaluationRepository: Repository<TradingEvaluation>,
     private tradingService: TradingService,
-    private aiService: AiService,
+    private aiScoringClient: AiScoringClient,
+    private anomalyService: AnomalyService,
+    private sybilService: SybilService,
+    private randomnessService: RandomnessService,
+    private prizeDistributionService: PrizeDistributionService,
+    private depositVerifier: DepositVerifierService,
+    private buybackService: BuybackService,
+    private roundArchiveService: RoundArchiveService,
+    private leaderboardService: LeaderboardService,
+    private scoringService: ScoringService,
+    private reconciliationService: ReconciliationService,
+    private gameConfigService: GameConfigService,
+    private dataSource: DataSource,
     private eventEmitter: EventEmitter2,
+    @Optional() @Inject(RUMBLE_PROGRAM) private program: RumbleProgramClient | null = null,
   ) {}
 
-  async initializeGame(gameId: string): Promise<GameState> {
+  // Starts a new game, or the next round of an archived one. The round is played by `rules` over the
+  // previous round's rules; they can still be changed with configureGame until the game opens.
+  async initializeGame(gameId: string, opensAt: Date = new Date(), rules: Partial<GameRules> = {}): Promise<GameState> {
+    const existing = await this.gameStateRepository.findOne({ where: { gameId } });
+    if (existing) {
+      assertPhase(existing, [GamePhase.Archived], 'initialize', RumbleErrorCode.GameAlreadyActive);
+    }
+
+    const rolloverLamports = existing ? existing.rolloverLamports : 0n;
     const newGame = this.gameStateRepository.create({
       gameId,
-      totalDeposits: 0,
-      prizePool: 0,
-      active: false,
+      round: existing ? existing.round + 1 : 1,
+      totalDeposits: 0n,
+      prizePool: rolloverLamports,
+      rolloverLamports,
+      phase: GamePhase.Created,
+      opensAt,
+      openedAt: null,
+      closesAt: null,
     });
-    return this.gameStateRepository.save(newGame);
+    await this.gameConfigService.create(gameId, newGame.round, rules);
+    const game = await this.gameStateRepository.save(newGame);
+    // A new game gets its program account only once its rows are saved, so a failed save leaves no account
+    // behind; should opening it fail, openGame tries again. Later rounds reuse the account.
+    if (this.program && !existing?.programAccount) {
+      game.programAccount = (await this.program.initialize()).account;
+      return this.gameStateRepository.save(game);
+    }
+    return game;
   }
 
-  async deposit(playerKey: string, amount: number, gameId: string): Promise<void> {
+  async configureGame(gameId: string, rules: Partial<GameRules>): Promise<GameConfig> {
     const game = await this.gameStateRepository.findOne({ where: { gameId } });
-    if (!game || game.active) {
-      throw new Error('Game is not active or does not exist.');
-    }
-
-    let player = await this.playerRepository.findOne({ where: { key: playerKey, game: gameId } });
-    if (player) {
-      player.deposit += amount;
-    } else {
-      player = this.playerRepository.create({
-        key: playerKey,
-        deposit: amount,
-        tradingScore: 0,
-        game: gameId,
-      });
+    if (!game) throw new RumbleError.GameNotFound({ gameId });
+    assertPhase(game, [GamePhase.Created], 'configure', RumbleErrorCode.GameAlreadyActive);
+
+    const config = await this.gameConfigService.configure(game, rules);
+    this.eventEmitter.emit('game.configured', { gameId, round: game.round, config });
+    return config;
+  }
+
+  async openGame(gameId: string): Promise<GameState> {
+    const game = await this.gameStateRepository.findOne({ where: { gameId } });
+    if (!game) throw new RumbleError.GameNotFound({ gameId });
+
+    transition(game, GamePhase.Open, 'open', RumbleErrorCode.GameAlreadyActive);
+    // A game whose account could not be opened when it was created gets one before it takes deposits.
+    if (this.program && !game.programAccount) {
+      game.programAccount = (await this.program.initialize()).account;
     }
-    await this.playerRepository.save(player);
+    const rules = await this.gameConfigService.forRound(game);
+    game.openedAt = new Date();
+    game.closesAt = new Date(game.openedAt.getTime() + rules.durationMs);
+    await this.gameConfigService.freeze(game, game.openedAt);
+    await this.gameStateRepository.save(game);
+    const seedCommitment = await this.randomnessService.commit(gameId, game.round);
+
+    this.eventEmitter.emit('game.opened', { gameId, openedAt: game.openedAt, closesAt: game.closesAt, seedCommitment });
+    return game;
+  }
 
-    game.totalDeposits += amount;
-    game.prizePool = game.totalDeposits;
+  async closeGame(gameId: string): Promise<GameState> {
+    const game = await this.gameStateRepository.findOne({ where: { gameId } });
+    if (!game) throw new RumbleError.GameNotFound({ gameId });
+
+    transition(game, GamePhase.Closed, 'close');
     await this.gameStateRepository.save(game);
+    await this.snapshotHoldings(game);
+
+    this.eventEmitter.emit('game.closed', { gameId });
+    return game;
+  }
+
+  // Token holdings are scored as they stood when deposits closed. A failed lookup does not hold up the
+  // close; scoring looks up whoever has no snapshot instead.
+  private async snapshotHoldings(game: GameState): Promise<void> {
+    try {
+      const players = await this.playerRepository.find({ where: { game: game.gameId, round: game.round } });
+      await this.scoringService.snapshotHoldings(players);
+      for (const player of players) {
+        await this.playerRepository.save(player);
+      }
+    } catch (error) {
+      this.logger.warn(`Could not snapshot token holdings for game ${game.gameId}: ${error.message}`);
+    }
+  }
 
-    this.eventEmitter.emit('deposit.made', { playerKey, amount, gameId });
+  async findGamesDueToOpen(now: Date): Promise<GameState[]> {
+    return this.gameStateRepository.find({ where: { phase: GamePhase.Created, opensAt: LessThanOrEqual(now) } });
   }
 
-  async evaluateTradingActivities(gameId: string): Promise<void> {
-    const game = await this.gameStateRepository.findOne({ where: { gameId }, relations: ['players'] });
-    if (!game) throw new Error('Game not found.');
+  async findGamesDueToClose(now: Date): Promise<GameState[]> {
+    return this.gameStateRepository.find({ where: { phase: GamePhase.Open, closesAt: LessThanOrEqual(now) } });
+  }
 
-    const players = game.players;
-    const scores = await this.aiService.computeScoresWithAnomalyDetection(players.map(p => p.key));
+  async getPhase(gameId: string): Promise<GamePhase | null> {
+    const game = await this.gameStateRepository.findOne({ where: { gameId } });
+    return game ? game.phase : null;
+  }
+
+  // Credits a deposit only once its transfer into the game vault is confirmed on-chain. Resending the
+  // same signature or idempotency key returns the original deposit without crediting it again.
+  async deposit(
+    playerKey: string,
+    amount: bigint,
+    gameId: string,
+    signature: string,
+    idempotencyKey: string | null = null,
+  ): Promise<DepositReceipt> {
+    const original = await this.findOriginalDeposit(this.depositRepository, playerKey, signature, idempotencyKey);
+    if (original) {
+      return this.replayDeposit(original, playerKey, amount, gameId, signature);
+    }
+
+    const game = await this.gameStateRepository.findOne({ where: { gameId } });
+    if (!game) {
+      throw new RumbleError.GameNotFound({ gameId });
+    }
+    if (!isDepositWindowOpen(game)) {
+      throw new GamePhaseError(gameId, game.phase === GamePhase.Open ? GamePhase.Closed : game.phase, 'deposit into');
+    }
+    if (amount <= 0n) {
+      throw new RumbleError.InvalidDeposit({ amount });
+    }
+    // The rules are frozen while the game is open, so they are read once; the limits that depend on the
+    // round's players are checked again under the lock.
+    const rules = await this.gameConfigService.forRound(game);
+    await this.assertWithinLimits(this.playerRepository, game, rules, playerKey, amount);
+    // A game on-chain holds its deposits in its program account, and only the program's deposit is credited:
+    // a plain transfer into the account would leave the player off the program's books. Either way the transfer
+    // must have been made while this round was open.
+    const window = { from: game.openedAt, to: game.closesAt };
+    const { slot } = await this.depositVerifier.verify(
+      this.onChain(game)
+        ? { signature, sender: playerKey, vault: game.programAccount, amount, program: this.programFor(game).programId, window }
+        : { signature, sender: playerKey, vault: this.vaultOf(game), amount, window, memo: depositMemo(game) },
+    );
 
-    for (const { playerKey, score } of scores) {
-      const player = players.find(p => p.key === playerKey);
+    // The game row stays locked until commit, so concurrent deposits apply one after another and the
+    // phase and replay checks above are repeated against what is actually committed.
+    const receipt = await this.dataSource.transaction(async manager => {
+      const locked = await this.lockGame(manager, gameId);
+      if (!isDepositWindowOpen(locked)) {
+        throw new GamePhaseError(gameId, locked.phase === GamePhase.Open ? GamePhase.Closed : locked.phase, 'deposit into');
+      }
+      if (locked.totalDeposits + amount > U64_MAX) {
+        throw new RumbleError.Overflow({ gameId, totalDeposits: locked.totalDeposits, amount });
+      }
+      const depositRepository = manager.getRepository(Deposit);
+      const raced = await this.findOriginalDeposit(depositRepository, playerKey, signature, idempotencyKey);
+      if (raced) {
+        return this.replayDeposit(raced, playerKey, amount, gameId, signature);
+      }
+      await this.assertWithinLimits(manager.getRepository(Player), locked, rules, playerKey, amount);
+
+      const deposit = await depositRepository.save(
+        depositRepository.create({ game: gameId, round: locked.round, playerKey, amount, signature, idempotencyKey, slot }),
+      );
+
+      const playerRepository = manager.getRepository(Player);
+      let player = await playerRepository.findOne({ where: { key: playerKey, game: gameId, round: locked.round } });
       if (player) {
-        player.tradingScore = score;
-        await this.playerRepository.save(player);
+        player.deposit += amount;
+      } else {
+        player = playerRepository.create({
+          key: playerKey,
+          deposit: amount,
+          tradingScore: 0,
+          firstDepositAt: new Date(),
+          game: gameId,
+          round: locked.round,
+        });
       }
+      await playerRepository.save(player);
+
+      locked.totalDeposits += amount;
+      locked.prizePool = locked.totalDeposits + locked.rolloverLamports;
+      await manager.getRepository(GameState).save(locked);
+
+      return { deposit, replayed: false };
+    });
+
+    if (!receipt.replayed) {
+      this.eventEmitter.emit('deposit.made', { playerKey, amount, gameId, signature });
+    }
+    return receipt;
+  }
+
+  // Builds the program deposit a player of an on-chain game signs and sends before claiming it with `deposit`.
+  async depositTransaction(playerKey: string, amount: bigint, gameId: string): Promise<string> {
+    const game = await this.gameStateRepository.findOne({ where: { gameId } });
+    if (!game) {
+      throw new RumbleError.GameNotFound({ gameId });
+    }
+    if (!this.onChain(game)) {
+      throw new RumbleError.InvalidRequest({ gameId }, `Game ${gameId} takes deposits as plain transfers to its vault.`);
+    }
+    if (!isDepositWindowOpen(game)) {
+      throw new GamePhaseError(gameId, game.phase === GamePhase.Open ? GamePhase.Closed : game.phase, 'deposit into');
+    }
+    if (amount <= 0n) {
+      throw new RumbleError.InvalidDeposit({ amount });
+    }
+    const rules = await this.gameConfigService.forRound(game);
+    await this.assertWithinLimits(this.playerRepository, game, rules, playerKey, amount);
+    return this.programFor(game).deposit(game.programAccount, playerKey, amount);
+  }
+
+  // A deposit below the round's minimum, or one taking the player past the maximum, is rejected, and so is
+  // a new player once the round is full. Players are only read when the round has such limits.
+  private async assertWithinLimits(
+    playerRepository: Repository<Player>,
+    game: GameState,
+    rules: GameRules,
+    playerKey: string,
+    amount: bigint,
+  ): Promise<void> {
+    const gameId = game.gameId;
+    if (amount < rules.minDeposit) {
+      throw new RumbleError.InvalidDeposit(
+        { gameId, amount, minDeposit: rules.minDeposit },
+        `Deposits into game ${gameId} must be at least ${rules.minDeposit} lamports.`,
+      );
+    }
+    if (rules.maxDeposit === null && rules.maxPlayers === null) return;
+
+    const round = { game: gameId, round: game.round };
+    const player = await playerRepository.findOne({ where: { key: playerKey, ...round } });
+    if (rules.maxDeposit !== null && (player?.deposit ?? 0n) + amount > rules.maxDeposit) {
+      throw new RumbleError.InvalidDeposit(
+        { gameId, amount, deposited: player?.deposit ?? 0n, maxDeposit: rules.maxDeposit },
+        `Players may deposit at most ${rules.maxDeposit} lamports into game ${gameId} this round.`,
+      );
+    }
+    if (!player && rules.maxPlayers !== null && (await playerRepository.count({ where: round })) >= rules.maxPlayers) {
+      throw new RumbleError.GameFull({ gameId, maxPlayers: rules.maxPlayers });
+    }
+  }
+
+  private replayDeposit(original: Deposit, playerKey: string, amount: bigint, gameId: string, signature: string): DepositReceipt {
+    if (original.playerKey !== playerKey || original.game !== gameId || original.amount !== amount || original.signature !== signature) {
+      throw new RumbleError.DepositConflict({ signature, originalSignature: original.signature });
+    }
+    return { deposit: original, replayed: true };
+  }
+
+  private async findOriginalDeposit(
+    depositRepository: Repository<Deposit>,
+    playerKey: string,
+    signature: string,
+    idempotencyKey: string | null,
+  ): Promise<Deposit | null> {
+    const bySignature = await depositRepository.findOne({ where: { signature } });
+    if (bySignature || !idempotencyKey) return bySignature;
+    return depositRepository.findOne({ where: { playerKey, idempotencyKey } });
+  }
+
+  // Takes a row lock on the game for the rest of the transaction. Relations are loaded separately
+  // because Postgres cannot lock the nullable side of an outer join.
+  private async lockGame(manager: EntityManager, gameId: string): Promise<GameState | null> {
+    return manager.getRepository(GameState).findOne({ where: { gameId }, lock: { mode: 'pessimistic_write' } });
+  }
+
+  // Scores every player of the round. Players the scoring service could not score are handled by the game's
+  // scoring fallback rather than keeping a stale score, and the run is recorded as complete or partial. A run
+  // that throws part-way is recorded as failed and retried by the scheduler.
+  async evaluateTradingActivities(gameId: string): Promise<TradingEvaluation> {
+    const game = await this.gameStateRepository.findOne({ where: { gameId } });
+    if (!game) throw new RumbleError.GameNotFound({ gameId });
+    assertPhase(game, [GamePhase.Open, GamePhase.Closed], 'evaluate');
+    this.assertInSync(game);
+
+    const players = await this.playerRepository.find({ where: { game: gameId, round: game.round } });
+    const { scoringFallback: fallback } = await this.gameConfigService.forRound(game);
+    let evaluation: TradingEvaluation;
+    try {
+      evaluation = await this.evaluate(game, players, fallback);
+    } catch (error) {
+      await this.recordEvaluation(game, {
+        status: EvaluationStatus.Failed,
+        fallback,
+        scoredPlayers: 0,
+        missingPlayers: players.map(p => p.key),
+        errors: [error.message],
+        retryAt: new Date(Date.now() + SCORING_RETRY_INTERVAL_MS),
+      }).catch(recordError =>
+        this.logger.error(`Could not record the failed evaluation of game ${gameId}: ${recordError.message}`),
+      );
+      throw error;
+    }
+
+    this.eventEmitter.emit('trading.evaluated', { gameId, status: evaluation.status });
+    return evaluation;
+  }
+
+  // Flags and clusters are worked out before the scores are written anywhere, so a rule or history lookup
+  // that throws leaves the program account and the players as they were.
+  private async evaluate(game: GameState, players: Player[], fallback: ScoringFallback): Promise<TradingEvaluation> {
+    const { gameId } = game;
+    const { scores, missing, errors } = await this.aiScoringClient.computeTradingScores(players.map(p => p.key));
+
+    const fallbackScore = fallback === ScoringFallback.Neutral ? neutralTradingScore([...scores.values()]) : 0;
+    for (const player of players) {
+      player.tradingScore = scores.get(player.key) ?? fallbackScore;
+    }
+    await this.anomalyService.detect(game, players);
+    await this.sybilService.cluster(game, players);
+
+    if (this.onChain(game)) {
+      await this.programFor(game).evaluateTradingActivity(
+        game.programAccount,
+        players.map(p => ({ player: p.key, score: p.tradingScore })),
+      );
+    }
+    for (const player of players) {
+      await this.playerRepository.save(player);
     }
 
-    this.eventEmitter.emit('trading.evaluated', { gameId });
+    const complete = missing.length === 0;
+    const evaluation = await this.recordEvaluation(game, {
+      status: complete ? EvaluationStatus.Complete : EvaluationStatus.Partial,
+      fallback,
+      scoredPlayers: scores.size,
+      missingPlayers: missing,
+      errors,
+      retryAt: complete || fallback === ScoringFallback.Neutral ? null : new Date(Date.now() + SCORING_RETRY_INTERVAL_MS),
+    });
+    if (!complete) {
+      this.logger.warn(`Trading evaluation for game ${gameId} is missing ${missing.length} players (${fallback}).`);
+    }
+    if (this.onChain(game)) {
+      await this.checkChain(game, 'evaluate', { scores: new Map(players.map(p => [p.key, p.tradingScore])) });
+    }
+    return evaluation;
+  }
+
+  // Each evaluation supersedes the retries earlier ones scheduled.
+  private async recordEvaluation(
+    game: GameState,
+    run: Pick<TradingEvaluation, 'status' | 'fallback' | 'scoredPlayers' | 'missingPlayers' | 'errors' | 'retryAt'>,
+  ): Promise<TradingEvaluation> {
+    await this.evaluationRepository.update({ game: game.gameId, round: game.round, retryAt: Not(IsNull()) }, { retryAt: null });
+    return this.evaluationRepository.save(this.evaluationRepository.create({ game: game.gameId, round: game.round, ...run }));
   }
 
+  // Games whose last evaluation is partial or failed and due for another attempt. Evaluations of rounds that have
+  // since settled are retired instead.
+  async findGamesDueForRescoring(now: Date): Promise<GameState[]> {
+    const games: GameState[] = [];
+    for (const evaluation of await this.evaluationRepository.find({ where: { retryAt: LessThanOrEqual(now) } })) {
+      const game = await this.gameStateRepository.findOne({ where: { gameId: evaluation.game } });
+      if (game && game.round === evaluation.round && [GamePhase.Open, GamePhase.Closed].includes(game.phase)) {
+        games.push(game);
+      } else {
+        evaluation.retryAt = null;
+        await this.evaluationRepository.save(evaluation);
+      }
+    }
+    return games;
+  }
+
+  // Scoring, winners and the settlement are written in one transaction, so a failure part-way leaves the
+  // game Closed with nothing recorded, and a concurrent call waits for the lock and then sees it Settled.
+  // An on-chain game is instead marked Settling while the program pays, so that the lock is not held while
+  // the payment is confirmed, and the same writes follow once it has landed. Nothing is settled unless the
+  // game's books balance.
   async selectWinners(gameId: string): Promise<Winner[]> {
-    const game = await this.gameStateRepository.findOne({ where: { gameId }, relations: ['players'] });
-    if (!game || game.active) {
-      throw new Error('Game is not active or does not exist.');
+    await this.reconciliationService.assertBalanced(gameId);
+    const result = await this.dataSource.transaction(async manager => {
+      const game = await this.lockGame(manager, gameId);
+      if (!game) {
+        throw new RumbleError.GameNotFound({ gameId });
+      }
+      // A game an earlier attempt left Settling is planned and submitted again.
+      const from = this.onChain(game) ? [GamePhase.Closed, GamePhase.Settling] : [GamePhase.Closed];
+      assertPhase(game, from, 'select winners for', RumbleErrorCode.GameAlreadyActive);
+      this.assertInSync(game);
+      if (game.totalDeposits === 0n) {
+        throw new RumbleError.NoDeposits({ gameId });
+      }
+      const { scoringFallback } = await this.gameConfigService.forRound(game);
+      if (scoringFallback === ScoringFallback.BlockSettlement) {
+        const evaluation = await manager
+          .getRepository(TradingEvaluation)
+          .findOne({ where: { game: gameId, round: game.round }, order: { id: 'DESC' } });
+        if (evaluation?.status !== EvaluationStatus.Complete) {
+          throw new RumbleError.ScoringIncomplete({ gameId, round: game.round, missingPlayers: evaluation?.missingPlayers ?? null });
+        }
+      }
+
+      const players = await manager.getRepository(Player).find({ where: { game: gameId, round: game.round } });
+      if (!this.onChain(game)) {
+        const seed = await this.randomnessService.reveal(gameId, game.round, manager);
+        return this.recordSettlement(manager, game, await this.planSettlement(manager, game, players, seed));
+      }
+
+      if (game.phase === GamePhase.Closed) {
+        // Nothing is written here, so the discrepancies are recorded once the transaction has ended.
+        const held = findDiscrepancies(
+          'select winners',
+          {
+            totalDeposits: game.totalDeposits,
+            prizePool: game.prizePool,
+            active: false,
+            deposits: new Map(players.map(p => [p.key, p.deposit])),
+          },
+          await this.programFor(game).fetchGameState(game.programAccount),
+        );
+        if (held.length > 0) return { held };
+      }
+      // The seed is only revealed with the settlement it decided.
+      const seed = await this.randomnessService.seedFor(gameId, game.round, manager);
+      const plan = await this.planSettlement(manager, game, players, seed);
+      if (game.phase === GamePhase.Closed) {
+        transition(game, GamePhase.Settling, 'settle');
+        await manager.getRepository(GameState).save(game);
+      }
+      return { planned: game, plan };
+    });
+    if ('held' in result) {
+      await this.holdForReconciliation(gameId, result.held);
+      throw new RumbleError.ChainOutOfSync({ gameId, discrepancies: result.held });
+    }
+    const recorded = 'plan' in result ? await this.settleOnChain(result.planned, result.plan) : result;
+    const { game, winners, split, settlement, seed, settled } = recorded;
+
+    const buybackAmount = executedBuyback(split);
+    if (this.onChain(game)) {
+      // The program has already paid the winners and moved the buyback share to the buyback account.
+      await this.checkSettlement(game, winners, buybackAmount, settled);
     }
+    // Buyback and burn RUMBLE tokens, only once the settlement is committed
+    await this.buybackService.execute(settlement, buybackAmount);
 
-    const players = game.players;
-    const numWinners = Math.ceil(players.length * 0.10);
-    const sortedPlayers = players.sort((a, b) => b.tradingScore - a.tradingScore);
-    const topPlayers = sortedPlayers.slice(0, numWinners);
+    this.eventEmitter.emit('winners.selected', {
+      gameId,
+      winners,
+      buybackAmount,
+      remainder: split.remainder,
+      seed,
+      paidOnChain: this.onChain(game),
+    });
+
+    return winners;
+  }
 
-    const prizePool = game.prizePool;
-    const prizeForWinners = Math.floor(prizePool * 90 / 100);
-    const buybackAmount = Math.floor(prizePool * 10 / 100);
-    const prizePerWinner = Math.floor(prizeForWinners / numWinners);
+  private async planSettlement(manager: EntityManager, game: GameState, players: Player[], seed: string): Promise<SettlementPlan> {
+    const flags = await manager.getRepository(AnomalyFlag).find({ where: { game: game.gameId, round: game.round } });
+    const clusters = await manager.getRepository(WalletCluster).find({ where: { game: game.gameId, round: game.round } });
+    const { slots, numWinners } = await this.leaderboardService.rankRound(game, players, seed, { flags, clusters });
+
+    const rules = await this.gameConfigService.forRound(game);
+    const poolSplit = splitPrizePool(game.prizePool, rules.buybackBps, game.remainderDestination);
+    const prizes = capClusterPrizes(
+      slots,
+      this.prizeDistributionService.distribute(rules, slots, numWinners, poolSplit),
+      clusters,
+      poolSplit.prizeForWinners,
+      rules.sybilLimits?.maxPoolShareBps,
+    );
+    return { players, slots, prizes, split: withPayouts(poolSplit, prizes), seed, distributionStrategy: rules.distributionStrategy };
+  }
+
+  private async recordSettlement(manager: EntityManager, game: GameState, plan: SettlementPlan): Promise<RecordedSettlement> {
+    const { players, slots, prizes, split, seed, distributionStrategy } = plan;
+    const playerRepository = manager.getRepository(Player);
+    const winnerRepository = manager.getRepository(Winner);
+    const settlementRepository = manager.getRepository(Settlement);
+
+    for (const player of players) {
+      await playerRepository.save(player);
+    }
 
     const winners: Winner[] = [];
 
-    for (const player of topPlayers) {
-      const winner = this.winnerRepository.create({
-        playerKey: player.key,
-        prize: prizePerWinner,
-        game: gameId,
+    for (const [index, slot] of slots.entries()) {
+      const winner = winnerRepository.create({
+        playerKey: slot.player.key,
+        prize: prizes[index],
+        rank: slot.rank,
+        sharedWith: slot.sharedWith,
+        decidedBy: slot.decidedBy,
+        game: game.gameId,
+        round: game.round,
       });
       winners.push(winner);
-      await this.winnerRepository.save(winner);
+      await winnerRepository.save(winner);
     }
 
-    // Buyback and burn RUMBLE tokens
-    await this.buybackAndBurnTokens(buybackAmount);
-
-    game.active = true;
-    game.prizePool = 0;
-    await this.gameStateRepository.save(game);
+    const settlement = settlementRepository.create({
+      game: game.gameId,
+      round: game.round,
+      numWinners: winners.length,
+      distributionStrategy,
+      ...split,
+    });
+    await settlementRepository.save(settlement);
 
-    this.eventEmitter.emit('winners.selected', { gameId, winners, buybackAmount });
+    transition(game, GamePhase.Settled, 'settle');
+    game.prizePool = 0n;
+    game.rolloverLamports = rolledOver(split);
+    await manager.getRepository(GameState).save(game);
 
-    return winners;
+    return { game, winners, split, settlement, seed, settled: null };
   }
 
-  async buybackAndBurnTokens(amount: number): Promise<void> {
-    // Implementation for buying back and burning RUMBLE tokens
-    // This would interact with the token program to perform the buyback and burn
-    this.logger.log(`Buyback and burn of ${amount} RUMBLE tokens executed.`);
+  // The program refuses to pay a settled account twice, so an attempt that finds the payment already made
+  // by an earlier one records the plan and leaves checkSettlement to compare it with the account. Any other
+  // rejection means nothing was paid, and the game goes back to Closed; an attempt that may still land
+  // leaves it Settling for the next.
+  private async settleOnChain(planned: GameState, plan: SettlementPlan): Promise<RecordedSettlement> {
+    const { gameId } = planned;
+    const { slots, prizes, split } = plan;
+    let settled: SettledOnChain | null = null;
+    try {
+      settled = await this.programFor(planned).selectWinners(
+        planned.programAccount,
+        slots.flatMap((slot, index) => (prizes[index] > 0n ? [{ player: slot.player.key, amount: prizes[index] }] : [])),
+        executedBuyback(split),
+      );
+    } catch (error) {
+      if (!(error instanceof RumbleError.GameAlreadyActive)) {
+        if (error instanceof RumbleError) {
+          await this.dataSource.transaction(async manager => {
+            const game = await this.lockGame(manager, gameId);
+            if (game.phase !== GamePhase.Settling) return;
+            transition(game, GamePhase.Closed, 'reopen');
+            await manager.getRepository(GameState).save(game);
+          });
+        }
+        throw error;
+      }
+    }
+
+    const recorded = await this.dataSource.transaction(async manager => {
+      const game = await this.lockGame(manager, gameId);
+      assertPhase(game, [GamePhase.Settling], 'record the settlement of', RumbleErrorCode.GameAlreadyActive);
+      await this.randomnessService.reveal(gameId, game.round, manager);
+      return this.recordSettlement(manager, game, plan);
+    });
+    return { ...recorded, settled };
   }
 
+  // Ends the round without deleting anything: its players, deposits and winners stay tagged with the
+  // round number, and a Round summary is written. The next initializeGame starts the following round. An
+  // on-chain game is instead marked Resetting while the program resets its account, so that the lock is not
+  // held while that is confirmed, and is archived once it has.
   async resetGame(gameId: string): Promise<void> {
-    const game = await this.gameStateRepository.findOne({ where: { gameId }, relations: ['players', 'winners'] });
-    if (!game || !game.active) {
-      throw new Error('Game is not active or does not exist.');
+    const result = await this.dataSource.transaction(async manager => {
+      const game = await this.lockGame(manager, gameId);
+      if (!game) {
+        throw new RumbleError.GameNotFound({ gameId });
+      }
+      // A game an earlier attempt left Resetting is reset again.
+      assertPhase(game, this.onChain(game) ? [GamePhase.Settled, GamePhase.Resetting] : [GamePhase.Settled], 'reset');
+      this.assertInSync(game);
+      if (!this.onChain(game)) {
+        return this.archiveRound(manager, game);
+      }
+
+      const retry = game.phase === GamePhase.Resetting;
+      if (!retry) {
+        transition(game, GamePhase.Resetting, 'reset');
+        await manager.getRepository(GameState).save(game);
+      }
+      return { resetting: game, retry };
+    });
+    const { game, round } = 'resetting' in result ? await this.resetOnChain(result.resetting, result.retry) : result;
+    if (this.onChain(game)) {
+      await this.checkChain(game, 'reset', { totalDeposits: 0n, prizePool: game.rolloverLamports, active: false });
     }
 
-    await this.winnerRepository.delete({ game: gameId });
-    await this.playerRepository.delete({ game: gameId });
+    this.eventEmitter.emit('game.reset', { gameId, round });
+  }
 
-    game.active = false;
-    game.totalDeposits = 0;
-    game.prizePool = 0;
-    await this.gameStateRepository.save(game);
+  // The program refuses to reset an account that is not active, so a retry that finds it already reset by
+  // an earlier attempt goes on to archive the round. On a first attempt any rejection means nothing was
+  // reset, and the game goes back to Settled; an attempt that may still land leaves it Resetting for the next.
+  private async resetOnChain(resetting: GameState, retry: boolean): Promise<ArchivedGame> {
+    const { gameId } = resetting;
+    try {
+      await this.programFor(resetting).resetGame(resetting.programAccount);
+    } catch (error) {
+      const alreadyReset = retry && error instanceof RumbleError.GameNotActive;
+      if (!alreadyReset) {
+        if (!retry && error instanceof RumbleError) {
+          await this.dataSource.transaction(async manager => {
+            const game = await this.lockGame(manager, gameId);
+            if (game.phase !== GamePhase.Resetting) return;
+            transition(game, GamePhase.Settled, 'restore');
+            await manager.getRepository(GameState).save(game);
+          });
+        }
+        throw error;
+      }
+    }
 
-    this.eventEmitter.emit('game.reset', { gameId });
+    return this.dataSource.transaction(async manager => {
+      const game = await this.lockGame(manager, gameId);
+      assertPhase(game, [GamePhase.Resetting], 'archive');
+      return this.archiveRound(manager, game);
+    });
+  }
+
+  private async archiveRound(manager: EntityManager, game: GameState): Promise<ArchivedGame> {
+    const randomness = await this.randomnessService.getCommitment(game.gameId, game.round);
+    const archived = await this.roundArchiveService.archive(manager, game, randomness);
+
+    transition(game, GamePhase.Archived, 'archive');
+    game.totalDeposits = 0n;
+    game.prizePool = game.rolloverLamports;
+    await manager.getRepository(GameState).save(game);
+    return { game, round: archived.number };
+  }
+
+  private vaultOf(game: GameState): string {
+    const vault = game.vaultAddress ?? process.env.GAME_VAULT_ADDRESS;
+    if (!vault) {
+      throw new Error(`Game ${game.gameId} has no vault address configured.`);
+    }
+    return vault;
+  }
+
+  private onChain(game: GameState): boolean {
+    return Boolean(this.program && game.programAccount);
+  }
+
+  // The client for a game onChain() accepts.
+  private programFor(game: GameState): RumbleProgramClient {
+    if (!this.program || !game.programAccount) {
+      throw new Error(`Game ${game.gameId} has no program account.`);
+    }
+    return this.program;
+  }
+
+  private assertInSync(game: GameState): void {
+    if (game.chainDiscrepancies?.length) {
+      throw new RumbleError.ChainOutOfSync({ gameId: game.gameId, discrepancies: game.chainDiscrepancies });
+    }
   }
-}
 
+  private async checkSettlement(
+    game: GameState,
+    winners: Winner[],
+    buybackAmount: bigint,
+    settled: SettledOnChain | null,
+  ): Promise<void> {
+    const prizes = new Map(winners.map(w => [w.playerKey, w.prize]));
+    await this.checkChain(
+      game,
+      'select winners',
+      {
+        totalDeposits: 0n,
+        prizePool: game.rolloverLamports,
+        active: true,
+        winners: winners.filter(w => w.prize > 0n).map(w => w.playerKey),
+      },
+      settled ? findPayoutDiscrepancies('select winners', prizes, buybackAmount, settled) : [],
+    );
+  }
+
+  // Reads the program account back after a committed step and holds the game if the two disagree. A failed
+  // read is only logged: the step itself went through, and reconciliation compares the game again later.
+  private async checkChain(
+    game: GameState,
+    step: string,
+    expected: ExpectedChainState,
+    found: ChainDiscrepancy[] = [],
+  ): Promise<void> {
+    const discrepancies = [...found];
+    try {
+      discrepancies.push(...findDiscrepancies(step, expected, await this.programFor(game).fetchGameState(game.programAccount)));
+    } catch (error) {
+      this.logger.warn(`Could not compare game ${game.gameId} with its program account after ${step}: ${error.message}`);
+    }
+    await this.holdForReconciliation(game.gameId, discrepancies);
+  }
+
+  private async holdForReconciliation(gameId: string, discrepancies: ChainDiscrepancy[]): Promise<void> {
+    if (discrepancies.length === 0) return;
+    const game = await this.gameStateRepository.findOne({ where: { gameId } });
+    game.chainDiscrepancies = [...(game.chainDiscrepancies ?? []), ...discrepancies];
+    await this.gameStateRepository.save(game);
+    this.logger.error(
+      `Game ${gameId} disagrees with its program account on ${discrepancies.map(d => d.field).join(', ')}; held for reconciliation.`,
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { Controller, Get, NotFoundException, Param, ParseIntPipe, Query } from '@nestjs/common';
+import { ApiNotFoundResponse, ApiOkResponse, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { GameQueryService } from './game-query.service';
+import { GameState } from '../database/entities/game-state.entity';
+import { PaginationQueryDto } from './dto/pagination.dto';
+import {
+  ArchivedRoundView,
+  GameView,
+  PaginatedGameView,
+  PaginatedLeaderboardView,
+  PaginatedLobbyView,
+  PaginatedPlayerView,
+  PaginatedRoundView,
+  WinnerView,
+} from './dto/game-views';
+import { toWire } from '../prize/lamports';
+
+@ApiTags('games')
+@Controller('games')
+export class GamesController {
+  constructor(private readonly gameQueryService: GameQueryService) {}
+
+  @Get()
+  @ApiOkResponse({ type: PaginatedGameView })
+  async listGames(@Query() pagination: PaginationQueryDto) {
+    return toWire(await this.gameQueryService.listGames(pagination));
+  }
+
+  // Declared before `:gameId` so that it is not read as a game id.
+  @Get('lobby')
+  @ApiOkResponse({ type: PaginatedLobbyView })
+  async listLobby(@Query() pagination: PaginationQueryDto) {
+    return toWire(await this.gameQueryService.listLobby(pagination));
+  }
+
+  @Get(':gameId')
+  @ApiOkResponse({ type: GameView })
+  @ApiNotFoundResponse()
+  async getGame(@Param('gameId') gameId: string) {
+    return toWire(await this.gameQueryService.withConfig(await this.findGame(gameId)));
+  }
+
+  @Get(':gameId/players')
+  @ApiOkResponse({ type: PaginatedPlayerView })
+  @ApiNotFoundResponse()
+  async listPlayers(@Param('gameId') gameId: string, @Query() pagination: PaginationQueryDto) {
+    return toWire(await this.gameQueryService.listPlayers(await this.findGame(gameId), pagination));
+  }
+
+  @Get(':gameId/leaderboard')
+  @ApiOkResponse({ type: PaginatedLeaderboardView })
+  @ApiNotFoundResponse()
+  async getLeaderboard(@Param('gameId') gameId: string, @Query() pagination: PaginationQueryDto) {
+    return toWire(await this.gameQueryService.getLeaderboard(await this.findGame(gameId), pagination));
+  }
+
+  @Get(':gameId/winners')
+  @ApiOkResponse({ type: [WinnerView] })
+  @ApiNotFoundResponse()
+  @ApiQuery({ name: 'round', required: false, description: 'Defaults to the most recently settled round.' })
+  async listWinners(
+    @Param('gameId') gameId: string,
+    @Query('round', new ParseIntPipe({ optional: true })) round?: number,
+  ) {
+    return toWire(await this.gameQueryService.listWinners(await this.findGame(gameId), round));
+  }
+
+  @Get(':gameId/rounds')
+  @ApiOkResponse({ type: PaginatedRoundView })
+  async listRounds(@Param('gameId') gameId: string, @Query() pagination: PaginationQueryDto) {
+    return toWire(await this.gameQueryService.listRounds(gameId, pagination));
+  }
+
+  @Get(':gameId/rounds/:round')
+  @ApiOkResponse({ type: ArchivedRoundView })
+  @ApiNotFoundResponse()
+  async getRound(@Param('gameId') gameId: string, @Param('round', ParseIntPipe) round: number) {
+    const archived = await this.gameQueryService.getRound(gameId, round);
+    if (!archived) throw new NotFoundException(`Round ${round} of game ${gameId} has not been archived.`);
+    return toWire(archived);
+  }
+
+  private async findGame(gameId: string): Promise<GameState> {
+    const game = await this.gameQueryService.getGame(gameId);
+    if (!game) throw new NotFoundException('Game not found.');
+    return game;
+  }
+}
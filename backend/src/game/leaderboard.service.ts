@@ -0,0 +1,218 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { GameState } from '../database/entities/game-state.entity';
+import { Player } from '../database/entities/player.entity';
+import { ScoringService } from '../scoring/scoring.service';
+import { PrizeDistributionService } from '../prize/prize-distribution.service';
+import { RankedPlayer, WinnerSlot, rankPlayers, selectWinnerSlots } from '../scoring/ranking';
+import { GamePhase } from './game-lifecycle';
+import { AnomalyFlag } from '../database/entities/anomaly-flag.entity';
+import { AnomalyService } from '../anomaly/anomaly.service';
+import { applyAnomalyPolicy } from '../anomaly/anomaly-policy';
+import { WalletCluster } from '../database/entities/wallet-cluster.entity';
+import { SybilService } from '../sybil/sybil.service';
+import { capClusterSlots } from '../sybil/sybil-policy';
+import { GameConfigService } from './game-config.service';
+
+export const LEADERBOARD_THROTTLE_MS = Number(process.env.LEADERBOARD_THROTTLE_MS ?? 2000);
+
+export interface RoundStandings {
+  ranking: RankedPlayer[];
+  slots: WinnerSlot[];
+  numWinners: number;
+}
+
+// Findings about the round's players that winner selection has to take into account.
+export interface RoundScreening {
+  flags?: AnomalyFlag[];
+  clusters?: WalletCluster[];
+}
+
+export interface LeaderboardStanding {
+  playerKey: string;
+  rank: number;
+  compositeScore: number;
+  aboveCutLine: boolean;
+}
+
+export interface LeaderboardChange extends LeaderboardStanding {
+  previousRank: number | null;
+}
+
+export interface LeaderboardUpdate {
+  gameId: string;
+  round: number;
+  numWinners: number;
+  numPlayers: number;
+  // True when `changes` is the whole leaderboard rather than a diff against the previous update.
+  full: boolean;
+  changes: LeaderboardChange[];
+  // Players on the previous update who are no longer ranked, such as one disqualified since.
+  removed: string[];
+}
+
+interface ProvisionalStandings {
+  round: number;
+  numWinners: number;
+  byPlayer: Map<string, LeaderboardStanding>;
+}
+
+@Injectable()
+export class LeaderboardService implements OnModuleDestroy {
+  private readonly logger = new Logger(LeaderboardService.name);
+  private readonly standings = new Map<string, ProvisionalStandings>();
+  private readonly lastRefreshAt = new Map<string, number>();
+  private readonly pending = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    @InjectRepository(GameState)
+    private gameStateRepository: Repository<GameState>,
+    @InjectRepository(Player)
+    private playerRepository: Repository<Player>,
+    private scoringService: ScoringService,
+    private prizeDistributionService: PrizeDistributionService,
+    private anomalyService: AnomalyService,
+    private sybilService: SybilService,
+    private gameConfigService: GameConfigService,
+    private eventEmitter: EventEmitter2,
+  ) {}
+
+  // The ranking selectWinners settles on. Writes each player's score breakdown onto the player; the
+  // caller decides whether to persist it. Before the reveal pass a null seed for a provisional ranking.
+  // Everything else follows the round's config: critical anomaly flags are applied by its anomaly policy,
+  // wallet clusters by its sybil limits, and ties and the number of winners by its ranking rules.
+  async rankRound(
+    game: GameState,
+    players: Player[],
+    seed: string | null,
+    { flags = [], clusters = [] }: RoundScreening = {},
+  ): Promise<RoundStandings> {
+    const rules = await this.gameConfigService.forRound(game);
+    const eligible = applyAnomalyPolicy(rules.anomalyPolicy, players, flags);
+    // Everyone is scored, as the policy sees them; the breakdown goes onto the player and onto its copy, if any.
+    const asSeen = new Map(eligible.map(p => [p.key, p]));
+    const scored = players.map(p => asSeen.get(p.key) ?? p);
+    const breakdowns = await this.scoringService.scorePlayers(game, scored, seed, rules.scoreWeights);
+    for (const breakdown of breakdowns) {
+      const player = players.find(p => p.key === breakdown.playerKey);
+      for (const target of new Set([player, asSeen.get(player.key) ?? player])) {
+        target.tokenHoldingsScore = breakdown.tokenHoldings;
+        target.tradingPerformanceScore = breakdown.tradingPerformance;
+        target.depositSpeedScore = breakdown.depositSpeed;
+        target.randomScore = breakdown.random;
+        target.compositeScore = breakdown.composite;
+      }
+    }
+
+    const numWinners = this.prizeDistributionService.numWinners(rules, eligible.length, rules.winnerBps);
+    const ranking = rankPlayers(eligible, { tieBreakers: rules.tieBreakers, seed });
+    const contenders = capClusterSlots(ranking, clusters, rules.sybilLimits?.maxWinnerSlotsPerCluster);
+    return { ranking, slots: selectWinnerSlots(contenders, numWinners, rules.splitTiesAtCutoff), numWinners };
+  }
+
+  @OnEvent('deposit.made')
+  @OnEvent('trading.evaluated')
+  onStandingsChanged(event: { gameId: string }) {
+    this.scheduleRefresh(event.gameId);
+  }
+
+  @OnEvent('winners.selected')
+  @OnEvent('game.reset')
+  onRoundEnded(event: { gameId: string }) {
+    clearTimeout(this.pending.get(event.gameId));
+    this.pending.delete(event.gameId);
+    this.standings.delete(event.gameId);
+    this.lastRefreshAt.delete(event.gameId);
+  }
+
+  onModuleDestroy() {
+    this.pending.forEach(timer => clearTimeout(timer));
+    this.pending.clear();
+  }
+
+  // The last provisional leaderboard as a full update, for clients that subscribe mid-round.
+  snapshot(gameId: string): LeaderboardUpdate | null {
+    const current = this.standings.get(gameId);
+    if (!current) return null;
+    return {
+      gameId,
+      round: current.round,
+      numWinners: current.numWinners,
+      numPlayers: current.byPlayer.size,
+      full: true,
+      changes: [...current.byPlayer.values()].map(standing => ({ ...standing, previousRank: null })),
+      removed: [],
+    };
+  }
+
+  // At most one refresh per game per throttle window; events arriving inside the window are folded into
+  // a single trailing refresh.
+  private scheduleRefresh(gameId: string) {
+    if (this.pending.has(gameId)) return;
+    const wait = Math.max(0, (this.lastRefreshAt.get(gameId) ?? 0) + LEADERBOARD_THROTTLE_MS - Date.now());
+    this.pending.set(
+      gameId,
+      setTimeout(() => {
+        this.pending.delete(gameId);
+        this.lastRefreshAt.set(gameId, Date.now());
+        this.refresh(gameId).catch(error =>
+          this.logger.error(`Error refreshing leaderboard for game ${gameId}: ${error.message}`),
+        );
+      }, wait),
+    );
+  }
+
+  async refresh(gameId: string): Promise<LeaderboardUpdate | null> {
+    const game = await this.gameStateRepository.findOne({ where: { gameId } });
+    if (!game || ![GamePhase.Open, GamePhase.Closed].includes(game.phase)) return null;
+
+    const players = await this.playerRepository.find({ where: { game: gameId, round: game.round } });
+    const { ranking, slots, numWinners } = await this.rankRound(game, players, null, {
+      flags: await this.anomalyService.flagsFor(game),
+      clusters: await this.sybilService.clustersFor(game),
+    });
+    const winners = new Set(slots.map(slot => slot.player.key));
+
+    const previous = this.standings.get(gameId);
+    const previousByPlayer = previous?.round === game.round ? previous.byPlayer : new Map<string, LeaderboardStanding>();
+    const byPlayer = new Map<string, LeaderboardStanding>();
+    const changes: LeaderboardChange[] = [];
+
+    for (const { player, rank } of ranking) {
+      const standing = {
+        playerKey: player.key,
+        rank,
+        compositeScore: player.compositeScore,
+        aboveCutLine: winners.has(player.key),
+      };
+      byPlayer.set(player.key, standing);
+      const before = previousByPlayer.get(player.key);
+      if (
+        !before ||
+        before.rank !== standing.rank ||
+        before.aboveCutLine !== standing.aboveCutLine ||
+        before.compositeScore !== standing.compositeScore
+      ) {
+        changes.push({ ...standing, previousRank: before?.rank ?? null });
+      }
+    }
+    const removed = [...previousByPlayer.keys()].filter(playerKey => !byPlayer.has(playerKey));
+    this.standings.set(gameId, { round: game.round, numWinners, byPlayer });
+
+    const update = {
+      gameId,
+      round: game.round,
+      numWinners,
+      numPlayers: players.length,
+      full: previousByPlayer.size === 0,
+      changes,
+      removed,
+    };
+    if (changes.length > 0 || removed.length > 0 || numWinners !== previous?.numWinners) {
+      this.eventEmitter.emit('leaderboard.updated', update);
+    }
+    return update;
+  }
+}
@@ -0,0 +1,24 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { ApiOkResponse, ApiTags } from '@nestjs/swagger';
+import { GameQueryService } from './game-query.service';
+import { PaginationQueryDto } from './dto/pagination.dto';
+import { PaginatedAnomalyFlagView, PaginatedPlayerHistoryView } from './dto/game-views';
+import { toWire } from '../prize/lamports';
+
+@ApiTags('players')
+@Controller('players')
+export class PlayersController {
+  constructor(private readonly gameQueryService: GameQueryService) {}
+
+  @Get(':playerKey/history')
+  @ApiOkResponse({ type: PaginatedPlayerHistoryView })
+  async getHistory(@Param('playerKey') playerKey: string, @Query() pagination: PaginationQueryDto) {
+    return toWire(await this.gameQueryService.getPlayerHistory(playerKey, pagination));
+  }
+
+  @Get(':playerKey/flags')
+  @ApiOkResponse({ type: PaginatedAnomalyFlagView })
+  async getFlags(@Param('playerKey') playerKey: string, @Query() pagination: PaginationQueryDto) {
+    return toWire(await this.gameQueryService.getPlayerFlags(playerKey, pagination));
+  }
+}
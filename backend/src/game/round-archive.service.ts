@@ -0,0 +1,73 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { GameState } from '../database/entities/game-state.entity';
+import { Round } from '../database/entities/round.entity';
+import { Player } from '../database/entities/player.entity';
+import { Deposit } from '../database/entities/deposit.entity';
+import { Winner } from '../database/entities/winner.entity';
+import { Settlement } from '../database/entities/settlement.entity';
+
+export interface ArchivedRound {
+  round: Round;
+  players: Player[];
+  deposits: Deposit[];
+  winners: Winner[];
+}
+
+@Injectable()
+export class RoundArchiveService {
+  constructor(
+    @InjectRepository(Round)
+    private roundRepository: Repository<Round>,
+    @InjectRepository(Player)
+    private playerRepository: Repository<Player>,
+    @InjectRepository(Deposit)
+    private depositRepository: Repository<Deposit>,
+    @InjectRepository(Winner)
+    private winnerRepository: Repository<Winner>,
+  ) {}
+
+  // Records the game's current round. Runs inside the caller's transaction so the summary is written
+  // together with the phase change that ends the round.
+  async archive(manager: EntityManager, game: GameState, randomness: { commitment: string; seed: string | null } | null): Promise<Round> {
+    const where = { game: game.gameId, round: game.round };
+    const settlement = await manager.getRepository(Settlement).findOne({ where });
+    const roundRepository = manager.getRepository(Round);
+
+    return roundRepository.save(
+      roundRepository.create({
+        game: game.gameId,
+        number: game.round,
+        openedAt: game.openedAt,
+        closesAt: game.closesAt,
+        totalDeposits: game.totalDeposits,
+        prizePool: settlement?.prizePool ?? 0n,
+        totalPayout: settlement?.totalPayout ?? 0n,
+        buybackAmount: settlement?.buybackAmount ?? 0n,
+        remainder: settlement?.remainder ?? 0n,
+        numPlayers: await manager.getRepository(Player).count({ where }),
+        numWinners: settlement?.numWinners ?? 0,
+        seedCommitment: randomness?.commitment ?? null,
+        seed: randomness?.seed ?? null,
+      }),
+    );
+  }
+
+  async listRounds(gameId: string, skip = 0, take = 20): Promise<[Round[], number]> {
+    return this.roundRepository.findAndCount({ where: { game: gameId }, order: { number: 'DESC' }, skip, take });
+  }
+
+  async getRound(gameId: string, number: number): Promise<ArchivedRound | null> {
+    const round = await this.roundRepository.findOne({ where: { game: gameId, number } });
+    if (!round) return null;
+
+    const where = { game: gameId, round: number };
+    const [players, deposits, winners] = await Promise.all([
+      this.playerRepository.find({ where, order: { compositeScore: 'DESC' } }),
+      this.depositRepository.find({ where, order: { id: 'ASC' } }),
+      this.winnerRepository.find({ where, order: { rank: 'ASC' } }),
+    ]);
+    return { round, players, deposits, winners };
+  }
+}
@@ -0,0 +1,187 @@
+// Mirrors `RumbleError` in contracts/rumble.rs. Anchor numbers custom program errors from 6000 in
+// declaration order, so the program codes must stay in the same order as the Rust enum.
+export enum RumbleErrorCode {
+  InvalidDeposit = 'InvalidDeposit',
+  NoDeposits = 'NoDeposits',
+  GameAlreadyActive = 'GameAlreadyActive',
+  Overflow = 'Overflow',
+  DivisionByZero = 'DivisionByZero',
+  WinnerAccountNotFound = 'WinnerAccountNotFound',
+  GameNotActive = 'GameNotActive',
+  InvalidPayout = 'InvalidPayout',
+  // Conditions only the backend can detect; the program never raises these.
+  GameNotFound = 'GameNotFound',
+  DepositNotVerified = 'DepositNotVerified',
+  DepositConflict = 'DepositConflict',
+  Unauthorized = 'Unauthorized',
+  Forbidden = 'Forbidden',
+  InvalidRequest = 'InvalidRequest',
+  Internal = 'Internal',
+  ScoringIncomplete = 'ScoringIncomplete',
+  PayoutFailed = 'PayoutFailed',
+  ChainOutOfSync = 'ChainOutOfSync',
+  BooksUnbalanced = 'BooksUnbalanced',
+  GameFull = 'GameFull',
+}
+
+export const ANCHOR_ERROR_OFFSET = 6000;
+const BACKEND_ERROR_OFFSET = 7000;
+
+const PROGRAM_ERROR_CODES: RumbleErrorCode[] = [
+  RumbleErrorCode.InvalidDeposit,
+  RumbleErrorCode.NoDeposits,
+  RumbleErrorCode.GameAlreadyActive,
+  RumbleErrorCode.Overflow,
+  RumbleErrorCode.DivisionByZero,
+  RumbleErrorCode.WinnerAccountNotFound,
+  RumbleErrorCode.GameNotActive,
+  RumbleErrorCode.InvalidPayout,
+];
+
+const BACKEND_ERROR_CODES: RumbleErrorCode[] = [
+  RumbleErrorCode.GameNotFound,
+  RumbleErrorCode.DepositNotVerified,
+  RumbleErrorCode.DepositConflict,
+  RumbleErrorCode.Unauthorized,
+  RumbleErrorCode.Forbidden,
+  RumbleErrorCode.InvalidRequest,
+  RumbleErrorCode.Internal,
+  RumbleErrorCode.ScoringIncomplete,
+  RumbleErrorCode.PayoutFailed,
+  RumbleErrorCode.ChainOutOfSync,
+  RumbleErrorCode.BooksUnbalanced,
+  RumbleErrorCode.GameFull,
+];
+
+// Stable numeric codes: the program's own numbers, then backend-only codes from 7000. Append new codes
+// at the end of their list; never reorder.
+export const RUMBLE_ERROR_NUMBERS = Object.fromEntries([
+  ...PROGRAM_ERROR_CODES.map((code, index) => [code, ANCHOR_ERROR_OFFSET + index]),
+  ...BACKEND_ERROR_CODES.map((code, index) => [code, BACKEND_ERROR_OFFSET + index]),
+]) as Record<RumbleErrorCode, number>;
+
+const DEFAULT_MESSAGES: Record<RumbleErrorCode, string> = {
+  [RumbleErrorCode.InvalidDeposit]: 'Invalid deposit amount.',
+  [RumbleErrorCode.NoDeposits]: 'No deposits found.',
+  [RumbleErrorCode.GameAlreadyActive]: 'Game is already active.',
+  [RumbleErrorCode.Overflow]: 'Overflow occurred during deposit.',
+  [RumbleErrorCode.DivisionByZero]: 'Division by zero.',
+  [RumbleErrorCode.WinnerAccountNotFound]: 'Winner account not found.',
+  [RumbleErrorCode.GameNotActive]: 'Game is not active.',
+  [RumbleErrorCode.InvalidPayout]: "Payouts do not match the game's players or pool.",
+  [RumbleErrorCode.GameNotFound]: 'Game not found.',
+  [RumbleErrorCode.DepositNotVerified]: 'Deposit transaction could not be verified.',
+  [RumbleErrorCode.DepositConflict]: 'This deposit was already submitted with different details.',
+  [RumbleErrorCode.Unauthorized]: 'Authentication required.',
+  [RumbleErrorCode.Forbidden]: 'Not allowed.',
+  [RumbleErrorCode.InvalidRequest]: 'Request rejected.',
+  [RumbleErrorCode.Internal]: 'Internal error.',
+  [RumbleErrorCode.ScoringIncomplete]: 'Trading scores for this round are incomplete.',
+  [RumbleErrorCode.PayoutFailed]: 'Prize payout failed.',
+  [RumbleErrorCode.ChainOutOfSync]: 'Game is held until it is reconciled with the program.',
+  [RumbleErrorCode.BooksUnbalanced]: "Game's books do not balance.",
+  [RumbleErrorCode.GameFull]: 'Game has no room for more players.',
+};
+
+export type RumbleErrorDetails = Record<string, unknown>;
+
+export interface RumbleErrorPayload {
+  code: RumbleErrorCode;
+  message: string;
+  details: RumbleErrorDetails;
+}
+
+// `new RumbleError.NoDeposits({ gameId })` builds an error with that code, and `RumbleError.NoDeposits`
+// matches any RumbleError carrying it, so `instanceof` and jest's `toThrow` work per code.
+export interface RumbleErrorVariant {
+  new (details?: RumbleErrorDetails, message?: string): RumbleError;
+  readonly code: RumbleErrorCode;
+}
+
+export class RumbleError extends Error {
+  static InvalidDeposit: RumbleErrorVariant;
+  static NoDeposits: RumbleErrorVariant;
+  static GameAlreadyActive: RumbleErrorVariant;
+  static Overflow: RumbleErrorVariant;
+  static DivisionByZero: RumbleErrorVariant;
+  static WinnerAccountNotFound: RumbleErrorVariant;
+  static GameNotActive: RumbleErrorVariant;
+  static InvalidPayout: RumbleErrorVariant;
+  static GameNotFound: RumbleErrorVariant;
+  static DepositNotVerified: RumbleErrorVariant;
+  static DepositConflict: RumbleErrorVariant;
+  static Unauthorized: RumbleErrorVariant;
+  static Forbidden: RumbleErrorVariant;
+  static InvalidRequest: RumbleErrorVariant;
+  static Internal: RumbleErrorVariant;
+  static ScoringIncomplete: RumbleErrorVariant;
+  static PayoutFailed: RumbleErrorVariant;
+  static ChainOutOfSync: RumbleErrorVariant;
+  static BooksUnbalanced: RumbleErrorVariant;
+  static GameFull: RumbleErrorVariant;
+
+  readonly number: number;
+
+  constructor(
+    readonly code: RumbleErrorCode,
+    message: string = DEFAULT_MESSAGES[code],
+    readonly details: RumbleErrorDetails = {},
+  ) {
+    super(message);
+    this.name = 'RumbleError';
+    this.number = RUMBLE_ERROR_NUMBERS[code];
+  }
+
+  // Maps a failed program call onto the taxonomy. Understands Anchor's AnchorError shape and the raw
+  // "custom program error: 0x1770" log line; returns null for anything that is not a Rumble program error.
+  static fromProgramError(error: unknown): RumbleError | null {
+    const anchorCode = (error as { error?: { errorCode?: { number?: number } } })?.error?.errorCode?.number;
+    const logged = /custom program error: (0x[0-9a-f]+)/i.exec(
+      [String((error as Error)?.message ?? ''), ...((error as { logs?: string[] })?.logs ?? [])].join('\n'),
+    );
+    const number = anchorCode ?? (logged ? parseInt(logged[1], 16) : null);
+    const code = number === null ? undefined : PROGRAM_ERROR_CODES[number - ANCHOR_ERROR_OFFSET];
+    return code ? new RumbleError(code, DEFAULT_MESSAGES[code], { programErrorNumber: number }) : null;
+  }
+
+  // Anything thrown by a handler, as the payload sent to clients on ERROR.
+  static toPayload(error: Error): RumbleErrorPayload {
+    const rumbleError = error instanceof RumbleError ? error : new RumbleError(RumbleErrorCode.Internal, error.message);
+    return { code: rumbleError.code, message: rumbleError.message, details: rumbleError.details };
+  }
+}
+
+function rumbleErrorVariant(code: RumbleErrorCode): RumbleErrorVariant {
+  return class extends RumbleError {
+    static readonly code = code;
+
+    constructor(details?: RumbleErrorDetails, message?: string) {
+      super(code, message, details);
+    }
+
+    static [Symbol.hasInstance](value: unknown): boolean {
+      return value instanceof RumbleError && value.code === code;
+    }
+  };
+}
+
+RumbleError.InvalidDeposit = rumbleErrorVariant(RumbleErrorCode.InvalidDeposit);
+RumbleError.NoDeposits = rumbleErrorVariant(RumbleErrorCode.NoDeposits);
+RumbleError.GameAlreadyActive = rumbleErrorVariant(RumbleErrorCode.GameAlreadyActive);
+RumbleError.Overflow = rumbleErrorVariant(RumbleErrorCode.Overflow);
+RumbleError.DivisionByZero = rumbleErrorVariant(RumbleErrorCode.DivisionByZero);
+RumbleError.WinnerAccountNotFound = rumbleErrorVariant(RumbleErrorCode.WinnerAccountNotFound);
+RumbleError.GameNotActive = rumbleErrorVariant(RumbleErrorCode.GameNotActive);
+RumbleError.InvalidPayout = rumbleErrorVariant(RumbleErrorCode.InvalidPayout);
+RumbleError.GameNotFound = rumbleErrorVariant(RumbleErrorCode.GameNotFound);
+RumbleError.DepositNotVerified = rumbleErrorVariant(RumbleErrorCode.DepositNotVerified);
+RumbleError.DepositConflict = rumbleErrorVariant(RumbleErrorCode.DepositConflict);
+RumbleError.Unauthorized = rumbleErrorVariant(RumbleErrorCode.Unauthorized);
+RumbleError.Forbidden = rumbleErrorVariant(RumbleErrorCode.Forbidden);
+RumbleError.InvalidRequest = rumbleErrorVariant(RumbleErrorCode.InvalidRequest);
+RumbleError.Internal = rumbleErrorVariant(RumbleErrorCode.Internal);
+RumbleError.ScoringIncomplete = rumbleErrorVariant(RumbleErrorCode.ScoringIncomplete);
+RumbleError.PayoutFailed = rumbleErrorVariant(RumbleErrorCode.PayoutFailed);
+RumbleError.ChainOutOfSync = rumbleErrorVariant(RumbleErrorCode.ChainOutOfSync);
+RumbleError.BooksUnbalanced = rumbleErrorVariant(RumbleErrorCode.BooksUnbalanced);
+RumbleError.GameFull = rumbleErrorVariant(RumbleErrorCode.GameFull);
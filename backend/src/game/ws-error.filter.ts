@@ -0,0 +1,20 @@
+import { ArgumentsHost, Catch } from '@nestjs/common';
+import { BaseWsExceptionFilter, WsException } from '@nestjs/websockets';
+import { Socket } from 'socket.io';
+import { RumbleError } from './rumble.errors';
+import { toWire } from '../prize/lamports';
+
+// Guard and pipe rejections reach clients on the same ERROR channel the handlers use.
+@Catch(WsException, RumbleError)
+export class WsErrorFilter extends BaseWsExceptionFilter {
+  catch(exception: WsException | RumbleError, host: ArgumentsHost) {
+    host.switchToWs().getClient<Socket>().emit('ERROR', toWire(RumbleError.toPayload(toRumbleError(exception))));
+  }
+}
+
+function toRumbleError(exception: WsException | RumbleError): RumbleError {
+  if (exception instanceof RumbleError) return exception;
+  const error = exception.getError();
+  const message = typeof error === 'string' ? error : (error as { message?: string }).message;
+  return new RumbleError.InvalidRequest({}, message);
+}
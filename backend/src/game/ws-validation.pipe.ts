@@ -0,0 +1,36 @@
+import { ArgumentMetadata, Injectable, ValidationError, ValidationPipe } from '@nestjs/common';
+import { RumbleError } from './rumble.errors';
+
+export interface FieldError {
+  field: string;
+  constraints: Record<string, string>;
+}
+
+// The global ValidationPipe in main.ts does not run for gateways, so GameGateway installs this one.
+// It only validates message bodies (never the socket), and rejects with field-level details.
+@Injectable()
+export class WsValidationPipe extends ValidationPipe {
+  constructor() {
+    super({
+      transform: true,
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      exceptionFactory: errors =>
+        new RumbleError.InvalidRequest({ fields: flattenValidationErrors(errors) }, 'Message failed validation.'),
+    });
+  }
+
+  protected toValidate(metadata: ArgumentMetadata): boolean {
+    return metadata.type === 'body' && super.toValidate(metadata);
+  }
+}
+
+export function flattenValidationErrors(errors: ValidationError[], parent = ''): FieldError[] {
+  return errors.flatMap(error => {
+    const field = parent ? `${parent}.${error.property}` : error.property;
+    return [
+      ...(error.constraints ? [{ field, constraints: error.constraints }] : []),
+      ...flattenValidationErrors(error.children ?? [], field),
+    ];
+  });
+}
@@ -2,11 +2,22 @@ import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { ValidationPipe } from '@nestjs/common';
 import { IoAdapter } from '@nestjs/platform-socket.io';
+import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
-  app.useGlobalPipes(new ValidationPipe());
+  app.useGlobalPipes(new ValidationPipe({ transform: true, whitelist: true }));
   app.useWebSocketAdapter(new IoAdapter(app));
+  // The frontend reads the lobby from another origin.
+  app.enableCors();
+
+  const openApi = new DocumentBuilder()
+    .setTitle('RUMBLE API')
+    .setDescription('Read-only access to games, the lobby, players, leaderboards and round history.')
+    .setVersion('1.0')
+    .build();
+  SwaggerModule.setup('docs', app, SwaggerModule.createDocument(app, openApi));
+
   await app.listen(3000);
 }
 bootstrap();
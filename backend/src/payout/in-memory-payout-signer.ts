@@ -0,0 +1,22 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { SOLANA_RPC, SignedTransaction, SolanaRpc } from '../solana/solana-rpc';
+import { PayoutSigner } from './payout-signer';
+
+// Signer stand-in for tests and offline development; pair it with InMemorySolanaRpc.
+@Injectable()
+export class InMemoryPayoutSigner implements PayoutSigner {
+  readonly payer = 'payout-account';
+  private signed = 0;
+
+  constructor(@Inject(SOLANA_RPC) private readonly rpc: SolanaRpc) {}
+
+  async signTransfer(destination: string, lamports: bigint): Promise<SignedTransaction> {
+    const { lastValidBlockHeight } = await this.rpc.getLatestBlockhash();
+    return {
+      signature: `payout-signature-${++this.signed}`,
+      serialized: new Uint8Array(),
+      transfers: [{ source: this.payer, destination, lamports }],
+      lastValidBlockHeight,
+    };
+  }
+}
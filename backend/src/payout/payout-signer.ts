@@ -0,0 +1,45 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import * as bs58 from 'bs58';
+import { SOLANA_RPC, SignedTransaction, SolanaRpc } from '../solana/solana-rpc';
+import { keypairFromEnv } from '../solana/keypair';
+
+export const PAYOUT_SIGNER = Symbol('PAYOUT_SIGNER');
+
+// Holds the key of the account prizes are paid from. Signing never sends anything.
+export interface PayoutSigner {
+  readonly payer: string;
+  signTransfer(destination: string, lamports: bigint): Promise<SignedTransaction>;
+}
+
+@Injectable()
+export class KeypairPayoutSigner implements PayoutSigner {
+  private loaded: Keypair | null = null;
+
+  constructor(@Inject(SOLANA_RPC) private readonly rpc: SolanaRpc) {}
+
+  get payer(): string {
+    return this.keypair.publicKey.toBase58();
+  }
+
+  // Loaded on first use so the backend still starts without PAYOUT_SECRET_KEY when payouts are not needed.
+  private get keypair(): Keypair {
+    this.loaded ??= keypairFromEnv('PAYOUT_SECRET_KEY');
+    return this.loaded;
+  }
+
+  async signTransfer(destination: string, lamports: bigint): Promise<SignedTransaction> {
+    const { blockhash, lastValidBlockHeight } = await this.rpc.getLatestBlockhash();
+    const transaction = new Transaction({ feePayer: this.keypair.publicKey, blockhash, lastValidBlockHeight }).add(
+      SystemProgram.transfer({ fromPubkey: this.keypair.publicKey, toPubkey: new PublicKey(destination), lamports }),
+    );
+    transaction.sign(this.keypair);
+
+    return {
+      signature: bs58.encode(transaction.signature),
+      serialized: transaction.serialize(),
+      transfers: [{ source: this.payer, destination, lamports }],
+      lastValidBlockHeight,
+    };
+  }
+}
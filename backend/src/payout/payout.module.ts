@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Payout } from '../database/entities/payout.entity';
+import { Winner } from '../database/entities/winner.entity';
+import { SolanaModule } from '../solana/solana.module';
+import { KeypairPayoutSigner, PAYOUT_SIGNER } from './payout-signer';
+import { PayoutService } from './payout.service';
+import { PayoutScheduler } from './payout.scheduler';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Payout, Winner]), SolanaModule],
+  providers: [PayoutService, PayoutScheduler, { provide: PAYOUT_SIGNER, useClass: KeypairPayoutSigner }],
+  exports: [PayoutService],
+})
+export class PayoutModule {}
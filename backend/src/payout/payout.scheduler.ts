@@ -0,0 +1,25 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { PayoutService } from './payout.service';
+
+@Injectable()
+export class PayoutScheduler {
+  private readonly logger = new Logger(PayoutScheduler.name);
+  private running = false;
+
+  constructor(private readonly payoutService: PayoutService) {}
+
+  @Interval(Number(process.env.PAYOUT_POLL_INTERVAL_MS ?? 5000))
+  async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.payoutService.createMissingPayouts();
+      await this.payoutService.processPayouts();
+    } catch (error) {
+      this.logger.error(`Error processing payouts: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
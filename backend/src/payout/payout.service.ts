@@ -0,0 +1,213 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { In, IsNull, LessThan, MoreThan, Repository } from 'typeorm';
+import { Payout, PayoutStatus } from '../database/entities/payout.entity';
+import { Winner } from '../database/entities/winner.entity';
+import { Commitment, SOLANA_RPC, SolanaRpc } from '../solana/solana-rpc';
+import { isSolanaPublicKey } from '../solana/validators';
+import { RumbleError, RumbleErrorCode } from '../game/rumble.errors';
+import { PAYOUT_SIGNER, PayoutSigner } from './payout-signer';
+
+export interface PayoutEvent {
+  gameId: string;
+  round: number;
+  playerKey: string;
+  lamports: bigint;
+  signature: string | null;
+}
+
+export interface PayoutFailedEvent extends PayoutEvent {
+  code: RumbleErrorCode;
+  message: string;
+  willRetry: boolean;
+}
+
+// Failures no number of attempts will fix.
+const PERMANENT_FAILURES = [RumbleErrorCode.WinnerAccountNotFound];
+
+// Sends each winner's prize and follows it until it lands. Every attempt is saved with its signature
+// before it is sent, and a new attempt is only signed once the previous one can no longer land, so
+// retries after a crash or a dropped transaction never pay a winner twice.
+@Injectable()
+export class PayoutService {
+  private readonly logger = new Logger(PayoutService.name);
+  private readonly requiredCommitment = (process.env.PAYOUT_COMMITMENT ?? 'finalized') as Exclude<Commitment, 'processed'>;
+  private readonly maxAttempts = Number(process.env.PAYOUT_MAX_ATTEMPTS ?? 3);
+  // Passes run one at a time, so a settlement and the scheduler never advance the same payout together.
+  private pass: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    @InjectRepository(Payout)
+    private readonly payoutRepository: Repository<Payout>,
+    @InjectRepository(Winner)
+    private readonly winnerRepository: Repository<Winner>,
+    @Inject(SOLANA_RPC) private readonly rpc: SolanaRpc,
+    @Inject(PAYOUT_SIGNER) private readonly signer: PayoutSigner,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  @OnEvent('winners.selected')
+  async onWinnersSelected(event: { gameId: string; winners: Winner[]; paidOnChain?: boolean }): Promise<void> {
+    // The program has already paid the winners of on-chain games.
+    if (event.paidOnChain) return;
+    try {
+      await this.createPayouts(event.winners);
+      await this.processPayouts(event.gameId);
+    } catch (error) {
+      this.logger.error(`Error starting payouts for game ${event.gameId}: ${error.message}`);
+    }
+  }
+
+  // One payout per winner with a prize. Winners that already have one are left alone.
+  async createPayouts(winners: Winner[]): Promise<Payout[]> {
+    const payouts: Payout[] = [];
+    for (const winner of winners.filter(w => w.prize > 0n)) {
+      const existing = await this.payoutRepository.findOne({ where: { winnerId: winner.id } });
+      payouts.push(
+        existing ??
+          (await this.payoutRepository.save(
+            this.payoutRepository.create({
+              game: winner.game,
+              round: winner.round,
+              winnerId: winner.id,
+              playerKey: winner.playerKey,
+              lamports: winner.prize,
+              status: PayoutStatus.Pending,
+              attempts: 0,
+            }),
+          )),
+      );
+    }
+    return payouts;
+  }
+
+  // Picks up winners left without a payout, e.g. when the process stopped between committing a settlement
+  // and handling winners.selected. Winners of on-chain games are paid by the program and skipped.
+  async createMissingPayouts(): Promise<Payout[]> {
+    const winners = await this.winnerRepository.find({
+      where: { prize: MoreThan(0n), gameState: { programAccount: IsNull() } },
+      order: { id: 'ASC' },
+    });
+    if (!winners.length) return [];
+
+    const existing = await this.payoutRepository.find({ where: { winnerId: In(winners.map(w => w.id)) } });
+    const paid = new Set(existing.map(p => p.winnerId));
+    const missing = winners.filter(w => !paid.has(w.id));
+    if (missing.length) this.logger.warn(`Creating ${missing.length} missing payouts`);
+    return this.createPayouts(missing);
+  }
+
+  // Moves every unfinished payout, of one game or of all of them, one step forward.
+  async processPayouts(gameId?: string): Promise<Payout[]> {
+    const run = this.pass.then(() => this.processPass(gameId));
+    this.pass = run.catch(() => undefined);
+    return run;
+  }
+
+  private async processPass(gameId?: string): Promise<Payout[]> {
+    const game = gameId ? { game: gameId } : {};
+    const payouts = await this.payoutRepository.find({
+      where: [
+        { ...game, status: In([PayoutStatus.Pending, PayoutStatus.Submitted]) },
+        { ...game, status: PayoutStatus.Failed, attempts: LessThan(this.maxAttempts) },
+      ],
+      order: { id: 'ASC' },
+    });
+
+    for (const payout of payouts) {
+      try {
+        await this.advance(payout);
+      } catch (error) {
+        this.logger.error(`Error processing payout ${payout.id} to ${payout.playerKey}: ${error.message}`);
+      }
+    }
+    return payouts;
+  }
+
+  private async advance(payout: Payout): Promise<void> {
+    switch (payout.status) {
+      case PayoutStatus.Pending:
+        return this.submit(payout);
+      case PayoutStatus.Submitted:
+        return this.checkSubmitted(payout);
+      case PayoutStatus.Failed:
+        if (!PERMANENT_FAILURES.includes(payout.errorCode)) return this.submit(payout);
+    }
+  }
+
+  private async submit(payout: Payout): Promise<void> {
+    if (!isSolanaPublicKey(payout.playerKey)) {
+      return this.fail(payout, new RumbleError.WinnerAccountNotFound({ playerKey: payout.playerKey }));
+    }
+
+    const transaction = await this.signer.signTransfer(payout.playerKey, payout.lamports);
+    payout.status = PayoutStatus.Submitted;
+    payout.signature = transaction.signature;
+    payout.lastValidBlockHeight = transaction.lastValidBlockHeight;
+    payout.attempts += 1;
+    payout.errorCode = null;
+    payout.error = null;
+    await this.payoutRepository.save(payout);
+
+    try {
+      await this.rpc.sendTransaction(transaction);
+      this.logger.log(`Sent payout of ${payout.lamports} lamports to ${payout.playerKey}: ${payout.signature}`);
+    } catch (error) {
+      // The node may have forwarded it before failing, so it stays Submitted until it lands or expires.
+      payout.error = error.message;
+      await this.payoutRepository.save(payout);
+      this.logger.warn(`Sending payout ${payout.signature} failed: ${error.message}`);
+    }
+  }
+
+  private async checkSubmitted(payout: Payout): Promise<void> {
+    const tx = await this.rpc.getTransaction(payout.signature, this.requiredCommitment);
+    if (tx?.err) {
+      return this.fail(
+        payout,
+        new RumbleError.PayoutFailed({ signature: payout.signature, err: tx.err }, 'Payout transaction failed on-chain.'),
+      );
+    }
+    if (tx) {
+      payout.status = PayoutStatus.Confirmed;
+      payout.confirmedSlot = tx.slot;
+      payout.error = null;
+      await this.payoutRepository.save(payout);
+      this.logger.log(`Payout ${payout.signature} to ${payout.playerKey} confirmed`);
+      this.eventEmitter.emit('payout.confirmed', this.toEvent(payout));
+      return;
+    }
+
+    // Not landed at the required commitment. It is only given up once its blockhash has expired and it has
+    // not landed at any commitment either.
+    if ((await this.rpc.getBlockHeight()) <= payout.lastValidBlockHeight) return;
+    if (await this.rpc.getTransaction(payout.signature, 'confirmed')) return;
+    return this.fail(
+      payout,
+      new RumbleError.PayoutFailed({ signature: payout.signature }, 'Payout transaction expired before it landed.'),
+    );
+  }
+
+  private async fail(payout: Payout, error: RumbleError): Promise<void> {
+    payout.status = PayoutStatus.Failed;
+    payout.errorCode = error.code;
+    payout.error = error.message;
+    await this.payoutRepository.save(payout);
+
+    const willRetry = !PERMANENT_FAILURES.includes(error.code) && payout.attempts < this.maxAttempts;
+    this.logger.warn(`Payout to ${payout.playerKey} failed${willRetry ? ', will retry' : ''}: ${error.message}`);
+    const event: PayoutFailedEvent = { ...this.toEvent(payout), code: error.code, message: error.message, willRetry };
+    this.eventEmitter.emit('payout.failed', event);
+  }
+
+  private toEvent(payout: Payout): PayoutEvent {
+    return {
+      gameId: payout.game,
+      round: payout.round,
+      playerKey: payout.playerKey,
+      lamports: payout.lamports,
+      signature: payout.signature,
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import { WinnerSlot } from '../scoring/ranking';
+import { BPS_DENOMINATOR } from './prize-split';
+
+export enum DistributionStrategyName {
+  Even = 'even',
+  Tiered = 'tiered',
+  ScoreProportional = 'scoreProportional',
+  DepositProportional = 'depositProportional',
+  WinnerTakesAll = 'winnerTakesAll',
+}
+
+export interface DistributionContext {
+  // Winners in ranking order, including everyone sharing a tied cut line.
+  winners: WinnerSlot[];
+  prizeForWinners: bigint;
+  // Winner slots before tie splitting; a tied group occupies `shares` of them.
+  numSlots: number;
+  options: Record<string, unknown>;
+}
+
+// A payout curve. `distribute` returns one prize per winner, in the same order; the total must not
+// exceed `prizeForWinners`, and anything left over is recorded as the settlement remainder.
+export interface PrizeDistributionStrategy {
+  readonly name: string;
+  readonly maxWinners?: number;
+  // Throws if a round's `distributionOptions` cannot be paid out by this strategy.
+  assertOptions?(options: Record<string, unknown>): void;
+  distribute(context: DistributionContext): bigint[];
+}
+
+export class EvenSplitStrategy implements PrizeDistributionStrategy {
+  readonly name = DistributionStrategyName.Even;
+
+  distribute({ winners, prizeForWinners, numSlots }: DistributionContext): bigint[] {
+    const perSlot = numSlots > 0 ? prizeForWinners / BigInt(numSlots) : 0n;
+    return assignPositions(winners, Array(numSlots).fill(perSlot));
+  }
+}
+
+export const DEFAULT_TIER_BPS = [4000, 2500, 1500];
+
+// `options.tierBps` gives each of the first places a share of the winners' pool, DEFAULT_TIER_BPS by default.
+// Whatever the tiers leave is split evenly between the places after them, so a new config must leave some.
+// With no places after the tiers, the tiers in use are scaled up to the whole pool in proportion, so nothing
+// rolls over.
+export class TieredStrategy implements PrizeDistributionStrategy {
+  readonly name = DistributionStrategyName.Tiered;
+
+  assertOptions(options: Record<string, unknown>): void {
+    const total = tierBpsOf(options).reduce((sum, bps) => sum + bps, 0n);
+    if (total === 0n) throw new Error('At least one tier must pay something.');
+    if (total === BPS_DENOMINATOR) throw new Error('Tier basis points must leave a share for the places after them.');
+  }
+
+  distribute({ winners, prizeForWinners, numSlots, options }: DistributionContext): bigint[] {
+    const tierBps = tierBpsOf(options);
+
+    const used = tierBps.slice(0, numSlots);
+    const usedTotal = used.reduce((sum, bps) => sum + bps, 0n);
+    const untieredSlots = numSlots - used.length;
+    if (untieredSlots === 0 && usedTotal > 0n) {
+      return assignPositions(winners, used.map(bps => (prizeForWinners * bps) / usedTotal));
+    }
+
+    const tiered = used.map(bps => (prizeForWinners * bps) / BPS_DENOMINATOR);
+    const leftover = prizeForWinners - tiered.reduce((sum, amount) => sum + amount, 0n);
+    const perUntiered = untieredSlots > 0 ? leftover / BigInt(untieredSlots) : 0n;
+
+    return assignPositions(winners, [...tiered, ...Array(untieredSlots).fill(perUntiered)]);
+  }
+}
+
+export class ScoreProportionalStrategy implements PrizeDistributionStrategy {
+  readonly name = DistributionStrategyName.ScoreProportional;
+
+  distribute({ winners, prizeForWinners }: DistributionContext): bigint[] {
+    return splitByWeights(
+      prizeForWinners,
+      winners.map(slot => weighted(BigInt(Math.round(slot.player.compositeScore * 1e9)), slot)),
+    );
+  }
+}
+
+export class DepositProportionalStrategy implements PrizeDistributionStrategy {
+  readonly name = DistributionStrategyName.DepositProportional;
+
+  distribute({ winners, prizeForWinners }: DistributionContext): bigint[] {
+    return splitByWeights(prizeForWinners, winners.map(slot => weighted(slot.player.deposit, slot)));
+  }
+}
+
+export class WinnerTakesAllStrategy implements PrizeDistributionStrategy {
+  readonly name = DistributionStrategyName.WinnerTakesAll;
+  readonly maxWinners = 1;
+
+  distribute({ winners, prizeForWinners, numSlots }: DistributionContext): bigint[] {
+    return assignPositions(winners, [prizeForWinners, ...Array(Math.max(numSlots - 1, 0)).fill(0n)]);
+  }
+}
+
+export const DEFAULT_DISTRIBUTION_STRATEGIES: PrizeDistributionStrategy[] = [
+  new EvenSplitStrategy(),
+  new TieredStrategy(),
+  new ScoreProportionalStrategy(),
+  new DepositProportionalStrategy(),
+  new WinnerTakesAllStrategy(),
+];
+
+// Hands out per-place amounts in ranking order. A group tied at the cut line pools the places it
+// occupies and splits them evenly.
+export function assignPositions(winners: WinnerSlot[], positionAmounts: bigint[]): bigint[] {
+  const prizes: bigint[] = [];
+  let position = 0;
+  for (let i = 0; i < winners.length; ) {
+    const { shares, sharedWith } = winners[i];
+    const pooled = positionAmounts.slice(position, position + shares).reduce((sum, amount) => sum + amount, 0n);
+    for (let j = 0; j < sharedWith; j++) {
+      prizes.push(pooled / BigInt(sharedWith));
+    }
+    position += shares;
+    i += sharedWith;
+  }
+  return prizes;
+}
+
+// Splits `total` in proportion to `weights`, falling back to an even split when every weight is zero.
+// Rounds configured before tiers had to leave a share may still take the whole pool; they are paid as set.
+function tierBpsOf(options: Record<string, unknown>): bigint[] {
+  const tierBps = options.tierBps ?? DEFAULT_TIER_BPS;
+  if (!Array.isArray(tierBps) || tierBps.length === 0 || !tierBps.every(bps => Number.isInteger(bps) && bps >= 0)) {
+    throw new Error('Tier basis points must be a list of non-negative integers.');
+  }
+  const total = tierBps.reduce((sum, bps) => sum + BigInt(bps), 0n);
+  if (total > BPS_DENOMINATOR) throw new Error('Tier basis points cannot exceed 10000.');
+  return tierBps.map(bps => BigInt(bps));
+}
+
+export function splitByWeights(total: bigint, weights: bigint[]): bigint[] {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0n);
+  if (sum === 0n) {
+    return weights.map(() => (weights.length > 0 ? total / BigInt(weights.length) : 0n));
+  }
+  return weights.map(weight => (total * weight) / sum);
+}
+
+function weighted(weight: bigint, slot: WinnerSlot): bigint {
+  return (weight * BigInt(slot.shares)) / BigInt(slot.sharedWith);
+}
@@ -0,0 +1,46 @@
+import { RumbleError } from '../game/rumble.errors';
+
+export const LAMPORTS_PER_SOL = 1_000_000_000n;
+// Lamport balances are u64 on-chain.
+export const U64_MAX = 2n ** 64n - 1n;
+
+export function parseLamports(value: string | number | bigint): bigint {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number' && (!Number.isSafeInteger(value) || value < 0)) {
+    throw new RumbleError.InvalidDeposit({ value }, 'Lamport amounts must be non-negative safe integers; send larger values as strings.');
+  }
+  if (typeof value === 'string' && !/^\d+$/.test(value)) {
+    throw new RumbleError.InvalidDeposit({ value }, 'Lamport amounts must be non-negative integer strings.');
+  }
+  const lamports = BigInt(value);
+  if (lamports > U64_MAX) {
+    throw new RumbleError.Overflow({ value: String(value) }, 'Lamport amounts must fit in a u64.');
+  }
+  return lamports;
+}
+
+// `T` as it goes over the wire: every bigint, however deeply nested, becomes a decimal string.
+export type Wire<T> = T extends bigint
+  ? string
+  : T extends Date
+    ? T
+    : T extends readonly (infer Item)[]
+      ? Wire<Item>[]
+      : T extends object
+        ? { [K in keyof T]: Wire<T[K]> }
+        : T;
+
+// bigint is not JSON serializable; lamport amounts go over the wire as decimal strings.
+export function toWire<T>(value: T): Wire<T> {
+  return convert(value) as Wire<T>;
+}
+
+function convert(value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return value.map(convert);
+  if (value instanceof Date) return value;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, convert(entry)]));
+  }
+  return value;
+}
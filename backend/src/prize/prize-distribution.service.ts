@@ -0,0 +1,47 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { GameConfig } from '../database/entities/game-config.entity';
+import { WinnerSlot } from '../scoring/ranking';
+import { DistributionStrategyName, PrizeDistributionStrategy } from './distribution-strategies';
+import { BPS_DENOMINATOR, DEFAULT_WINNER_BPS, PrizeSplit, assertBps } from './prize-split';
+
+export const PRIZE_DISTRIBUTION_STRATEGIES = Symbol('PRIZE_DISTRIBUTION_STRATEGIES');
+
+// The part of a round's config that decides how its prizes are paid.
+export type DistributionRules = Pick<GameConfig, 'distributionStrategy' | 'distributionOptions'>;
+
+@Injectable()
+export class PrizeDistributionService {
+  private readonly strategies = new Map<string, PrizeDistributionStrategy>();
+
+  constructor(@Inject(PRIZE_DISTRIBUTION_STRATEGIES) strategies: PrizeDistributionStrategy[]) {
+    for (const strategy of strategies) {
+      this.strategies.set(strategy.name, strategy);
+    }
+  }
+
+  getStrategy(name: string = DistributionStrategyName.Even): PrizeDistributionStrategy {
+    const strategy = this.strategies.get(name);
+    if (!strategy) throw new Error(`Unknown prize distribution strategy: ${name}`);
+    return strategy;
+  }
+
+  // `winnerBps` is the share of players who win, from the round's config.
+  numWinners(rules: Partial<DistributionRules>, playerCount: number, winnerBps: number = DEFAULT_WINNER_BPS): number {
+    assertBps(winnerBps, 'Winner');
+    const byPercentage = Number((BigInt(playerCount) * BigInt(winnerBps) + BPS_DENOMINATOR - 1n) / BPS_DENOMINATOR);
+    return Math.min(byPercentage, this.getStrategy(rules.distributionStrategy).maxWinners ?? byPercentage);
+  }
+
+  distribute(rules: DistributionRules, winners: WinnerSlot[], numSlots: number, split: PrizeSplit): bigint[] {
+    const prizes = this.getStrategy(rules.distributionStrategy).distribute({
+      winners,
+      prizeForWinners: split.prizeForWinners,
+      numSlots,
+      options: rules.distributionOptions ?? {},
+    });
+    if (prizes.length !== winners.length) {
+      throw new Error(`Strategy ${rules.distributionStrategy} returned ${prizes.length} prizes for ${winners.length} winners.`);
+    }
+    return prizes;
+  }
+}
@@ -0,0 +1,71 @@
+export const BPS_DENOMINATOR = 10_000n;
+export const DEFAULT_BUYBACK_BPS = 1_000;
+export const DEFAULT_WINNER_BPS = 1_000;
+
+// Where lamports that cannot be divided evenly end up.
+export enum RemainderDestination {
+  Rollover = 'rollover',
+  Buyback = 'buyback',
+}
+
+export interface PrizeSplit {
+  prizePool: bigint;
+  prizeForWinners: bigint;
+  totalPayout: bigint;
+  buybackAmount: bigint;
+  remainder: bigint;
+  remainderDestination: RemainderDestination;
+}
+
+// Splits a pool into the winners' share and the buyback share. Every lamport is accounted for:
+// totalPayout + buybackAmount + remainder === prizePool. When the remainder goes to the buyback it is
+// still reported separately so the split can be reconciled; callers add it when executing the buyback.
+export function splitPrizePool(
+  prizePool: bigint,
+  buybackBps: number = DEFAULT_BUYBACK_BPS,
+  remainderDestination: RemainderDestination = RemainderDestination.Rollover,
+): PrizeSplit {
+  if (prizePool < 0n) throw new Error('Prize pool cannot be negative.');
+  assertBps(buybackBps, 'Buyback');
+
+  const buybackAmount = (prizePool * BigInt(buybackBps)) / BPS_DENOMINATOR;
+  const prizeForWinners = (prizePool * (BPS_DENOMINATOR - BigInt(buybackBps))) / BPS_DENOMINATOR;
+
+  return withPayouts(
+    { prizePool, prizeForWinners, totalPayout: 0n, buybackAmount, remainder: 0n, remainderDestination },
+    [],
+  );
+}
+
+// Records the prizes actually awarded out of the winners' share; whatever they leave is the remainder.
+export function withPayouts(split: PrizeSplit, payouts: bigint[]): PrizeSplit {
+  const totalPayout = payouts.reduce((sum, payout) => sum + payout, 0n);
+  if (payouts.some(payout => payout < 0n) || totalPayout > split.prizeForWinners) {
+    throw new Error(`Payouts of ${totalPayout} lamports exceed the winners' share of ${split.prizeForWinners}.`);
+  }
+  const adjusted = { ...split, totalPayout, remainder: split.prizePool - totalPayout - split.buybackAmount };
+  assertReconciled(adjusted);
+  return adjusted;
+}
+
+export function assertReconciled(split: Pick<PrizeSplit, 'prizePool' | 'totalPayout' | 'buybackAmount' | 'remainder'>): void {
+  if (split.remainder < 0n || split.totalPayout + split.buybackAmount + split.remainder !== split.prizePool) {
+    throw new Error(`Prize split does not reconcile with pool of ${split.prizePool} lamports.`);
+  }
+}
+
+export function assertBps(bps: number, label: string): void {
+  if (!Number.isInteger(bps) || bps < 0 || BigInt(bps) > BPS_DENOMINATOR) {
+    throw new Error(`${label} basis points must be an integer between 0 and ${BPS_DENOMINATOR}.`);
+  }
+}
+
+export function executedBuyback(split: PrizeSplit): bigint {
+  return split.remainderDestination === RemainderDestination.Buyback
+    ? split.buybackAmount + split.remainder
+    : split.buybackAmount;
+}
+
+export function rolledOver(split: PrizeSplit): bigint {
+  return split.remainderDestination === RemainderDestination.Rollover ? split.remainder : 0n;
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DEFAULT_DISTRIBUTION_STRATEGIES } from './distribution-strategies';
+import { PRIZE_DISTRIBUTION_STRATEGIES, PrizeDistributionService } from './prize-distribution.service';
+
+@Module({
+  providers: [
+    PrizeDistributionService,
+    { provide: PRIZE_DISTRIBUTION_STRATEGIES, useValue: DEFAULT_DISTRIBUTION_STRATEGIES },
+  ],
+  exports: [PrizeDistributionService],
+})
+export class PrizeModule {}
@@ -0,0 +1,18 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+
+// The seed is 32 random bytes, hex encoded. The commitment published when the round opens is
+// sha256(seed). A wallet's random factor is the first 8 bytes of HMAC-SHA256(seed, publicKey)
+// read as a big-endian integer and divided by 2^64, giving a value in [0, 1).
+
+export function generateSeed(): string {
+  return randomBytes(32).toString('hex');
+}
+
+export function commitmentOf(seed: string): string {
+  return createHash('sha256').update(Buffer.from(seed, 'hex')).digest('hex');
+}
+
+export function deriveRandomFactor(seed: string, playerKey: string): number {
+  const digest = createHmac('sha256', Buffer.from(seed, 'hex')).update(playerKey).digest();
+  return Number(digest.readBigUInt64BE(0)) / 2 ** 64;
+}
@@ -0,0 +1,30 @@
+import { Controller, Get, NotFoundException, Param, ParseIntPipe, Query } from '@nestjs/common';
+import { ApiQuery } from '@nestjs/swagger';
+import { RandomnessService, RandomFactorProof } from './randomness.service';
+
+@Controller('games/:gameId/randomness')
+export class RandomnessController {
+  constructor(private readonly randomnessService: RandomnessService) {}
+
+  @Get()
+  @ApiQuery({ name: 'round', required: false, description: "Defaults to the game's latest round." })
+  async getCommitment(@Param('gameId') gameId: string, @Query('round', new ParseIntPipe({ optional: true })) round?: number) {
+    const commitment = await this.randomnessService.getCommitment(gameId, round);
+    if (!commitment) throw new NotFoundException('No seed commitment found for game.');
+    return { gameId, ...commitment };
+  }
+
+  @Get(':playerKey')
+  @ApiQuery({ name: 'round', required: false, description: "Defaults to the game's latest round." })
+  async getRandomFactor(
+    @Param('gameId') gameId: string,
+    @Param('playerKey') playerKey: string,
+    @Query('round', new ParseIntPipe({ optional: true })) round?: number,
+  ): Promise<RandomFactorProof> {
+    try {
+      return await this.randomnessService.proveRandomFactor(gameId, playerKey, round);
+    } catch (error) {
+      throw new NotFoundException(error.message);
+    }
+  }
+}
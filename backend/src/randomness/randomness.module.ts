@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SeedCommitment } from '../database/entities/seed-commitment.entity';
+import { RandomnessService } from './randomness.service';
+import { RandomnessController } from './randomness.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([SeedCommitment])],
+  providers: [RandomnessService],
+  controllers: [RandomnessController],
+  exports: [RandomnessService],
+})
+export class RandomnessModule {}
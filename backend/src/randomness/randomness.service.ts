@@ -0,0 +1,94 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { SeedCommitment } from '../database/entities/seed-commitment.entity';
+import { commitmentOf, deriveRandomFactor, generateSeed } from './commit-reveal';
+
+export interface RandomFactorProof {
+  gameId: string;
+  round: number;
+  playerKey: string;
+  commitment: string;
+  seed: string;
+  randomFactor: number;
+  verified: boolean;
+}
+
+@Injectable()
+export class RandomnessService {
+  private readonly logger = new Logger(RandomnessService.name);
+
+  constructor(
+    @InjectRepository(SeedCommitment)
+    private seedCommitmentRepository: Repository<SeedCommitment>,
+  ) {}
+
+  async commit(gameId: string, round: number): Promise<string> {
+    const seed = generateSeed();
+    const record = this.seedCommitmentRepository.create({
+      game: gameId,
+      round,
+      commitment: commitmentOf(seed),
+      seed,
+      revealedAt: null,
+    });
+    await this.seedCommitmentRepository.save(record);
+    this.logger.log(`Seed committed for game ${gameId} round ${round}: ${record.commitment}`);
+    return record.commitment;
+  }
+
+  // Runs inside the settlement's transaction when given its manager, so a settlement that rolls back
+  // leaves the seed unrevealed.
+  async reveal(gameId: string, round: number, manager?: EntityManager): Promise<string> {
+    const repository = manager ? manager.getRepository(SeedCommitment) : this.seedCommitmentRepository;
+    const record = await this.find(gameId, round, repository);
+    if (!record) throw new Error(`No seed commitment found for game ${gameId} round ${round}.`);
+
+    if (!record.revealedAt) {
+      record.revealedAt = new Date();
+      await repository.save(record);
+      this.logger.log(`Seed revealed for game ${gameId} round ${round}`);
+    }
+    return record.seed;
+  }
+
+  // The seed of `round` without revealing it, for a settlement that reveals it only once it is recorded.
+  async seedFor(gameId: string, round: number, manager?: EntityManager): Promise<string> {
+    const repository = manager ? manager.getRepository(SeedCommitment) : this.seedCommitmentRepository;
+    const record = await this.find(gameId, round, repository);
+    if (!record) throw new Error(`No seed commitment found for game ${gameId} round ${round}.`);
+    return record.seed;
+  }
+
+  // The commitment of `round`, or of the game's latest round when none is given.
+  async getCommitment(gameId: string, round?: number): Promise<{ round: number; commitment: string; seed: string | null } | null> {
+    const record = await this.find(gameId, round);
+    if (!record) return null;
+    return { round: record.round, commitment: record.commitment, seed: record.revealedAt ? record.seed : null };
+  }
+
+  async proveRandomFactor(gameId: string, playerKey: string, round?: number): Promise<RandomFactorProof> {
+    const record = await this.find(gameId, round);
+    if (!record || !record.revealedAt) {
+      throw new Error('Seed has not been revealed for this round.');
+    }
+    return {
+      gameId,
+      round: record.round,
+      playerKey,
+      commitment: record.commitment,
+      seed: record.seed,
+      randomFactor: deriveRandomFactor(record.seed, playerKey),
+      verified: commitmentOf(record.seed) === record.commitment,
+    };
+  }
+
+  private find(
+    gameId: string,
+    round?: number,
+    repository: Repository<SeedCommitment> = this.seedCommitmentRepository,
+  ): Promise<SeedCommitment | null> {
+    const where = round === undefined ? { game: gameId } : { game: gameId, round };
+    return repository.findOne({ where, order: { id: 'DESC' } });
+  }
+}
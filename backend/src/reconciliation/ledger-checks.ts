@@ -0,0 +1,133 @@
+import { GameState } from '../database/entities/game-state.entity';
+import { Player } from '../database/entities/player.entity';
+import { Deposit } from '../database/entities/deposit.entity';
+import { Winner } from '../database/entities/winner.entity';
+import { Settlement } from '../database/entities/settlement.entity';
+import { Buyback } from '../database/entities/buyback.entity';
+import { GamePhase } from '../game/game-lifecycle';
+import { executedBuyback, rolledOver } from '../prize/prize-split';
+import { ChainDiscrepancy, ExpectedChainState } from '../chain/chain-sync';
+
+// One invariant that did not hold. Amounts are lamports as decimal strings.
+export interface LedgerDiscrepancy {
+  // Which invariant, e.g. `deposits.players` or `chain.totalDeposits`.
+  check: string;
+  expected: string;
+  actual: string;
+  playerKey?: string;
+}
+
+// Everything recorded for one round of a game.
+export interface RoundLedger {
+  game: GameState;
+  players: Player[];
+  deposits: Deposit[];
+  winners: Winner[];
+  settlement: Settlement | null;
+  buyback: Buyback | null;
+  // Settlement of the round before, whose rolled-over remainder this round's pool started with.
+  previousSettlement: Settlement | null;
+}
+
+// A Settling game records its settlement only once the program has paid.
+const UNSETTLED = [GamePhase.Created, GamePhase.Open, GamePhase.Closed, GamePhase.Settling];
+
+// The invariants the database must satisfy on its own:
+//  - totalDeposits is the sum of the players' deposits, and each player's deposit the sum of their credited
+//    transfers;
+//  - the pool is the deposits plus the rollover carried in until settlement, nothing while Settled or Resetting, and
+//    only the rollover carried out once Archived;
+//  - a settlement's prizes, buyback and remainder add up to its pool, which is the round's deposits plus
+//    the rollover carried in, and the buyback executed is the settlement's buyback share.
+export function checkRoundLedger(ledger: RoundLedger): LedgerDiscrepancy[] {
+  const { game, players, deposits, winners, settlement, buyback, previousSettlement } = ledger;
+  const { found, differ } = collector();
+  const sum = (amounts: bigint[]) => amounts.reduce((total, amount) => total + amount, 0n);
+  const depositTotal = sum(players.map(p => p.deposit));
+  const carriedIn = previousSettlement ? rolledOver(previousSettlement) : 0n;
+
+  // Reset zeroes totalDeposits; the archived round's players are only history.
+  if (game.phase !== GamePhase.Archived) differ('deposits.players', game.totalDeposits, depositTotal);
+
+  const credited = new Map<string, bigint>();
+  for (const deposit of deposits) {
+    credited.set(deposit.playerKey, (credited.get(deposit.playerKey) ?? 0n) + deposit.amount);
+  }
+  for (const player of players) {
+    differ('deposits.ledger', player.deposit, credited.get(player.key) ?? 0n, player.key);
+    credited.delete(player.key);
+  }
+  for (const [playerKey, amount] of credited) {
+    differ('deposits.ledger', 0n, amount, playerKey);
+  }
+
+  if (UNSETTLED.includes(game.phase)) {
+    differ('pool', game.totalDeposits + game.rolloverLamports, game.prizePool);
+    differ('rollover', carriedIn, game.rolloverLamports);
+    return found;
+  }
+
+  differ('pool', [GamePhase.Settled, GamePhase.Resetting].includes(game.phase) ? 0n : game.rolloverLamports, game.prizePool);
+  if (!settlement) {
+    differ('settlement.missing', 'settlement', 'none');
+    return found;
+  }
+  differ('rollover', rolledOver(settlement), game.rolloverLamports);
+  differ('settlement.pool', depositTotal + carriedIn, settlement.prizePool);
+  differ('settlement.split', settlement.prizePool, settlement.totalPayout + settlement.buybackAmount + settlement.remainder);
+  differ('settlement.winners', settlement.totalPayout, sum(winners.map(w => w.prize)));
+  // The buyback row is written just after the settlement commits, so a missing one is not reported.
+  if (buyback) differ('settlement.buyback', executedBuyback(settlement), buyback.amountIn);
+  return found;
+}
+
+// The vault must hold at least what is still owed from it; any surplus is not a discrepancy.
+export function checkVault(balance: bigint, liabilities: bigint): LedgerDiscrepancy[] {
+  return balance < liabilities ? [{ check: 'vault.balance', expected: `>= ${liabilities}`, actual: String(balance) }] : [];
+}
+
+// Lamports a game's vault still owes: the pool until it is settled, and the rollover after.
+export function vaultLiability(game: GameState): bigint {
+  return UNSETTLED.includes(game.phase) ? game.prizePool : game.rolloverLamports;
+}
+
+// What the program account should hold in each phase. The program zeroes its deposits when it pays
+// winners, keeps the rollover in its pool, and marks the game active until it is reset.
+export function expectedChainState(game: GameState, players: Player[], winners: Winner[]): ExpectedChainState {
+  switch (game.phase) {
+    case GamePhase.Settled:
+      return {
+        totalDeposits: 0n,
+        prizePool: game.rolloverLamports,
+        active: true,
+        winners: winners.filter(w => w.prize > 0n).map(w => w.playerKey),
+      };
+    case GamePhase.Archived:
+      return { totalDeposits: 0n, prizePool: game.rolloverLamports, active: false };
+    // The program may or may not have paid or reset yet; the step compares the account once it has.
+    case GamePhase.Settling:
+    case GamePhase.Resetting:
+      return {};
+    default:
+      return {
+        totalDeposits: game.totalDeposits,
+        prizePool: game.prizePool,
+        active: false,
+        deposits: new Map(players.map(p => [p.key, p.deposit])),
+      };
+  }
+}
+
+export function fromChainDiscrepancy({ field, playerKey, database, chain }: ChainDiscrepancy): LedgerDiscrepancy {
+  return { check: `chain.${field}`, expected: database, actual: chain, ...(playerKey ? { playerKey } : {}) };
+}
+
+function collector() {
+  const found: LedgerDiscrepancy[] = [];
+  const differ = (check: string, expected: unknown, actual: unknown, playerKey?: string) => {
+    if (String(expected) !== String(actual)) {
+      found.push({ check, expected: String(expected), actual: String(actual), ...(playerKey ? { playerKey } : {}) });
+    }
+  };
+  return { found, differ };
+}
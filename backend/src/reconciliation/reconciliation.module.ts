@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ReconciliationReport } from '../database/entities/reconciliation-report.entity';
+import { GameState } from '../database/entities/game-state.entity';
+import { Player } from '../database/entities/player.entity';
+import { Deposit } from '../database/entities/deposit.entity';
+import { Winner } from '../database/entities/winner.entity';
+import { Settlement } from '../database/entities/settlement.entity';
+import { Buyback } from '../database/entities/buyback.entity';
+import { SolanaModule } from '../solana/solana.module';
+import { ChainModule } from '../chain/chain.module';
+import { ReconciliationService } from './reconciliation.service';
+import { ReconciliationScheduler } from './reconciliation.scheduler';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ReconciliationReport, GameState, Player, Deposit, Winner, Settlement, Buyback]),
+    SolanaModule,
+    ChainModule,
+  ],
+  providers: [ReconciliationService, ReconciliationScheduler],
+  exports: [ReconciliationService],
+})
+export class ReconciliationModule {}
@@ -0,0 +1,24 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { ReconciliationService } from './reconciliation.service';
+
+@Injectable()
+export class ReconciliationScheduler {
+  private readonly logger = new Logger(ReconciliationScheduler.name);
+  private running = false;
+
+  constructor(private readonly reconciliationService: ReconciliationService) {}
+
+  @Interval(Number(process.env.RECONCILIATION_INTERVAL_MS ?? 300_000))
+  async tick(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.reconciliationService.reconcileAll();
+    } catch (error) {
+      this.logger.error(`Error reconciling games: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Not, Repository } from 'typeorm';
+import { GameState } from '../database/entities/game-state.entity';
+import { Player } from '../database/entities/player.entity';
+import { Deposit } from '../database/entities/deposit.entity';
+import { Winner } from '../database/entities/winner.entity';
+import { Settlement } from '../database/entities/settlement.entity';
+import { Buyback } from '../database/entities/buyback.entity';
+import { ReconciliationReport, ReconciliationTrigger } from '../database/entities/reconciliation-report.entity';
+import { GamePhase } from '../game/game-lifecycle';
+import { RumbleError } from '../game/rumble.errors';
+import { SOLANA_RPC, SolanaRpc } from '../solana/solana-rpc';
+import { RUMBLE_PROGRAM, RumbleProgramClient } from '../chain/rumble-program';
+import { ChainDiscrepancy, findDiscrepancies } from '../chain/chain-sync';
+import {
+  LedgerDiscrepancy,
+  checkRoundLedger,
+  checkVault,
+  expectedChainState,
+  fromChainDiscrepancy,
+  vaultLiability,
+} from './ledger-checks';
+
+// Chain discrepancies a fresh read of the account can settle. The prizes the program paid are only
+// reported by its settlement transaction, so a payout difference stays until it is cleared by hand.
+const RECHECKED_FIELDS = ['account', 'totalDeposits', 'active', 'deposit', 'winners'];
+
+export interface ReconciliationFailedEvent {
+  gameId: string;
+  round: number;
+  reportId: number;
+  discrepancies: LedgerDiscrepancy[];
+}
+
+// Checks a game's current round against its deposits, settlement, buyback, vault balance and program
+// account, and keeps a report of every run. An unbalanced report is raised as `reconciliation.failed`.
+@Injectable()
+export class ReconciliationService {
+  private readonly logger = new Logger(ReconciliationService.name);
+
+  constructor(
+    @InjectRepository(ReconciliationReport)
+    private readonly reportRepository: Repository<ReconciliationReport>,
+    @InjectRepository(GameState)
+    private readonly gameStateRepository: Repository<GameState>,
+    @InjectRepository(Player)
+    private readonly playerRepository: Repository<Player>,
+    @InjectRepository(Deposit)
+    private readonly depositRepository: Repository<Deposit>,
+    @InjectRepository(Winner)
+    private readonly winnerRepository: Repository<Winner>,
+    @InjectRepository(Settlement)
+    private readonly settlementRepository: Repository<Settlement>,
+    @InjectRepository(Buyback)
+    private readonly buybackRepository: Repository<Buyback>,
+    @Inject(SOLANA_RPC) private readonly rpc: SolanaRpc,
+    private readonly eventEmitter: EventEmitter2,
+    @Optional() @Inject(RUMBLE_PROGRAM) private readonly program: RumbleProgramClient | null = null,
+  ) {}
+
+  async reconcileGame(gameId: string, trigger: ReconciliationTrigger = ReconciliationTrigger.Manual): Promise<ReconciliationReport> {
+    const game = await this.gameStateRepository.findOne({ where: { gameId } });
+    if (!game) throw new RumbleError.GameNotFound({ gameId });
+
+    const round = { game: gameId, round: game.round };
+    const [players, deposits, winners, settlement, previousSettlement] = await Promise.all([
+      this.playerRepository.find({ where: round }),
+      this.depositRepository.find({ where: round }),
+      this.winnerRepository.find({ where: round }),
+      this.settlementRepository.findOne({ where: round }),
+      this.settlementRepository.findOne({ where: { game: gameId, round: game.round - 1 } }),
+    ]);
+    const buyback = settlement ? await this.buybackRepository.findOne({ where: { settlementId: settlement.id } }) : null;
+    const discrepancies = checkRoundLedger({ game, players, deposits, winners, settlement, buyback, previousSettlement });
+
+    let vaultAddress: string | null = null;
+    let vaultBalance: bigint | null = null;
+    if (this.onChain(game)) {
+      discrepancies.push(...(await this.checkChain(game, players, winners)));
+    } else {
+      vaultAddress = game.vaultAddress ?? process.env.GAME_VAULT_ADDRESS ?? null;
+      if (vaultAddress) {
+        vaultBalance = await this.readBalance(vaultAddress);
+        if (vaultBalance !== null) discrepancies.push(...checkVault(vaultBalance, await this.vaultLiabilities(vaultAddress)));
+      }
+    }
+
+    const report = await this.reportRepository.save(
+      this.reportRepository.create({
+        ...round,
+        phase: game.phase,
+        trigger,
+        balanced: discrepancies.length === 0,
+        discrepancies,
+        vaultAddress,
+        vaultBalance,
+      }),
+    );
+    if (!report.balanced) {
+      this.logger.error(
+        `Books of game ${gameId} round ${game.round} do not balance: ${discrepancies.map(d => d.check).join(', ')} (report ${report.id}).`,
+      );
+      const event: ReconciliationFailedEvent = { gameId, round: game.round, reportId: report.id, discrepancies };
+      this.eventEmitter.emit('reconciliation.failed', event);
+    }
+    return report;
+  }
+
+  // Games are checked one after another; one that cannot be checked does not stop the rest.
+  async reconcileAll(trigger: ReconciliationTrigger = ReconciliationTrigger.Scheduled): Promise<ReconciliationReport[]> {
+    const games = await this.gameStateRepository.find({ where: { phase: Not(GamePhase.Archived) } });
+    const reports: ReconciliationReport[] = [];
+    for (const game of games) {
+      try {
+        reports.push(await this.reconcileGame(game.gameId, trigger));
+      } catch (error) {
+        this.logger.error(`Error reconciling game ${game.gameId}: ${error.message}`);
+      }
+    }
+    return reports;
+  }
+
+  async assertBalanced(gameId: string): Promise<void> {
+    const report = await this.reconcileGame(gameId, ReconciliationTrigger.Settlement);
+    if (!report.balanced) {
+      throw new RumbleError.BooksUnbalanced({ gameId, round: report.round, reportId: report.id, discrepancies: report.discrepancies });
+    }
+  }
+
+  // Compares the game with its program account, and clears the discrepancies the game is held for once a
+  // fresh read shows them gone. Those that remain are reported too.
+  private async checkChain(game: GameState, players: Player[], winners: Winner[]): Promise<LedgerDiscrepancy[]> {
+    let found: ChainDiscrepancy[];
+    try {
+      const account = await this.program.fetchGameState(game.programAccount);
+      found = findDiscrepancies('reconcile', expectedChainState(game, players, winners), account);
+    } catch (error) {
+      this.logger.warn(`Could not compare game ${game.gameId} with its program account: ${error.message}`);
+      return (game.chainDiscrepancies ?? []).map(fromChainDiscrepancy);
+    }
+
+    const held = game.chainDiscrepancies ?? [];
+    if (found.length === 0 && held.some(d => RECHECKED_FIELDS.includes(d.field))) {
+      const remaining = held.filter(d => !RECHECKED_FIELDS.includes(d.field));
+      await this.gameStateRepository.update({ gameId: game.gameId }, { chainDiscrepancies: remaining.length > 0 ? remaining : null });
+      this.logger.log(`Game ${game.gameId} matches its program account again; cleared ${held.length - remaining.length} discrepancies.`);
+      return remaining.map(fromChainDiscrepancy);
+    }
+    return [...held, ...found].map(fromChainDiscrepancy);
+  }
+
+  // A balance that cannot be read leaves the vault unchecked rather than failing the report.
+  private async readBalance(vaultAddress: string): Promise<bigint | null> {
+    try {
+      return await this.rpc.getBalance(vaultAddress);
+    } catch (error) {
+      this.logger.warn(`Could not read the balance of vault ${vaultAddress}: ${error.message}`);
+      return null;
+    }
+  }
+
+  // Every off-chain game sharing the vault counts against its balance.
+  private async vaultLiabilities(vaultAddress: string): Promise<bigint> {
+    const games = await this.gameStateRepository.find();
+    return games
+      .filter(g => !this.onChain(g) && (g.vaultAddress ?? process.env.GAME_VAULT_ADDRESS) === vaultAddress)
+      .reduce((total, g) => total + vaultLiability(g), 0n);
+  }
+
+  private onChain(game: GameState): boolean {
+    return Boolean(this.program && game.programAccount);
+  }
+}
@@ -0,0 +1,104 @@
+import { Player } from '../database/entities/player.entity';
+import { deriveRandomFactor } from '../randomness/commit-reveal';
+
+// Players are ordered by composite score, then by each tie-breaker in turn. Player key order is the
+// implicit last resort so the ranking never depends on database row order.
+export enum TieBreaker {
+  EarliestDeposit = 'earliestDeposit',
+  LargestDeposit = 'largestDeposit',
+  SeededRandom = 'seededRandom',
+}
+
+export const DEFAULT_TIE_BREAKERS: TieBreaker[] = [
+  TieBreaker.EarliestDeposit,
+  TieBreaker.LargestDeposit,
+  TieBreaker.SeededRandom,
+];
+
+export interface RankingOptions {
+  tieBreakers?: TieBreaker[] | null;
+  // Null until the round's seed is revealed; the seeded tie-breaker then leaves players tied.
+  seed: string | null;
+}
+
+export interface RankedPlayer {
+  player: Player;
+  rank: number;
+  // The rule that placed this player ahead of the next one in the ranking.
+  decidedBy: string | null;
+}
+
+type Comparator = (a: Player, b: Player) => number;
+
+function tieBreakComparator(tieBreaker: TieBreaker, seed: string | null): Comparator {
+  switch (tieBreaker) {
+    case TieBreaker.EarliestDeposit:
+      return (a, b) => depositTime(a) - depositTime(b);
+    case TieBreaker.LargestDeposit:
+      return (a, b) => (a.deposit === b.deposit ? 0 : a.deposit > b.deposit ? -1 : 1);
+    case TieBreaker.SeededRandom:
+      if (seed === null) return () => 0;
+      return (a, b) => deriveRandomFactor(seed, `tie-break:${b.key}`) - deriveRandomFactor(seed, `tie-break:${a.key}`);
+    default:
+      throw new Error(`Unknown tie-breaker: ${tieBreaker}`);
+  }
+}
+
+function depositTime(player: Player): number {
+  return player.firstDepositAt ? new Date(player.firstDepositAt).getTime() : Number.MAX_SAFE_INTEGER;
+}
+
+export function rankPlayers(players: Player[], options: RankingOptions): RankedPlayer[] {
+  const rules: [string, Comparator][] = [
+    ['compositeScore', (a, b) => b.compositeScore - a.compositeScore],
+    ...(options.tieBreakers ?? DEFAULT_TIE_BREAKERS).map(
+      (tieBreaker): [string, Comparator] => [tieBreaker, tieBreakComparator(tieBreaker, options.seed)],
+    ),
+    ['playerKey', (a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0)],
+  ];
+
+  const decidingRule = (a: Player, b: Player): [string, number] | null => {
+    for (const [name, compare] of rules) {
+      const result = compare(a, b);
+      if (result !== 0) return [name, result];
+    }
+    return null;
+  };
+
+  const sorted = [...players].sort((a, b) => decidingRule(a, b)?.[1] ?? 0);
+
+  return sorted.map((player, index) => ({
+    player,
+    rank: index + 1,
+    decidedBy: index + 1 < sorted.length ? decidingRule(player, sorted[index + 1])?.[0] ?? null : null,
+  }));
+}
+
+export interface WinnerSlot extends RankedPlayer {
+  // Number of prize shares held by the group this winner belongs to, and how many players split them.
+  shares: number;
+  sharedWith: number;
+}
+
+// Takes the top `numWinners` from a ranking. With `splitTiesAtCutoff`, everyone whose composite score
+// equals the score at the cut line becomes a winner and the shares left for that group are split evenly.
+export function selectWinnerSlots(ranking: RankedPlayer[], numWinners: number, splitTiesAtCutoff: boolean): WinnerSlot[] {
+  const top = ranking.slice(0, numWinners);
+  if (!splitTiesAtCutoff || top.length === 0 || ranking.length <= numWinners) {
+    return top.map(entry => ({ ...entry, shares: 1, sharedWith: 1 }));
+  }
+
+  const cutScore = top[top.length - 1].player.compositeScore;
+  if (ranking[numWinners].player.compositeScore !== cutScore) {
+    return top.map(entry => ({ ...entry, shares: 1, sharedWith: 1 }));
+  }
+
+  const above = top.filter(entry => entry.player.compositeScore !== cutScore);
+  const tied = ranking.filter(entry => entry.player.compositeScore === cutScore);
+  const sharedShares = numWinners - above.length;
+
+  return [
+    ...above.map(entry => ({ ...entry, shares: 1, sharedWith: 1 })),
+    ...tied.map(entry => ({ ...entry, shares: sharedShares, sharedWith: tied.length })),
+  ];
+}
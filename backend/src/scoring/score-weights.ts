@@ -0,0 +1,27 @@
+export interface ScoreWeights {
+  tokenHoldings: number;
+  tradingPerformance: number;
+  depositSpeed: number;
+  random: number;
+}
+
+// Total Score = 0.4×Token Holdings + 0.3×Trading Performance + 0.2×Deposit Speed + 0.1×Random Factor
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  tokenHoldings: 0.4,
+  tradingPerformance: 0.3,
+  depositSpeed: 0.2,
+  random: 0.1,
+};
+
+export function resolveScoreWeights(overrides?: Partial<ScoreWeights> | null): ScoreWeights {
+  const weights = { ...DEFAULT_SCORE_WEIGHTS, ...(overrides ?? {}) };
+  const values = Object.values(weights);
+  if (values.some(w => !Number.isFinite(w) || w < 0)) {
+    throw new Error('Score weights must be non-negative numbers.');
+  }
+  const total = values.reduce((sum, w) => sum + w, 0);
+  if (Math.abs(total - 1) > 1e-9) {
+    throw new Error('Score weights must sum to 1.');
+  }
+  return weights;
+}
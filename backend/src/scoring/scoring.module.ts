@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { ScoringService } from './scoring.service';
+import { SplTokenHoldingsProvider, TOKEN_HOLDINGS_PROVIDER } from './token-holdings.provider';
+
+@Module({
+  providers: [ScoringService, { provide: TOKEN_HOLDINGS_PROVIDER, useClass: SplTokenHoldingsProvider }],
+  exports: [ScoringService],
+})
+export class ScoringModule {}
@@ -0,0 +1,82 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { GameState } from '../database/entities/game-state.entity';
+import { Player } from '../database/entities/player.entity';
+import { ScoreWeights, resolveScoreWeights } from './score-weights';
+import { TOKEN_HOLDINGS_PROVIDER, TokenHoldingsProvider } from './token-holdings.provider';
+import { deriveRandomFactor } from '../randomness/commit-reveal';
+import { ROUND_DURATION_MS } from '../game/game-lifecycle';
+
+export interface ScoreBreakdown {
+  playerKey: string;
+  tokenHoldings: number;
+  tradingPerformance: number;
+  depositSpeed: number;
+  random: number;
+  composite: number;
+}
+
+@Injectable()
+export class ScoringService {
+  constructor(
+    @Inject(TOKEN_HOLDINGS_PROVIDER)
+    private readonly holdingsProvider: TokenHoldingsProvider,
+  ) {}
+
+  // Without a seed (before the reveal) the random factor is scored as 0 for everyone. Deposit speed is
+  // measured over the round's deposit window, from opening to closesAt. `scoreWeights` come from the
+  // round's config; null scores by the defaults.
+  async scorePlayers(
+    game: GameState,
+    players: Player[],
+    seed: string | null,
+    scoreWeights: Partial<ScoreWeights> | null = null,
+  ): Promise<ScoreBreakdown[]> {
+    const weights = resolveScoreWeights(scoreWeights);
+    const holdings = await this.holdingsOf(players);
+
+    const maxHoldings = Math.max(0, ...players.map(p => holdings.get(p.key) ?? 0));
+    const maxTradingScore = Math.max(0, ...players.map(p => p.tradingScore));
+    const roundStart = new Date(game.openedAt ?? game.createdAt).getTime();
+    const roundLength = game.closesAt ? new Date(game.closesAt).getTime() - roundStart : ROUND_DURATION_MS;
+
+    return players.map(player => {
+      const tokenHoldings = proportion(holdings.get(player.key) ?? 0, maxHoldings);
+      const tradingPerformance = proportion(player.tradingScore, maxTradingScore);
+      const depositSpeed = player.firstDepositAt
+        ? clamp(1 - (new Date(player.firstDepositAt).getTime() - roundStart) / roundLength)
+        : 0;
+      const random = seed === null ? 0 : deriveRandomFactor(seed, player.key);
+
+      const composite =
+        weights.tokenHoldings * tokenHoldings +
+        weights.tradingPerformance * tradingPerformance +
+        weights.depositSpeed * depositSpeed +
+        weights.random * random;
+
+      return { playerKey: player.key, tokenHoldings, tradingPerformance, depositSpeed, random, composite };
+    });
+  }
+
+  // Records each player's balance on the player, for the caller to persist. Taken once, when deposits close.
+  async snapshotHoldings(players: Player[]): Promise<void> {
+    const holdings = await this.holdingsProvider.getBalances(players.map(p => p.key));
+    for (const player of players) {
+      player.tokenHoldings = holdings.get(player.key) ?? 0;
+    }
+  }
+
+  // Snapshotted balances where there are any; only players without one are looked up.
+  private async holdingsOf(players: Player[]): Promise<Map<string, number>> {
+    const unknown = players.filter(p => p.tokenHoldings == null).map(p => p.key);
+    const live = unknown.length > 0 ? await this.holdingsProvider.getBalances(unknown) : new Map<string, number>();
+    return new Map(players.map(p => [p.key, p.tokenHoldings ?? live.get(p.key) ?? 0]));
+  }
+}
+
+function proportion(value: number, max: number): number {
+  return max > 0 ? clamp(value / max) : 0;
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
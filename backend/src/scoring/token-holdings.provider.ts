@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { AccountInfo, Connection, ParsedAccountData, PublicKey } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+
+export const TOKEN_HOLDINGS_PROVIDER = Symbol('TOKEN_HOLDINGS_PROVIDER');
+
+// Most accounts one getMultipleAccounts call may ask for.
+const ACCOUNTS_PER_REQUEST = 100;
+
+export interface TokenHoldingsProvider {
+  getBalances(playerKeys: string[]): Promise<Map<string, number>>;
+}
+
+// Reads each player's associated RUMBLE token account, a hundred players per request. Balances held in
+// other token accounts are not counted. RUMBLE_MINT_ADDRESS is only read on the first lookup.
+@Injectable()
+export class SplTokenHoldingsProvider implements TokenHoldingsProvider {
+  private readonly connection = new Connection(process.env.SOLANA_RPC_URL, 'confirmed');
+  private loaded: PublicKey | null = null;
+
+  private get mint(): PublicKey {
+    this.loaded ??= new PublicKey(process.env.RUMBLE_MINT_ADDRESS);
+    return this.loaded;
+  }
+
+  async getBalances(playerKeys: string[]): Promise<Map<string, number>> {
+    const balances = new Map<string, number>();
+    for (let start = 0; start < playerKeys.length; start += ACCOUNTS_PER_REQUEST) {
+      const keys = playerKeys.slice(start, start + ACCOUNTS_PER_REQUEST);
+      const accounts = keys.map(key => getAssociatedTokenAddressSync(this.mint, new PublicKey(key), true));
+      const { value } = await this.connection.getMultipleParsedAccounts(accounts);
+      keys.forEach((key, i) => balances.set(key, uiAmount(value[i])));
+    }
+    return balances;
+  }
+}
+
+function uiAmount(account: AccountInfo<ParsedAccountData | Buffer> | null): number {
+  if (!account || !('parsed' in account.data)) return 0;
+  return account.data.parsed.info?.tokenAmount?.uiAmount ?? 0;
+}
@@ -0,0 +1,74 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Commitment, SOLANA_RPC, SolanaRpc, meetsCommitment } from './solana-rpc';
+import { RumbleError } from '../game/rumble.errors';
+
+export interface DepositClaim {
+  signature: string;
+  sender: string;
+  vault: string;
+  amount: bigint;
+  // When set, only transfers made by this program's instructions count.
+  program?: string;
+  // When set, the transaction must have landed in this window; a null end leaves it open.
+  window?: { from: Date; to: Date | null };
+  // When set, the transaction must carry this memo.
+  memo?: string;
+}
+
+export interface VerifiedDeposit extends DepositClaim {
+  slot: number;
+}
+
+@Injectable()
+export class DepositVerifierService {
+  private readonly logger = new Logger(DepositVerifierService.name);
+  private readonly requiredCommitment = (process.env.DEPOSIT_COMMITMENT ?? 'finalized') as Exclude<Commitment, 'processed'>;
+
+  constructor(@Inject(SOLANA_RPC) private readonly rpc: SolanaRpc) {}
+
+  // Confirms the transaction moved exactly `amount` lamports from `sender` to `vault` at the required finality.
+  async verify(claim: DepositClaim): Promise<VerifiedDeposit> {
+    const tx = await this.rpc.getTransaction(claim.signature, this.requiredCommitment);
+    if (!tx) {
+      throw this.rejected(claim, `Deposit transaction ${claim.signature} was not found at ${this.requiredCommitment} commitment.`);
+    }
+    if (tx.err) {
+      throw this.rejected(claim, `Deposit transaction ${claim.signature} failed on-chain.`);
+    }
+    if (!meetsCommitment(tx.confirmationStatus, this.requiredCommitment)) {
+      throw this.rejected(claim, `Deposit transaction ${claim.signature} is only ${tx.confirmationStatus}.`);
+    }
+    if (claim.window && !landedWithin(tx.blockTime, claim.window)) {
+      throw this.rejected(claim, `Deposit transaction ${claim.signature} was not made while the round was open.`);
+    }
+    if (claim.memo && !tx.memos.includes(claim.memo)) {
+      throw this.rejected(claim, `Deposit transaction ${claim.signature} does not carry the memo ${claim.memo}.`);
+    }
+
+    const transferred = tx.transfers
+      .filter(transfer => transfer.source === claim.sender && transfer.destination === claim.vault)
+      .filter(transfer => !claim.program || transfer.program === claim.program)
+      .reduce((sum, transfer) => sum + transfer.lamports, 0n);
+    if (transferred === 0n) {
+      throw this.rejected(claim, `Deposit transaction ${claim.signature} has no transfer from ${claim.sender} to the game vault.`);
+    }
+    if (transferred !== claim.amount) {
+      throw this.rejected(claim, `Deposit transaction ${claim.signature} transferred ${transferred} lamports, not ${claim.amount}.`);
+    }
+
+    this.logger.log(`Verified deposit ${claim.signature} of ${claim.amount} lamports from ${claim.sender}`);
+    return { ...claim, slot: tx.slot };
+  }
+
+  private rejected(claim: DepositClaim, message: string): RumbleError {
+    return new RumbleError.DepositNotVerified({ signature: claim.signature, commitment: this.requiredCommitment }, message);
+  }
+}
+
+function landedWithin(blockTime: Date | null, window: { from: Date; to: Date | null }): boolean {
+  if (!blockTime) return false;
+  const time = blockTime.getTime();
+  // Block times are whole seconds, so a deposit made in the second the round opened counts.
+  const from = Math.floor(new Date(window.from).getTime() / 1000) * 1000;
+  return time >= from && (!window.to || time <= new Date(window.to).getTime());
+}
@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { Commitment, ObservedTransaction, ObservedTransfer, SignedTransaction, SolanaRpc, meetsCommitment } from './solana-rpc';
+
+// Ledger stand-in for tests and offline development.
+@Injectable()
+export class InMemorySolanaRpc implements SolanaRpc {
+  private readonly transactions = new Map<string, ObservedTransaction>();
+  private slot = 0;
+  private blockHeight = 0;
+  // How transactions sent from now on land: at a commitment, failed on-chain, or not at all.
+  sendOutcome: Commitment | { err: unknown } | 'dropped' = 'finalized';
+  readonly sent: SignedTransaction[] = [];
+  // Account balances, set directly by tests; transfers recorded here do not move them.
+  readonly balances = new Map<string, bigint>();
+
+  recordTransaction(
+    signature: string,
+    transfers: ObservedTransfer[],
+    confirmationStatus: Commitment = 'finalized',
+    err: unknown | null = null,
+    { blockTime = new Date(), memos = [] }: Partial<Pick<ObservedTransaction, 'blockTime' | 'memos'>> = {},
+  ): ObservedTransaction {
+    const tx = { signature, slot: ++this.slot, confirmationStatus, err, blockTime, transfers, memos };
+    this.transactions.set(signature, tx);
+    return tx;
+  }
+
+  setConfirmationStatus(signature: string, confirmationStatus: Commitment): void {
+    const tx = this.transactions.get(signature);
+    if (tx) tx.confirmationStatus = confirmationStatus;
+  }
+
+  async getTransaction(signature: string, commitment: Exclude<Commitment, 'processed'>): Promise<ObservedTransaction | null> {
+    const tx = this.transactions.get(signature);
+    return tx && meetsCommitment(tx.confirmationStatus, commitment) ? { ...tx } : null;
+  }
+
+  advanceBlockHeight(blocks: number): void {
+    this.blockHeight += blocks;
+  }
+
+  async getBlockHeight(): Promise<number> {
+    return this.blockHeight;
+  }
+
+  async getLatestBlockhash(): Promise<{ blockhash: string; lastValidBlockHeight: number }> {
+    return { blockhash: `blockhash-${this.blockHeight}`, lastValidBlockHeight: this.blockHeight + 150 };
+  }
+
+  async sendTransaction(transaction: SignedTransaction): Promise<string> {
+    this.sent.push(transaction);
+    const outcome = this.sendOutcome;
+    if (this.transactions.has(transaction.signature) || outcome === 'dropped') return transaction.signature;
+    if (this.blockHeight > transaction.lastValidBlockHeight) throw new Error('Blockhash not found');
+
+    if (typeof outcome === 'string') {
+      this.recordTransaction(transaction.signature, transaction.transfers, outcome);
+    } else {
+      this.recordTransaction(transaction.signature, transaction.transfers, 'finalized', outcome.err);
+    }
+    return transaction.signature;
+  }
+
+  async getBalance(address: string): Promise<bigint> {
+    return this.balances.get(address) ?? 0n;
+  }
+}
@@ -0,0 +1,8 @@
+import { Keypair } from '@solana/web3.js';
+
+// Reads a secret key stored in an environment variable as a JSON byte array, as written by `solana-keygen`.
+export function keypairFromEnv(variable: string): Keypair {
+  const secretKey = process.env[variable];
+  if (!secretKey) throw new Error(`${variable} is not configured.`);
+  return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(secretKey)));
+}
@@ -0,0 +1,52 @@
+export const SOLANA_RPC = Symbol('SOLANA_RPC');
+
+export type Commitment = 'processed' | 'confirmed' | 'finalized';
+
+export const COMMITMENT_ORDER: Commitment[] = ['processed', 'confirmed', 'finalized'];
+
+export interface ObservedTransfer {
+  source: string;
+  destination: string;
+  lamports: bigint;
+  // Program whose instruction made the transfer: the system program for a plain transfer, otherwise the
+  // program that invoked it. Left out by ledgers that cannot tell.
+  program?: string;
+}
+
+export interface ObservedTransaction {
+  signature: string;
+  slot: number;
+  confirmationStatus: Commitment;
+  err: unknown | null;
+  // When the block was produced; null when the node does not know.
+  blockTime: Date | null;
+  transfers: ObservedTransfer[];
+  // Text of the transaction's memo instructions.
+  memos: string[];
+}
+
+// A transaction signed by the backend and ready to send. Its signature is fixed once signed, so it can be
+// recorded before sending; `transfers` describes what it does for ledgers that cannot decode `serialized`.
+export interface SignedTransaction {
+  signature: string;
+  serialized: Uint8Array;
+  transfers: ObservedTransfer[];
+  // Past this block height the transaction's blockhash has expired and it can no longer land.
+  lastValidBlockHeight: number;
+}
+
+// The slice of a Solana RPC node the backend relies on. Swap the implementation to point at a
+// local validator, or use InMemorySolanaRpc in tests.
+export interface SolanaRpc {
+  getTransaction(signature: string, commitment: Exclude<Commitment, 'processed'>): Promise<ObservedTransaction | null>;
+  getBlockHeight(): Promise<number>;
+  getLatestBlockhash(): Promise<{ blockhash: string; lastValidBlockHeight: number }>;
+  // Resolves once the node has accepted the transaction, not once it has landed.
+  sendTransaction(transaction: SignedTransaction): Promise<string>;
+  // Lamports held by an account at `confirmed`; 0 for an account that does not exist.
+  getBalance(address: string): Promise<bigint>;
+}
+
+export function meetsCommitment(actual: Commitment, required: Commitment): boolean {
+  return COMMITMENT_ORDER.indexOf(actual) >= COMMITMENT_ORDER.indexOf(required);
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { SOLANA_RPC } from './solana-rpc';
+import { Web3SolanaRpc } from './web3-solana-rpc';
+import { DepositVerifierService } from './deposit-verifier.service';
+
+@Module({
+  providers: [{ provide: SOLANA_RPC, useClass: Web3SolanaRpc }, DepositVerifierService],
+  exports: [SOLANA_RPC, DepositVerifierService],
+})
+export class SolanaModule {}
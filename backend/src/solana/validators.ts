@@ -0,0 +1,63 @@
+import { ValidationOptions, registerDecorator } from 'class-validator';
+import { PublicKey } from '@solana/web3.js';
+import * as bs58 from 'bs58';
+import { parseLamports } from '../prize/lamports';
+
+const SIGNATURE_LENGTH = 64;
+
+// Any 32-byte base58 address. Off-curve keys are accepted because program-derived vaults are off-curve.
+export function isSolanaPublicKey(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return new PublicKey(value).toBase58() === value;
+  } catch (error) {
+    return false;
+  }
+}
+
+export function isSolanaSignature(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return bs58.decode(value).length === SIGNATURE_LENGTH;
+  } catch (error) {
+    return false;
+  }
+}
+
+// A positive lamport amount in any form `parseLamports` accepts.
+export function isLamportAmount(value: unknown): boolean {
+  if (typeof value !== 'string' && typeof value !== 'number') return false;
+  try {
+    return parseLamports(value) > 0n;
+  } catch (error) {
+    return false;
+  }
+}
+
+export function IsSolanaPublicKey(options?: ValidationOptions) {
+  return validator('isSolanaPublicKey', isSolanaPublicKey, '$property must be a base58-encoded Solana public key', options);
+}
+
+export function IsSolanaSignature(options?: ValidationOptions) {
+  return validator('isSolanaSignature', isSolanaSignature, '$property must be a base58-encoded transaction signature', options);
+}
+
+export function IsLamportAmount(options?: ValidationOptions) {
+  return validator(
+    'isLamportAmount',
+    isLamportAmount,
+    '$property must be a positive whole number of lamports, sent as a string above 2^53',
+    options,
+  );
+}
+
+function validator(name: string, validate: (value: unknown) => boolean, message: string, options?: ValidationOptions) {
+  return (object: object, propertyName: string) =>
+    registerDecorator({
+      name,
+      target: object.constructor,
+      propertyName,
+      options: { message, ...options },
+      validator: { validate },
+    });
+}
@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common';
+import { Connection, ParsedInstruction, PartiallyDecodedInstruction, PublicKey, SystemProgram } from '@solana/web3.js';
+import { Commitment, ObservedTransaction, ObservedTransfer, SignedTransaction, SolanaRpc } from './solana-rpc';
+
+@Injectable()
+export class Web3SolanaRpc implements SolanaRpc {
+  private readonly connection = new Connection(process.env.SOLANA_RPC_URL, 'confirmed');
+
+  async getTransaction(signature: string, commitment: Exclude<Commitment, 'processed'>): Promise<ObservedTransaction | null> {
+    const tx = await this.connection.getParsedTransaction(signature, { commitment, maxSupportedTransactionVersion: 0 });
+    if (!tx) return null;
+
+    const { value: status } = await this.connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+    const { instructions } = tx.transaction.message;
+    const transfers = [
+      ...systemTransfers(instructions, SystemProgram.programId.toBase58()),
+      // Transfers made by other programs through the system program, such as the Rumble program's deposit.
+      ...(tx.meta?.innerInstructions ?? []).flatMap(inner =>
+        systemTransfers(inner.instructions, instructions[inner.index].programId.toBase58()),
+      ),
+    ];
+
+    return {
+      signature,
+      slot: tx.slot,
+      confirmationStatus: status?.confirmationStatus ?? commitment,
+      err: tx.meta?.err ?? null,
+      blockTime: tx.blockTime ? new Date(tx.blockTime * 1000) : null,
+      transfers,
+      memos: instructions
+        .filter((ix): ix is ParsedInstruction => 'parsed' in ix && ix.program === 'spl-memo')
+        .map(ix => String(ix.parsed)),
+    };
+  }
+
+  async getBlockHeight(): Promise<number> {
+    return this.connection.getBlockHeight('confirmed');
+  }
+
+  async getLatestBlockhash(): Promise<{ blockhash: string; lastValidBlockHeight: number }> {
+    return this.connection.getLatestBlockhash('confirmed');
+  }
+
+  // Retries are the caller's job: resending the same signed transaction is safe, it can only land once.
+  async sendTransaction(transaction: SignedTransaction): Promise<string> {
+    return this.connection.sendRawTransaction(transaction.serialized, { maxRetries: 0 });
+  }
+
+  async getBalance(address: string): Promise<bigint> {
+    return BigInt(await this.connection.getBalance(new PublicKey(address), 'confirmed'));
+  }
+}
+
+function systemTransfers(instructions: (ParsedInstruction | PartiallyDecodedInstruction)[], program: string): ObservedTransfer[] {
+  return instructions
+    .filter((ix): ix is ParsedInstruction => 'parsed' in ix && ix.program === 'system' && ix.parsed.type === 'transfer')
+    .map(ix => ({
+      source: ix.parsed.info.source,
+      destination: ix.parsed.info.destination,
+      lamports: BigInt(ix.parsed.info.lamports),
+      program,
+    }));
+}
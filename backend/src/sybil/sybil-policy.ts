@@ -0,0 +1,58 @@
+import { WalletCluster } from '../database/entities/wallet-cluster.entity';
+import { RankedPlayer, WinnerSlot } from '../scoring/ranking';
+import { BPS_DENOMINATOR, assertBps } from '../prize/prize-split';
+
+// Per-game caps on what one wallet cluster can win. Null or missing means no cap.
+export interface SybilLimits {
+  maxWinnerSlotsPerCluster?: number | null;
+  // Share of the winners' pool, in basis points.
+  maxPoolShareBps?: number | null;
+}
+
+function clusterIndex(clusters: WalletCluster[]): Map<string, number> {
+  const index = new Map<string, number>();
+  clusters.forEach((cluster, i) => cluster.wallets.forEach(wallet => index.set(wallet, i)));
+  return index;
+}
+
+// Drops every ranked player whose cluster already has `maxSlots` players ahead of them, so the next
+// unrelated player moves up into the winner slots. Ranks are left as they were.
+export function capClusterSlots(ranking: RankedPlayer[], clusters: WalletCluster[], maxSlots?: number | null): RankedPlayer[] {
+  if (maxSlots == null || clusters.length === 0) return ranking;
+  if (!Number.isInteger(maxSlots) || maxSlots < 1) throw new Error('maxWinnerSlotsPerCluster must be a positive integer.');
+
+  const clusterOf = clusterIndex(clusters);
+  const taken = new Map<number, number>();
+  return ranking.filter(({ player }) => {
+    const cluster = clusterOf.get(player.key);
+    if (cluster === undefined) return true;
+    taken.set(cluster, (taken.get(cluster) ?? 0) + 1);
+    return taken.get(cluster) <= maxSlots;
+  });
+}
+
+// Scales down the prizes of any cluster that would take more than `maxShareBps` of the winners' pool. What
+// is cut is not handed to other winners; it ends up in the settlement remainder.
+export function capClusterPrizes(
+  slots: WinnerSlot[],
+  prizes: bigint[],
+  clusters: WalletCluster[],
+  prizeForWinners: bigint,
+  maxShareBps?: number | null,
+): bigint[] {
+  if (maxShareBps == null || clusters.length === 0) return prizes;
+  assertBps(maxShareBps, 'Cluster pool share');
+
+  const cap = (prizeForWinners * BigInt(maxShareBps)) / BPS_DENOMINATOR;
+  const clusterOf = clusterIndex(clusters);
+  const totals = new Map<number, bigint>();
+  slots.forEach((slot, i) => {
+    const cluster = clusterOf.get(slot.player.key);
+    if (cluster !== undefined) totals.set(cluster, (totals.get(cluster) ?? 0n) + prizes[i]);
+  });
+
+  return slots.map((slot, i) => {
+    const total = totals.get(clusterOf.get(slot.player.key));
+    return total !== undefined && total > cap ? (prizes[i] * cap) / total : prizes[i];
+  });
+}
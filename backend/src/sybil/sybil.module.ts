@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WalletCluster } from '../database/entities/wallet-cluster.entity';
+import { Deposit } from '../database/entities/deposit.entity';
+import { AnomalyModule } from '../anomaly/anomaly.module';
+import { SybilService } from './sybil.service';
+import { SolanaWalletHistorySource, WALLET_HISTORY_SOURCE } from './wallet-history.source';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([WalletCluster, Deposit]), AnomalyModule],
+  providers: [SybilService, { provide: WALLET_HISTORY_SOURCE, useClass: SolanaWalletHistorySource }],
+  exports: [SybilService],
+})
+export class SybilModule {}
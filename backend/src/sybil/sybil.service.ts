@@ -0,0 +1,44 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { GameState } from '../database/entities/game-state.entity';
+import { Player } from '../database/entities/player.entity';
+import { Deposit } from '../database/entities/deposit.entity';
+import { WalletCluster } from '../database/entities/wallet-cluster.entity';
+import { clusterWallets } from './wallet-clustering';
+import { WALLET_HISTORY_SOURCE, WalletHistorySource } from './wallet-history.source';
+
+@Injectable()
+export class SybilService {
+  private readonly logger = new Logger(SybilService.name);
+
+  constructor(
+    @InjectRepository(WalletCluster)
+    private clusterRepository: Repository<WalletCluster>,
+    @InjectRepository(Deposit)
+    private depositRepository: Repository<Deposit>,
+    @Inject(WALLET_HISTORY_SOURCE)
+    private historySource: WalletHistorySource,
+  ) {}
+
+  // Re-clusters the round's players and replaces the round's clusters with the result.
+  async cluster(game: GameState, players: Player[]): Promise<WalletCluster[]> {
+    const wallets = players.map(p => p.key);
+    const from = new Date(game.openedAt ?? game.createdAt);
+    const history = await this.historySource.getHistory(wallets, from, new Date());
+    const deposits = await this.depositRepository.find({ where: { game: game.gameId, round: game.round } });
+
+    const clusters = clusterWallets(wallets, history, deposits);
+    await this.clusterRepository.delete({ game: game.gameId, round: game.round });
+    if (clusters.length > 0) {
+      this.logger.warn(`Found ${clusters.length} wallet clusters in game ${game.gameId}`);
+    }
+    return this.clusterRepository.save(
+      clusters.map(cluster => this.clusterRepository.create({ ...cluster, game: game.gameId, round: game.round })),
+    );
+  }
+
+  async clustersFor(game: GameState): Promise<WalletCluster[]> {
+    return this.clusterRepository.find({ where: { game: game.gameId, round: game.round } });
+  }
+}
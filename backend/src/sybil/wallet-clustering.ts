@@ -0,0 +1,131 @@
+import { Deposit } from '../database/entities/deposit.entity';
+import { WalletHistory } from './wallet-history.source';
+
+export enum ClusterLinkReason {
+  SharedFunder = 'sharedFunder',
+  DirectTransfer = 'directTransfer',
+  DirectTrade = 'directTrade',
+  // Weak evidence: only recorded between wallets that another link already joins.
+  SynchronizedDeposit = 'synchronizedDeposit',
+}
+
+export interface ClusterLink {
+  wallets: [string, string];
+  reason: ClusterLinkReason;
+  evidence: Record<string, unknown>;
+}
+
+export interface ClusteringOptions {
+  // Funders that fund unrelated wallets all the time, such as exchange hot wallets.
+  ignoredFunders: string[];
+  // Deposits of the same amount from two wallets this close together corroborate a link between them.
+  depositSyncWindowMs: number;
+}
+
+export const DEFAULT_CLUSTERING_OPTIONS: ClusteringOptions = {
+  ignoredFunders: (process.env.SYBIL_IGNORED_FUNDERS ?? '').split(',').filter(Boolean),
+  depositSyncWindowMs: 2_000,
+};
+
+export interface ClusteredWallets {
+  wallets: string[];
+  links: ClusterLink[];
+}
+
+// Groups the given wallets into clusters that are likely controlled by one person. A shared funder, transfer
+// or trade between two wallets puts them in the same cluster, transitively. Deposits that merely coincide
+// happen between strangers in any busy round, so they never join wallets on their own and are only added
+// to a cluster's evidence. Only clusters of two or more wallets are returned.
+export function clusterWallets(
+  wallets: string[],
+  history: WalletHistory,
+  deposits: Deposit[],
+  options: ClusteringOptions = DEFAULT_CLUSTERING_OPTIONS,
+): ClusteredWallets[] {
+  const members = new Set(wallets);
+  const links = [...sharedFunderLinks(members, history, options), ...directLinks(members, history)];
+
+  const parent = new Map(wallets.map(w => [w, w]));
+  const root = (wallet: string): string => {
+    while (parent.get(wallet) !== wallet) {
+      parent.set(wallet, parent.get(parent.get(wallet)));
+      wallet = parent.get(wallet);
+    }
+    return wallet;
+  };
+  for (const { wallets: [a, b] } of links) {
+    parent.set(root(a), root(b));
+  }
+  links.push(...synchronizedDepositLinks(members, deposits, options).filter(({ wallets: [a, b] }) => root(a) === root(b)));
+
+  const clusters = new Map<string, ClusteredWallets>();
+  for (const wallet of wallets) {
+    const key = root(wallet);
+    if (!clusters.has(key)) clusters.set(key, { wallets: [], links: [] });
+    clusters.get(key).wallets.push(wallet);
+  }
+  for (const link of links) {
+    clusters.get(root(link.wallets[0])).links.push(link);
+  }
+
+  return [...clusters.values()].filter(c => c.wallets.length > 1).map(c => ({ ...c, wallets: c.wallets.sort() }));
+}
+
+function sharedFunderLinks(members: Set<string>, history: WalletHistory, options: ClusteringOptions): ClusterLink[] {
+  const byFunder = new Map<string, string[]>();
+  for (const [wallet, funding] of history.fundedBy) {
+    if (!members.has(wallet) || options.ignoredFunders.includes(funding.from)) continue;
+    byFunder.set(funding.from, [...(byFunder.get(funding.from) ?? []), wallet]);
+  }
+
+  const links: ClusterLink[] = [];
+  for (const [funder, funded] of byFunder) {
+    for (const wallet of funded.slice(1)) {
+      links.push({
+        wallets: [funded[0], wallet],
+        reason: ClusterLinkReason.SharedFunder,
+        evidence: { funder, signatures: [history.fundedBy.get(funded[0]).signature, history.fundedBy.get(wallet).signature] },
+      });
+    }
+  }
+  return links;
+}
+
+function directLinks(members: Set<string>, history: WalletHistory): ClusterLink[] {
+  const transfers = history.transfers
+    .filter(t => t.from !== t.to && members.has(t.from) && members.has(t.to))
+    .map(t => ({
+      wallets: [t.from, t.to] as [string, string],
+      reason: ClusterLinkReason.DirectTransfer,
+      evidence: { signature: t.signature, lamports: t.lamports.toString() },
+    }));
+  const trades = history.trades
+    .filter(t => t.counterparty && t.counterparty !== t.wallet && members.has(t.counterparty) && members.has(t.wallet))
+    .map(t => ({
+      wallets: [t.wallet, t.counterparty] as [string, string],
+      reason: ClusterLinkReason.DirectTrade,
+      evidence: { signature: t.signature, amount: t.amount },
+    }));
+  return [...transfers, ...trades];
+}
+
+function synchronizedDepositLinks(members: Set<string>, deposits: Deposit[], options: ClusteringOptions): ClusterLink[] {
+  const sorted = deposits
+    .filter(d => members.has(d.playerKey))
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  const links: ClusterLink[] = [];
+  for (const [index, deposit] of sorted.entries()) {
+    const time = new Date(deposit.createdAt).getTime();
+    for (const other of sorted.slice(index + 1)) {
+      if (new Date(other.createdAt).getTime() - time > options.depositSyncWindowMs) break;
+      if (other.playerKey === deposit.playerKey || other.amount !== deposit.amount) continue;
+      links.push({
+        wallets: [deposit.playerKey, other.playerKey],
+        reason: ClusterLinkReason.SynchronizedDeposit,
+        evidence: { signatures: [deposit.signature, other.signature], amount: deposit.amount.toString() },
+      });
+    }
+  }
+  return links;
+}
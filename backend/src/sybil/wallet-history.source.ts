@@ -0,0 +1,112 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Connection, ParsedInstruction, PublicKey } from '@solana/web3.js';
+import { TRADE_ACTIVITY_PROVIDER, Trade, TradeActivityProvider } from '../anomaly/trade-activity.provider';
+
+export const WALLET_HISTORY_SOURCE = Symbol('WALLET_HISTORY_SOURCE');
+
+export interface WalletTransfer {
+  signature: string;
+  from: string;
+  to: string;
+  lamports: bigint;
+  timestamp: Date;
+}
+
+export interface WalletHistory {
+  // The first transfer that funded each wallet, where known.
+  fundedBy: Map<string, WalletTransfer>;
+  // Transfers sent or received by the wallets during the window.
+  transfers: WalletTransfer[];
+  trades: Trade[];
+}
+
+// Where clustering gets its history from. Implementations may read chain data directly or serve records
+// ingested by an indexer; the clustering only relies on this shape.
+export interface WalletHistorySource {
+  getHistory(wallets: string[], from: Date, to: Date): Promise<WalletHistory>;
+}
+
+// A wallet with more history than this is not read back to its first transaction.
+const MAX_SIGNATURE_PAGES = Number(process.env.SYBIL_HISTORY_MAX_PAGES ?? 10);
+// Wallets whose history is read at the same time.
+const CONCURRENCY = Number(process.env.SYBIL_HISTORY_CONCURRENCY ?? 4);
+const PAGE_SIZE = 1000;
+
+@Injectable()
+export class SolanaWalletHistorySource implements WalletHistorySource {
+  private readonly connection = new Connection(process.env.SOLANA_RPC_URL, 'confirmed');
+
+  constructor(@Inject(TRADE_ACTIVITY_PROVIDER) private readonly tradeActivity: TradeActivityProvider) {}
+
+  async getHistory(wallets: string[], from: Date, to: Date): Promise<WalletHistory> {
+    const fundedBy = new Map<string, WalletTransfer>();
+    const transfers: WalletTransfer[] = [];
+
+    const histories = await mapWithConcurrency(wallets, CONCURRENCY, wallet => this.walletHistory(wallet, from, to));
+    histories.forEach((history, i) => {
+      if (history.funding) fundedBy.set(wallets[i], history.funding);
+      transfers.push(...history.transfers);
+    });
+
+    return { fundedBy, transfers, trades: await this.tradeActivity.getTrades(wallets, from, to) };
+  }
+
+  private async walletHistory(wallet: string, from: Date, to: Date) {
+    const { signatures, complete } = await this.signatures(new PublicKey(wallet));
+    // Only the wallet's very first transaction says who funded it, so funding is left unknown when the page
+    // limit was hit before reaching it.
+    const first = signatures[signatures.length - 1];
+    const funding = complete && first ? (await this.transfersIn(first.signature)).find(t => t.to === wallet) : undefined;
+
+    const transfers: WalletTransfer[] = [];
+    for (const { signature, blockTime, err } of signatures) {
+      if (err || !blockTime) continue;
+      const timestamp = new Date(blockTime * 1000);
+      if (timestamp < from) break;
+      if (timestamp > to) continue;
+      transfers.push(...(await this.transfersIn(signature)).filter(t => t.from === wallet || t.to === wallet));
+    }
+    return { funding, transfers };
+  }
+
+  // Newest first, as the RPC returns them, stopping after MAX_SIGNATURE_PAGES pages. `complete` says the
+  // wallet's first transaction was reached.
+  private async signatures(address: PublicKey) {
+    const signatures = [];
+    let before: string | undefined;
+    for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+      const batch = await this.connection.getSignaturesForAddress(address, { before, limit: PAGE_SIZE });
+      signatures.push(...batch);
+      if (batch.length < PAGE_SIZE) return { signatures, complete: true };
+      before = batch[batch.length - 1].signature;
+    }
+    return { signatures, complete: false };
+  }
+
+  private async transfersIn(signature: string): Promise<WalletTransfer[]> {
+    const tx = await this.connection.getParsedTransaction(signature, { maxSupportedTransactionVersion: 0 });
+    if (!tx || tx.meta?.err) return [];
+    return tx.transaction.message.instructions
+      .filter((ix): ix is ParsedInstruction => 'parsed' in ix && ix.program === 'system' && ix.parsed.type === 'transfer')
+      .map(ix => ({
+        signature,
+        from: ix.parsed.info.source,
+        to: ix.parsed.info.destination,
+        lamports: BigInt(ix.parsed.info.lamports),
+        timestamp: new Date((tx.blockTime ?? 0) * 1000),
+      }));
+  }
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, work: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await work(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,65 @@
+import { AiScoringClient } from '../src/ai/ai-scoring.client';
+
+describe('AiScoringClient', () => {
+  let fetchMock: jest.SpyInstance;
+
+  const respond = (status: number, body: unknown = {}) =>
+    Promise.resolve({ ok: status >= 200 && status < 300, status, json: async () => body } as Response);
+
+  const client = (options = {}) =>
+    new AiScoringClient({
+      baseUrl: 'http://ai',
+      timeoutMs: 1000,
+      maxAttempts: 3,
+      retryDelayMs: 0,
+      batchSize: 2,
+      failureThreshold: 5,
+      resetAfterMs: 30_000,
+      ...options,
+    });
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should score large games in batches and report players the service left out', async () => {
+    fetchMock
+      .mockImplementationOnce(() => respond(200, { scores: [{ playerKey: 'a', score: 10 }, { playerKey: 'b', score: 20 }] }))
+      .mockImplementationOnce(() => respond(200, { scores: [{ playerKey: 'c', score: 30 }] }));
+
+    const result = await client().computeTradingScores(['a', 'b', 'c', 'd']);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({ playerKeys: ['c', 'd'], detectAnomalies: false });
+    expect(result.scores).toEqual(new Map([['a', 10], ['b', 20], ['c', 30]]));
+    expect(result.missing).toEqual(['d']);
+  });
+
+  it('should retry server errors but not rejected requests', async () => {
+    fetchMock
+      .mockImplementationOnce(() => respond(503))
+      .mockImplementationOnce(() => respond(200, { scores: [{ playerKey: 'a', score: 10 }] }))
+      .mockImplementationOnce(() => respond(400));
+
+    const result = await client({ batchSize: 1 }).computeTradingScores(['a', 'b']);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(result.scores).toEqual(new Map([['a', 10]]));
+    expect(result.missing).toEqual(['b']);
+    expect(result.errors).toEqual(['Scoring service answered 400.']);
+  });
+
+  it('should stop calling the service once the circuit opens', async () => {
+    fetchMock.mockImplementation(() => Promise.reject(new Error('ECONNREFUSED')));
+
+    const result = await client({ batchSize: 1, failureThreshold: 2 }).computeTradingScores(['a', 'b', 'c']);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.missing).toEqual(['a', 'b', 'c']);
+    expect(result.errors[1]).toMatch(/^Circuit open until/);
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  AnomalyContext,
+  AnomalySeverity,
+  DepositBurstRule,
+  SelfTradeRule,
+  VolumeSpikeRule,
+  WashTradingRule,
+} from '../src/anomaly/anomaly-rules';
+import { Trade, TradeSide } from '../src/anomaly/trade-activity.provider';
+
+describe('anomaly rules', () => {
+  const at = (seconds: number) => new Date(Date.UTC(2024, 0, 1, 0, 0, seconds));
+  let signatures = 0;
+  const trade = (wallet: string, side: TradeSide, amount: number, seconds: number, counterparty: string | null = null): Trade => ({
+    signature: `sig${++signatures}`,
+    wallet,
+    counterparty,
+    side,
+    amount,
+    timestamp: at(seconds),
+  });
+  const context = (overrides: Partial<AnomalyContext>): AnomalyContext => ({
+    game: { gameId: 'game123', round: 1, closesAt: at(600) } as any,
+    players: ['alice', 'bob', 'carol'].map(key => ({ key }) as any),
+    trades: [],
+    deposits: [],
+    ...overrides,
+  });
+
+  it('should flag volume far above the median player', () => {
+    const findings = new VolumeSpikeRule().evaluate(
+      context({
+        trades: [
+          trade('alice', TradeSide.Buy, 150_000, 10),
+          trade('bob', TradeSide.Buy, 1_000, 10),
+          trade('carol', TradeSide.Buy, 2_000, 10),
+        ],
+      }),
+    );
+
+    expect(findings).toEqual([
+      expect.objectContaining({
+        playerKey: 'alice',
+        severity: AnomalySeverity.Critical,
+        evidence: { volume: 150_000, median: 2_000, multiplier: 10 },
+      }),
+    ]);
+  });
+
+  it('should flag tokens passed back and forth with one counterparty', () => {
+    const findings = new WashTradingRule().evaluate(
+      context({
+        trades: [
+          trade('alice', TradeSide.Sell, 500, 10, 'bob'),
+          trade('alice', TradeSide.Buy, 500, 20, 'bob'),
+          trade('alice', TradeSide.Sell, 500, 30, 'bob'),
+          trade('alice', TradeSide.Buy, 500, 40, 'bob'),
+          trade('carol', TradeSide.Buy, 500, 40, 'pool'),
+        ],
+      }),
+    );
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      playerKey: 'alice',
+      evidence: { counterparty: 'bob', counterpartyIsPlayer: true, roundTrips: 2 },
+    });
+  });
+
+  it('should flag repeated buys and sells of the same amount', () => {
+    const churn = [0, 100, 200].flatMap(start => [
+      trade('bob', TradeSide.Buy, 1_000, start),
+      trade('bob', TradeSide.Sell, 1_005, start + 30),
+    ]);
+
+    const findings = new SelfTradeRule().evaluate(context({ trades: churn }));
+
+    expect(findings.map(f => [f.playerKey, (f.evidence.pairs as unknown[]).length])).toEqual([['bob', 3]]);
+  });
+
+  it('should warn about a burst of deposits right before close', () => {
+    const deposit = (playerKey: string, seconds: number) => ({ playerKey, signature: `dep${seconds}`, createdAt: at(seconds) }) as any;
+
+    const findings = new DepositBurstRule().evaluate(
+      context({ deposits: [deposit('carol', 100), deposit('carol', 550), deposit('carol', 570), deposit('carol', 590)] }),
+    );
+
+    expect(findings).toEqual([
+      expect.objectContaining({
+        playerKey: 'carol',
+        severity: AnomalySeverity.Warning,
+        evidence: { signatures: ['dep550', 'dep570', 'dep590'], windowMs: 60_000 },
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { Reflector } from '@nestjs/core';
+import { Keypair } from '@solana/web3.js';
+import * as nacl from 'tweetnacl';
+import * as bs58 from 'bs58';
+import { AuthService } from '../src/auth/auth.service';
+import { WsAuthGuard } from '../src/auth/ws-auth.guard';
+import { Role } from '../src/auth/roles';
+
+describe('AuthService', () => {
+  const admin = Keypair.generate();
+  const player = Keypair.generate();
+  let service: AuthService;
+
+  const sign = (keypair: Keypair, message: string) =>
+    bs58.encode(nacl.sign.detached(new TextEncoder().encode(message), keypair.secretKey));
+
+  beforeEach(() => {
+    process.env.ADMIN_PUBLIC_KEYS = admin.publicKey.toBase58();
+    service = new AuthService();
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_PUBLIC_KEYS;
+  });
+
+  it('should bind a session to the wallet that signed the challenge', () => {
+    const challenge = service.issueChallenge();
+
+    const session = service.verifyLogin(challenge, player.publicKey.toBase58(), sign(player, challenge.message));
+
+    expect(session.publicKey).toBe(player.publicKey.toBase58());
+    expect(session.roles).toEqual([Role.Player]);
+  });
+
+  it('should grant the admin role to allowlisted keys', () => {
+    const challenge = service.issueChallenge();
+
+    const session = service.verifyLogin(challenge, admin.publicKey.toBase58(), sign(admin, challenge.message));
+
+    expect(session.roles).toEqual([Role.Player, Role.Admin]);
+  });
+
+  it('should reject a signature from a different wallet', () => {
+    const challenge = service.issueChallenge();
+
+    expect(() => service.verifyLogin(challenge, admin.publicKey.toBase58(), sign(player, challenge.message))).toThrow(
+      'Signature does not match the login challenge.',
+    );
+  });
+
+  it('should reject expired or missing challenges', () => {
+    const challenge = { ...service.issueChallenge(), expiresAt: new Date(Date.now() - 1) };
+
+    expect(() => service.verifyLogin(challenge, player.publicKey.toBase58(), sign(player, challenge.message))).toThrow(
+      'Login challenge is missing or has expired.',
+    );
+    expect(() => service.verifyLogin(undefined, player.publicKey.toBase58(), 'x')).toThrow();
+  });
+});
+
+describe('WsAuthGuard', () => {
+  const context = (metadata: { isPublic?: boolean; roles?: Role[] }, session?: object) => {
+    const reflector = { getAllAndOverride: jest.fn((key: string) => (key === 'isPublic' ? metadata.isPublic : metadata.roles)) };
+    const guard = new WsAuthGuard(reflector as unknown as Reflector);
+    const executionContext = {
+      getHandler: () => null,
+      getClass: () => null,
+      switchToWs: () => ({ getClient: () => ({ data: { session } }) }),
+    } as any;
+    return () => guard.canActivate(executionContext);
+  };
+
+  it('should let public handlers through', () => {
+    expect(context({ isPublic: true })()).toBe(true);
+  });
+
+  it('should require an authenticated wallet', () => {
+    expect(context({})).toThrow('Authentication required.');
+    expect(context({}, { publicKey: 'player1', roles: [Role.Player] })()).toBe(true);
+  });
+
+  it('should require the admin role for admin handlers', () => {
+    expect(context({ roles: [Role.Admin] }, { publicKey: 'player1', roles: [Role.Player] })).toThrow('Requires role: admin.');
+    expect(context({ roles: [Role.Admin] }, { publicKey: 'admin', roles: [Role.Player, Role.Admin] })()).toBe(true);
+  });
+});
@@ -0,0 +1,159 @@
+import { BuybackService } from '../src/buyback/buyback.service';
+import { InMemorySwapAdapter, InMemoryTokenBurner } from '../src/buyback/in-memory-swap';
+import { Buyback, BuybackStatus } from '../src/database/entities/buyback.entity';
+import { Settlement } from '../src/database/entities/settlement.entity';
+
+describe('BuybackService', () => {
+  let rows: Buyback[];
+  let swapAdapter: InMemorySwapAdapter;
+  let burner: InMemoryTokenBurner;
+  let service: BuybackService;
+
+  const settlement = (id: number) => ({ id, game: 'game123', round: id }) as Settlement;
+
+  const buybackRepository = () =>
+    ({
+      create: (buyback: Partial<Buyback>) => ({ ...buyback }) as Buyback,
+      save: jest.fn(async (buyback: Buyback) => {
+        if (!buyback.id) rows.push(Object.assign(buyback, { id: rows.length + 1 }));
+        return buyback;
+      }),
+      findOne: jest.fn(async ({ where }) => rows.find(b => b.settlementId === where.settlementId) ?? null),
+      find: jest.fn(async () =>
+        rows.filter(
+          b =>
+            [BuybackStatus.Pending, BuybackStatus.Submitted, BuybackStatus.Swapped].includes(b.status) ||
+            (b.status === BuybackStatus.Failed && b.attempts < 5),
+        ),
+      ),
+    }) as any;
+
+  beforeEach(() => {
+    rows = [];
+    // 1000 SOL against 1,000,000 RUMBLE of 6 decimals: 0.001 SOL per token.
+    swapAdapter = new InMemorySwapAdapter(1_000_000_000_000n, 1_000_000_000_000n);
+    burner = new InMemoryTokenBurner();
+    service = new BuybackService(buybackRepository(), swapAdapter, burner, {
+      maxSlippageBps: 100,
+      maxPriceImpactBps: 300,
+      maxAttempts: 5,
+      tokenDecimals: 6,
+    });
+  });
+
+  it('should buy back with the settlement share, burn what it bought and record it', async () => {
+    const buyback = await service.execute(settlement(1), 1_000_000_000n);
+
+    expect(buyback).toMatchObject({
+      game: 'game123',
+      round: 1,
+      status: BuybackStatus.Burned,
+      venue: 'in-memory',
+      amountIn: 1_000_000_000n,
+      tokensBought: 999_000_999n,
+      tokensBurned: 999_000_999n,
+      priceImpactBps: 9,
+      swapSignature: 'swap-signature-1',
+      burnSignature: 'burn-signature-1',
+    });
+    expect(buyback.price).toBeCloseTo(0.001001, 6);
+    expect(burner.burned).toEqual([999_000_999n]);
+  });
+
+  it('should record a settlement only once', async () => {
+    await service.execute(settlement(1), 1_000_000_000n);
+    await service.execute(settlement(1), 1_000_000_000n);
+
+    expect(rows).toHaveLength(1);
+    expect(burner.burned).toHaveLength(1);
+  });
+
+  it('should record settlements with nothing to buy back without swapping', async () => {
+    const buyback = await service.execute(settlement(1), 0n);
+
+    expect(buyback.status).toBe(BuybackStatus.Skipped);
+    expect(burner.burned).toHaveLength(0);
+  });
+
+  it('should not swap when the price impact is over the limit', async () => {
+    const buyback = await service.execute(settlement(1), 50_000_000_000n);
+
+    expect(buyback).toMatchObject({ status: BuybackStatus.Failed, priceImpactBps: 476, swapSignature: undefined });
+    expect(buyback.error).toMatch('exceeds the 300 bps limit');
+    expect(swapAdapter.solReserve).toBe(1_000_000_000_000n);
+  });
+
+  it('should reject quotes that allow more slippage than configured', async () => {
+    jest.spyOn(swapAdapter, 'quote').mockResolvedValue({
+      amountIn: 1_000_000_000n,
+      expectedAmountOut: 1_000_000n,
+      minimumAmountOut: 900_000n,
+      priceImpactBps: 0,
+      route: null,
+    });
+
+    const buyback = await service.execute(settlement(1), 1_000_000_000n);
+
+    expect(buyback.status).toBe(BuybackStatus.Failed);
+    expect(buyback.error).toMatch('below the 100 bps slippage floor of 990000');
+  });
+
+  it('should only burn on retry when the swap already went through', async () => {
+    burner.failWith = new Error('RPC unavailable');
+    const buyback = await service.execute(settlement(1), 1_000_000_000n);
+    expect(buyback).toMatchObject({ status: BuybackStatus.Failed, swapSignature: 'swap-signature-1', error: 'RPC unavailable' });
+
+    burner.failWith = null;
+    await service.retryUnfinished();
+
+    expect(rows[0]).toMatchObject({ status: BuybackStatus.Burned, attempts: 2, swapSignature: 'swap-signature-1' });
+    expect(burner.burned).toEqual([999_000_999n]);
+  });
+
+  it('should not swap again when the swap landed but recording it did not', async () => {
+    const send = swapAdapter.send.bind(swapAdapter);
+    jest.spyOn(swapAdapter, 'send').mockImplementationOnce(async transaction => {
+      await send(transaction);
+      throw new Error('socket hang up');
+    });
+    const buyback = await service.execute(settlement(1), 1_000_000_000n);
+    expect(buyback).toMatchObject({ status: BuybackStatus.Failed, swapSignature: 'swap-signature-1', error: 'socket hang up' });
+
+    await service.retryUnfinished();
+
+    expect(rows[0]).toMatchObject({ status: BuybackStatus.Burned, tokensBought: 999_000_999n, swapSignature: 'swap-signature-1' });
+    expect(swapAdapter.sent).toHaveLength(1);
+    expect(swapAdapter.solReserve).toBe(1_001_000_000_000n);
+  });
+
+  it('should not burn again when the burn landed but recording it did not', async () => {
+    const send = burner.send.bind(burner);
+    jest.spyOn(burner, 'send').mockImplementationOnce(async transaction => {
+      await send(transaction);
+      throw new Error('socket hang up');
+    });
+    const buyback = await service.execute(settlement(1), 1_000_000_000n);
+    expect(buyback).toMatchObject({ status: BuybackStatus.Failed, burnSignature: 'burn-signature-1', error: 'socket hang up' });
+
+    await service.retryUnfinished();
+
+    expect(rows[0]).toMatchObject({ status: BuybackStatus.Burned, tokensBurned: 999_000_999n, burnSignature: 'burn-signature-1' });
+    expect(burner.burned).toEqual([999_000_999n]);
+  });
+
+  it('should not wrap again when only the swap after the wrap failed', async () => {
+    swapAdapter.wrapsSeparately = true;
+    const send = swapAdapter.send.bind(swapAdapter);
+    jest
+      .spyOn(swapAdapter, 'send')
+      .mockImplementationOnce(send)
+      .mockImplementationOnce(async () => ({ status: 'failed', error: 'Blockhash expired.' }));
+    await service.execute(settlement(1), 1_000_000_000n);
+    expect(rows[0]).toMatchObject({ status: BuybackStatus.Failed, wrapSignature: 'wrap-signature-1', swapSignature: 'swap-signature-2' });
+
+    await service.retryUnfinished();
+
+    expect(rows[0]).toMatchObject({ status: BuybackStatus.Burned, wrapSignature: 'wrap-signature-1', swapSignature: 'swap-signature-3' });
+    expect(swapAdapter.sent.map(t => t.kind)).toEqual(['wrap', 'swap']);
+  });
+});
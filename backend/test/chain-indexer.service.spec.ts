@@ -0,0 +1,114 @@
+import { ChainIndexerService } from '../src/chain/chain-indexer.service';
+import { InMemoryProgramLogSource } from '../src/chain/in-memory-program-log-source';
+import { ChainEvent } from '../src/database/entities/chain-event.entity';
+import { IndexerCheckpoint } from '../src/database/entities/indexer-checkpoint.entity';
+
+describe('ChainIndexerService', () => {
+  let events: ChainEvent[];
+  let checkpoints: Map<string, IndexerCheckpoint>;
+  let source: InMemoryProgramLogSource;
+
+  const game = { gameId: 'game123', round: 2, programAccount: 'game-state-1' };
+
+  const chainEventRepository = {
+    create: (event: Partial<ChainEvent>) => ({ ...event }) as ChainEvent,
+    save: jest.fn(async (event: ChainEvent) => {
+      events.push(Object.assign(event, { id: events.length + 1 }));
+      return event;
+    }),
+    findOne: jest.fn(async ({ where }) => events.find(e => e.signature === where.signature && e.index === where.index) ?? null),
+  } as any;
+  const checkpointRepository = {
+    create: (checkpoint: Partial<IndexerCheckpoint>) => ({ ...checkpoint }) as IndexerCheckpoint,
+    save: jest.fn(async (checkpoint: IndexerCheckpoint) => checkpoints.set(checkpoint.name, checkpoint)),
+    findOne: jest.fn(async ({ where }) => checkpoints.get(where.name) ?? null),
+  } as any;
+  const gameStateRepository = {
+    findOne: jest.fn(async ({ where }) => (where.programAccount === game.programAccount ? { ...game } : null)),
+  } as any;
+
+  const indexer = () => new ChainIndexerService(chainEventRepository, checkpointRepository, gameStateRepository, source);
+
+  const deposit = (signature: string, player: string, amount: bigint) =>
+    source.record({
+      signature,
+      gameAccount: game.programAccount,
+      events: [{ name: 'DepositEvent', data: { player, amount, timestamp: 1_700_000_000n } }],
+    });
+
+  beforeEach(() => {
+    events = [];
+    checkpoints = new Map();
+    source = new InMemoryProgramLogSource();
+  });
+
+  it('should index the existing history on its first run', async () => {
+    deposit('sig1', 'alice', 500n);
+    deposit('sig2', 'bob', 700n);
+
+    const result = await indexer().sync();
+
+    expect(result).toEqual({ transactions: 2, events: 2 });
+    expect(events).toEqual([
+      expect.objectContaining({ signature: 'sig1', index: 0, slot: 1, name: 'DepositEvent', game: 'game123', data: expect.objectContaining({ amount: '500' }) }),
+      expect.objectContaining({ signature: 'sig2', index: 0, slot: 2, game: 'game123' }),
+    ]);
+    expect(checkpoints.get('rumble-program')).toMatchObject({ signature: 'sig2', slot: 2 });
+  });
+
+  it('should store the events of every instruction after the checkpoint', async () => {
+    await indexer().sync();
+    deposit('sig1', 'alice', 500n);
+    source.record({
+      signature: 'sig2',
+      gameAccount: game.programAccount,
+      events: [
+        { name: 'TradingEvaluationEvent', data: { gameId: game.programAccount, timestamp: 1n } },
+        {
+          name: 'WinnersSelectedEvent',
+          data: { gameId: game.programAccount, winners: ['alice'], prizes: [450n], buybackAmount: 50n, timestamp: 1n },
+        },
+      ],
+    });
+
+    const result = await indexer().sync();
+
+    expect(result).toEqual({ transactions: 2, events: 3 });
+    expect(events).toEqual([
+      expect.objectContaining({ signature: 'sig1', index: 0, name: 'DepositEvent', game: 'game123' }),
+      expect.objectContaining({ signature: 'sig2', index: 0, name: 'TradingEvaluationEvent', game: 'game123' }),
+      expect.objectContaining({
+        signature: 'sig2',
+        index: 1,
+        name: 'WinnersSelectedEvent',
+        data: expect.objectContaining({ winners: ['alice'], prizes: ['450'], buybackAmount: '50' }),
+      }),
+    ]);
+  });
+
+  it('should resume after the checkpoint and skip failed transactions', async () => {
+    deposit('sig1', 'alice', 500n);
+    await indexer().sync();
+
+    source.record({ signature: 'sig2', gameAccount: game.programAccount, events: [] }, true);
+    deposit('sig3', 'carol', 300n);
+    const result = await indexer().sync();
+
+    expect(result).toEqual({ transactions: 2, events: 1 });
+    expect(events.map(e => e.signature)).toEqual(['sig1', 'sig3']);
+    expect(checkpoints.get('rumble-program').signature).toBe('sig3');
+  });
+
+  it('should backfill events missing from before the checkpoint without duplicating any', async () => {
+    deposit('sig1', 'alice', 500n);
+    deposit('sig2', 'bob', 700n);
+    await indexer().sync();
+    events.splice(0, 1);
+
+    const result = await indexer().backfill();
+
+    expect(result).toEqual({ transactions: 1, events: 1 });
+    expect(events.map(e => e.signature).sort()).toEqual(['sig1', 'sig2']);
+    expect(checkpoints.get('rumble-program').signature).toBe('sig2');
+  });
+});
@@ -0,0 +1,87 @@
+import { DepositVerifierService } from '../src/solana/deposit-verifier.service';
+import { InMemorySolanaRpc } from '../src/solana/in-memory-solana-rpc';
+
+describe('DepositVerifierService', () => {
+  let rpc: InMemorySolanaRpc;
+  let verifier: DepositVerifierService;
+
+  const claim = { signature: 'sig1', sender: 'player1', vault: 'vault1', amount: 5000n };
+
+  beforeEach(() => {
+    rpc = new InMemorySolanaRpc();
+    verifier = new DepositVerifierService(rpc);
+  });
+
+  it('should accept a finalized transfer of the claimed amount into the vault', async () => {
+    const tx = rpc.recordTransaction('sig1', [
+      { source: 'player1', destination: 'vault1', lamports: 3000n },
+      { source: 'player1', destination: 'vault1', lamports: 2000n },
+      { source: 'player1', destination: 'someoneElse', lamports: 9000n },
+    ]);
+
+    await expect(verifier.verify(claim)).resolves.toEqual({ ...claim, slot: tx.slot });
+  });
+
+  it('should reject a transaction that is not yet finalized', async () => {
+    rpc.recordTransaction('sig1', [{ source: 'player1', destination: 'vault1', lamports: 5000n }], 'confirmed');
+
+    await expect(verifier.verify(claim)).rejects.toThrow('was not found at finalized commitment');
+  });
+
+  it('should reject a failed transaction', async () => {
+    rpc.recordTransaction('sig1', [{ source: 'player1', destination: 'vault1', lamports: 5000n }], 'finalized', {
+      InstructionError: [0, 'Custom'],
+    });
+
+    await expect(verifier.verify(claim)).rejects.toThrow('failed on-chain');
+  });
+
+  it('should reject transfers from another wallet or to another account', async () => {
+    rpc.recordTransaction('sig1', [
+      { source: 'player2', destination: 'vault1', lamports: 5000n },
+      { source: 'player1', destination: 'otherVault', lamports: 5000n },
+    ]);
+
+    await expect(verifier.verify(claim)).rejects.toThrow('has no transfer from player1 to the game vault');
+  });
+
+  it('should only count transfers made by the program the claim names', async () => {
+    rpc.recordTransaction('sig1', [
+      { source: 'player1', destination: 'vault1', lamports: 5000n, program: 'system' },
+      { source: 'player1', destination: 'vault1', lamports: 5000n, program: 'rumble' },
+    ]);
+
+    await expect(verifier.verify({ ...claim, program: 'rumble' })).resolves.toMatchObject({ amount: 5000n });
+    await expect(verifier.verify({ ...claim, program: 'other' })).rejects.toThrow('has no transfer from player1');
+  });
+
+  it('should only accept a transfer made while the round was open', async () => {
+    const window = { from: new Date('2024-01-01T00:00:00.500Z'), to: new Date('2024-01-01T00:05:00Z') };
+    const transfer = { source: 'player1', destination: 'vault1', lamports: 5000n };
+    rpc.recordTransaction('early', [transfer], 'finalized', null, { blockTime: new Date('2023-12-31T23:59:59Z') });
+    rpc.recordTransaction('opening', [transfer], 'finalized', null, { blockTime: new Date('2024-01-01T00:00:00Z') });
+    rpc.recordTransaction('late', [transfer], 'finalized', null, { blockTime: new Date('2024-01-01T00:05:01Z') });
+
+    await expect(verifier.verify({ ...claim, signature: 'early', window })).rejects.toThrow('was not made while the round was open');
+    await expect(verifier.verify({ ...claim, signature: 'opening', window })).resolves.toMatchObject({ amount: 5000n });
+    await expect(verifier.verify({ ...claim, signature: 'late', window })).rejects.toThrow('was not made while the round was open');
+  });
+
+  it('should require the memo naming the round when the claim asks for one', async () => {
+    const transfer = { source: 'player1', destination: 'vault1', lamports: 5000n };
+    rpc.recordTransaction('bare', [transfer]);
+    rpc.recordTransaction('other', [transfer], 'finalized', null, { memos: ['rumble:game123:1'] });
+    rpc.recordTransaction('tagged', [transfer], 'finalized', null, { memos: ['rumble:game123:2'] });
+
+    const memo = 'rumble:game123:2';
+    await expect(verifier.verify({ ...claim, signature: 'bare', memo })).rejects.toThrow('does not carry the memo rumble:game123:2');
+    await expect(verifier.verify({ ...claim, signature: 'other', memo })).rejects.toThrow('does not carry the memo');
+    await expect(verifier.verify({ ...claim, signature: 'tagged', memo })).resolves.toMatchObject({ amount: 5000n });
+  });
+
+  it('should reject a claimed amount that differs from the transfer', async () => {
+    rpc.recordTransaction('sig1', [{ source: 'player1', destination: 'vault1', lamports: 4000n }]);
+
+    await expect(verifier.verify(claim)).rejects.toThrow('transferred 4000 lamports, not 5000');
+  });
+});
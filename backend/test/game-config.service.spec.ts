@@ -0,0 +1,104 @@
+import { GameConfigService } from '../src/game/game-config.service';
+import { DEFAULT_GAME_RULES, parseGameRules } from '../src/game/game-config';
+import { GameConfig } from '../src/database/entities/game-config.entity';
+import { RumbleError } from '../src/game/rumble.errors';
+import { TieBreaker } from '../src/scoring/ranking';
+import { AnomalyPolicy } from '../src/anomaly/anomaly-policy';
+import { DistributionStrategyName } from '../src/prize/distribution-strategies';
+
+describe('GameConfigService', () => {
+  let configs: GameConfig[];
+  let service: GameConfigService;
+
+  const configRepository = {
+    create: (config: Partial<GameConfig>) => ({ ...config }) as GameConfig,
+    save: jest.fn(async (config: GameConfig) => {
+      if (!configs.includes(config)) configs.push(Object.assign(config, { id: configs.length + 1 }));
+      return config;
+    }),
+    findOne: jest.fn(async ({ where }) => configs.find(c => c.game === where.game && c.round === where.round) ?? null),
+    find: jest.fn(async ({ where }) => configs.filter(c => where.some(w => c.game === w.game && c.round === w.round))),
+  } as any;
+
+  beforeEach(() => {
+    configs = [];
+    service = new GameConfigService(configRepository);
+  });
+
+  it("should start a new round from the previous round's rules", async () => {
+    await service.create('game123', 1, { maxPlayers: 20, minDeposit: 500n });
+
+    const next = await service.create('game123', 2, { winnerBps: 2_000 });
+
+    expect(next).toMatchObject({ game: 'game123', round: 2, maxPlayers: 20, minDeposit: 500n, winnerBps: 2_000, frozenAt: null });
+    expect(await service.forRound({ gameId: 'game123', round: 2 })).toEqual({
+      ...DEFAULT_GAME_RULES,
+      maxPlayers: 20,
+      minDeposit: 500n,
+      winnerBps: 2_000,
+    });
+  });
+
+  it('should play rounds without a config by the default rules', async () => {
+    await service.create('game123', 1, { maxDeposit: 10_000n });
+
+    const rules = await service.forRounds([
+      { gameId: 'game123', round: 1 },
+      { gameId: 'legacy', round: 4 },
+    ]);
+
+    expect(rules.get('game123').maxDeposit).toBe(10_000n);
+    expect(rules.get('legacy')).toEqual(DEFAULT_GAME_RULES);
+  });
+
+  it('should refuse to change a config once the game has opened', async () => {
+    const round = { gameId: 'game123', round: 1 };
+    await service.create('game123', 1);
+    await service.configure(round, { durationMs: 10 * 60 * 1000 });
+
+    await service.freeze(round, new Date());
+
+    await expect(service.configure(round, { maxPlayers: 5 })).rejects.toThrow(RumbleError.GameAlreadyActive);
+    expect((await service.forRound(round)).durationMs).toBe(10 * 60 * 1000);
+  });
+
+  it('should reject rules that cannot be played', async () => {
+    const unplayable = [
+      { durationMs: 0 },
+      { minDeposit: 100n, maxDeposit: 50n },
+      { maxPlayers: 0 },
+      { winnerBps: 0 },
+      { buybackBps: 10_001 },
+      { scoreWeights: { random: 0.5 } },
+      { distributionStrategy: 'lottery' },
+      { distributionStrategy: DistributionStrategyName.Tiered, distributionOptions: { tierBps: [6000, 4000] } },
+      { tieBreakers: [TieBreaker.EarliestDeposit, TieBreaker.EarliestDeposit] },
+      { anomalyPolicy: 'shrug' as AnomalyPolicy },
+      { sybilLimits: { maxWinnerSlotsPerCluster: 0 } },
+    ];
+    for (const rules of unplayable) {
+      await expect(service.create('game123', 1, rules)).rejects.toThrow(RumbleError.InvalidRequest);
+    }
+    expect(configs).toHaveLength(0);
+  });
+
+  it('should carry the ranking and payout settings over to the next round', async () => {
+    await service.create('game123', 1, { tieBreakers: [TieBreaker.LargestDeposit], anomalyPolicy: AnomalyPolicy.Disqualify });
+
+    await service.create('game123', 2, { splitTiesAtCutoff: true });
+
+    expect(await service.forRound({ gameId: 'game123', round: 2 })).toMatchObject({
+      tieBreakers: [TieBreaker.LargestDeposit],
+      anomalyPolicy: AnomalyPolicy.Disqualify,
+      splitTiesAtCutoff: true,
+    });
+  });
+
+  it('should parse the lamport amounts clients send as strings', () => {
+    expect(parseGameRules({ minDeposit: '1000', maxDeposit: null, maxPlayers: 8 })).toEqual({
+      minDeposit: 1000n,
+      maxDeposit: null,
+      maxPlayers: 8,
+    });
+  });
+});
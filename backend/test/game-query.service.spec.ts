@@ -0,0 +1,202 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { GameQueryService } from '../src/game/game-query.service';
+import { RoundArchiveService } from '../src/game/round-archive.service';
+import { GameState } from '../src/database/entities/game-state.entity';
+import { Player } from '../src/database/entities/player.entity';
+import { Winner } from '../src/database/entities/winner.entity';
+import { GamePhase } from '../src/game/game-lifecycle';
+import { AnomalyService } from '../src/anomaly/anomaly.service';
+import { GameConfigService } from '../src/game/game-config.service';
+import { DEFAULT_GAME_RULES } from '../src/game/game-config';
+import { LeaderboardService } from '../src/game/leaderboard.service';
+import { RandomnessService } from '../src/randomness/randomness.service';
+import { TieBreaker } from '../src/scoring/ranking';
+
+describe('GameQueryService', () => {
+  let service: GameQueryService;
+  let gameRepo: Repository<GameState>;
+  let playerRepo: Repository<Player>;
+  let winnerRepo: Repository<Winner>;
+  let gameConfigService: GameConfigService;
+  let leaderboardService: LeaderboardService;
+  let randomnessService: RandomnessService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GameQueryService,
+        { provide: RoundArchiveService, useValue: { listRounds: jest.fn(), getRound: jest.fn() } },
+        { provide: AnomalyService, useValue: { flagsForPlayer: jest.fn() } },
+        {
+          provide: GameConfigService,
+          useValue: {
+            forRound: jest.fn().mockResolvedValue(DEFAULT_GAME_RULES),
+            forRounds: jest
+              .fn()
+              .mockImplementation(async games => new Map(games.map(g => [g.gameId, { ...DEFAULT_GAME_RULES, maxPlayers: 10 }]))),
+          },
+        },
+        { provide: LeaderboardService, useValue: { snapshot: jest.fn().mockReturnValue(null) } },
+        { provide: RandomnessService, useValue: { getCommitment: jest.fn().mockResolvedValue(null) } },
+        { provide: getRepositoryToken(GameState), useClass: Repository },
+        { provide: getRepositoryToken(Player), useClass: Repository },
+        { provide: getRepositoryToken(Winner), useClass: Repository },
+      ],
+    }).compile();
+
+    service = module.get<GameQueryService>(GameQueryService);
+    gameRepo = module.get<Repository<GameState>>(getRepositoryToken(GameState));
+    playerRepo = module.get<Repository<Player>>(getRepositoryToken(Player));
+    winnerRepo = module.get<Repository<Winner>>(getRepositoryToken(Winner));
+    gameConfigService = module.get<GameConfigService>(GameConfigService);
+    leaderboardService = module.get<LeaderboardService>(LeaderboardService);
+    randomnessService = module.get<RandomnessService>(RandomnessService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should rank the recorded scores by the round's tie-breakers, continuously across pages", async () => {
+    const game = { gameId: 'game123', round: 2, phase: GamePhase.Settled } as GameState;
+    const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 0, minute));
+    jest.spyOn(playerRepo, 'find').mockResolvedValue([
+      { key: 'player1', deposit: 1000n, compositeScore: 0.7, firstDepositAt: at(0) },
+      { key: 'player2', deposit: 3000n, compositeScore: 0.7, firstDepositAt: at(1) },
+      { key: 'player3', deposit: 2000n, compositeScore: 0.9, firstDepositAt: at(2) },
+      { key: 'player4', deposit: 1000n, compositeScore: 0.5, firstDepositAt: at(3) },
+      { key: 'player5', deposit: 1000n, compositeScore: 0.2, firstDepositAt: at(4) },
+    ] as Player[]);
+    (gameConfigService.forRound as jest.Mock).mockResolvedValue({ ...DEFAULT_GAME_RULES, tieBreakers: [TieBreaker.LargestDeposit] });
+
+    const first = await service.getLeaderboard(game, { page: 1, limit: 2 });
+    const second = await service.getLeaderboard(game, { page: 2, limit: 2 });
+
+    expect(playerRepo.find).toHaveBeenCalledWith({ where: { game: 'game123', round: 2 } });
+    expect(randomnessService.getCommitment).toHaveBeenCalledWith('game123', 2);
+    expect(first).toEqual({
+      items: [
+        { rank: 1, playerKey: 'player3', deposit: 2000n, compositeScore: 0.9 },
+        { rank: 2, playerKey: 'player2', deposit: 3000n, compositeScore: 0.7 },
+      ],
+      total: 5,
+      page: 1,
+      limit: 2,
+    });
+    expect(second.items).toEqual([
+      { rank: 3, playerKey: 'player1', deposit: 1000n, compositeScore: 0.7 },
+      { rank: 4, playerKey: 'player4', deposit: 1000n, compositeScore: 0.5 },
+    ]);
+  });
+
+  it('should show the provisional leaderboard while the round is played', async () => {
+    const game = { gameId: 'game123', round: 2, phase: GamePhase.Open } as GameState;
+    jest.spyOn(playerRepo, 'find').mockResolvedValue([
+      { key: 'a', deposit: 1000n, compositeScore: 0 },
+      { key: 'b', deposit: 2000n, compositeScore: 0 },
+    ] as Player[]);
+    (leaderboardService.snapshot as jest.Mock).mockReturnValue({
+      gameId: 'game123',
+      round: 2,
+      numWinners: 1,
+      numPlayers: 2,
+      full: true,
+      changes: [
+        { playerKey: 'b', rank: 1, compositeScore: 0.9, aboveCutLine: true, previousRank: null },
+        { playerKey: 'a', rank: 2, compositeScore: 0.4, aboveCutLine: false, previousRank: null },
+      ],
+      removed: [],
+    });
+
+    const page = await service.getLeaderboard(game, { page: 1, limit: 20 });
+
+    expect(page.items).toEqual([
+      { rank: 1, playerKey: 'b', deposit: 2000n, compositeScore: 0.9 },
+      { rank: 2, playerKey: 'a', deposit: 1000n, compositeScore: 0.4 },
+    ]);
+    expect(gameConfigService.forRound).not.toHaveBeenCalled();
+  });
+
+  it('should list open games in the lobby with their players, pool and time remaining', async () => {
+    const now = new Date('2024-01-01T00:00:00Z');
+    jest.spyOn(gameRepo, 'findAndCount').mockResolvedValue([
+      [
+        {
+          gameId: 'game123',
+          round: 2,
+          phase: GamePhase.Open,
+          prizePool: 3000n,
+          closesAt: new Date('2024-01-01T00:05:00Z'),
+          programAccount: 'game-state-1',
+          vaultAddress: 'vault1',
+        },
+      ] as GameState[],
+      1,
+    ]);
+    jest.spyOn(playerRepo, 'count').mockResolvedValue(3);
+
+    const lobby = await service.listLobby({ page: 1, limit: 20 }, now);
+
+    expect(gameRepo.findAndCount).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { phase: GamePhase.Open, closesAt: expect.anything() }, skip: 0, take: 20 }),
+    );
+    expect(playerRepo.count).toHaveBeenCalledWith({ where: { game: 'game123', round: 2 } });
+    expect(lobby).toEqual({
+      items: [
+        {
+          gameId: 'game123',
+          round: 2,
+          playerCount: 3,
+          prizePool: 3000n,
+          closesAt: new Date('2024-01-01T00:05:00Z'),
+          timeRemainingMs: 5 * 60 * 1000,
+          config: { ...DEFAULT_GAME_RULES, maxPlayers: 10 },
+          programAccount: 'game-state-1',
+          vaultAddress: 'vault1',
+          depositMemo: null,
+        },
+      ],
+      total: 1,
+      page: 1,
+      limit: 20,
+    });
+  });
+
+  it('should list winners of the last settled round while a new round is open', async () => {
+    jest.spyOn(winnerRepo, 'find').mockResolvedValue([]);
+
+    await service.listWinners({ gameId: 'game123', round: 3, phase: GamePhase.Open } as GameState);
+    await service.listWinners({ gameId: 'game123', round: 3, phase: GamePhase.Settled } as GameState);
+
+    expect(winnerRepo.find).toHaveBeenNthCalledWith(1, { where: { game: 'game123', round: 2 }, order: { rank: 'ASC' } });
+    expect(winnerRepo.find).toHaveBeenNthCalledWith(2, { where: { game: 'game123', round: 3 }, order: { rank: 'ASC' } });
+  });
+
+  it('should attach prizes to the rounds a player won', async () => {
+    jest.spyOn(playerRepo, 'findAndCount').mockResolvedValue([
+      [
+        { game: 'game123', round: 2, deposit: 2000n, compositeScore: 0.4 },
+        { game: 'game123', round: 1, deposit: 5000n, compositeScore: 0.9 },
+      ] as Player[],
+      2,
+    ]);
+    jest
+      .spyOn(winnerRepo, 'find')
+      .mockResolvedValue([{ game: 'game123', round: 1, playerKey: 'player1', rank: 1, prize: 4500n }] as Winner[]);
+
+    const history = await service.getPlayerHistory('player1', { page: 1, limit: 20 });
+
+    expect(winnerRepo.find).toHaveBeenCalledWith({
+      where: [
+        { playerKey: 'player1', game: 'game123', round: 2 },
+        { playerKey: 'player1', game: 'game123', round: 1 },
+      ],
+    });
+    expect(history.items).toEqual([
+      { game: 'game123', round: 2, deposit: 2000n, compositeScore: 0.4, rank: null, prize: null },
+      { game: 'game123', round: 1, deposit: 5000n, compositeScore: 0.9, rank: 1, prize: 4500n },
+    ]);
+  });
+});
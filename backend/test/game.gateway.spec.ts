@@ -0,0 +1,129 @@
+import { GameGateway } from '../src/game/game.gateway';
+import { GameService } from '../src/game/game.service';
+import { AiService } from '../src/ai/ai.service';
+import { AuthService } from '../src/auth/auth.service';
+import { LeaderboardService } from '../src/game/leaderboard.service';
+import { ReconciliationService } from '../src/reconciliation/reconciliation.service';
+
+describe('GameGateway', () => {
+  let gateway: GameGateway;
+  let roomEmit: jest.Mock;
+  let gameService: Partial<GameService>;
+  let leaderboardService: Partial<LeaderboardService>;
+
+  const socket = (rooms: string[] = []) =>
+    ({
+      id: 'socket1',
+      rooms: new Set(rooms),
+      join: jest.fn(),
+      leave: jest.fn(),
+      emit: jest.fn(),
+    }) as any;
+
+  beforeEach(() => {
+    gameService = {
+      getPhase: jest.fn().mockResolvedValue('closed'),
+      evaluateTradingActivities: jest.fn().mockResolvedValue(undefined),
+    };
+    leaderboardService = { snapshot: jest.fn().mockReturnValue(null) };
+    gateway = new GameGateway(
+      gameService as GameService,
+      {} as AiService,
+      new AuthService(),
+      leaderboardService as LeaderboardService,
+      {} as ReconciliationService,
+    );
+    roomEmit = jest.fn();
+    gateway.server = { to: jest.fn().mockReturnValue({ emit: roomEmit }) } as any;
+  });
+
+  it('should add and remove sockets from the game room', async () => {
+    const client = socket();
+
+    await gateway.handleJoinGame({ gameId: 'game123' }, client);
+    await gateway.handleLeaveGame({ gameId: 'game123' }, client);
+
+    expect(client.join).toHaveBeenCalledWith('game:game123');
+    expect(client.leave).toHaveBeenCalledWith('game:game123');
+    expect(client.emit).toHaveBeenCalledWith('GAME_JOINED', { gameId: 'game123' });
+  });
+
+  it('should send the current provisional leaderboard to new subscribers', async () => {
+    const leaderboard = { gameId: 'game123', round: 1, numWinners: 1, numPlayers: 1, full: true, changes: [], removed: [] };
+    leaderboardService.snapshot = jest.fn().mockReturnValue(leaderboard);
+    const client = socket();
+
+    await gateway.handleJoinGame({ gameId: 'game123' }, client);
+
+    expect(client.emit).toHaveBeenCalledWith('LEADERBOARD_UPDATE', leaderboard);
+  });
+
+  it('should relay domain events to everyone in the game room', () => {
+    gateway.relayDeposit({ playerKey: 'player1', amount: 5000n, gameId: 'game123', signature: 'sig1' });
+    gateway.relayGameReset({ gameId: 'game123' });
+
+    expect(gateway.server.to).toHaveBeenCalledWith('game:game123');
+    expect(roomEmit).toHaveBeenCalledWith('DEPOSIT_CONFIRMED', { playerKey: 'player1', amount: '5000', signature: 'sig1' });
+    expect(roomEmit).toHaveBeenCalledWith('GAME_RESET', { gameId: 'game123' });
+  });
+
+  it('should answer the sender directly only when it is not subscribed', async () => {
+    const outsider = socket();
+    const subscriber = socket(['game:game123']);
+
+    await gateway.handleEvaluateTrading({ gameId: 'game123' }, outsider);
+    await gateway.handleEvaluateTrading({ gameId: 'game123' }, subscriber);
+
+    expect(outsider.emit).toHaveBeenCalledWith('TRADING_EVALUATED', { gameId: 'game123' });
+    expect(subscriber.emit).not.toHaveBeenCalled();
+  });
+
+  it('should report phase violations with a stable error code', async () => {
+    gameService.getPhase = jest.fn().mockResolvedValue('settled');
+    const client = socket();
+
+    await gateway.handleEvaluateTrading({ gameId: 'game123' }, client);
+
+    expect(client.emit).toHaveBeenCalledWith('ERROR', {
+      code: 'GameNotActive',
+      message: 'Cannot accept EVALUATE_TRADING for game game123 while it is settled.',
+      details: { gameId: 'game123', phase: 'settled', action: 'accept EVALUATE_TRADING for' },
+    });
+  });
+
+  it('should credit deposits to the authenticated wallet only', async () => {
+    gameService.getPhase = jest.fn().mockResolvedValue('open');
+    gameService.deposit = jest.fn().mockResolvedValue({ deposit: { amount: 5000n, signature: 'sig1' }, replayed: false });
+    const client = socket();
+    client.data = { session: { publicKey: 'player1', roles: ['player'] } };
+
+    await gateway.handleDeposit({ amount: '5000', gameId: 'game123', signature: 'sig1' }, client);
+    await gateway.handleDeposit({ playerKey: 'player2', amount: '5000', gameId: 'game123', signature: 'sig2' }, client);
+
+    expect(gameService.deposit).toHaveBeenCalledTimes(1);
+    expect(gameService.deposit).toHaveBeenCalledWith('player1', 5000n, 'game123', 'sig1', null);
+    expect(client.emit).toHaveBeenCalledWith('ERROR', {
+      code: 'Forbidden',
+      message: 'Deposits can only be made for the authenticated wallet.',
+      details: { playerKey: 'player2' },
+    });
+  });
+
+  it('should repeat the original confirmation to a client that resends a deposit', async () => {
+    gameService.getPhase = jest.fn().mockResolvedValue('open');
+    gameService.deposit = jest.fn().mockResolvedValue({ deposit: { amount: 5000n, signature: 'sig1' }, replayed: true });
+    const client = socket(['game:game123']);
+    client.data = { session: { publicKey: 'player1', roles: ['player'] } };
+
+    await gateway.handleDeposit({ amount: '5000', gameId: 'game123', signature: 'sig1', idempotencyKey: 'key1' }, client);
+
+    expect(gameService.deposit).toHaveBeenCalledWith('player1', 5000n, 'game123', 'sig1', 'key1');
+    expect(client.emit).toHaveBeenCalledWith('DEPOSIT_CONFIRMED', {
+      playerKey: 'player1',
+      amount: '5000',
+      signature: 'sig1',
+      replayed: true,
+    });
+    expect(roomEmit).not.toHaveBeenCalled();
+  });
+});
@@ -1,23 +1,66 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { GameService } from '../src/game/game.service';
 import { TradingService } from '../src/trading/trading.service';
-import { AiService } from '../src/ai/ai.service';
+import { AiScoringClient } from '../src/ai/ai-scoring.client';
+import { ScoringFallback } from '../src/ai/scoring-fallback';
+import { ScoringService } from '../src/scoring/scoring.service';
+import { RandomnessService } from '../src/randomness/randomness.service';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { GameState } from '../src/database/entities/game-state.entity';
 import { Player } from '../src/database/entities/player.entity';
 import { Winner } from '../src/database/entities/winner.entity';
-import { Repository } from 'typeorm';
+import { Settlement } from '../src/database/entities/settlement.entity';
+import { Deposit } from '../src/database/entities/deposit.entity';
+import { EvaluationStatus, TradingEvaluation } from '../src/database/entities/trading-evaluation.entity';
+import { AnomalyFlag } from '../src/database/entities/anomaly-flag.entity';
+import { AnomalyService } from '../src/anomaly/anomaly.service';
+import { AnomalyPolicy } from '../src/anomaly/anomaly-policy';
+import { AnomalySeverity } from '../src/anomaly/anomaly-rules';
+import { WalletCluster } from '../src/database/entities/wallet-cluster.entity';
+import { SybilService } from '../src/sybil/sybil.service';
+import { DataSource, Repository } from 'typeorm';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { NotFoundException, BadRequestException } from '@nestjs/common';
 import { RumbleError } from '../src/game/rumble.errors';
+import { GamePhase, GamePhaseError, ROUND_DURATION_MS } from '../src/game/game-lifecycle';
+import { RemainderDestination } from '../src/prize/prize-split';
+import { PrizeDistributionService, PRIZE_DISTRIBUTION_STRATEGIES } from '../src/prize/prize-distribution.service';
+import { DEFAULT_DISTRIBUTION_STRATEGIES } from '../src/prize/distribution-strategies';
+import { DepositVerifierService } from '../src/solana/deposit-verifier.service';
+import { BuybackService } from '../src/buyback/buyback.service';
+import { RoundArchiveService } from '../src/game/round-archive.service';
+import { LeaderboardService } from '../src/game/leaderboard.service';
+import { RUMBLE_PROGRAM } from '../src/chain/rumble-program';
+import { InMemoryRumbleProgram } from '../src/chain/in-memory-rumble-program';
+import { ReconciliationService } from '../src/reconciliation/reconciliation.service';
+import { GameConfigService } from '../src/game/game-config.service';
+import { DEFAULT_GAME_RULES } from '../src/game/game-config';
+
+const transactionalEntities: Function[] = [GameState, Player, Winner, Settlement, Deposit, TradingEvaluation, AnomalyFlag, WalletCluster];
 
 describe('GameService', () => {
   let service: GameService;
   let gameRepo: Repository<GameState>;
   let playerRepo: Repository<Player>;
   let winnerRepo: Repository<Winner>;
+  let settlementRepo: Repository<Settlement>;
+  let depositRepo: Repository<Deposit>;
+  let dataSource: DataSource;
   let tradingService: TradingService;
-  let aiService: AiService;
+  let aiScoringClient: AiScoringClient;
+  let evaluationRepo: Repository<TradingEvaluation>;
+  let flagRepo: Repository<AnomalyFlag>;
+  let anomalyService: AnomalyService;
+  let sybilService: SybilService;
+  let clusterRepo: Repository<WalletCluster>;
+  let scoringService: ScoringService;
+  let randomnessService: RandomnessService;
+  let depositVerifier: DepositVerifierService;
+  let buybackService: BuybackService;
+  let roundArchiveService: RoundArchiveService;
+  let program: InMemoryRumbleProgram;
+  let reconciliationService: ReconciliationService;
+  let gameConfigService: GameConfigService;
   let eventEmitter: EventEmitter2;
 
   beforeEach(async () => {
@@ -31,11 +74,94 @@ describe('GameService', () => {
           },
         },
         {
-          provide: AiService,
+          provide: AiScoringClient,
+          useValue: {
+            computeTradingScores: jest.fn(),
+          },
+        },
+        {
+          provide: ScoringService,
+          useValue: {
+            scorePlayers: jest.fn().mockImplementation(async (_game, players) =>
+              players.map(p => ({
+                playerKey: p.key,
+                tokenHoldings: 0,
+                tradingPerformance: 0,
+                depositSpeed: 0,
+                random: 0,
+                composite: p.tradingScore,
+              })),
+            ),
+            snapshotHoldings: jest.fn().mockImplementation(async players => players.forEach(p => (p.tokenHoldings = 10))),
+          },
+        },
+        {
+          provide: RandomnessService,
+          useValue: {
+            commit: jest.fn().mockResolvedValue('seedCommitment'),
+            reveal: jest.fn().mockResolvedValue('revealedSeed'),
+            seedFor: jest.fn().mockResolvedValue('revealedSeed'),
+            getCommitment: jest.fn().mockResolvedValue({ commitment: 'seedCommitment', seed: 'revealedSeed' }),
+          },
+        },
+        {
+          provide: RoundArchiveService,
+          useValue: {
+            archive: jest.fn().mockImplementation(async (_manager, game) => ({ game: game.gameId, number: game.round })),
+          },
+        },
+        {
+          provide: DepositVerifierService,
+          useValue: {
+            verify: jest.fn().mockImplementation(async claim => ({ ...claim, slot: 1 })),
+          },
+        },
+        {
+          provide: BuybackService,
+          useValue: {
+            execute: jest.fn().mockResolvedValue(null),
+          },
+        },
+        {
+          provide: AnomalyService,
+          useValue: {
+            detect: jest.fn().mockResolvedValue([]),
+            flagsFor: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: SybilService,
+          useValue: {
+            cluster: jest.fn().mockResolvedValue([]),
+            clustersFor: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: ReconciliationService,
+          useValue: {
+            assertBalanced: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        {
+          provide: GameConfigService,
           useValue: {
-            computeScoresWithAnomalyDetection: jest.fn(),
+            forRound: jest.fn().mockResolvedValue(DEFAULT_GAME_RULES),
+            create: jest.fn().mockImplementation(async (game, round, rules) => ({ game, round, ...DEFAULT_GAME_RULES, ...rules })),
+            configure: jest.fn().mockImplementation(async (game, rules) => ({ game: game.gameId, round: game.round, ...rules })),
+            freeze: jest.fn().mockImplementation(async (game, frozenAt) => ({ game: game.gameId, round: game.round, frozenAt })),
           },
         },
+        {
+          // Only games with a programAccount go through it.
+          provide: RUMBLE_PROGRAM,
+          useClass: InMemoryRumbleProgram,
+        },
+        LeaderboardService,
+        PrizeDistributionService,
+        {
+          provide: PRIZE_DISTRIBUTION_STRATEGIES,
+          useValue: DEFAULT_DISTRIBUTION_STRATEGIES,
+        },
         {
           provide: getRepositoryToken(GameState),
           useClass: Repository,
@@ -48,6 +174,45 @@ describe('GameService', () => {
           provide: getRepositoryToken(Winner),
           useClass: Repository,
         },
+        {
+          provide: getRepositoryToken(Settlement),
+          useClass: Repository,
+        },
+        {
+          provide: getRepositoryToken(Deposit),
+          useClass: Repository,
+        },
+        {
+          provide: getRepositoryToken(TradingEvaluation),
+          useClass: Repository,
+        },
+        {
+          provide: getRepositoryToken(AnomalyFlag),
+          useClass: Repository,
+        },
+        {
+          provide: getRepositoryToken(WalletCluster),
+          useClass: Repository,
+        },
+        {
+          // Hands each transaction the same repositories and runs transactions one at a time, the way the
+          // game row lock serializes them in Postgres.
+          provide: DataSource,
+          useFactory: (...repositories: Repository<any>[]) => {
+            let queue: Promise<unknown> = Promise.resolve();
+            const manager = {
+              getRepository: (entity: Function) => repositories[transactionalEntities.indexOf(entity)],
+            };
+            return {
+              transaction: jest.fn((work: (m: typeof manager) => Promise<unknown>) => {
+                const result = queue.then(() => work(manager));
+                queue = result.catch(() => undefined);
+                return result;
+              }),
+            };
+          },
+          inject: transactionalEntities.map(entity => getRepositoryToken(entity)),
+        },
         {
           provide: EventEmitter2,
           useValue: {
@@ -61,9 +226,35 @@ describe('GameService', () => {
     gameRepo = module.get<Repository<GameState>>(getRepositoryToken(GameState));
     playerRepo = module.get<Repository<Player>>(getRepositoryToken(Player));
     winnerRepo = module.get<Repository<Winner>>(getRepositoryToken(Winner));
+    settlementRepo = module.get<Repository<Settlement>>(getRepositoryToken(Settlement));
+    depositRepo = module.get<Repository<Deposit>>(getRepositoryToken(Deposit));
+    dataSource = module.get<DataSource>(DataSource);
     tradingService = module.get<TradingService>(TradingService);
-    aiService = module.get<AiService>(AiService);
+    aiScoringClient = module.get<AiScoringClient>(AiScoringClient);
+    evaluationRepo = module.get<Repository<TradingEvaluation>>(getRepositoryToken(TradingEvaluation));
+    flagRepo = module.get<Repository<AnomalyFlag>>(getRepositoryToken(AnomalyFlag));
+    anomalyService = module.get<AnomalyService>(AnomalyService);
+    sybilService = module.get<SybilService>(SybilService);
+    clusterRepo = module.get<Repository<WalletCluster>>(getRepositoryToken(WalletCluster));
+    scoringService = module.get<ScoringService>(ScoringService);
+    randomnessService = module.get<RandomnessService>(RandomnessService);
+    depositVerifier = module.get<DepositVerifierService>(DepositVerifierService);
+    buybackService = module.get<BuybackService>(BuybackService);
+    roundArchiveService = module.get<RoundArchiveService>(RoundArchiveService);
+    program = module.get<InMemoryRumbleProgram>(RUMBLE_PROGRAM);
+    reconciliationService = module.get<ReconciliationService>(ReconciliationService);
+    gameConfigService = module.get<GameConfigService>(GameConfigService);
     eventEmitter = module.get<EventEmitter2>(EventEmitter2);
+
+    jest.spyOn(playerRepo, 'find').mockResolvedValue([]);
+    jest.spyOn(depositRepo, 'findOne').mockResolvedValue(null);
+    jest.spyOn(depositRepo, 'create').mockImplementation(data => data as any);
+    jest.spyOn(depositRepo, 'save').mockImplementation(async data => data as any);
+    jest.spyOn(evaluationRepo, 'update').mockResolvedValue(undefined);
+    jest.spyOn(evaluationRepo, 'create').mockImplementation(data => data as any);
+    jest.spyOn(evaluationRepo, 'save').mockImplementation(async data => data as any);
+    jest.spyOn(flagRepo, 'find').mockResolvedValue([]);
+    jest.spyOn(clusterRepo, 'find').mockResolvedValue([]);
   });
 
   afterEach(() => {
@@ -73,25 +264,46 @@ describe('GameService', () => {
   describe('initializeGame', () => {
     it('should initialize a new game successfully', async () => {
       const gameId = 'testGameId';
-      const game = { gameId, totalDeposits: 0, prizePool: 0, active: false, players: [], winners: [] };
+      const opensAt = new Date('2024-01-01T00:00:00Z');
+      const game = { gameId, totalDeposits: 0n, prizePool: 0n, phase: GamePhase.Created, players: [], winners: [] };
       
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue(null);
       jest.spyOn(gameRepo, 'create').mockReturnValue(game as any);
       jest.spyOn(gameRepo, 'save').mockResolvedValue(game as any);
       
-      const result = await service.initializeGame(gameId);
+      const result = await service.initializeGame(gameId, opensAt);
       
       expect(gameRepo.create).toHaveBeenCalledWith({
         gameId,
-        totalDeposits: 0,
-        prizePool: 0,
-        active: false,
+        round: 1,
+        totalDeposits: 0n,
+        prizePool: 0n,
+        rolloverLamports: 0n,
+        phase: GamePhase.Created,
+        opensAt,
+        openedAt: null,
+        closesAt: null,
       });
+      expect(gameConfigService.create).toHaveBeenCalledWith(gameId, 1, {});
       expect(gameRepo.save).toHaveBeenCalledWith(game);
       expect(result).toEqual(game);
     });
 
+    it('should start the next round of an archived game', async () => {
+      const gameId = 'game123';
+      const archived = { gameId, round: 3, phase: GamePhase.Archived, totalDeposits: 0n, prizePool: 7n, rolloverLamports: 7n };
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue(archived as any);
+      jest.spyOn(gameRepo, 'create').mockImplementation(data => data as any);
+      jest.spyOn(gameRepo, 'save').mockImplementation(async data => data as any);
+
+      const game = await service.initializeGame(gameId);
+
+      expect(game).toEqual(expect.objectContaining({ round: 4, phase: GamePhase.Created, totalDeposits: 0n, prizePool: 7n }));
+    });
+
     it('should throw an error if game initialization fails', async () => {
       const gameId = 'testGameId';
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue(null);
       jest.spyOn(gameRepo, 'create').mockReturnValue({});
       jest.spyOn(gameRepo, 'save').mockRejectedValue(new Error('Database error'));
       
@@ -99,23 +311,122 @@ describe('GameService', () => {
     });
   });
 
+  describe('lifecycle', () => {
+    it('should refuse to re-initialize a game that has not been archived', async () => {
+      const gameId = 'game123';
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue({ gameId, phase: GamePhase.Open } as any);
+
+      await expect(service.initializeGame(gameId)).rejects.toThrow(GamePhaseError);
+    });
+
+    it('should open a created game with a timed deposit window', async () => {
+      const gameId = 'game123';
+      const game = { gameId, round: 1, phase: GamePhase.Created };
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue(game as any);
+      jest.spyOn(gameRepo, 'save').mockResolvedValue(game as any);
+
+      const opened = await service.openGame(gameId);
+
+      expect(opened.phase).toBe(GamePhase.Open);
+      expect(opened.closesAt.getTime() - opened.openedAt.getTime()).toBe(ROUND_DURATION_MS);
+      expect(gameConfigService.freeze).toHaveBeenCalledWith(opened, opened.openedAt);
+      expect(eventEmitter.emit).toHaveBeenCalledWith('game.opened', {
+        gameId,
+        openedAt: opened.openedAt,
+        closesAt: opened.closesAt,
+        seedCommitment: 'seedCommitment',
+      });
+      expect(randomnessService.commit).toHaveBeenCalledWith(gameId, 1);
+    });
+
+    it('should change the rules of a game until it opens', async () => {
+      const gameId = 'game123';
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue({ gameId, round: 2, phase: GamePhase.Created, programAccount: null } as any);
+
+      const config = await service.configureGame(gameId, { maxPlayers: 50, winnerBps: 2_500 });
+
+      expect(gameConfigService.configure).toHaveBeenCalledWith(expect.objectContaining({ gameId, round: 2 }), {
+        maxPlayers: 50,
+        winnerBps: 2_500,
+      });
+      expect(eventEmitter.emit).toHaveBeenCalledWith('game.configured', { gameId, round: 2, config });
+
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue({ gameId, round: 2, phase: GamePhase.Open } as any);
+      await expect(service.configureGame(gameId, { maxPlayers: 10 })).rejects.toThrow(RumbleError.GameAlreadyActive);
+    });
+
+    it('should refuse winner and buyback shares the program cannot settle', async () => {
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue(null);
+
+      await expect(service.initializeGame('newGame', undefined, { buybackBps: 2_000 })).rejects.toThrow(RumbleError.InvalidRequest);
+      expect(gameConfigService.create).not.toHaveBeenCalled();
+    });
+
+    it("should close an open game and snapshot its players' token holdings", async () => {
+      const gameId = 'game123';
+      const players = [{ key: 'player1' }, { key: 'player2' }];
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue({ gameId, round: 2, phase: GamePhase.Open } as any);
+      jest.spyOn(gameRepo, 'save').mockImplementation(async (game) => game as any);
+      jest.spyOn(playerRepo, 'find').mockResolvedValue(players as any);
+      jest.spyOn(playerRepo, 'save').mockImplementation(async player => player as any);
+
+      const closed = await service.closeGame(gameId);
+
+      expect(closed.phase).toBe(GamePhase.Closed);
+      expect(playerRepo.find).toHaveBeenCalledWith({ where: { game: gameId, round: 2 } });
+      expect(playerRepo.save).toHaveBeenCalledWith({ key: 'player1', tokenHoldings: 10 });
+      expect(playerRepo.save).toHaveBeenCalledWith({ key: 'player2', tokenHoldings: 10 });
+      expect(eventEmitter.emit).toHaveBeenCalledWith('game.closed', { gameId });
+    });
+
+    it('should close the game even when its token holdings cannot be looked up', async () => {
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue({ gameId: 'game123', round: 1, phase: GamePhase.Open } as any);
+      jest.spyOn(gameRepo, 'save').mockImplementation(async (game) => game as any);
+      jest.spyOn(playerRepo, 'find').mockResolvedValue([{ key: 'player1' }] as any);
+      jest.spyOn(playerRepo, 'save');
+      (scoringService.snapshotHoldings as jest.Mock).mockRejectedValue(new Error('429 Too Many Requests'));
+
+      await expect(service.closeGame('game123')).resolves.toMatchObject({ phase: GamePhase.Closed });
+      expect(playerRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid transitions', async () => {
+      const gameId = 'game123';
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue({ gameId, phase: GamePhase.Settled } as any);
+
+      await expect(service.openGame(gameId)).rejects.toThrow(GamePhaseError);
+      await expect(service.closeGame(gameId)).rejects.toThrow(GamePhaseError);
+    });
+
+    it('should reject deposits after the deposit window has elapsed', async () => {
+      const gameId = 'game123';
+      const game = { gameId, phase: GamePhase.Open, closesAt: new Date(Date.now() - 1000) };
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue(game as any);
+
+      await expect(service.deposit('player1', 1000n, gameId, 'sig1')).rejects.toThrow(GamePhaseError);
+    });
+  });
+
   describe('deposit', () => {
     it('should handle a successful deposit', async () => {
       const playerKey = 'player1';
-      const amount = 1000;
+      const amount = 1000n;
       const gameId = 'game123';
       
       const game = {
         gameId,
-        totalDeposits: 5000,
-        prizePool: 5000,
-        active: false,
+        totalDeposits: 5000n,
+        prizePool: 5000n,
+        rolloverLamports: 0n,
+        vaultAddress: 'vault1',
+        round: 1,
+        phase: GamePhase.Open,
         players: [],
       };
       
       const player = {
         key: playerKey,
-        deposit: 0,
+        deposit: 0n,
         tradingScore: 0,
         game: gameId,
       };
@@ -126,43 +437,56 @@ describe('GameService', () => {
       jest.spyOn(playerRepo, 'save').mockResolvedValue(player as any);
       jest.spyOn(gameRepo, 'save').mockResolvedValue(game as any);
       
-      await service.deposit(playerKey, amount, gameId);
+      await service.deposit(playerKey, amount, gameId, 'sig1');
       
+      expect(depositVerifier.verify).toHaveBeenCalledWith({
+        signature: 'sig1',
+        sender: playerKey,
+        vault: 'vault1',
+        amount,
+        window: { from: game.openedAt, to: game.closesAt },
+        memo: `rumble:${gameId}:1`,
+      });
       expect(gameRepo.findOne).toHaveBeenCalledWith({ where: { gameId } });
       expect(playerRepo.findOne).toHaveBeenCalledWith({ where: { key: playerKey, game: gameId } });
       expect(playerRepo.create).toHaveBeenCalledWith({
         key: playerKey,
         deposit: amount,
         tradingScore: 0,
+        firstDepositAt: expect.any(Date),
         game: gameId,
+        round: 1,
       });
       expect(playerRepo.save).toHaveBeenCalledWith(player);
       expect(gameRepo.save).toHaveBeenCalledWith({
         ...game,
         totalDeposits: game.totalDeposits + amount,
-        prizePool: game.totalDeposits + amount,
+        prizePool: game.totalDeposits + amount + game.rolloverLamports,
       });
-      expect(eventEmitter.emit).toHaveBeenCalledWith('deposit.made', { playerKey, amount, gameId });
+      expect(eventEmitter.emit).toHaveBeenCalledWith('deposit.made', { playerKey, amount, gameId, signature: 'sig1' });
     });
 
     it('should update an existing player deposit', async () => {
       const playerKey = 'player1';
-      const amount = 500;
+      const amount = 500n;
       const gameId = 'game123';
       
       const game = {
         gameId,
-        totalDeposits: 5000,
-        prizePool: 5000,
-        active: false,
+        totalDeposits: 5000n,
+        prizePool: 5000n,
+        rolloverLamports: 0n,
+        vaultAddress: 'vault1',
+        round: 1,
+        phase: GamePhase.Open,
         players: [
-          { key: playerKey, deposit: 1000, tradingScore: 0, last_active: 1620000000 },
+          { key: playerKey, deposit: 1000n, tradingScore: 0, last_active: 1620000000 },
         ],
       };
       
       const updatedPlayer = {
         key: playerKey,
-        deposit: 1500,
+        deposit: 1500n,
         tradingScore: 0,
         last_active: 1620000000,
       };
@@ -172,62 +496,192 @@ describe('GameService', () => {
       jest.spyOn(playerRepo, 'save').mockResolvedValue(updatedPlayer as any);
       jest.spyOn(gameRepo, 'save').mockResolvedValue(game as any);
       
-      await service.deposit(playerKey, amount, gameId);
+      await service.deposit(playerKey, amount, gameId, 'sig1');
       
       expect(playerRepo.findOne).toHaveBeenCalledWith({ where: { key: playerKey, game: gameId } });
       expect(playerRepo.save).toHaveBeenCalledWith(updatedPlayer);
       expect(gameRepo.save).toHaveBeenCalledWith({
         ...game,
         totalDeposits: game.totalDeposits + amount,
-        prizePool: game.totalDeposits + amount,
+        prizePool: game.totalDeposits + amount + game.rolloverLamports,
       });
-      expect(eventEmitter.emit).toHaveBeenCalledWith('deposit.made', { playerKey, amount, gameId });
+      expect(eventEmitter.emit).toHaveBeenCalledWith('deposit.made', { playerKey, amount, gameId, signature: 'sig1' });
     });
 
     it('should throw an error if the game does not exist', async () => {
       const playerKey = 'player1';
-      const amount = 1000;
+      const amount = 1000n;
       const gameId = 'nonexistentGame';
       
       jest.spyOn(gameRepo, 'findOne').mockResolvedValue(null);
       
-      await expect(service.deposit(playerKey, amount, gameId)).rejects.toThrow('Game is not active or does not exist.');
+      await expect(service.deposit(playerKey, amount, gameId, 'sig1')).rejects.toThrow(RumbleError.GameNotFound);
     });
 
-    it('should throw an error if the game is active', async () => {
+    it('should throw an error if the deposit window is closed', async () => {
       const playerKey = 'player1';
-      const amount = 1000;
-      const gameId = 'activeGame';
+      const amount = 1000n;
+      const gameId = 'closedGame';
       
       const game = {
         gameId,
-        totalDeposits: 5000,
-        prizePool: 5000,
-        active: true,
+        totalDeposits: 5000n,
+        prizePool: 5000n,
+        phase: GamePhase.Closed,
         players: [],
       };
       
       jest.spyOn(gameRepo, 'findOne').mockResolvedValue(game as any);
       
-      await expect(service.deposit(playerKey, amount, gameId)).rejects.toThrow('Game is not active or does not exist.');
+      await expect(service.deposit(playerKey, amount, gameId, 'sig1')).rejects.toThrow(GamePhaseError);
+    });
+
+    it('should not credit a deposit that fails on-chain verification', async () => {
+      const game = {
+        gameId: 'game123',
+        totalDeposits: 5000n,
+        prizePool: 5000n,
+        rolloverLamports: 0n,
+        vaultAddress: 'vault1',
+        round: 1,
+        phase: GamePhase.Open,
+        players: [],
+      };
+
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue(game as any);
+      jest.spyOn(depositVerifier, 'verify').mockRejectedValue(new Error('Deposit transaction sig1 failed on-chain.'));
+      jest.spyOn(playerRepo, 'save');
+      jest.spyOn(gameRepo, 'save');
+
+      await expect(service.deposit('player1', 1000n, 'game123', 'sig1')).rejects.toThrow('failed on-chain');
+      expect(playerRepo.save).not.toHaveBeenCalled();
+      expect(gameRepo.save).not.toHaveBeenCalled();
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it("should enforce the round's deposit and player limits", async () => {
+      const game = {
+        gameId: 'game123',
+        totalDeposits: 2000n,
+        prizePool: 2000n,
+        rolloverLamports: 0n,
+        vaultAddress: 'vault1',
+        round: 1,
+        phase: GamePhase.Open,
+      };
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue(game as any);
+      jest.spyOn(playerRepo, 'findOne').mockImplementation(async ({ where }: any) =>
+        where.key === 'player1' ? ({ key: 'player1', deposit: 1000n } as any) : null,
+      );
+      jest.spyOn(playerRepo, 'count').mockResolvedValue(2);
+      jest.spyOn(playerRepo, 'save');
+      (gameConfigService.forRound as jest.Mock).mockResolvedValue({
+        ...DEFAULT_GAME_RULES,
+        minDeposit: 100n,
+        maxDeposit: 1200n,
+        maxPlayers: 2,
+      });
+
+      await expect(service.deposit('player1', 99n, 'game123', 'sig1')).rejects.toThrow(RumbleError.InvalidDeposit);
+      await expect(service.deposit('player1', 300n, 'game123', 'sig2')).rejects.toThrow(RumbleError.InvalidDeposit);
+      await expect(service.deposit('player3', 100n, 'game123', 'sig3')).rejects.toThrow(RumbleError.GameFull);
+      expect(depositVerifier.verify).not.toHaveBeenCalled();
+      expect(playerRepo.save).not.toHaveBeenCalled();
+      expect(playerRepo.count).toHaveBeenCalledWith({ where: { game: 'game123', round: 1 } });
+    });
+
+    it('should record each credited deposit against its signature', async () => {
+      const game = {
+        gameId: 'game123',
+        totalDeposits: 0n,
+        prizePool: 0n,
+        rolloverLamports: 0n,
+        vaultAddress: 'vault1',
+        round: 1,
+        phase: GamePhase.Open,
+        players: [],
+      };
+
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue(game as any);
+      jest.spyOn(playerRepo, 'findOne').mockResolvedValue(null);
+      jest.spyOn(playerRepo, 'create').mockImplementation(data => data as any);
+      jest.spyOn(playerRepo, 'save').mockImplementation(async data => data as any);
+      jest.spyOn(gameRepo, 'save').mockResolvedValue(game as any);
+
+      const receipt = await service.deposit('player1', 1000n, 'game123', 'sig1', 'key1');
+
+      expect(depositRepo.save).toHaveBeenCalledWith({
+        game: 'game123',
+        round: 1,
+        playerKey: 'player1',
+        amount: 1000n,
+        signature: 'sig1',
+        idempotencyKey: 'key1',
+        slot: 1,
+      });
+      expect(receipt.replayed).toBe(false);
+    });
+
+    it('should return the original deposit when the same signature is resent', async () => {
+      const original = { id: 7, game: 'game123', playerKey: 'player1', amount: 1000n, signature: 'sig1', idempotencyKey: null };
+      jest.spyOn(depositRepo, 'findOne').mockResolvedValue(original as any);
+      jest.spyOn(gameRepo, 'findOne');
+      jest.spyOn(playerRepo, 'save');
+
+      const receipt = await service.deposit('player1', 1000n, 'game123', 'sig1');
+
+      expect(receipt).toEqual({ deposit: original, replayed: true });
+      expect(depositVerifier.verify).not.toHaveBeenCalled();
+      expect(gameRepo.findOne).not.toHaveBeenCalled();
+      expect(playerRepo.save).not.toHaveBeenCalled();
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('should return the original deposit when the same idempotency key is resent', async () => {
+      const original = { id: 7, game: 'game123', playerKey: 'player1', amount: 1000n, signature: 'sig1', idempotencyKey: 'key1' };
+      jest
+        .spyOn(depositRepo, 'findOne')
+        .mockImplementation(async ({ where }: any) => (where.idempotencyKey === 'key1' ? (original as any) : null));
+
+      await expect(service.deposit('player1', 1000n, 'game123', 'sig1', 'key1')).resolves.toEqual({
+        deposit: original,
+        replayed: true,
+      });
+      await expect(service.deposit('player1', 2000n, 'game123', 'sig2', 'key1')).rejects.toThrow(
+        'This deposit was already submitted with different details.',
+      );
+      expect(depositRepo.findOne).toHaveBeenCalledWith({ where: { playerKey: 'player1', idempotencyKey: 'key1' } });
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('should not let another wallet claim an already credited signature', async () => {
+      const original = { id: 7, game: 'game123', playerKey: 'player1', amount: 1000n, signature: 'sig1', idempotencyKey: null };
+      jest.spyOn(depositRepo, 'findOne').mockResolvedValue(original as any);
+
+      await expect(service.deposit('player2', 1000n, 'game123', 'sig1')).rejects.toThrow(
+        'This deposit was already submitted with different details.',
+      );
     });
 
     it('should handle database save errors gracefully', async () => {
       const playerKey = 'player1';
-      const amount = 1000;
+      const amount = 1000n;
       const gameId = 'game123';
       
       const game = {
         gameId,
-        totalDeposits: 5000,
-        prizePool: 5000,
-        active: false,
+        totalDeposits: 5000n,
+        prizePool: 5000n,
+        rolloverLamports: 0n,
+        vaultAddress: 'vault1',
+        round: 1,
+        phase: GamePhase.Open,
         players: [],
       };
       
       const player = {
         key: playerKey,
-        deposit: 0,
+        deposit: 0n,
         tradingScore: 0,
         game: gameId,
       };
@@ -237,7 +691,7 @@ describe('GameService', () => {
       jest.spyOn(playerRepo, 'create').mockReturnValue(player as any);
       jest.spyOn(playerRepo, 'save').mockRejectedValue(new Error('Database save error'));
       
-      await expect(service.deposit(playerKey, amount, gameId)).rejects.toThrow('Database save error');
+      await expect(service.deposit(playerKey, amount, gameId, 'sig1')).rejects.toThrow('Database save error');
       expect(eventEmitter.emit).not.toHaveBeenCalled();
     });
   });
@@ -252,27 +706,34 @@ describe('GameService', () => {
       
       const game = {
         gameId,
-        totalDeposits: 5000,
-        prizePool: 5000,
-        active: false,
+        totalDeposits: 5000n,
+        prizePool: 5000n,
+        round: 2,
+        phase: GamePhase.Closed,
         players,
       };
       
-      const scores = [
-        { playerKey: 'player1', score: 150 },
-        { playerKey: 'player2', score: 200 },
-      ];
-      
       jest.spyOn(gameRepo, 'findOne').mockResolvedValue({ ...game, players } as any);
-      (aiService.computeScoresWithAnomalyDetection as jest.Mock).mockResolvedValue(scores);
+      jest.spyOn(playerRepo, 'find').mockResolvedValue(players as any);
+      (aiScoringClient.computeTradingScores as jest.Mock).mockResolvedValue({
+        scores: new Map([
+          ['player1', 150],
+          ['player2', 200],
+        ]),
+        missing: [],
+        errors: [],
+      });
       jest.spyOn(playerRepo, 'save').mockResolvedValue(null);
       
-      await service.evaluateTradingActivities(gameId);
+      const evaluation = await service.evaluateTradingActivities(gameId);
       
-      expect(gameRepo.findOne).toHaveBeenCalledWith({ where: { gameId }, relations: ['players'] });
-      expect(aiService.computeScoresWithAnomalyDetection).toHaveBeenCalledWith(['player1', 'player2']);
+      expect(gameRepo.findOne).toHaveBeenCalledWith({ where: { gameId } });
+      expect(playerRepo.find).toHaveBeenCalledWith({ where: { game: gameId, round: 2 } });
+      expect(aiScoringClient.computeTradingScores).toHaveBeenCalledWith(['player1', 'player2']);
       expect(playerRepo.save).toHaveBeenCalledTimes(2);
-      expect(eventEmitter.emit).toHaveBeenCalledWith('trading.evaluated', { gameId });
+      expect(evaluation).toMatchObject({ game: gameId, round: 2, status: EvaluationStatus.Complete, scoredPlayers: 2, retryAt: null });
+      expect(anomalyService.detect).toHaveBeenCalledWith(expect.objectContaining({ gameId }), players);
+      expect(eventEmitter.emit).toHaveBeenCalledWith('trading.evaluated', { gameId, status: EvaluationStatus.Complete });
     });
 
     it('should throw an error if the game does not exist', async () => {
@@ -282,50 +743,98 @@ describe('GameService', () => {
       await expect(service.evaluateTradingActivities(gameId)).rejects.toThrow('Game not found.');
     });
 
-    it('should handle AI service failures gracefully', async () => {
+    it('should record a partial evaluation and schedule a retry when scoring is unavailable', async () => {
       const gameId = 'game123';
       const players = [
-        { key: 'player1', tradingScore: 0 },
-        { key: 'player2', tradingScore: 0 },
+        { key: 'player1', tradingScore: 120 },
+        { key: 'player2', tradingScore: 80 },
       ];
       
       const game = {
         gameId,
-        totalDeposits: 5000,
-        prizePool: 5000,
-        active: false,
-        players,
+        totalDeposits: 5000n,
+        prizePool: 5000n,
+        round: 1,
+        phase: GamePhase.Closed,
       };
       
-      jest.spyOn(gameRepo, 'findOne').mockResolvedValue({ ...game, players } as any);
-      (aiService.computeScoresWithAnomalyDetection as jest.Mock).mockRejectedValue(new Error('AI service error'));
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue(game as any);
+      jest.spyOn(playerRepo, 'find').mockResolvedValue(players as any);
+      jest.spyOn(playerRepo, 'save').mockResolvedValue(null);
+      (aiScoringClient.computeTradingScores as jest.Mock).mockResolvedValue({
+        scores: new Map(),
+        missing: ['player1', 'player2'],
+        errors: ['Circuit open until 2024-01-01T00:00:30.000Z.'],
+      });
       
-      await expect(service.evaluateTradingActivities(gameId)).rejects.toThrow('AI service error');
-      expect(eventEmitter.emit).not.toHaveBeenCalled();
+      const evaluation = await service.evaluateTradingActivities(gameId);
+      
+      // Scores from an earlier evaluation are not carried over.
+      expect(players.map(p => p.tradingScore)).toEqual([0, 0]);
+      expect(evaluation).toMatchObject({
+        status: EvaluationStatus.Partial,
+        fallback: ScoringFallback.RetryLater,
+        missingPlayers: ['player1', 'player2'],
+        retryAt: expect.any(Date),
+      });
+      expect(eventEmitter.emit).toHaveBeenCalledWith('trading.evaluated', { gameId, status: EvaluationStatus.Partial });
+    });
+
+    it('should record a failed evaluation for a retry and write no scores when evaluating throws', async () => {
+      const players = [{ key: 'player1', tradingScore: 120 }];
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue({ gameId: 'game123', round: 1, phase: GamePhase.Closed } as any);
+      jest.spyOn(playerRepo, 'find').mockResolvedValue(players as any);
+      jest.spyOn(playerRepo, 'save').mockResolvedValue(null);
+      (aiScoringClient.computeTradingScores as jest.Mock).mockResolvedValue({
+        scores: new Map([['player1', 90]]),
+        missing: [],
+        errors: [],
+      });
+      (anomalyService.detect as jest.Mock).mockRejectedValueOnce(new Error('Trade history unavailable'));
+
+      await expect(service.evaluateTradingActivities('game123')).rejects.toThrow('Trade history unavailable');
+
+      expect(playerRepo.save).not.toHaveBeenCalled();
+      expect(evaluationRepo.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: EvaluationStatus.Failed,
+          missingPlayers: ['player1'],
+          errors: ['Trade history unavailable'],
+          retryAt: expect.any(Date),
+        }),
+      );
+      expect(eventEmitter.emit).not.toHaveBeenCalledWith('trading.evaluated', expect.anything());
     });
 
-    it('should handle empty scores gracefully', async () => {
+    it('should give players left out of the response the median score under the neutral policy', async () => {
       const gameId = 'game123';
       const players = [
         { key: 'player1', tradingScore: 0 },
         { key: 'player2', tradingScore: 0 },
+        { key: 'player3', tradingScore: 500 },
       ];
       
-      const game = {
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue({
         gameId,
-        totalDeposits: 5000,
-        prizePool: 5000,
-        active: false,
-        players,
-      };
-      
-      jest.spyOn(gameRepo, 'findOne').mockResolvedValue({ ...game, players } as any);
-      (aiService.computeScoresWithAnomalyDetection as jest.Mock).mockResolvedValue([]);
+        round: 1,
+        phase: GamePhase.Closed,
+      } as any);
+      (gameConfigService.forRound as jest.Mock).mockResolvedValue({ ...DEFAULT_GAME_RULES, scoringFallback: ScoringFallback.Neutral });
+      jest.spyOn(playerRepo, 'find').mockResolvedValue(players as any);
+      jest.spyOn(playerRepo, 'save').mockResolvedValue(null);
+      (aiScoringClient.computeTradingScores as jest.Mock).mockResolvedValue({
+        scores: new Map([
+          ['player1', 100],
+          ['player2', 300],
+        ]),
+        missing: ['player3'],
+        errors: [],
+      });
       
-      await service.evaluateTradingActivities(gameId);
+      const evaluation = await service.evaluateTradingActivities(gameId);
       
-      expect(playerRepo.save).toHaveBeenCalledTimes(0);
-      expect(eventEmitter.emit).toHaveBeenCalledWith('trading.evaluated', { gameId });
+      expect(players.map(p => p.tradingScore)).toEqual([100, 300, 200]);
+      expect(evaluation).toMatchObject({ status: EvaluationStatus.Partial, retryAt: null });
     });
   });
 
@@ -341,9 +850,10 @@ describe('GameService', () => {
       
       const game = {
         gameId,
-        totalDeposits: 4000,
-        prizePool: 4000,
-        active: false,
+        totalDeposits: 4000n,
+        prizePool: 4000n,
+        round: 1,
+        phase: GamePhase.Closed,
         players,
       };
       
@@ -359,49 +869,169 @@ describe('GameService', () => {
       const winners = [sortedPlayers[0]];
       
       jest.spyOn(gameRepo, 'findOne').mockResolvedValue({ ...game, players } as any);
+      jest.spyOn(playerRepo, 'find').mockResolvedValue(players as any);
+      jest.spyOn(playerRepo, 'save').mockResolvedValue(null);
       jest.spyOn(winnerRepo, 'create').mockImplementation((data) => data);
       jest.spyOn(winnerRepo, 'save').mockResolvedValue(null);
-      jest.spyOn(service, 'buybackAndBurnTokens').mockResolvedValue(null);
-      jest.spyOn(gameRepo, 'save').mockResolvedValue({ ...game, winners, active: true, prizePool: 0 } as any);
+      jest.spyOn(settlementRepo, 'create').mockImplementation((data) => data as any);
+      jest.spyOn(settlementRepo, 'save').mockResolvedValue(null);
+      jest.spyOn(gameRepo, 'save').mockResolvedValue({ ...game, winners, phase: GamePhase.Settled, prizePool: 0n } as any);
       
       const selectedWinners = await service.selectWinners(gameId);
       
-      expect(gameRepo.findOne).toHaveBeenCalledWith({ where: { gameId }, relations: ['players'] });
+      expect(gameRepo.findOne).toHaveBeenCalledWith({ where: { gameId }, lock: { mode: 'pessimistic_write' } });
+      expect(playerRepo.find).toHaveBeenCalledWith({ where: { game: gameId, round: 1 } });
       expect(winnerRepo.create).toHaveBeenCalledWith({
         playerKey: 'player2',
-        prize: Math.floor((4000 * 0.90) / numWinners), // 3600 / 1 = 3600
+        prize: 3600n / BigInt(numWinners), // 3600 / 1 = 3600
+        rank: 1,
+        sharedWith: 1,
+        decidedBy: 'compositeScore',
         game: gameId,
+        round: 1,
       });
       expect(winnerRepo.save).toHaveBeenCalledWith(winners[0]);
-      expect(service.buybackAndBurnTokens).toHaveBeenCalledWith(4000 * 0.10); // 400
+      expect(buybackService.execute).toHaveBeenCalledWith(expect.objectContaining({ game: gameId }), 400n);
+      expect(settlementRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+        game: gameId,
+        prizePool: 4000n,
+        totalPayout: 3600n,
+        buybackAmount: 400n,
+        remainder: 0n,
+      }));
       expect(gameRepo.save).toHaveBeenCalledWith({
         ...game,
         winners,
-        active: true,
-        prizePool: 0,
+        phase: GamePhase.Settled,
+        prizePool: 0n,
       });
       expect(eventEmitter.emit).toHaveBeenCalledWith('winners.selected', {
         gameId,
         winners,
-        buybackAmount: 400,
+        buybackAmount: 400n,
+        remainder: 0n,
+        seed: 'revealedSeed',
+        paidOnChain: false,
       });
       expect(selectedWinners).toEqual(winners);
     });
 
+    it('should keep players with critical anomaly flags out of the winners when the game disqualifies them', async () => {
+      const gameId = 'game123';
+      const players = [
+        { key: 'player1', tradingScore: 150 },
+        { key: 'player2', tradingScore: 200 },
+        { key: 'player3', tradingScore: 100 },
+      ];
+      const game = {
+        gameId,
+        totalDeposits: 3000n,
+        prizePool: 3000n,
+        round: 1,
+        phase: GamePhase.Closed,
+      };
+
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue(game as any);
+      (gameConfigService.forRound as jest.Mock).mockResolvedValue({ ...DEFAULT_GAME_RULES, anomalyPolicy: AnomalyPolicy.Disqualify });
+      jest.spyOn(playerRepo, 'find').mockResolvedValue(players as any);
+      jest.spyOn(playerRepo, 'save').mockResolvedValue(null);
+      jest.spyOn(flagRepo, 'find').mockResolvedValue([
+        { playerKey: 'player2', rule: 'washTrading', severity: AnomalySeverity.Critical },
+        { playerKey: 'player1', rule: 'depositBurst', severity: AnomalySeverity.Warning },
+      ] as AnomalyFlag[]);
+      jest.spyOn(winnerRepo, 'create').mockImplementation(data => data as any);
+      jest.spyOn(winnerRepo, 'save').mockResolvedValue(null);
+      jest.spyOn(settlementRepo, 'create').mockImplementation(data => data as any);
+      jest.spyOn(settlementRepo, 'save').mockResolvedValue(null);
+      jest.spyOn(gameRepo, 'save').mockImplementation(async data => data as any);
+
+      const selectedWinners = await service.selectWinners(gameId);
+
+      expect(flagRepo.find).toHaveBeenCalledWith({ where: { game: gameId, round: 1 } });
+      expect(selectedWinners.map(w => w.playerKey)).toEqual(['player1']);
+      // Disqualified players are still scored.
+      expect(playerRepo.save).toHaveBeenCalledWith(expect.objectContaining({ key: 'player2', compositeScore: 200 }));
+    });
+
+    it('should record indivisible lamports and roll them into the next round', async () => {
+      const gameId = 'gameRemainder';
+      const players = [{ key: 'player1', tradingScore: 10 }];
+      const game = { gameId, totalDeposits: 1001n, prizePool: 1001n, rolloverLamports: 0n, phase: GamePhase.Closed, players };
+
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue(game as any);
+      jest.spyOn(playerRepo, 'find').mockResolvedValue(players as any);
+      jest.spyOn(playerRepo, 'save').mockResolvedValue(null);
+      jest.spyOn(winnerRepo, 'create').mockImplementation((data) => data);
+      jest.spyOn(winnerRepo, 'save').mockResolvedValue(null);
+      jest.spyOn(settlementRepo, 'create').mockImplementation((data) => data as any);
+      jest.spyOn(settlementRepo, 'save').mockResolvedValue(null);
+      jest.spyOn(gameRepo, 'save').mockImplementation(async (saved) => saved as any);
+
+      const [winner] = await service.selectWinners(gameId);
+
+      expect(winner.prize).toBe(900n);
+      expect(buybackService.execute).toHaveBeenCalledWith(expect.objectContaining({ game: gameId }), 100n);
+      expect(settlementRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+        prizePool: 1001n,
+        totalPayout: 900n,
+        buybackAmount: 100n,
+        remainder: 1n,
+        remainderDestination: RemainderDestination.Rollover,
+      }));
+      expect(game.rolloverLamports).toBe(1n);
+      expect(game.prizePool).toBe(0n);
+    });
+
+    it('should rank players by composite score and persist the breakdown', async () => {
+      const gameId = 'gameComposite';
+      const players = [
+        { key: 'player1', tradingScore: 500 },
+        { key: 'player2', tradingScore: 100 },
+      ];
+      const game = { gameId, totalDeposits: 1000n, prizePool: 1000n, phase: GamePhase.Closed, players };
+
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue(game as any);
+      jest.spyOn(playerRepo, 'find').mockResolvedValue(players as any);
+      (scoringService.scorePlayers as jest.Mock).mockResolvedValue([
+        { playerKey: 'player1', tokenHoldings: 0, tradingPerformance: 1, depositSpeed: 0, random: 0.5, composite: 0.35 },
+        { playerKey: 'player2', tokenHoldings: 1, tradingPerformance: 0.2, depositSpeed: 0.9, random: 0.1, composite: 0.65 },
+      ]);
+      jest.spyOn(playerRepo, 'save').mockResolvedValue(null);
+      jest.spyOn(winnerRepo, 'create').mockImplementation((data) => data);
+      jest.spyOn(winnerRepo, 'save').mockResolvedValue(null);
+      jest.spyOn(settlementRepo, 'create').mockImplementation((data) => data as any);
+      jest.spyOn(settlementRepo, 'save').mockResolvedValue(null);
+      jest.spyOn(gameRepo, 'save').mockResolvedValue(game as any);
+
+      const selectedWinners = await service.selectWinners(gameId);
+
+      expect(randomnessService.reveal).toHaveBeenCalledWith(gameId, game.round, expect.anything());
+      expect(scoringService.scorePlayers).toHaveBeenCalledWith(game, players, 'revealedSeed', null);
+      expect(playerRepo.save).toHaveBeenCalledWith(expect.objectContaining({
+        key: 'player2',
+        tokenHoldingsScore: 1,
+        tradingPerformanceScore: 0.2,
+        depositSpeedScore: 0.9,
+        randomScore: 0.1,
+        compositeScore: 0.65,
+      }));
+      expect(selectedWinners.map(w => w.playerKey)).toEqual(['player2']);
+    });
+
     it('should throw an error if the game does not exist', async () => {
       const gameId = 'nonexistentGame';
       jest.spyOn(gameRepo, 'findOne').mockResolvedValue(null);
       
-      await expect(service.selectWinners(gameId)).rejects.toThrow('Game is not active or does not exist.');
+      await expect(service.selectWinners(gameId)).rejects.toThrow(RumbleError.GameNotFound);
     });
 
     it('should throw an error if the game has no deposits', async () => {
       const gameId = 'gameNoDeposits';
       const game = {
         gameId,
-        totalDeposits: 0,
-        prizePool: 0,
-        active: false,
+        totalDeposits: 0n,
+        prizePool: 0n,
+        phase: GamePhase.Closed,
         players: [],
       };
       
@@ -410,13 +1040,50 @@ describe('GameService', () => {
       await expect(service.selectWinners(gameId)).rejects.toThrow(RumbleError.NoDeposits);
     });
 
+    it('should refuse to settle on partial scores when the game blocks settlement', async () => {
+      const gameId = 'game123';
+      const game = {
+        gameId,
+        round: 1,
+        totalDeposits: 5000n,
+        prizePool: 5000n,
+        phase: GamePhase.Closed,
+      };
+
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue(game as any);
+      (gameConfigService.forRound as jest.Mock).mockResolvedValue({
+        ...DEFAULT_GAME_RULES,
+        scoringFallback: ScoringFallback.BlockSettlement,
+      });
+      jest
+        .spyOn(evaluationRepo, 'findOne')
+        .mockResolvedValue({ status: EvaluationStatus.Partial, missingPlayers: ['player2'] } as TradingEvaluation);
+
+      await expect(service.selectWinners(gameId)).rejects.toThrow(RumbleError.ScoringIncomplete);
+      expect(evaluationRepo.findOne).toHaveBeenCalledWith({ where: { game: gameId, round: 1 }, order: { id: 'DESC' } });
+      expect(randomnessService.reveal).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to settle a game whose books do not balance', async () => {
+      const gameId = 'game123';
+      jest
+        .spyOn(reconciliationService, 'assertBalanced')
+        .mockRejectedValue(new RumbleError.BooksUnbalanced({ gameId, round: 1, reportId: 7, discrepancies: [] }));
+      jest.spyOn(gameRepo, 'findOne');
+
+      await expect(service.selectWinners(gameId)).rejects.toThrow(RumbleError.BooksUnbalanced);
+      expect(reconciliationService.assertBalanced).toHaveBeenCalledWith(gameId);
+      expect(gameRepo.findOne).not.toHaveBeenCalled();
+      expect(randomnessService.reveal).not.toHaveBeenCalled();
+    });
+
     it('should throw an error if the game is already active', async () => {
       const gameId = 'activeGame';
       const game = {
         gameId,
-        totalDeposits: 5000,
-        prizePool: 5000,
-        active: true,
+        totalDeposits: 5000n,
+        prizePool: 5000n,
+        phase: GamePhase.Settled,
         players: [],
       };
       
@@ -429,15 +1096,15 @@ describe('GameService', () => {
       const gameId = 'gameZeroWinners';
       const game = {
         gameId,
-        totalDeposits: 1000,
-        prizePool: 1000,
-        active: false,
+        totalDeposits: 1000n,
+        prizePool: 1000n,
+        phase: GamePhase.Closed,
         players: [],
       };
       
       jest.spyOn(gameRepo, 'findOne').mockResolvedValue(game as any);
       jest.spyOn(service, 'selectWinners').mockImplementation(async () => {
-        throw RumbleError.DivisionByZero;
+        throw new RumbleError.DivisionByZero();
       });
       
       await expect(service.selectWinners(gameId)).rejects.toThrow(RumbleError.DivisionByZero);
@@ -449,41 +1116,48 @@ describe('GameService', () => {
       const gameId = 'game123';
       const game = {
         gameId,
-        totalDeposits: 5000,
-        prizePool: 5000,
-        active: true,
+        totalDeposits: 5000n,
+        prizePool: 5000n,
+        rolloverLamports: 0n,
+        round: 3,
+        phase: GamePhase.Settled,
         players: [{ key: 'player1' }, { key: 'player2' }],
         winners: [{ key: 'player1' }],
       };
       
       jest.spyOn(gameRepo, 'findOne').mockResolvedValue({ ...game, players: game.players, winners: game.winners } as any);
-      jest.spyOn(winnerRepo, 'delete').mockResolvedValue({ affected: 1 } as any);
-      jest.spyOn(playerRepo, 'delete').mockResolvedValue({ affected: 2 } as any);
-      jest.spyOn(gameRepo, 'save').mockResolvedValue({ ...game, active: false, totalDeposits: 0, prizePool: 0, players: [], winners: [] } as any);
+      jest.spyOn(winnerRepo, 'delete');
+      jest.spyOn(playerRepo, 'delete');
+      jest.spyOn(gameRepo, 'save').mockResolvedValue({ ...game, phase: GamePhase.Archived, totalDeposits: 0n, prizePool: 0n, players: [], winners: [] } as any);
       
       await service.resetGame(gameId);
       
-      expect(gameRepo.findOne).toHaveBeenCalledWith({ where: { gameId }, relations: ['players', 'winners'] });
-      expect(winnerRepo.delete).toHaveBeenCalledWith({ game: gameId });
-      expect(playerRepo.delete).toHaveBeenCalledWith({ game: gameId });
+      expect(gameRepo.findOne).toHaveBeenCalledWith({ where: { gameId }, lock: { mode: 'pessimistic_write' } });
+      expect(roundArchiveService.archive).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ gameId, round: 3 }),
+        { commitment: 'seedCommitment', seed: 'revealedSeed' },
+      );
+      expect(winnerRepo.delete).not.toHaveBeenCalled();
+      expect(playerRepo.delete).not.toHaveBeenCalled();
       expect(gameRepo.save).toHaveBeenCalledWith({
         ...game,
-        active: false,
-        totalDeposits: 0,
-        prizePool: 0,
-        players: [],
-        winners: [],
+        phase: GamePhase.Archived,
+        totalDeposits: 0n,
+        prizePool: 0n,
+        players: game.players,
+        winners: game.winners,
       });
-      expect(eventEmitter.emit).toHaveBeenCalledWith('game.reset', { gameId });
+      expect(eventEmitter.emit).toHaveBeenCalledWith('game.reset', { gameId, round: 3 });
     });
 
     it('should throw an error if the game is not active', async () => {
       const gameId = 'inactiveGame';
       const game = {
         gameId,
-        totalDeposits: 0,
-        prizePool: 0,
-        active: false,
+        totalDeposits: 0n,
+        prizePool: 0n,
+        phase: GamePhase.Open,
         players: [],
         winners: [],
       };
@@ -497,59 +1171,38 @@ describe('GameService', () => {
       const gameId = 'nonexistentGame';
       jest.spyOn(gameRepo, 'findOne').mockResolvedValue(null);
       
-      await expect(service.resetGame(gameId)).rejects.toThrow('Game is not active or does not exist.');
+      await expect(service.resetGame(gameId)).rejects.toThrow(RumbleError.GameNotFound);
     });
 
-    it('should handle database deletion errors gracefully', async () => {
+    it('should leave the game settled when archiving fails', async () => {
       const gameId = 'game123';
       const game = {
         gameId,
-        totalDeposits: 5000,
-        prizePool: 5000,
-        active: true,
+        totalDeposits: 5000n,
+        prizePool: 5000n,
+        phase: GamePhase.Settled,
         players: [{ key: 'player1' }, { key: 'player2' }],
         winners: [{ key: 'player1' }],
       };
       
       jest.spyOn(gameRepo, 'findOne').mockResolvedValue({ ...game, players: game.players, winners: game.winners } as any);
-      jest.spyOn(winnerRepo, 'delete').mockRejectedValue(new Error('Database deletion error'));
+      jest.spyOn(roundArchiveService, 'archive').mockRejectedValue(new Error('Database save error'));
+      jest.spyOn(gameRepo, 'save');
       
-      await expect(service.resetGame(gameId)).rejects.toThrow('Database deletion error');
+      await expect(service.resetGame(gameId)).rejects.toThrow('Database save error');
+      expect(gameRepo.save).not.toHaveBeenCalled();
       expect(eventEmitter.emit).not.toHaveBeenCalled();
     });
   });
 
-  describe('buybackAndBurnTokens', () => {
-    it('should execute buyback and burn tokens successfully', async () => {
-      const amount = 1000;
-      jest.spyOn(service, 'buybackAndBurnTokens').mockResolvedValue(null);
-      const loggerSpy = jest.spyOn(service['logger'], 'log').mockImplementation(() => {});
-      
-      await service.buybackAndBurnTokens(amount);
-      
-      expect(loggerSpy).toHaveBeenCalledWith(`Buyback and burn of ${amount} RUMBLE tokens executed.`);
-    });
-
-    it('should handle errors during buyback and burn tokens', async () => {
-      const amount = 1000;
-      jest.spyOn(service, 'buybackAndBurnTokens').mockImplementation(() => {
-        throw new Error('Burning failed');
-      });
-      const loggerSpy = jest.spyOn(service['logger'], 'log').mockImplementation(() => {});
-      
-      await expect(service.buybackAndBurnTokens(amount)).rejects.toThrow('Burning failed');
-      expect(loggerSpy).not.toHaveBeenCalled();
-    });
-  });
-
   describe('Additional Edge Cases and Scenarios', () => {
     it('should handle selecting winners when there are no players', async () => {
       const gameId = 'gameNoPlayers';
       const game = {
         gameId,
-        totalDeposits: 1000,
-        prizePool: 1000,
-        active: false,
+        totalDeposits: 1000n,
+        prizePool: 1000n,
+        phase: GamePhase.Closed,
         players: [],
       };
       
@@ -558,17 +1211,20 @@ describe('GameService', () => {
       await expect(service.selectWinners(gameId)).resolves.toEqual([]);
       expect(winnerRepo.create).not.toHaveBeenCalled();
       expect(winnerRepo.save).not.toHaveBeenCalled();
-      expect(service.buybackAndBurnTokens).toHaveBeenCalledWith(100);
+      expect(buybackService.execute).toHaveBeenCalledWith(expect.objectContaining({ game: gameId }), 100n);
       expect(gameRepo.save).toHaveBeenCalledWith({
         ...game,
         winners: [],
-        active: true,
-        prizePool: 0,
+        phase: GamePhase.Settled,
+        prizePool: 0n,
       });
       expect(eventEmitter.emit).toHaveBeenCalledWith('winners.selected', {
         gameId,
         winners: [],
-        buybackAmount: 100,
+        buybackAmount: 100n,
+        remainder: 900n,
+        seed: 'revealedSeed',
+        paidOnChain: false,
       });
     });
 
@@ -584,9 +1240,9 @@ describe('GameService', () => {
       
       const game = {
         gameId,
-        totalDeposits: 5000,
-        prizePool: 5000,
-        active: false,
+        totalDeposits: 5000n,
+        prizePool: 5000n,
+        phase: GamePhase.Closed,
         players,
       };
       
@@ -602,10 +1258,13 @@ describe('GameService', () => {
       const winners = [sortedPlayers[0]];
       
       jest.spyOn(gameRepo, 'findOne').mockResolvedValue({ ...game, players } as any);
+      jest.spyOn(playerRepo, 'find').mockResolvedValue(players as any);
+      jest.spyOn(playerRepo, 'save').mockResolvedValue(null);
       jest.spyOn(winnerRepo, 'create').mockImplementation((data) => data);
       jest.spyOn(winnerRepo, 'save').mockResolvedValue(null);
-      jest.spyOn(service, 'buybackAndBurnTokens').mockResolvedValue(null);
-      jest.spyOn(gameRepo, 'save').mockResolvedValue({ ...game, winners, active: true, prizePool: 0 } as any);
+      jest.spyOn(settlementRepo, 'create').mockImplementation((data) => data as any);
+      jest.spyOn(settlementRepo, 'save').mockResolvedValue(null);
+      jest.spyOn(gameRepo, 'save').mockResolvedValue({ ...game, winners, phase: GamePhase.Settled, prizePool: 0n } as any);
       
       const selectedWinners = await service.selectWinners(gameId);
       
@@ -618,20 +1277,452 @@ describe('GameService', () => {
       const gameId = 'alreadyResetGame';
       const game = {
         gameId,
-        totalDeposits: 0,
-        prizePool: 0,
-        active: false,
+        totalDeposits: 0n,
+        prizePool: 0n,
+        phase: GamePhase.Archived,
         players: [],
         winners: [],
       };
       
       jest.spyOn(gameRepo, 'findOne').mockResolvedValue({ ...game } as any);
       
+      jest.spyOn(gameRepo, 'save');
+
       await expect(service.resetGame(gameId)).rejects.toThrow(RumbleError.GameNotActive);
-      expect(winnerRepo.delete).not.toHaveBeenCalled();
-      expect(playerRepo.delete).not.toHaveBeenCalled();
+      expect(roundArchiveService.archive).not.toHaveBeenCalled();
       expect(gameRepo.save).not.toHaveBeenCalled();
       expect(eventEmitter.emit).not.toHaveBeenCalled();
     });
   });
+
+  describe('concurrency', () => {
+    let storedGame: any;
+    let storedPlayers: Map<string, any>;
+    let storedDeposits: any[];
+
+    beforeEach(() => {
+      storedGame = {
+        gameId: 'game123',
+        totalDeposits: 0n,
+        prizePool: 0n,
+        rolloverLamports: 0n,
+        vaultAddress: 'vault1',
+        round: 1,
+        phase: GamePhase.Open,
+      };
+      storedPlayers = new Map();
+      storedDeposits = [];
+
+      // Every read returns a fresh copy of the committed row, as a database would.
+      jest.spyOn(gameRepo, 'findOne').mockImplementation(async () => ({ ...storedGame }));
+      jest.spyOn(gameRepo, 'save').mockImplementation(async (game: any) => (storedGame = { ...game }));
+      jest.spyOn(playerRepo, 'findOne').mockImplementation(async ({ where }: any) => {
+        const player = storedPlayers.get(where.key);
+        return player ? { ...player } : null;
+      });
+      jest.spyOn(playerRepo, 'find').mockImplementation(async () => [...storedPlayers.values()].map(player => ({ ...player })));
+      jest.spyOn(playerRepo, 'create').mockImplementation(data => data as any);
+      jest.spyOn(playerRepo, 'save').mockImplementation(async (player: any) => {
+        storedPlayers.set(player.key, { ...player });
+        return player;
+      });
+      jest.spyOn(depositRepo, 'findOne').mockImplementation(
+        async ({ where }: any) =>
+          storedDeposits.find(deposit =>
+            where.signature
+              ? deposit.signature === where.signature
+              : deposit.playerKey === where.playerKey && deposit.idempotencyKey === where.idempotencyKey,
+          ) ?? null,
+      );
+      jest.spyOn(depositRepo, 'save').mockImplementation(async (deposit: any) => {
+        storedDeposits.push(deposit);
+        return deposit;
+      });
+      jest.spyOn(winnerRepo, 'create').mockImplementation(data => data as any);
+      jest.spyOn(winnerRepo, 'save').mockImplementation(async winner => winner as any);
+      jest.spyOn(settlementRepo, 'create').mockImplementation(data => data as any);
+      jest.spyOn(settlementRepo, 'save').mockImplementation(async settlement => settlement as any);
+    });
+
+    it('should not lose updates when deposits arrive concurrently', async () => {
+      await Promise.all(
+        Array.from({ length: 10 }, (_, i) => service.deposit(`player${i % 3}`, 100n, 'game123', `sig${i}`)),
+      );
+
+      const playerTotal = [...storedPlayers.values()].reduce((sum, player) => sum + player.deposit, 0n);
+      expect(storedGame.totalDeposits).toBe(1000n);
+      expect(storedGame.prizePool).toBe(1000n);
+      expect(playerTotal).toBe(1000n);
+      expect(storedDeposits).toHaveLength(10);
+    });
+
+    it('should credit a signature once when it is submitted twice at the same time', async () => {
+      const receipts = await Promise.all([
+        service.deposit('player1', 100n, 'game123', 'sig1'),
+        service.deposit('player1', 100n, 'game123', 'sig1'),
+      ]);
+
+      expect(receipts.map(receipt => receipt.replayed).sort()).toEqual([false, true]);
+      expect(storedGame.totalDeposits).toBe(100n);
+      expect(storedPlayers.get('player1').deposit).toBe(100n);
+      expect(eventEmitter.emit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should settle a game once when winners are selected concurrently', async () => {
+      storedGame = { ...storedGame, phase: GamePhase.Closed, totalDeposits: 1000n, prizePool: 1000n };
+      storedPlayers.set('player1', { key: 'player1', deposit: 500n, tradingScore: 10 });
+      storedPlayers.set('player2', { key: 'player2', deposit: 500n, tradingScore: 20 });
+
+      const results = await Promise.allSettled([service.selectWinners('game123'), service.selectWinners('game123')]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      const [rejected] = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      expect(rejected.reason).toBeInstanceOf(GamePhaseError);
+      expect(winnerRepo.save).toHaveBeenCalledTimes(1);
+      expect(settlementRepo.save).toHaveBeenCalledTimes(1);
+      expect(buybackService.execute).toHaveBeenCalledTimes(1);
+      expect(storedGame.phase).toBe(GamePhase.Settled);
+    });
+
+    it('should leave the game closed when settlement fails part-way', async () => {
+      storedGame = { ...storedGame, phase: GamePhase.Closed, totalDeposits: 1000n, prizePool: 1000n };
+      storedPlayers.set('player1', { key: 'player1', deposit: 1000n, tradingScore: 10 });
+      jest.spyOn(settlementRepo, 'save').mockRejectedValue(new Error('Database save error'));
+
+      await expect(service.selectWinners('game123')).rejects.toThrow('Database save error');
+      expect(storedGame.phase).toBe(GamePhase.Closed);
+      expect(buybackService.execute).not.toHaveBeenCalled();
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('on-chain games', () => {
+    let account: string;
+    let storedGame: any;
+    let storedPlayers: any[];
+
+    const players = [
+      { key: 'player1', deposit: 1000n, tradingScore: 150 },
+      { key: 'player2', deposit: 1000n, tradingScore: 200 },
+      { key: 'player3', deposit: 1000n, tradingScore: 100 },
+      { key: 'player4', deposit: 1000n, tradingScore: 180 },
+    ];
+
+    beforeEach(async () => {
+      ({ account } = await program.initialize());
+      for (const player of players) {
+        await program.deposit(account, player.key, player.deposit);
+      }
+      storedGame = {
+        gameId: 'game123',
+        totalDeposits: 4000n,
+        prizePool: 4000n,
+        rolloverLamports: 0n,
+        round: 1,
+        phase: GamePhase.Closed,
+        programAccount: account,
+        chainDiscrepancies: null,
+      };
+      storedPlayers = players.map(player => ({ ...player }));
+
+      jest.spyOn(gameRepo, 'findOne').mockImplementation(async () => ({ ...storedGame }));
+      jest.spyOn(gameRepo, 'save').mockImplementation(async (game: any) => (storedGame = { ...game }));
+      jest.spyOn(playerRepo, 'find').mockImplementation(async () => storedPlayers.map(player => ({ ...player })));
+      jest.spyOn(playerRepo, 'save').mockImplementation(async player => player as any);
+      jest.spyOn(winnerRepo, 'create').mockImplementation(data => data as any);
+      jest.spyOn(winnerRepo, 'save').mockImplementation(async winner => winner as any);
+      jest.spyOn(settlementRepo, 'create').mockImplementation(data => data as any);
+      jest.spyOn(settlementRepo, 'save').mockImplementation(async settlement => settlement as any);
+    });
+
+    it('should build deposits through the program and only credit those made through it', async () => {
+      storedGame = { ...storedGame, phase: GamePhase.Open, vaultAddress: 'vault1' };
+      jest.spyOn(playerRepo, 'findOne').mockResolvedValue(null);
+      jest.spyOn(playerRepo, 'create').mockImplementation(data => data as any);
+
+      const transaction = await service.depositTransaction('player5', 500n, 'game123');
+      expect(transaction).toEqual(expect.any(String));
+      const state = await program.fetchGameState(account);
+      expect(state.players.find(p => p.key === 'player5').deposit).toBe(500n);
+
+      await service.deposit('player5', 500n, 'game123', 'sig5');
+      expect(depositVerifier.verify).toHaveBeenCalledWith({
+        signature: 'sig5',
+        sender: 'player5',
+        vault: account,
+        amount: 500n,
+        program: program.programId,
+        window: { from: storedGame.openedAt, to: storedGame.closesAt },
+      });
+      expect(storedGame.totalDeposits).toBe(4500n);
+    });
+
+    it('should not build program deposits for a game that takes plain transfers', async () => {
+      storedGame = { ...storedGame, phase: GamePhase.Open, programAccount: null };
+
+      await expect(service.depositTransaction('player5', 500n, 'game123')).rejects.toBeInstanceOf(RumbleError.InvalidRequest);
+    });
+
+    it('should open a program account only once the new game is saved', async () => {
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue(null);
+      jest.spyOn(gameRepo, 'create').mockImplementation(data => data as any);
+      jest.spyOn(gameRepo, 'save').mockRejectedValue(new Error('Database error'));
+      jest.spyOn(program, 'initialize');
+
+      await expect(service.initializeGame('newGame')).rejects.toThrow('Database error');
+      expect(program.initialize).not.toHaveBeenCalled();
+    });
+
+    it('should open a program account for a game that opens without one', async () => {
+      storedGame = { ...storedGame, phase: GamePhase.Created, programAccount: null };
+
+      const opened = await service.openGame('game123');
+
+      expect(opened.programAccount).toBe('game-state-2');
+      expect(storedGame.programAccount).toBe('game-state-2');
+    });
+
+    it('should open a program account for a new game and reuse it in later rounds', async () => {
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue(null);
+      jest.spyOn(gameRepo, 'create').mockImplementation(data => data as any);
+
+      const created = await service.initializeGame('newGame');
+      expect(created.programAccount).toBe('game-state-2');
+
+      jest.spyOn(gameRepo, 'findOne').mockResolvedValue({ ...created, phase: GamePhase.Archived } as any);
+      jest.spyOn(program, 'initialize');
+      await service.initializeGame('newGame');
+      expect(program.initialize).not.toHaveBeenCalled();
+      expect(gameRepo.save).toHaveBeenLastCalledWith(expect.objectContaining({ round: 2 }));
+    });
+
+    it('should write scores once the program has them', async () => {
+      storedPlayers = players.map(player => ({ ...player, tradingScore: 0 }));
+      (aiScoringClient.computeTradingScores as jest.Mock).mockResolvedValue({
+        scores: new Map(players.map(player => [player.key, player.tradingScore])),
+        missing: [],
+        errors: [],
+      });
+
+      await service.evaluateTradingActivities('game123');
+
+      const chain = await program.fetchGameState(account);
+      expect(chain.players.map(player => player.tradingScore)).toEqual([150, 200, 100, 180]);
+      expect(playerRepo.save).toHaveBeenCalledTimes(4);
+      expect(storedGame.chainDiscrepancies).toBeNull();
+    });
+
+    it('should not send scores to the program when clustering fails', async () => {
+      (aiScoringClient.computeTradingScores as jest.Mock).mockResolvedValue({
+        scores: new Map(players.map(player => [player.key, player.tradingScore])),
+        missing: [],
+        errors: [],
+      });
+      (sybilService.cluster as jest.Mock).mockRejectedValueOnce(new Error('History source unavailable'));
+
+      await expect(service.evaluateTradingActivities('game123')).rejects.toThrow('History source unavailable');
+
+      const chain = await program.fetchGameState(account);
+      expect(chain.players.map(player => player.tradingScore)).toEqual([0, 0, 0, 0]);
+      expect(playerRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should record scores the program did not take and hold the game', async () => {
+      storedPlayers = [...players, { key: 'player5', deposit: 0n, tradingScore: 0 }];
+      (aiScoringClient.computeTradingScores as jest.Mock).mockResolvedValue({
+        scores: new Map([['player5', 90]]),
+        missing: [],
+        errors: [],
+      });
+
+      await service.evaluateTradingActivities('game123');
+
+      expect(storedGame.chainDiscrepancies).toEqual([
+        expect.objectContaining({ step: 'evaluate', field: 'tradingScore', playerKey: 'player5', database: '90', chain: 'none' }),
+      ]);
+      await expect(service.evaluateTradingActivities('game123')).rejects.toThrow(RumbleError.ChainOutOfSync);
+    });
+
+    it('should settle through the program and buy back with the share it moved out', async () => {
+      await program.evaluateTradingActivity(account, players.map(player => ({ player: player.key, score: player.tradingScore })));
+
+      const winners = await service.selectWinners('game123');
+
+      expect(winners).toEqual([expect.objectContaining({ playerKey: 'player2', prize: 3600n })]);
+      expect(program.balances.get('player2')).toBe(3600n);
+      expect(program.boughtBack).toBe(400n);
+      expect(buybackService.execute).toHaveBeenCalledWith(expect.objectContaining({ game: 'game123' }), 400n);
+      expect(eventEmitter.emit).toHaveBeenCalledWith('winners.selected', expect.objectContaining({ paidOnChain: true }));
+      expect(storedGame).toMatchObject({ phase: GamePhase.Settled, chainDiscrepancies: null });
+    });
+
+    it('should pay the winners the backend ranked, not the best trading scores', async () => {
+      await program.evaluateTradingActivity(account, players.map(player => ({ player: player.key, score: player.tradingScore })));
+      // player3 has the lowest trading score but the best composite score.
+      (scoringService.scorePlayers as jest.Mock).mockImplementation(async (_game, scored) =>
+        scored.map(p => ({
+          playerKey: p.key,
+          tokenHoldings: 0,
+          tradingPerformance: 0,
+          depositSpeed: 0,
+          random: 0,
+          composite: p.key === 'player3' ? 1000 : p.tradingScore,
+        })),
+      );
+
+      const winners = await service.selectWinners('game123');
+
+      expect(winners).toEqual([expect.objectContaining({ playerKey: 'player3', prize: 3600n })]);
+      expect(program.balances).toEqual(new Map([['player3', 3600n]]));
+      expect(storedGame).toMatchObject({ phase: GamePhase.Settled, chainDiscrepancies: null });
+    });
+
+    it('should not hold the game lock while the program pays', async () => {
+      const selectWinners = program.selectWinners.bind(program);
+      jest.spyOn(program, 'selectWinners').mockImplementation(async (...args) => {
+        expect(storedGame.phase).toBe(GamePhase.Settling);
+        // Transactions here run one at a time, so this would never start while the settlement held the lock.
+        await dataSource.transaction(async () => undefined);
+        return selectWinners(...args);
+      });
+
+      await service.selectWinners('game123');
+
+      expect(storedGame.phase).toBe(GamePhase.Settled);
+      expect(randomnessService.reveal).toHaveBeenCalledTimes(1);
+    });
+
+    it('should record a payment an earlier attempt made without paying again', async () => {
+      jest.spyOn(winnerRepo, 'save').mockRejectedValueOnce(new Error('Database save error'));
+
+      await expect(service.selectWinners('game123')).rejects.toThrow('Database save error');
+      expect(storedGame.phase).toBe(GamePhase.Settling);
+
+      const winners = await service.selectWinners('game123');
+
+      expect(winners).toEqual([expect.objectContaining({ playerKey: 'player2', prize: 3600n })]);
+      expect(program.balances).toEqual(new Map([['player2', 3600n]]));
+      expect(storedGame).toMatchObject({ phase: GamePhase.Settled, chainDiscrepancies: null });
+    });
+
+    it('should leave the game Settling when the payment may still land', async () => {
+      jest.spyOn(program, 'selectWinners').mockRejectedValue(new Error('Transaction was not confirmed in 60.00 seconds'));
+
+      await expect(service.selectWinners('game123')).rejects.toThrow('not confirmed');
+
+      expect(storedGame.phase).toBe(GamePhase.Settling);
+      expect(winnerRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should write nothing when the program rejects the settlement', async () => {
+      jest.spyOn(program, 'selectWinners').mockRejectedValue(new RumbleError.InvalidPayout({ playerKey: 'player2' }));
+
+      await expect(service.selectWinners('game123')).rejects.toThrow(RumbleError.InvalidPayout);
+
+      expect(winnerRepo.save).not.toHaveBeenCalled();
+      expect(settlementRepo.save).not.toHaveBeenCalled();
+      expect(storedGame.phase).toBe(GamePhase.Closed);
+      expect(program.balances.size).toBe(0);
+    });
+
+    it('should hold the game instead of settling when its deposits differ from the program account', async () => {
+      storedGame.totalDeposits = 5000n;
+      storedGame.prizePool = 5000n;
+
+      await expect(service.selectWinners('game123')).rejects.toThrow(RumbleError.ChainOutOfSync);
+
+      expect(storedGame.chainDiscrepancies).toEqual([
+        expect.objectContaining({ step: 'select winners', field: 'totalDeposits', database: '5000', chain: '4000' }),
+      ]);
+      expect(randomnessService.reveal).not.toHaveBeenCalled();
+      expect(winnerRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should record what the program paid when it differs from the settlement', async () => {
+      const selectWinners = program.selectWinners.bind(program);
+      jest
+        .spyOn(program, 'selectWinners')
+        .mockImplementation(async (...args) => ({ ...(await selectWinners(...args)), prizes: [3000n], buybackAmount: 1000n }));
+
+      await service.selectWinners('game123');
+
+      expect(storedGame.phase).toBe(GamePhase.Settled);
+      expect(storedGame.chainDiscrepancies).toEqual([
+        expect.objectContaining({ field: 'prize', playerKey: 'player2', database: '3600', chain: '3000' }),
+        expect.objectContaining({ field: 'buybackAmount', database: '400', chain: '1000' }),
+      ]);
+    });
+
+    it('should reset the program account along with the round', async () => {
+      await program.evaluateTradingActivity(account, players.map(player => ({ player: player.key, score: player.tradingScore })));
+      await service.selectWinners('game123');
+
+      await service.resetGame('game123');
+
+      expect(storedGame.phase).toBe(GamePhase.Archived);
+      expect(await program.fetchGameState(account)).toMatchObject({ active: false, players: [], totalDeposits: 0n });
+    });
+
+    it('should pay the next round out of its deposits and the rollover the program kept', async () => {
+      // Round one pays less than the winners' share, so 600 lamports roll over.
+      jest.spyOn(PrizeDistributionService.prototype, 'distribute').mockReturnValueOnce([3000n]);
+      await service.selectWinners('game123');
+      await service.resetGame('game123');
+
+      expect(storedGame).toMatchObject({ phase: GamePhase.Archived, rolloverLamports: 600n, chainDiscrepancies: null });
+      expect(await program.fetchGameState(account)).toMatchObject({ totalDeposits: 0n, prizePool: 600n });
+
+      for (const player of players) {
+        await program.deposit(account, player.key, player.deposit);
+      }
+      storedGame = { ...storedGame, round: 2, phase: GamePhase.Closed, totalDeposits: 4000n, prizePool: 4600n };
+
+      const winners = await service.selectWinners('game123');
+
+      expect(winners).toEqual([expect.objectContaining({ playerKey: 'player2', prize: 4140n })]);
+      expect(program.balances.get('player2')).toBe(7140n);
+      expect(storedGame).toMatchObject({ phase: GamePhase.Settled, chainDiscrepancies: null });
+    });
+
+    it('should not hold the game lock while the program resets', async () => {
+      await service.selectWinners('game123');
+      const resetGame = program.resetGame.bind(program);
+      jest.spyOn(program, 'resetGame').mockImplementation(async account => {
+        expect(storedGame.phase).toBe(GamePhase.Resetting);
+        // Transactions here run one at a time, so this would never start while the reset held the lock.
+        await dataSource.transaction(async () => undefined);
+        return resetGame(account);
+      });
+
+      await service.resetGame('game123');
+
+      expect(storedGame.phase).toBe(GamePhase.Archived);
+    });
+
+    it('should archive a round whose account an earlier attempt already reset', async () => {
+      await service.selectWinners('game123');
+      const resetGame = program.resetGame.bind(program);
+      jest.spyOn(program, 'resetGame').mockImplementationOnce(async account => {
+        await resetGame(account);
+        throw new Error('Transaction was not confirmed in 60.00 seconds');
+      });
+
+      await expect(service.resetGame('game123')).rejects.toThrow('not confirmed');
+      expect(storedGame.phase).toBe(GamePhase.Resetting);
+      expect(roundArchiveService.archive).not.toHaveBeenCalled();
+
+      await service.resetGame('game123');
+
+      expect(roundArchiveService.archive).toHaveBeenCalledTimes(1);
+      expect(storedGame).toMatchObject({ phase: GamePhase.Archived, chainDiscrepancies: null });
+    });
+
+    it('should not archive a round the program refuses to reset', async () => {
+      storedGame.phase = GamePhase.Settled;
+
+      await expect(service.resetGame('game123')).rejects.toThrow(RumbleError.GameNotActive);
+      expect(roundArchiveService.archive).not.toHaveBeenCalled();
+      expect(storedGame.phase).toBe(GamePhase.Settled);
+    });
+  });
 });
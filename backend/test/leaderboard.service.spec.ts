@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { LEADERBOARD_THROTTLE_MS, LeaderboardService } from '../src/game/leaderboard.service';
+import { GameState } from '../src/database/entities/game-state.entity';
+import { Player } from '../src/database/entities/player.entity';
+import { ScoringService } from '../src/scoring/scoring.service';
+import { PrizeDistributionService, PRIZE_DISTRIBUTION_STRATEGIES } from '../src/prize/prize-distribution.service';
+import { DEFAULT_DISTRIBUTION_STRATEGIES } from '../src/prize/distribution-strategies';
+import { GamePhase } from '../src/game/game-lifecycle';
+import { AnomalyService } from '../src/anomaly/anomaly.service';
+import { AnomalyPolicy } from '../src/anomaly/anomaly-policy';
+import { AnomalySeverity } from '../src/anomaly/anomaly-rules';
+import { AnomalyFlag } from '../src/database/entities/anomaly-flag.entity';
+import { SybilService } from '../src/sybil/sybil.service';
+import { GameConfigService } from '../src/game/game-config.service';
+import { DEFAULT_GAME_RULES } from '../src/game/game-config';
+import { TieBreaker } from '../src/scoring/ranking';
+
+describe('LeaderboardService', () => {
+  let service: LeaderboardService;
+  let gameRepo: Repository<GameState>;
+  let playerRepo: Repository<Player>;
+  let scoringService: ScoringService;
+  let gameConfigService: GameConfigService;
+  let anomalyService: AnomalyService;
+  let eventEmitter: EventEmitter2;
+
+  const game = { gameId: 'game123', round: 1, phase: GamePhase.Open } as GameState;
+  const player = (key: string, tradingScore: number) => ({ key, tradingScore, deposit: 1000n, firstDepositAt: null }) as Player;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeaderboardService,
+        PrizeDistributionService,
+        { provide: PRIZE_DISTRIBUTION_STRATEGIES, useValue: DEFAULT_DISTRIBUTION_STRATEGIES },
+        {
+          provide: ScoringService,
+          useValue: {
+            scorePlayers: jest.fn().mockImplementation(async (_game, players) =>
+              players.map(p => ({
+                playerKey: p.key,
+                tokenHoldings: 0,
+                tradingPerformance: 0,
+                depositSpeed: 0,
+                random: 0,
+                composite: p.tradingScore,
+              })),
+            ),
+          },
+        },
+        { provide: AnomalyService, useValue: { flagsFor: jest.fn().mockResolvedValue([]) } },
+        { provide: SybilService, useValue: { clustersFor: jest.fn().mockResolvedValue([]) } },
+        { provide: GameConfigService, useValue: { forRound: jest.fn().mockResolvedValue({ ...DEFAULT_GAME_RULES, winnerBps: 5_000 }) } },
+        { provide: getRepositoryToken(GameState), useClass: Repository },
+        { provide: getRepositoryToken(Player), useClass: Repository },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<LeaderboardService>(LeaderboardService);
+    gameRepo = module.get<Repository<GameState>>(getRepositoryToken(GameState));
+    playerRepo = module.get<Repository<Player>>(getRepositoryToken(Player));
+    scoringService = module.get<ScoringService>(ScoringService);
+    gameConfigService = module.get<GameConfigService>(GameConfigService);
+    anomalyService = module.get<AnomalyService>(AnomalyService);
+    eventEmitter = module.get<EventEmitter2>(EventEmitter2);
+
+    jest.spyOn(gameRepo, 'findOne').mockResolvedValue(game);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should rank without the unrevealed seed and mark the cut line', async () => {
+    jest.spyOn(playerRepo, 'find').mockResolvedValue([player('a', 0.2), player('b', 0.9)]);
+
+    const update = await service.refresh('game123');
+
+    expect(scoringService.scorePlayers).toHaveBeenCalledWith(game, expect.any(Array), null, null);
+    expect(update).toEqual({
+      gameId: 'game123',
+      round: 1,
+      numWinners: 1,
+      numPlayers: 2,
+      full: true,
+      changes: [
+        { playerKey: 'b', rank: 1, compositeScore: 0.9, aboveCutLine: true, previousRank: null },
+        { playerKey: 'a', rank: 2, compositeScore: 0.2, aboveCutLine: false, previousRank: null },
+      ],
+      removed: [],
+    });
+    expect(eventEmitter.emit).toHaveBeenCalledWith('leaderboard.updated', update);
+  });
+
+  it('should rank flagged players on a zero trading score without losing their own', async () => {
+    const flagged = player('alice', 300);
+    const flags = [{ playerKey: 'alice', severity: AnomalySeverity.Critical }] as AnomalyFlag[];
+
+    (gameConfigService.forRound as jest.Mock).mockResolvedValue({ ...DEFAULT_GAME_RULES, anomalyPolicy: AnomalyPolicy.ZeroTradingScore });
+
+    const { ranking } = await service.rankRound(game, [flagged, player('bob', 100)], null, { flags });
+
+    expect(ranking.map(r => r.player.key)).toEqual(['bob', 'alice']);
+    expect(flagged).toMatchObject({ tradingScore: 300, compositeScore: 0 });
+  });
+
+  it("should break ties by the round's tie-breakers", async () => {
+    (gameConfigService.forRound as jest.Mock).mockResolvedValue({ ...DEFAULT_GAME_RULES, tieBreakers: [TieBreaker.LargestDeposit] });
+    const early = { ...player('a', 1), deposit: 100n, firstDepositAt: new Date('2024-01-01T00:00:00Z') } as Player;
+    const large = { ...player('b', 1), deposit: 900n, firstDepositAt: new Date('2024-01-01T00:01:00Z') } as Player;
+
+    const { ranking } = await service.rankRound(game, [early, large], null);
+
+    expect(ranking.map(r => r.player.key)).toEqual(['b', 'a']);
+  });
+
+  it('should send only the players whose standing changed', async () => {
+    jest.spyOn(playerRepo, 'find').mockResolvedValueOnce([player('a', 0.2), player('b', 0.9), player('c', 0.1)]);
+    await service.refresh('game123');
+
+    jest.spyOn(playerRepo, 'find').mockResolvedValueOnce([player('a', 0.95), player('b', 0.9), player('c', 0.1)]);
+    const update = await service.refresh('game123');
+
+    expect(update.full).toBe(false);
+    expect(update.changes).toEqual([
+      { playerKey: 'a', rank: 1, compositeScore: 0.95, aboveCutLine: true, previousRank: 2 },
+      { playerKey: 'b', rank: 2, compositeScore: 0.9, aboveCutLine: true, previousRank: 1 },
+    ]);
+  });
+
+  it('should report players who drop out of the ranking', async () => {
+    jest.spyOn(playerRepo, 'find').mockResolvedValue([player('a', 0.2), player('b', 0.9), player('c', 0.1)]);
+    await service.refresh('game123');
+
+    (gameConfigService.forRound as jest.Mock).mockResolvedValue({ ...DEFAULT_GAME_RULES, anomalyPolicy: AnomalyPolicy.Disqualify });
+    (anomalyService.flagsFor as jest.Mock).mockResolvedValue([{ playerKey: 'b', severity: AnomalySeverity.Critical }]);
+    const update = await service.refresh('game123');
+
+    expect(update.removed).toEqual(['b']);
+    expect(update.changes.map(c => [c.playerKey, c.rank, c.previousRank])).toEqual([
+      ['a', 1, 2],
+      ['c', 2, 3],
+    ]);
+    expect(eventEmitter.emit).toHaveBeenLastCalledWith('leaderboard.updated', update);
+    expect(service.snapshot('game123').changes.map(c => c.playerKey)).toEqual(['a', 'c']);
+  });
+
+  it('should fold a burst of events into one refresh per throttle window', async () => {
+    jest.useFakeTimers();
+    const refresh = jest.spyOn(service, 'refresh').mockResolvedValue(null);
+
+    service.onStandingsChanged({ gameId: 'game123' });
+    jest.advanceTimersByTime(0);
+    service.onStandingsChanged({ gameId: 'game123' });
+    service.onStandingsChanged({ gameId: 'game123' });
+    jest.advanceTimersByTime(LEADERBOARD_THROTTLE_MS - 1);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1);
+
+    expect(refresh).toHaveBeenCalledTimes(2);
+  });
+
+  it('should forget the provisional board once the round is settled', async () => {
+    jest.spyOn(playerRepo, 'find').mockResolvedValue([player('a', 0.2)]);
+    await service.refresh('game123');
+
+    service.onRoundEnded({ gameId: 'game123' });
+
+    expect(service.snapshot('game123')).toBeNull();
+  });
+});
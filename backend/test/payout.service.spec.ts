@@ -0,0 +1,149 @@
+import { Keypair } from '@solana/web3.js';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { PayoutService } from '../src/payout/payout.service';
+import { InMemoryPayoutSigner } from '../src/payout/in-memory-payout-signer';
+import { InMemorySolanaRpc } from '../src/solana/in-memory-solana-rpc';
+import { Payout, PayoutStatus } from '../src/database/entities/payout.entity';
+import { Winner } from '../src/database/entities/winner.entity';
+import { RumbleErrorCode } from '../src/game/rumble.errors';
+
+describe('PayoutService', () => {
+  let rpc: InMemorySolanaRpc;
+  let rows: Payout[];
+  let winners: Winner[];
+  let eventEmitter: EventEmitter2;
+  let service: PayoutService;
+
+  const alice = Keypair.generate().publicKey.toBase58();
+  const bob = Keypair.generate().publicKey.toBase58();
+
+  const winner = (id: number, playerKey: string, prize: bigint) =>
+    ({ id, playerKey, prize, game: 'game123', round: 1 }) as Winner;
+
+  // Rows live in memory; `find` returns what is asked for by winner, otherwise everything not yet finished.
+  const payoutRepository = () =>
+    ({
+      create: (payout: Partial<Payout>) => ({ ...payout }) as Payout,
+      save: jest.fn(async (payout: Payout) => {
+        if (!payout.id) rows.push(Object.assign(payout, { id: rows.length + 1 }));
+        return payout;
+      }),
+      findOne: jest.fn(async ({ where }) => rows.find(p => p.winnerId === where.winnerId) ?? null),
+      find: jest.fn(async ({ where }) =>
+        where.winnerId
+          ? rows.filter(p => where.winnerId.value.includes(p.winnerId))
+          : rows.filter(p => p.status !== PayoutStatus.Confirmed && !(p.status === PayoutStatus.Failed && p.attempts >= 3)),
+      ),
+    }) as any;
+
+  beforeEach(() => {
+    rpc = new InMemorySolanaRpc();
+    rows = [];
+    winners = [];
+    eventEmitter = { emit: jest.fn() } as any;
+    // Stands in for the query of off-chain winners with a prize.
+    const winnerRepository = { find: jest.fn(async () => winners.filter(w => w.prize > 0n)) } as any;
+    service = new PayoutService(payoutRepository(), winnerRepository, rpc, new InMemoryPayoutSigner(rpc), eventEmitter);
+  });
+
+  it('should pay every winner with a prize once it lands and tell clients', async () => {
+    await service.onWinnersSelected({ gameId: 'game123', winners: [winner(1, alice, 700n), winner(2, bob, 0n)] });
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].status).toBe(PayoutStatus.Submitted);
+    expect(rpc.sent[0].transfers).toEqual([{ source: 'payout-account', destination: alice, lamports: 700n }]);
+
+    await service.processPayouts();
+
+    expect(rows[0].status).toBe(PayoutStatus.Confirmed);
+    expect(eventEmitter.emit).toHaveBeenCalledWith('payout.confirmed', {
+      gameId: 'game123',
+      round: 1,
+      playerKey: alice,
+      lamports: 700n,
+      signature: 'payout-signature-1',
+    });
+  });
+
+  it('should leave winners the program already paid alone', async () => {
+    await service.onWinnersSelected({ gameId: 'game123', winners: [winner(1, alice, 700n)], paidOnChain: true });
+
+    expect(rows).toHaveLength(0);
+    expect(rpc.sent).toHaveLength(0);
+  });
+
+  it('should not create a second payout for a winner', async () => {
+    await service.createPayouts([winner(1, alice, 700n)]);
+    await service.createPayouts([winner(1, alice, 700n)]);
+
+    expect(rows).toHaveLength(1);
+  });
+
+  it('should create the payouts a crash after settlement left out', async () => {
+    winners = [winner(1, alice, 700n), winner(2, bob, 300n)];
+    await service.createPayouts([winners[0]]);
+
+    const created = await service.createMissingPayouts();
+
+    expect(created.map(p => p.winnerId)).toEqual([2]);
+    expect(rows.map(p => p.playerKey)).toEqual([alice, bob]);
+  });
+
+  it('should keep waiting on a sent transaction until its blockhash expires, then send a new one', async () => {
+    rpc.sendOutcome = 'dropped';
+    await service.createPayouts([winner(1, alice, 700n)]);
+    await service.processPayouts();
+
+    rpc.advanceBlockHeight(150);
+    await service.processPayouts();
+    expect(rows[0].status).toBe(PayoutStatus.Submitted);
+
+    rpc.advanceBlockHeight(1);
+    await service.processPayouts();
+    expect(rows[0]).toMatchObject({ status: PayoutStatus.Failed, errorCode: RumbleErrorCode.PayoutFailed });
+    expect(eventEmitter.emit).toHaveBeenCalledWith('payout.failed', expect.objectContaining({ playerKey: alice, willRetry: true }));
+
+    rpc.sendOutcome = 'finalized';
+    await service.processPayouts();
+    await service.processPayouts();
+    expect(rows[0]).toMatchObject({ status: PayoutStatus.Confirmed, attempts: 2, signature: 'payout-signature-2' });
+    expect(rpc.sent).toHaveLength(2);
+  });
+
+  it('should confirm a payout whose send errored but which landed anyway', async () => {
+    const send = rpc.sendTransaction.bind(rpc);
+    rpc.sendTransaction = async transaction => {
+      await send(transaction);
+      throw new Error('socket hang up');
+    };
+    await service.createPayouts([winner(1, alice, 700n)]);
+
+    await service.processPayouts();
+    expect(rows[0]).toMatchObject({ status: PayoutStatus.Submitted, error: 'socket hang up' });
+
+    await service.processPayouts();
+    expect(rows[0]).toMatchObject({ status: PayoutStatus.Confirmed, attempts: 1 });
+  });
+
+  it('should stop retrying after the last attempt fails on-chain', async () => {
+    rpc.sendOutcome = { err: { InstructionError: [0, 'InsufficientFunds'] } };
+    await service.createPayouts([winner(1, alice, 700n)]);
+
+    for (let i = 0; i < 10; i++) await service.processPayouts();
+
+    expect(rows[0]).toMatchObject({ status: PayoutStatus.Failed, attempts: 3 });
+    expect(rpc.sent).toHaveLength(3);
+    expect(eventEmitter.emit).toHaveBeenLastCalledWith('payout.failed', expect.objectContaining({ willRetry: false }));
+  });
+
+  it('should fail winners without a valid account for good', async () => {
+    await service.createPayouts([winner(1, 'not-a-wallet', 700n)]);
+
+    await service.processPayouts();
+    await service.processPayouts();
+
+    expect(rows[0]).toMatchObject({ status: PayoutStatus.Failed, errorCode: RumbleErrorCode.WinnerAccountNotFound });
+    expect(rpc.sent).toHaveLength(0);
+    expect(eventEmitter.emit).toHaveBeenCalledTimes(1);
+  });
+});
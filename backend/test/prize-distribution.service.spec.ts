@@ -0,0 +1,109 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrizeDistributionService, PRIZE_DISTRIBUTION_STRATEGIES } from '../src/prize/prize-distribution.service';
+import {
+  DEFAULT_DISTRIBUTION_STRATEGIES,
+  DistributionStrategyName,
+  PrizeDistributionStrategy,
+  TieredStrategy,
+} from '../src/prize/distribution-strategies';
+import { splitPrizePool } from '../src/prize/prize-split';
+
+describe('PrizeDistributionService', () => {
+  let service: PrizeDistributionService;
+
+  const slot = (key: string, compositeScore: number, deposit: bigint, shares = 1, sharedWith = 1) =>
+    ({ player: { key, compositeScore, deposit }, rank: 0, decidedBy: null, shares, sharedWith }) as any;
+
+  const customStrategy: PrizeDistributionStrategy = {
+    name: 'firstPlaceOnly',
+    distribute: ({ winners, prizeForWinners }) => winners.map((_, index) => (index === 0 ? prizeForWinners : 0n)),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PrizeDistributionService,
+        {
+          provide: PRIZE_DISTRIBUTION_STRATEGIES,
+          useValue: [...DEFAULT_DISTRIBUTION_STRATEGIES, customStrategy],
+        },
+      ],
+    }).compile();
+
+    service = module.get<PrizeDistributionService>(PrizeDistributionService);
+  });
+
+  const distribute = (distributionStrategy: string, winners: any[], numSlots: number, distributionOptions = null) =>
+    service.distribute({ distributionStrategy, distributionOptions } as any, winners, numSlots, splitPrizePool(10_000n));
+
+  it('should size the winner set from the round winner percentage', () => {
+    expect(service.numWinners({} as any, 25, 1_000)).toBe(3);
+    expect(service.numWinners({} as any, 25, 5_000)).toBe(13);
+    expect(service.numWinners({} as any, 4)).toBe(1);
+    expect(service.numWinners({ distributionStrategy: DistributionStrategyName.WinnerTakesAll } as any, 25, 5_000)).toBe(1);
+  });
+
+  it('should split evenly and pool the places of a tied cut line', () => {
+    const winners = [slot('a', 0.9, 1n), slot('b', 0.5, 1n, 1, 2), slot('c', 0.5, 1n, 1, 2)];
+
+    expect(distribute(DistributionStrategyName.Even, winners, 2)).toEqual([4500n, 2250n, 2250n]);
+  });
+
+  it('should pay tiers to the first places and split the rest evenly', () => {
+    const winners = ['a', 'b', 'c', 'd', 'e'].map(key => slot(key, 0.5, 1n));
+
+    expect(distribute(DistributionStrategyName.Tiered, winners, 5, { tierBps: [5000, 2000] })).toEqual([
+      4500n,
+      1800n,
+      900n,
+      900n,
+      900n,
+    ]);
+  });
+
+  it('should leave the places after the default tiers a share of the pool', () => {
+    const winners = ['a', 'b', 'c', 'd', 'e'].map(key => slot(key, 0.5, 1n));
+
+    expect(distribute(DistributionStrategyName.Tiered, winners, 5)).toEqual([3600n, 2250n, 1350n, 900n, 900n]);
+  });
+
+  it('should only accept tiers of non-negative integers that leave a share for the places after them', () => {
+    const tiered = new TieredStrategy();
+
+    for (const tierBps of [[5000, -1000], [2500.5], ['5000'], [], [0, 0], [5000, 3000, 2000]]) {
+      expect(() => tiered.assertOptions({ tierBps })).toThrow();
+    }
+    expect(() => tiered.assertOptions({ tierBps: [5000, 3000] })).not.toThrow();
+    expect(() => distribute(DistributionStrategyName.Tiered, [slot('a', 0.5, 1n)], 1, { tierBps: [5000, -1000] })).toThrow(
+      'non-negative integers',
+    );
+  });
+
+  it('should scale the tiers in use up to the whole pool when there are fewer winners than tiers', () => {
+    const winners = ['a', 'b'].map(key => slot(key, 0.5, 1n));
+
+    // 9000 lamports for the winners, split 5000:3000 over the two tiers in use.
+    expect(distribute(DistributionStrategyName.Tiered, winners, 2, { tierBps: [5000, 3000, 2000] })).toEqual([5625n, 3375n]);
+  });
+
+  it('should pay in proportion to composite score', () => {
+    const winners = [slot('a', 0.75, 1n), slot('b', 0.25, 1n)];
+
+    expect(distribute(DistributionStrategyName.ScoreProportional, winners, 2)).toEqual([6750n, 2250n]);
+  });
+
+  it('should pay in proportion to deposit', () => {
+    const winners = [slot('a', 0.5, 300n), slot('b', 0.5, 100n)];
+
+    expect(distribute(DistributionStrategyName.DepositProportional, winners, 2)).toEqual([6750n, 2250n]);
+  });
+
+  it('should give everything to the winner', () => {
+    expect(distribute(DistributionStrategyName.WinnerTakesAll, [slot('a', 0.9, 1n)], 1)).toEqual([9000n]);
+  });
+
+  it('should accept additional strategies', () => {
+    expect(distribute('firstPlaceOnly', [slot('a', 0.9, 1n), slot('b', 0.1, 1n)], 2)).toEqual([9000n, 0n]);
+    expect(() => distribute('unknown', [], 0)).toThrow('Unknown prize distribution strategy: unknown');
+  });
+});
@@ -0,0 +1,75 @@
+import { RemainderDestination, executedBuyback, rolledOver, splitPrizePool, withPayouts } from '../src/prize/prize-split';
+import { parseLamports, toWire } from '../src/prize/lamports';
+import { RumbleError } from '../src/game/rumble.errors';
+
+describe('splitPrizePool', () => {
+  it('should split a pool into the winners share and the buyback', () => {
+    const split = splitPrizePool(4000n);
+
+    expect(split).toEqual({
+      prizePool: 4000n,
+      prizeForWinners: 3600n,
+      totalPayout: 0n,
+      buybackAmount: 400n,
+      remainder: 3600n,
+      remainderDestination: RemainderDestination.Rollover,
+    });
+  });
+
+  it('should account for every lamport when payouts are uneven', () => {
+    const pool = splitPrizePool(1_000_003n);
+    const perWinner = pool.prizeForWinners / 7n;
+    const split = withPayouts(pool, Array(7).fill(perWinner));
+
+    expect(split.buybackAmount).toBe(100_000n);
+    expect(perWinner).toBe(128_571n);
+    expect(split.totalPayout + split.buybackAmount + split.remainder).toBe(split.prizePool);
+    expect(split.remainder).toBe(6n);
+  });
+
+  it('should stay exact above 2^53 lamports', () => {
+    const pool = 2n ** 64n - 1n;
+    const split = withPayouts(splitPrizePool(pool), [1n, 2n, 3n]);
+
+    expect(split.totalPayout + split.buybackAmount + split.remainder).toBe(pool);
+  });
+
+  it('should honour a custom buyback percentage', () => {
+    const split = splitPrizePool(10_000n, 2_500);
+
+    expect(split.buybackAmount).toBe(2_500n);
+    expect(split.prizeForWinners).toBe(7_500n);
+    expect(() => splitPrizePool(10_000n, 10_001)).toThrow();
+  });
+
+  it('should refuse payouts larger than the winners share', () => {
+    expect(() => withPayouts(splitPrizePool(1000n), [901n])).toThrow();
+  });
+
+  it('should route the remainder to its recorded destination', () => {
+    const rollover = withPayouts(splitPrizePool(1001n, 1_000, RemainderDestination.Rollover), [900n]);
+    const buyback = withPayouts(splitPrizePool(1001n, 1_000, RemainderDestination.Buyback), [900n]);
+
+    expect(executedBuyback(rollover)).toBe(100n);
+    expect(rolledOver(rollover)).toBe(1n);
+    expect(executedBuyback(buyback)).toBe(101n);
+    expect(rolledOver(buyback)).toBe(0n);
+  });
+});
+
+describe('lamports', () => {
+  it('should parse integer lamport amounts', () => {
+    expect(parseLamports('18446744073709551615')).toBe(18446744073709551615n);
+    expect(parseLamports(5000)).toBe(5000n);
+    expect(() => parseLamports('1.5')).toThrow();
+    expect(() => parseLamports(-1)).toThrow();
+    expect(() => parseLamports(2 ** 60)).toThrow();
+    expect(() => parseLamports('18446744073709551616')).toThrow(RumbleError.Overflow);
+  });
+
+  it('should serialize bigint values as strings', () => {
+    const wire: { prize: string; winners: { prize: string }[]; at: Date } = toWire({ prize: 10n, winners: [{ prize: 1n }], at: new Date(0) });
+
+    expect(wire).toEqual({ prize: '10', winners: [{ prize: '1' }], at: new Date(0) });
+  });
+});
@@ -0,0 +1,115 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { RandomnessService } from '../src/randomness/randomness.service';
+import { SeedCommitment } from '../src/database/entities/seed-commitment.entity';
+import { commitmentOf, deriveRandomFactor } from '../src/randomness/commit-reveal';
+
+describe('RandomnessService', () => {
+  let service: RandomnessService;
+  let seedRepo: Repository<SeedCommitment>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RandomnessService,
+        {
+          provide: getRepositoryToken(SeedCommitment),
+          useClass: Repository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RandomnessService>(RandomnessService);
+    seedRepo = module.get<Repository<SeedCommitment>>(getRepositoryToken(SeedCommitment));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should commit to the hash of a fresh seed', async () => {
+    jest.spyOn(seedRepo, 'create').mockImplementation((data) => data as any);
+    jest.spyOn(seedRepo, 'save').mockResolvedValue(null);
+
+    const commitment = await service.commit('game123', 2);
+
+    const saved = (seedRepo.save as jest.Mock).mock.calls[0][0];
+    expect(saved.game).toBe('game123');
+    expect(saved.round).toBe(2);
+    expect(saved.revealedAt).toBeNull();
+    expect(commitment).toBe(commitmentOf(saved.seed));
+  });
+
+  it('should reveal the committed seed once and keep returning it', async () => {
+    const seed = 'ab'.repeat(32);
+    const record = { game: 'game123', seed, commitment: commitmentOf(seed), revealedAt: null };
+    jest.spyOn(seedRepo, 'findOne').mockResolvedValue(record as any);
+    jest.spyOn(seedRepo, 'save').mockResolvedValue(null);
+
+    await expect(service.reveal('game123', 1)).resolves.toBe(seed);
+    await expect(service.reveal('game123', 1)).resolves.toBe(seed);
+    expect(seedRepo.save).toHaveBeenCalledTimes(1);
+    expect(record.revealedAt).toBeInstanceOf(Date);
+  });
+
+  it("should reveal through the settlement's transaction when given its manager", async () => {
+    const seed = 'ab'.repeat(32);
+    const record = { game: 'game123', round: 2, seed, commitment: commitmentOf(seed), revealedAt: null };
+    const transactional = { findOne: jest.fn().mockResolvedValue(record), save: jest.fn() };
+    const manager = { getRepository: jest.fn().mockReturnValue(transactional) };
+    jest.spyOn(seedRepo, 'save');
+
+    await service.reveal('game123', 2, manager as any);
+
+    expect(manager.getRepository).toHaveBeenCalledWith(SeedCommitment);
+    expect(transactional.findOne).toHaveBeenCalledWith({ where: { game: 'game123', round: 2 }, order: { id: 'DESC' } });
+    expect(transactional.save).toHaveBeenCalledWith(record);
+    expect(seedRepo.save).not.toHaveBeenCalled();
+  });
+
+  it('should read the seed for a settlement without revealing it', async () => {
+    const seed = 'ab'.repeat(32);
+    const record = { game: 'game123', round: 2, seed, commitment: commitmentOf(seed), revealedAt: null };
+    jest.spyOn(seedRepo, 'findOne').mockResolvedValue(record as any);
+    jest.spyOn(seedRepo, 'save');
+
+    await expect(service.seedFor('game123', 2)).resolves.toBe(seed);
+    expect(seedRepo.save).not.toHaveBeenCalled();
+    expect(record.revealedAt).toBeNull();
+  });
+
+  it('should hide the seed until it is revealed', async () => {
+    const seed = 'ab'.repeat(32);
+    jest.spyOn(seedRepo, 'findOne').mockResolvedValue({ round: 1, seed, commitment: commitmentOf(seed), revealedAt: null } as any);
+
+    await expect(service.getCommitment('game123')).resolves.toEqual({ round: 1, commitment: commitmentOf(seed), seed: null });
+    await expect(service.proveRandomFactor('game123', 'player1')).rejects.toThrow('Seed has not been revealed for this round.');
+  });
+
+  it("should let anyone recompute a player random factor after reveal, for any of the game's rounds", async () => {
+    const seed = 'ab'.repeat(32);
+    jest.spyOn(seedRepo, 'findOne').mockResolvedValue({
+      round: 1,
+      seed,
+      commitment: commitmentOf(seed),
+      revealedAt: new Date(),
+    } as any);
+
+    const proof = await service.proveRandomFactor('game123', 'player1', 1);
+
+    expect(seedRepo.findOne).toHaveBeenCalledWith({ where: { game: 'game123', round: 1 }, order: { id: 'DESC' } });
+    expect(proof).toEqual({
+      gameId: 'game123',
+      round: 1,
+      playerKey: 'player1',
+      commitment: commitmentOf(seed),
+      seed,
+      randomFactor: deriveRandomFactor(seed, 'player1'),
+      verified: true,
+    });
+    expect(proof.randomFactor).toBeGreaterThanOrEqual(0);
+    expect(proof.randomFactor).toBeLessThan(1);
+    expect(deriveRandomFactor(seed, 'player2')).not.toBe(proof.randomFactor);
+  });
+});
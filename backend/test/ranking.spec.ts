@@ -0,0 +1,96 @@
+import { rankPlayers, selectWinnerSlots, TieBreaker } from '../src/scoring/ranking';
+
+describe('ranking', () => {
+  const seed = 'cd'.repeat(32);
+  const at = (minutes: number) => new Date(Date.UTC(2024, 0, 1, 0, minutes));
+
+  const player = (key: string, compositeScore: number, deposit: bigint, firstDepositAt: Date | null) =>
+    ({ key, compositeScore, deposit, firstDepositAt }) as any;
+
+  describe('rankPlayers', () => {
+    it('should order by composite score first', () => {
+      const ranking = rankPlayers([player('a', 0.2, 1n, at(0)), player('b', 0.9, 1n, at(0))], { seed });
+
+      expect(ranking.map(r => [r.player.key, r.rank, r.decidedBy])).toEqual([
+        ['b', 1, 'compositeScore'],
+        ['a', 2, null],
+      ]);
+    });
+
+    it('should break ties by earlier deposit, then larger deposit', () => {
+      const ranking = rankPlayers(
+        [player('a', 0.5, 10n, at(5)), player('b', 0.5, 10n, at(1)), player('c', 0.5, 20n, at(5))],
+        { seed },
+      );
+
+      expect(ranking.map(r => r.player.key)).toEqual(['b', 'c', 'a']);
+      expect(ranking.map(r => r.decidedBy)).toEqual([TieBreaker.EarliestDeposit, TieBreaker.LargestDeposit, null]);
+    });
+
+    it('should fall back to the seeded random order when everything else ties', () => {
+      const players = [player('a', 0.5, 10n, at(1)), player('b', 0.5, 10n, at(1)), player('c', 0.5, 10n, at(1))];
+
+      const first = rankPlayers(players, { seed }).map(r => r.player.key);
+      const reversed = rankPlayers([...players].reverse(), { seed }).map(r => r.player.key);
+
+      expect(reversed).toEqual(first);
+      expect(rankPlayers(players, { seed })[0].decidedBy).toBe(TieBreaker.SeededRandom);
+    });
+
+    it('should honour a custom tie-break chain', () => {
+      const ranking = rankPlayers([player('a', 0.5, 10n, at(1)), player('b', 0.5, 20n, at(5))], {
+        seed,
+        tieBreakers: [TieBreaker.LargestDeposit],
+      });
+
+      expect(ranking.map(r => r.player.key)).toEqual(['b', 'a']);
+    });
+
+    it('should not reorder the input', () => {
+      const players = [player('a', 0.1, 1n, at(0)), player('b', 0.9, 1n, at(0))];
+
+      rankPlayers(players, { seed });
+
+      expect(players.map(p => p.key)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('selectWinnerSlots', () => {
+    const ranking = rankPlayers(
+      [
+        player('a', 0.9, 10n, at(0)),
+        player('b', 0.5, 10n, at(1)),
+        player('c', 0.5, 10n, at(2)),
+        player('d', 0.5, 10n, at(3)),
+        player('e', 0.1, 10n, at(4)),
+      ],
+      { seed },
+    );
+
+    it('should let tie-breakers decide the cut line by default', () => {
+      const slots = selectWinnerSlots(ranking, 2, false);
+
+      expect(slots.map(s => [s.player.key, s.shares, s.sharedWith])).toEqual([
+        ['a', 1, 1],
+        ['b', 1, 1],
+      ]);
+    });
+
+    it('should split the remaining shares between everyone tied at the cut line', () => {
+      const slots = selectWinnerSlots(ranking, 2, true);
+
+      expect(slots.map(s => [s.player.key, s.shares, s.sharedWith])).toEqual([
+        ['a', 1, 1],
+        ['b', 1, 3],
+        ['c', 1, 3],
+        ['d', 1, 3],
+      ]);
+    });
+
+    it('should not split when the cut line is not tied', () => {
+      const slots = selectWinnerSlots(ranking, 1, true);
+
+      expect(slots.map(s => s.player.key)).toEqual(['a']);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { ReconciliationService } from '../src/reconciliation/reconciliation.service';
+import { checkRoundLedger } from '../src/reconciliation/ledger-checks';
+import { ReconciliationReport, ReconciliationTrigger } from '../src/database/entities/reconciliation-report.entity';
+import { GameState } from '../src/database/entities/game-state.entity';
+import { Player } from '../src/database/entities/player.entity';
+import { Deposit } from '../src/database/entities/deposit.entity';
+import { Winner } from '../src/database/entities/winner.entity';
+import { Settlement } from '../src/database/entities/settlement.entity';
+import { Buyback } from '../src/database/entities/buyback.entity';
+import { GamePhase } from '../src/game/game-lifecycle';
+import { RumbleError } from '../src/game/rumble.errors';
+import { RemainderDestination } from '../src/prize/prize-split';
+import { InMemorySolanaRpc } from '../src/solana/in-memory-solana-rpc';
+import { InMemoryRumbleProgram } from '../src/chain/in-memory-rumble-program';
+
+// Rows matched on the plain values of `where`.
+function table<T extends object>(rows: () => T[]) {
+  const matches = (row: T, where: Record<string, unknown> = {}) =>
+    Object.entries(where).every(([key, value]) => (row as Record<string, unknown>)[key] === value);
+  return {
+    find: jest.fn(async (options?: { where?: Record<string, unknown> }) => rows().filter(row => matches(row, options?.where))),
+    findOne: jest.fn(async ({ where }) => rows().find(row => matches(row, where)) ?? null),
+  } as any;
+}
+
+describe('ReconciliationService', () => {
+  let games: GameState[];
+  let players: Player[];
+  let deposits: Deposit[];
+  let winners: Winner[];
+  let settlements: Settlement[];
+  let buybacks: Buyback[];
+  let reports: ReconciliationReport[];
+  let rpc: InMemorySolanaRpc;
+  let program: InMemoryRumbleProgram;
+  let eventEmitter: { emit: jest.Mock };
+
+  const reportRepository = {
+    create: (report: Partial<ReconciliationReport>) => ({ ...report }) as ReconciliationReport,
+    save: jest.fn(async (report: ReconciliationReport) => {
+      reports.push(Object.assign(report, { id: reports.length + 1 }));
+      return report;
+    }),
+  } as any;
+  const gameStateRepository = {
+    ...table(() => games),
+    update: jest.fn(async ({ gameId }, changes: Partial<GameState>) => Object.assign(games.find(g => g.gameId === gameId), changes)),
+  } as any;
+
+  const service = () =>
+    new ReconciliationService(
+      reportRepository,
+      gameStateRepository,
+      table(() => players),
+      table(() => deposits),
+      table(() => winners),
+      table(() => settlements),
+      table(() => buybacks),
+      rpc,
+      eventEmitter as any,
+      program,
+    );
+
+  const game = (overrides: Partial<GameState> = {}) =>
+    ({
+      gameId: 'game123',
+      round: 1,
+      phase: GamePhase.Open,
+      totalDeposits: 1_500n,
+      prizePool: 1_500n,
+      rolloverLamports: 0n,
+      vaultAddress: 'vault',
+      programAccount: null,
+      chainDiscrepancies: null,
+      ...overrides,
+    }) as GameState;
+  const player = (key: string, deposit: bigint, round = 1) => ({ key, deposit, game: 'game123', round }) as Player;
+  const deposit = (playerKey: string, amount: bigint, round = 1) => ({ playerKey, amount, game: 'game123', round }) as Deposit;
+
+  beforeEach(() => {
+    games = [game()];
+    players = [player('alice', 1_000n), player('bob', 500n)];
+    deposits = [deposit('alice', 600n), deposit('alice', 400n), deposit('bob', 500n)];
+    winners = [];
+    settlements = [];
+    buybacks = [];
+    reports = [];
+    rpc = new InMemorySolanaRpc();
+    rpc.balances.set('vault', 1_500n);
+    program = new InMemoryRumbleProgram();
+    eventEmitter = { emit: jest.fn() };
+  });
+
+  it('should record a balanced report for a round whose books agree', async () => {
+    const report = await service().reconcileGame('game123', ReconciliationTrigger.Scheduled);
+
+    expect(report).toMatchObject({
+      game: 'game123',
+      round: 1,
+      phase: GamePhase.Open,
+      trigger: ReconciliationTrigger.Scheduled,
+      balanced: true,
+      discrepancies: [],
+      vaultAddress: 'vault',
+      vaultBalance: 1_500n,
+    });
+    expect(reports).toHaveLength(1);
+    expect(eventEmitter.emit).not.toHaveBeenCalled();
+  });
+
+  it('should report drift between the game, its players, their deposits and the vault', async () => {
+    games = [game({ totalDeposits: 1_600n, prizePool: 1_600n })];
+    deposits.pop();
+    rpc.balances.set('vault', 1_000n);
+
+    const report = await service().reconcileGame('game123');
+
+    expect(report.balanced).toBe(false);
+    expect(report.discrepancies).toEqual([
+      { check: 'deposits.players', expected: '1600', actual: '1500' },
+      { check: 'deposits.ledger', expected: '500', actual: '0', playerKey: 'bob' },
+      { check: 'vault.balance', expected: '>= 1600', actual: '1000' },
+    ]);
+    expect(eventEmitter.emit).toHaveBeenCalledWith('reconciliation.failed', {
+      gameId: 'game123',
+      round: 1,
+      reportId: report.id,
+      discrepancies: report.discrepancies,
+    });
+  });
+
+  it('should count every game sharing the vault against its balance', async () => {
+    games.push(game({ gameId: 'other', phase: GamePhase.Archived, totalDeposits: 0n, prizePool: 200n, rolloverLamports: 200n }));
+
+    const report = await service().reconcileGame('game123');
+
+    expect(report.discrepancies).toEqual([{ check: 'vault.balance', expected: '>= 1700', actual: '1500' }]);
+  });
+
+  it('should refuse settlement with BooksUnbalanced when the books do not balance', async () => {
+    players[0].deposit = 900n;
+
+    await expect(service().assertBalanced('game123')).rejects.toThrow(RumbleError.BooksUnbalanced);
+    expect(reports[0]).toMatchObject({ trigger: ReconciliationTrigger.Settlement, balanced: false });
+  });
+
+  it('should clear what the game is held for once its program account matches again', async () => {
+    const { account } = await program.initialize();
+    await program.deposit(account, 'alice', 1_000n);
+    await program.deposit(account, 'bob', 500n);
+    const held = (field: string) => ({ step: 'evaluate', field, database: '1', chain: '2', detectedAt: '2026-01-01T00:00:00.000Z' });
+    games = [game({ programAccount: account, chainDiscrepancies: [held('totalDeposits'), held('prize')] })];
+
+    const report = await service().reconcileGame('game123');
+
+    expect(games[0].chainDiscrepancies).toEqual([held('prize')]);
+    expect(report).toMatchObject({ balanced: false, vaultAddress: null, vaultBalance: null });
+    expect(report.discrepancies).toEqual([{ check: 'chain.prize', expected: '1', actual: '2' }]);
+  });
+
+  describe('checkRoundLedger', () => {
+    const settlement = {
+      id: 1,
+      game: 'game123',
+      round: 1,
+      prizePool: 1_500n,
+      prizeForWinners: 1_350n,
+      totalPayout: 1_349n,
+      buybackAmount: 150n,
+      remainder: 1n,
+      remainderDestination: RemainderDestination.Rollover,
+    } as Settlement;
+
+    it('should check a settled round against its settlement, winners and buyback', () => {
+      const settled = game({ phase: GamePhase.Settled, prizePool: 0n, rolloverLamports: 1n });
+      const ledger = {
+        game: settled,
+        players,
+        deposits,
+        winners: [{ playerKey: 'alice', prize: 1_349n } as Winner],
+        settlement,
+        buyback: { amountIn: 150n } as Buyback,
+        previousSettlement: null,
+      };
+
+      expect(checkRoundLedger(ledger)).toEqual([]);
+      expect(
+        checkRoundLedger({ ...ledger, winners: [{ playerKey: 'alice', prize: 1_350n } as Winner], buyback: { amountIn: 151n } as Buyback }),
+      ).toEqual([
+        { check: 'settlement.winners', expected: '1349', actual: '1350' },
+        { check: 'settlement.buyback', expected: '150', actual: '151' },
+      ]);
+    });
+
+    it('should expect the rollover of the previous settlement in the next round', () => {
+      const next = game({ round: 2, totalDeposits: 0n, prizePool: 0n, rolloverLamports: 0n });
+      const ledger = { game: next, players: [], deposits: [], winners: [], settlement: null, buyback: null, previousSettlement: settlement };
+
+      expect(checkRoundLedger(ledger)).toEqual([{ check: 'rollover', expected: '1', actual: '0' }]);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { RoundArchiveService } from '../src/game/round-archive.service';
+import { Round } from '../src/database/entities/round.entity';
+import { Player } from '../src/database/entities/player.entity';
+import { Deposit } from '../src/database/entities/deposit.entity';
+import { Winner } from '../src/database/entities/winner.entity';
+import { Settlement } from '../src/database/entities/settlement.entity';
+import { GamePhase } from '../src/game/game-lifecycle';
+
+describe('RoundArchiveService', () => {
+  let service: RoundArchiveService;
+  let roundRepo: Repository<Round>;
+  let playerRepo: Repository<Player>;
+  let depositRepo: Repository<Deposit>;
+  let winnerRepo: Repository<Winner>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoundArchiveService,
+        { provide: getRepositoryToken(Round), useClass: Repository },
+        { provide: getRepositoryToken(Player), useClass: Repository },
+        { provide: getRepositoryToken(Deposit), useClass: Repository },
+        { provide: getRepositoryToken(Winner), useClass: Repository },
+      ],
+    }).compile();
+
+    service = module.get<RoundArchiveService>(RoundArchiveService);
+    roundRepo = module.get<Repository<Round>>(getRepositoryToken(Round));
+    playerRepo = module.get<Repository<Player>>(getRepositoryToken(Player));
+    depositRepo = module.get<Repository<Deposit>>(getRepositoryToken(Deposit));
+    winnerRepo = module.get<Repository<Winner>>(getRepositoryToken(Winner));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should summarize the current round from its settlement', async () => {
+    const settlement = { prizePool: 5000n, totalPayout: 4500n, buybackAmount: 500n, remainder: 0n, numWinners: 1 };
+    const settlementRepo = { findOne: jest.fn().mockResolvedValue(settlement) };
+    const players = { count: jest.fn().mockResolvedValue(4) };
+    const rounds = { create: jest.fn(data => data), save: jest.fn(async data => data) };
+    const manager = {
+      getRepository: (entity: Function) => (entity === Settlement ? settlementRepo : entity === Player ? players : rounds),
+    } as any;
+    const game = {
+      gameId: 'game123',
+      round: 2,
+      phase: GamePhase.Settled,
+      totalDeposits: 5000n,
+      openedAt: new Date('2024-01-01T00:00:00Z'),
+      closesAt: new Date('2024-01-01T00:30:00Z'),
+    } as any;
+
+    const round = await service.archive(manager, game, { commitment: 'commitment', seed: 'seed' });
+
+    expect(settlementRepo.findOne).toHaveBeenCalledWith({ where: { game: 'game123', round: 2 } });
+    expect(players.count).toHaveBeenCalledWith({ where: { game: 'game123', round: 2 } });
+    expect(round).toEqual({
+      game: 'game123',
+      number: 2,
+      openedAt: game.openedAt,
+      closesAt: game.closesAt,
+      totalDeposits: 5000n,
+      prizePool: 5000n,
+      totalPayout: 4500n,
+      buybackAmount: 500n,
+      remainder: 0n,
+      numPlayers: 4,
+      numWinners: 1,
+      seedCommitment: 'commitment',
+      seed: 'seed',
+    });
+  });
+
+  it('should fetch a past round with its participants, deposits and winners', async () => {
+    const round = { game: 'game123', number: 1 };
+    jest.spyOn(roundRepo, 'findOne').mockResolvedValue(round as any);
+    jest.spyOn(playerRepo, 'find').mockResolvedValue([{ key: 'player1', compositeScore: 0.7 }] as any);
+    jest.spyOn(depositRepo, 'find').mockResolvedValue([{ signature: 'sig1', amount: 5000n }] as any);
+    jest.spyOn(winnerRepo, 'find').mockResolvedValue([{ playerKey: 'player1', prize: 4500n }] as any);
+
+    const archived = await service.getRound('game123', 1);
+
+    expect(playerRepo.find).toHaveBeenCalledWith({ where: { game: 'game123', round: 1 }, order: { compositeScore: 'DESC' } });
+    expect(archived.players).toHaveLength(1);
+    expect(archived.deposits[0].signature).toBe('sig1');
+    expect(archived.winners[0].prize).toBe(4500n);
+  });
+
+  it('should return null for a round that was never archived', async () => {
+    jest.spyOn(roundRepo, 'findOne').mockResolvedValue(null);
+
+    await expect(service.getRound('game123', 9)).resolves.toBeNull();
+  });
+
+  it('should list rounds newest first', async () => {
+    jest.spyOn(roundRepo, 'findAndCount').mockResolvedValue([[], 0]);
+
+    await service.listRounds('game123', 20, 10);
+
+    expect(roundRepo.findAndCount).toHaveBeenCalledWith({ where: { game: 'game123' }, order: { number: 'DESC' }, skip: 20, take: 10 });
+  });
+});
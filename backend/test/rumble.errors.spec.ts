@@ -0,0 +1,53 @@
+import { RUMBLE_ERROR_NUMBERS, RumbleError, RumbleErrorCode } from '../src/game/rumble.errors';
+import { GamePhase, GamePhaseError } from '../src/game/game-lifecycle';
+
+describe('RumbleError', () => {
+  it('should number program errors the way Anchor does', () => {
+    expect(RUMBLE_ERROR_NUMBERS[RumbleErrorCode.InvalidDeposit]).toBe(6000);
+    expect(RUMBLE_ERROR_NUMBERS[RumbleErrorCode.DivisionByZero]).toBe(6004);
+    expect(RUMBLE_ERROR_NUMBERS[RumbleErrorCode.GameNotActive]).toBe(6006);
+    expect(RUMBLE_ERROR_NUMBERS[RumbleErrorCode.InvalidPayout]).toBe(6007);
+    expect(RUMBLE_ERROR_NUMBERS[RumbleErrorCode.GameNotFound]).toBe(7000);
+  });
+
+  it('should match errors by code', () => {
+    const error = new RumbleError.NoDeposits({ gameId: 'game123' });
+
+    expect(error).toBeInstanceOf(RumbleError);
+    expect(error).toBeInstanceOf(RumbleError.NoDeposits);
+    expect(error).not.toBeInstanceOf(RumbleError.GameNotActive);
+    expect(error.message).toBe('No deposits found.');
+    expect(error.number).toBe(6001);
+    expect(() => {
+      throw error;
+    }).toThrow(RumbleError.NoDeposits);
+  });
+
+  it('should report phase errors under the code the program uses', () => {
+    const error = new GamePhaseError('game123', GamePhase.Settled, 'select winners for', RumbleErrorCode.GameAlreadyActive);
+
+    expect(error).toBeInstanceOf(RumbleError.GameAlreadyActive);
+    expect(new GamePhaseError('game123', GamePhase.Open, 'reset')).toBeInstanceOf(RumbleError.GameNotActive);
+  });
+
+  it('should map Anchor program errors onto the taxonomy', () => {
+    const anchorError = { error: { errorCode: { code: 'NoDeposits', number: 6001 } } };
+    const sendError = Object.assign(new Error('Simulation failed'), {
+      logs: ['Program log: AnchorError', 'Program xyz failed: custom program error: 0x1774'],
+    });
+
+    expect(RumbleError.fromProgramError(anchorError)).toBeInstanceOf(RumbleError.NoDeposits);
+    expect(RumbleError.fromProgramError(sendError)).toBeInstanceOf(RumbleError.DivisionByZero);
+    expect(RumbleError.fromProgramError(new Error('custom program error: 0x1'))).toBeNull();
+    expect(RumbleError.fromProgramError(new Error('Blockhash not found'))).toBeNull();
+  });
+
+  it('should build ERROR payloads from any error', () => {
+    expect(RumbleError.toPayload(new RumbleError.GameNotFound({ gameId: 'game123' }))).toEqual({
+      code: RumbleErrorCode.GameNotFound,
+      message: 'Game not found.',
+      details: { gameId: 'game123' },
+    });
+    expect(RumbleError.toPayload(new Error('boom'))).toEqual({ code: RumbleErrorCode.Internal, message: 'boom', details: {} });
+  });
+});
@@ -0,0 +1,110 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ScoringService } from '../src/scoring/scoring.service';
+import { ROUND_DURATION_MS } from '../src/game/game-lifecycle';
+import { TOKEN_HOLDINGS_PROVIDER, TokenHoldingsProvider } from '../src/scoring/token-holdings.provider';
+import { resolveScoreWeights, DEFAULT_SCORE_WEIGHTS } from '../src/scoring/score-weights';
+import { deriveRandomFactor } from '../src/randomness/commit-reveal';
+
+describe('ScoringService', () => {
+  let service: ScoringService;
+  let holdingsProvider: TokenHoldingsProvider;
+
+  const roundStart = new Date('2024-01-01T00:00:00Z');
+  const roundEnd = new Date(roundStart.getTime() + ROUND_DURATION_MS);
+  const seed = '11'.repeat(32);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScoringService,
+        {
+          provide: TOKEN_HOLDINGS_PROVIDER,
+          useValue: {
+            getBalances: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ScoringService>(ScoringService);
+    holdingsProvider = module.get<TokenHoldingsProvider>(TOKEN_HOLDINGS_PROVIDER);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should normalize every component and apply the default weights', async () => {
+    const game = { gameId: 'game123', openedAt: roundStart, closesAt: roundEnd };
+    const players = [
+      { key: 'player1', tradingScore: 200, firstDepositAt: roundStart },
+      { key: 'player2', tradingScore: 100, firstDepositAt: new Date(roundStart.getTime() + ROUND_DURATION_MS / 2) },
+    ];
+    (holdingsProvider.getBalances as jest.Mock).mockResolvedValue(new Map([['player1', 50], ['player2', 100]]));
+
+    const [first, second] = await service.scorePlayers(game as any, players as any, seed);
+
+    expect(first).toMatchObject({ playerKey: 'player1', tokenHoldings: 0.5, tradingPerformance: 1, depositSpeed: 1 });
+    expect(second).toMatchObject({ playerKey: 'player2', tokenHoldings: 1, tradingPerformance: 0.5, depositSpeed: 0.5 });
+    expect(first.random).toBe(deriveRandomFactor(seed, 'player1'));
+    expect(first.composite).toBeCloseTo(0.4 * 0.5 + 0.3 * 1 + 0.2 * 1 + 0.1 * first.random);
+    expect(second.composite).toBeCloseTo(0.4 * 1 + 0.3 * 0.5 + 0.2 * 0.5 + 0.1 * second.random);
+  });
+
+  it("should apply the round's weight overrides", async () => {
+    const game = { gameId: 'game123', openedAt: roundStart, closesAt: roundEnd };
+    const scoreWeights = { tokenHoldings: 0, tradingPerformance: 1, depositSpeed: 0, random: 0 };
+    const players = [{ key: 'player1', tradingScore: 10, firstDepositAt: roundStart }];
+    (holdingsProvider.getBalances as jest.Mock).mockResolvedValue(new Map([['player1', 1000]]));
+
+    const [breakdown] = await service.scorePlayers(game as any, players as any, seed, scoreWeights);
+
+    expect(breakdown.composite).toBe(1);
+  });
+
+  it('should score the holdings snapshotted at close and look up only players without one', async () => {
+    const game = { gameId: 'game123', openedAt: roundStart, closesAt: roundEnd };
+    const players = [
+      { key: 'player1', tradingScore: 0, firstDepositAt: roundStart, tokenHoldings: 40 },
+      { key: 'player2', tradingScore: 0, firstDepositAt: roundStart, tokenHoldings: null },
+    ];
+    (holdingsProvider.getBalances as jest.Mock).mockResolvedValue(new Map([['player2', 80]]));
+
+    const [first, second] = await service.scorePlayers(game as any, players as any, seed);
+
+    expect(holdingsProvider.getBalances).toHaveBeenCalledWith(['player2']);
+    expect(first.tokenHoldings).toBe(0.5);
+    expect(second.tokenHoldings).toBe(1);
+  });
+
+  it("should record a snapshot of every player's holdings, counting players without tokens as 0", async () => {
+    const players = [{ key: 'player1' }, { key: 'player2' }];
+    (holdingsProvider.getBalances as jest.Mock).mockResolvedValue(new Map([['player1', 25]]));
+
+    await service.snapshotHoldings(players as any);
+
+    expect(players).toEqual([
+      { key: 'player1', tokenHoldings: 25 },
+      { key: 'player2', tokenHoldings: 0 },
+    ]);
+  });
+
+  it('should give zero speed to late or missing deposits', async () => {
+    const game = { gameId: 'game123', openedAt: roundStart, closesAt: roundEnd };
+    const players = [
+      { key: 'player1', tradingScore: 0, firstDepositAt: new Date(roundStart.getTime() + ROUND_DURATION_MS * 2) },
+      { key: 'player2', tradingScore: 0, firstDepositAt: null },
+    ];
+    (holdingsProvider.getBalances as jest.Mock).mockResolvedValue(new Map());
+
+    const breakdowns = await service.scorePlayers(game as any, players as any, seed);
+
+    expect(breakdowns.map(b => b.depositSpeed)).toEqual([0, 0]);
+    expect(breakdowns.map(b => b.tokenHoldings)).toEqual([0, 0]);
+  });
+
+  it('should reject weights that do not sum to 1', () => {
+    expect(resolveScoreWeights(null)).toEqual(DEFAULT_SCORE_WEIGHTS);
+    expect(() => resolveScoreWeights({ tokenHoldings: 0.9 })).toThrow('Score weights must sum to 1.');
+  });
+});
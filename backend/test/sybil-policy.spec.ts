@@ -0,0 +1,33 @@
+import { capClusterPrizes, capClusterSlots } from '../src/sybil/sybil-policy';
+import { RankedPlayer, WinnerSlot } from '../src/scoring/ranking';
+
+describe('sybil policy', () => {
+  const ranked = (keys: string[]): RankedPlayer[] =>
+    keys.map((key, index) => ({ player: { key } as any, rank: index + 1, decidedBy: 'compositeScore' }));
+  const clusters = [{ wallets: ['a', 'b', 'c'] }] as any[];
+
+  it('should let only the best-ranked members of a cluster contend for winner slots', () => {
+    const contenders = capClusterSlots(ranked(['a', 'b', 'x', 'c', 'y']), clusters, 1);
+
+    expect(contenders.map(r => [r.player.key, r.rank])).toEqual([
+      ['a', 1],
+      ['x', 3],
+      ['y', 5],
+    ]);
+  });
+
+  it('should leave the ranking alone without a slot cap', () => {
+    const ranking = ranked(['a', 'b', 'x']);
+
+    expect(capClusterSlots(ranking, clusters, null)).toBe(ranking);
+  });
+
+  it('should scale down a cluster taking more than its share of the pool', () => {
+    const slots = ranked(['a', 'b', 'x']).map(r => ({ ...r, shares: 1, sharedWith: 1 })) as WinnerSlot[];
+
+    const prizes = capClusterPrizes(slots, [300n, 300n, 300n], clusters, 900n, 5_000);
+
+    // The cluster may take 450 of 900; its 600 is scaled to 225 each and the rest is left over.
+    expect(prizes).toEqual([225n, 225n, 300n]);
+  });
+});
@@ -0,0 +1,106 @@
+import { ClusterLinkReason, clusterWallets } from '../src/sybil/wallet-clustering';
+import { WalletHistory, WalletTransfer } from '../src/sybil/wallet-history.source';
+import { TradeSide } from '../src/anomaly/trade-activity.provider';
+
+describe('clusterWallets', () => {
+  const at = (ms: number) => new Date(Date.UTC(2024, 0, 1) + ms);
+  const transfer = (from: string, to: string, signature: string): WalletTransfer => ({
+    signature,
+    from,
+    to,
+    lamports: 1_000_000n,
+    timestamp: at(0),
+  });
+  const history = (overrides: Partial<WalletHistory> = {}): WalletHistory => ({
+    fundedBy: new Map(),
+    transfers: [],
+    trades: [],
+    ...overrides,
+  });
+  const options = { ignoredFunders: ['exchange'], depositSyncWindowMs: 2_000 };
+
+  it('should group wallets funded by the same source, except ignored funders', () => {
+    const clusters = clusterWallets(
+      ['a', 'b', 'c', 'd', 'e'],
+      history({
+        fundedBy: new Map([
+          ['a', transfer('funder', 'a', 'f1')],
+          ['b', transfer('funder', 'b', 'f2')],
+          ['c', transfer('funder', 'c', 'f3')],
+          ['d', transfer('exchange', 'd', 'f4')],
+          ['e', transfer('exchange', 'e', 'f5')],
+        ]),
+      }),
+      [],
+      options,
+    );
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].wallets).toEqual(['a', 'b', 'c']);
+    expect(clusters[0].links.every(link => link.reason === ClusterLinkReason.SharedFunder)).toBe(true);
+  });
+
+  it('should join clusters transitively through transfers and trades between participants', () => {
+    const clusters = clusterWallets(
+      ['a', 'b', 'c', 'outsider'],
+      history({
+        transfers: [transfer('a', 'b', 't1'), transfer('c', 'somebody-else', 't2')],
+        trades: [
+          { signature: 't3', wallet: 'c', counterparty: 'b', side: TradeSide.Buy, amount: 10, timestamp: at(0) },
+        ],
+      }),
+      [],
+      options,
+    );
+
+    expect(clusters.map(c => c.wallets)).toEqual([['a', 'b', 'c']]);
+    expect(clusters[0].links.map(l => l.reason)).toEqual([ClusterLinkReason.DirectTransfer, ClusterLinkReason.DirectTrade]);
+  });
+
+  const deposit = (playerKey: string, amount: bigint, ms: number) =>
+    ({ playerKey, amount, signature: `${playerKey}-${ms}`, createdAt: at(ms) }) as any;
+
+  it('should add same-sized deposits made within the sync window to the evidence of wallets linked otherwise', () => {
+    const clusters = clusterWallets(
+      ['a', 'b', 'c', 'd', 'e'],
+      history({ transfers: [transfer('a', 'b', 't1')] }),
+      [
+        deposit('a', 5000n, 0),
+        deposit('b', 5000n, 1_500),
+        deposit('e', 5000n, 1_550),
+        deposit('c', 7000n, 1_600),
+        deposit('d', 5000n, 10_000),
+      ],
+      options,
+    );
+
+    expect(clusters).toEqual([
+      {
+        wallets: ['a', 'b'],
+        links: [
+          {
+            wallets: ['a', 'b'],
+            reason: ClusterLinkReason.DirectTransfer,
+            evidence: { signature: 't1', lamports: '1000000' },
+          },
+          {
+            wallets: ['a', 'b'],
+            reason: ClusterLinkReason.SynchronizedDeposit,
+            evidence: { signatures: ['a-0', 'b-1500'], amount: '5000' },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should not cluster unrelated wallets whose deposits only happen to coincide', () => {
+    const clusters = clusterWallets(
+      ['a', 'b', 'c'],
+      history(),
+      [deposit('a', 5000n, 0), deposit('b', 5000n, 1_000), deposit('c', 5000n, 2_000)],
+      options,
+    );
+
+    expect(clusters).toEqual([]);
+  });
+});
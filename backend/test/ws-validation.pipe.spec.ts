@@ -0,0 +1,56 @@
+import { Keypair } from '@solana/web3.js';
+import * as bs58 from 'bs58';
+import { WsValidationPipe } from '../src/game/ws-validation.pipe';
+import { DepositDto } from '../src/game/dto/deposit.dto';
+import { StartGameDto } from '../src/game/dto/start-game.dto';
+import { RumbleError } from '../src/game/rumble.errors';
+
+describe('WsValidationPipe', () => {
+  const pipe = new WsValidationPipe();
+  const playerKey = Keypair.generate().publicKey.toBase58();
+  const signature = bs58.encode(new Uint8Array(64).fill(7));
+
+  const validate = (metatype: Function, value: object) => pipe.transform(value, { type: 'body', metatype: metatype as any });
+
+  const rejection = async (metatype: Function, value: object): Promise<any> => {
+    try {
+      await validate(metatype, value);
+    } catch (error) {
+      return error;
+    }
+    throw new Error('Expected validation to fail.');
+  };
+
+  it('should accept a well-formed deposit', async () => {
+    const deposit = await validate(DepositDto, { playerKey, amount: '5000', gameId: 'game123', signature });
+
+    expect(deposit).toBeInstanceOf(DepositDto);
+    expect(deposit.amount).toBe('5000');
+  });
+
+  it('should report every invalid field of a deposit', async () => {
+    const error = await rejection(DepositDto, { playerKey: 'not-a-key', amount: -5, signature: 'abc' });
+
+    expect(error).toBeInstanceOf(RumbleError.InvalidRequest);
+    expect(error.details.fields.map(field => field.field).sort()).toEqual(['amount', 'gameId', 'playerKey', 'signature']);
+  });
+
+  it('should reject NaN, fractional and zero amounts', async () => {
+    for (const amount of [NaN, 1.5, 0, '1e9', '']) {
+      const error = await rejection(DepositDto, { amount, gameId: 'game123', signature });
+      expect(error.details.fields).toEqual([expect.objectContaining({ field: 'amount' })]);
+    }
+  });
+
+  it('should reject unknown properties and malformed dates', async () => {
+    const error = await rejection(StartGameDto, { gameId: 'game123', opensAt: 'tomorrow', admin: true });
+
+    expect(error.details.fields.map(field => field.field).sort()).toEqual(['admin', 'opensAt']);
+  });
+
+  it('should leave the socket argument alone', async () => {
+    const socket = { id: 'socket1' };
+
+    await expect(pipe.transform(socket, { type: 'custom', metatype: Object })).resolves.toBe(socket);
+  });
+});
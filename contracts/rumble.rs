@@ -1,5 +1,5 @@
 use anchor_lang::prelude::*;
-use anchor_lang::solana_program::system_program;
+use anchor_lang::system_program;
 use std::collections::HashMap;
 
 declare_id!("YourProgramID");
@@ -14,15 +14,30 @@ pub mod rumble {
         game_state.active = false;
         game_state.players = Vec::new();
         game_state.winners = Vec::new();
-        game_state.game_id = ctx.accounts.game_account.key();
+        game_state.game_id = game_state.key();
         game_state.prize_pool = 0;
+        // Only this key may score, pay out or reset the game.
+        game_state.authority = ctx.accounts.user.key();
         Ok(())
     }
 
     pub fn deposit(ctx: Context<Deposit>, amount: u64) -> Result<()> {
+        require!(amount > 0, RumbleError::InvalidDeposit);
+
+        // The deposit is held by the game account, which select_winners pays the prizes out of.
+        system_program::transfer(
+            CpiContext::new(
+                ctx.accounts.system_program.to_account_info(),
+                system_program::Transfer {
+                    from: ctx.accounts.player.to_account_info(),
+                    to: ctx.accounts.game_state.to_account_info(),
+                },
+            ),
+            amount,
+        )?;
+
         let game_state = &mut ctx.accounts.game_state;
         let player = ctx.accounts.player.key();
-        require!(amount > 0, RumbleError::InvalidDeposit);
 
         if let Some(existing) = game_state.players.iter_mut().find(|p| p.key == player) {
             existing.deposit = existing.deposit.checked_add(amount).ok_or(RumbleError::Overflow)?;
@@ -39,7 +54,10 @@ pub mod rumble {
             .total_deposits
             .checked_add(amount)
             .ok_or(RumbleError::Overflow)?;
-        game_state.prize_pool = game_state.total_deposits;
+        game_state.prize_pool = game_state
+            .prize_pool
+            .checked_add(amount)
+            .ok_or(RumbleError::Overflow)?;
 
         emit!(DepositEvent {
             player: player,
@@ -50,11 +68,11 @@ pub mod rumble {
         Ok(())
     }
 
-    pub fn evaluate_trading_activity(ctx: Context<EvaluateTrading>, scores: Vec<(Pubkey, u32)>) -> Result<()> {
+    pub fn evaluate_trading_activity(ctx: Context<EvaluateTrading>, scores: Vec<ScoreEntry>) -> Result<()> {
         let game_state = &mut ctx.accounts.game_state;
-        for (player_key, score) in scores {
-            if let Some(player) = game_state.players.iter_mut().find(|p| p.key == player_key) {
-                player.trading_score = score;
+        for entry in scores {
+            if let Some(player) = game_state.players.iter_mut().find(|p| p.key == entry.player) {
+                player.trading_score = entry.score;
                 player.last_active = Clock::get()?.unix_timestamp;
             }
         }
@@ -65,48 +83,60 @@ pub mod rumble {
         Ok(())
     }
 
-    pub fn select_winners(ctx: Context<SelectWinners>) -> Result<()> {
+    // Pays the winners and prizes the backend settled on, in ranking order. The program does not rank
+    // players itself; it checks that every winner played this round and is paid once, and that the prizes
+    // and the buyback fit in the pool. Winner accounts are passed as remaining accounts, one per winner.
+    pub fn select_winners<'info>(
+        ctx: Context<'_, '_, '_, 'info, SelectWinners<'info>>,
+        payouts: Vec<PayoutEntry>,
+        buyback_amount: u64,
+    ) -> Result<()> {
         let game_state = &mut ctx.accounts.game_state;
-        require!(game_state.total_deposits > 0, RumbleError::NoDeposits);
+        // Checked first, so that paying a settled game again fails as GameAlreadyActive.
         require!(!game_state.active, RumbleError::GameAlreadyActive);
+        require!(game_state.total_deposits > 0, RumbleError::NoDeposits);
 
-        let total_players = game_state.players.len();
-        let num_winners = ((total_players as f64) * 0.10).ceil() as usize;
-
-        let mut sorted_players = game_state.players.clone();
-        sorted_players.sort_by(|a, b| b.trading_score.cmp(&a.trading_score));
-
-        let winners = sorted_players.into_iter().take(num_winners).collect::<Vec<_>>();
-        game_state.winners = winners.clone();
-
-        let prize_pool = game_state.prize_pool;
-        let prize_for_winners = prize_pool * 90 / 100;
-        let buyback_amount = prize_pool * 10 / 100;
-        let prize_per_winner = prize_for_winners.checked_div(num_winners as u64).ok_or(RumbleError::DivisionByZero)?;
-
-        for winner in winners {
-            **ctx.accounts
-                .winner_accounts
-                .iter_mut()
-                .find(|w| w.key == winner.key)
-                .ok_or(RumbleError::WinnerAccountNotFound)?
-                .lamports
-                .borrow_mut() += prize_per_winner;
+        let mut winners: Vec<Player> = Vec::with_capacity(payouts.len());
+        let mut total = buyback_amount;
+        for entry in payouts.iter() {
+            require!(!winners.iter().any(|w| w.key == entry.player), RumbleError::InvalidPayout);
+            let player = game_state
+                .players
+                .iter()
+                .find(|p| p.key == entry.player)
+                .ok_or(RumbleError::InvalidPayout)?;
+            winners.push(player.clone());
+            total = total.checked_add(entry.amount).ok_or(RumbleError::Overflow)?;
+        }
+        require!(total <= game_state.prize_pool, RumbleError::InvalidPayout);
+
+        // Prizes come out of the lamports deposits moved into the game state account.
+        let pool = game_state.to_account_info();
+        for entry in payouts.iter() {
+            let winner = ctx.remaining_accounts
+                .iter()
+                .find(|w| *w.key == entry.player)
+                .ok_or(RumbleError::WinnerAccountNotFound)?;
+            **pool.try_borrow_mut_lamports()? -= entry.amount;
+            **winner.try_borrow_mut_lamports()? += entry.amount;
         }
+        game_state.winners = winners;
 
-        // Buyback and burn RUMBLE tokens
-        ctx.accounts.rumble_token_burner.burn(buyback_amount)?;
+        // The buyback share goes to the account the backend buys and burns RUMBLE from.
+        **pool.try_borrow_mut_lamports()? -= buyback_amount;
+        **ctx.accounts.buyback_account.try_borrow_mut_lamports()? += buyback_amount;
 
         emit!(WinnersSelectedEvent {
             game_id: game_state.game_id,
-            winners: winners.iter().map(|w| w.key).collect(),
-            prize_per_winner: prize_per_winner,
+            winners: payouts.iter().map(|p| p.player).collect(),
+            prizes: payouts.iter().map(|p| p.amount).collect(),
             buyback_amount: buyback_amount,
             timestamp: Clock::get()?.unix_timestamp,
         });
 
+        // Whatever the prizes and the buyback leave stays in the pool and is carried into the next round.
         game_state.total_deposits = 0;
-        game_state.prize_pool = 0;
+        game_state.prize_pool -= total;
         game_state.active = true;
         Ok(())
     }
@@ -119,7 +149,6 @@ pub mod rumble {
         game_state.players.clear();
         game_state.winners.clear();
         game_state.total_deposits = 0;
-        game_state.prize_pool = 0;
 
         emit!(GameResetEvent {
             game_id: game_state.game_id,
@@ -138,6 +167,19 @@ pub struct Player {
     pub last_active: i64,
 }
 
+// Same Borsh layout as a (Pubkey, u32) tuple; the IDL cannot describe tuples.
+#[derive(AnchorSerialize, AnchorDeserialize, Clone)]
+pub struct ScoreEntry {
+    pub player: Pubkey,
+    pub score: u32,
+}
+
+#[derive(AnchorSerialize, AnchorDeserialize, Clone)]
+pub struct PayoutEntry {
+    pub player: Pubkey,
+    pub amount: u64,
+}
+
 #[account]
 pub struct GameState {
     pub total_deposits: u64,
@@ -146,11 +188,12 @@ pub struct GameState {
     pub players: Vec<Player>,
     pub winners: Vec<Player>,
     pub game_id: Pubkey,
+    pub authority: Pubkey,
 }
 
 #[derive(Accounts)]
 pub struct Initialize<'info> {
-    #[account(init, payer = user, space = 8 + 8 + 8 + 1 + 4 + 4 + 32)]
+    #[account(init, payer = user, space = 8 + 8 + 8 + 1 + 4 + 4 + 32 + 32)]
     pub game_state: Account<'info, GameState>,
     #[account(mut)]
     pub user: Signer<'info>,
@@ -168,25 +211,26 @@ pub struct Deposit<'info> {
 
 #[derive(Accounts)]
 pub struct EvaluateTrading<'info> {
-    #[account(mut)]
+    #[account(mut, has_one = authority)]
     pub game_state: Account<'info, GameState>,
+    pub authority: Signer<'info>,
 }
 
 #[derive(Accounts)]
 pub struct SelectWinners<'info> {
-    #[account(mut)]
+    #[account(mut, has_one = authority)]
     pub game_state: Account<'info, GameState>,
+    pub authority: Signer<'info>,
+    /// CHECK: Only receives the buyback share; the authority chooses it along with the winners.
     #[account(mut)]
-    pub winner_accounts: Vec<AccountInfo<'info>>,
-    pub rumble_token_burner: AccountInfo<'info>,
+    pub buyback_account: AccountInfo<'info>,
 }
 
 #[derive(Accounts)]
 pub struct ResetGame<'info> {
-    #[account(mut)]
+    #[account(mut, has_one = authority)]
     pub game_state: Account<'info, GameState>,
-    #[account(mut)]
-    pub admin: Signer<'info>,
+    pub authority: Signer<'info>,
 }
 
 #[event]
@@ -206,7 +250,8 @@ pub struct TradingEvaluationEvent {
 pub struct WinnersSelectedEvent {
     pub game_id: Pubkey,
     pub winners: Vec<Pubkey>,
-    pub prize_per_winner: u64,
+    // Lamports paid to each of `winners`, in the same order.
+    pub prizes: Vec<u64>,
     pub buyback_amount: u64,
     pub timestamp: i64,
 }
@@ -233,4 +278,6 @@ pub enum RumbleError {
     WinnerAccountNotFound,
     #[msg("Game is not active.")]
     GameNotActive,
+    #[msg("Payouts do not match the game's players or pool.")]
+    InvalidPayout,
 }
\ No newline at end of file
@@ -9,6 +9,8 @@ describe('rumble', () => {
   const program = anchor.workspace.RUMBLE as Program<RUMBLE>;
 
   let gameAccount = anchor.web3.Keypair.generate();
+  const player = anchor.web3.Keypair.generate();
+  const buyback = anchor.web3.Keypair.generate();
 
   it('Initializes the game state', async () => {
     await program.methods.initialize()
@@ -25,11 +27,14 @@ describe('rumble', () => {
     assert.ok(gameState.active === false);
     assert.ok(gameState.players.length === 0);
     assert.ok(gameState.winners.length === 0);
+    assert.ok(gameState.authority.equals(provider.wallet.publicKey));
   });
 
   it('Handles deposits correctly', async () => {
-    const player = anchor.web3.Keypair.generate();
     const depositAmount = new anchor.BN(5000);
+    const airdrop = await provider.connection.requestAirdrop(player.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    await provider.connection.confirmTransaction(airdrop);
+    const vaultBefore = await provider.connection.getBalance(gameAccount.publicKey);
 
     await program.methods.deposit(depositAmount)
       .accounts({
@@ -44,48 +49,100 @@ describe('rumble', () => {
     assert.ok(gameState.totalDeposits.toNumber() === 5000);
     assert.ok(gameState.players.length === 1);
     assert.ok(gameState.players[0].deposit.toNumber() === 5000);
+    assert.equal(await provider.connection.getBalance(gameAccount.publicKey), vaultBefore + 5000);
   });
 
   it('Evaluates trading activities', async () => {
     const scores = [
-      [anchor.web3.Keypair.generate().publicKey, 150],
-      [anchor.web3.Keypair.generate().publicKey, 200],
+      { player: anchor.web3.Keypair.generate().publicKey, score: 150 },
+      { player: anchor.web3.Keypair.generate().publicKey, score: 200 },
     ];
 
     await program.methods.evaluateTradingActivity(scores)
       .accounts({
         gameState: gameAccount.publicKey,
+        authority: provider.wallet.publicKey,
       })
       .rpc();
 
     const gameState = await program.account.gameState.fetch(gameAccount.publicKey);
-    for (const [key, score] of scores) {
+    for (const { player: key, score } of scores) {
       const player = gameState.players.find(p => p.key.toString() === key.toString());
       assert.ok(player);
-      assert.ok(player.tradingScore === score[1]);
+      assert.ok(player.tradingScore === score);
     }
   });
 
-  it('Selects winners correctly', async () => {
-    await program.methods.selectWinners()
+  it('Rejects payouts to accounts that did not play', async () => {
+    const stranger = anchor.web3.Keypair.generate().publicKey;
+    try {
+      await program.methods.selectWinners([{ player: stranger, amount: new anchor.BN(1000) }], new anchor.BN(0))
+        .accounts({
+          gameState: gameAccount.publicKey,
+          authority: provider.wallet.publicKey,
+          buybackAccount: buyback.publicKey,
+        })
+        .remainingAccounts([{ pubkey: stranger, isWritable: true, isSigner: false }])
+        .rpc();
+      assert.fail('select_winners should have been rejected');
+    } catch (error) {
+      assert.equal(error.error.errorCode.code, 'InvalidPayout');
+    }
+  });
+
+  it('Rejects calls not signed by the authority that initialized the game', async () => {
+    const intruder = anchor.web3.Keypair.generate();
+    try {
+      await program.methods.selectWinners([{ player: intruder.publicKey, amount: new anchor.BN(5000) }], new anchor.BN(0))
+        .accounts({
+          gameState: gameAccount.publicKey,
+          authority: intruder.publicKey,
+          buybackAccount: buyback.publicKey,
+        })
+        .remainingAccounts([{ pubkey: intruder.publicKey, isWritable: true, isSigner: false }])
+        .signers([intruder])
+        .rpc();
+      assert.fail('select_winners should have been rejected');
+    } catch (error) {
+      assert.equal(error.error.errorCode.code, 'ConstraintHasOne');
+    }
+
+    const gameState = await program.account.gameState.fetch(gameAccount.publicKey);
+    assert.ok(gameState.active === false);
+    assert.ok(gameState.totalDeposits.toNumber() === 5000);
+  });
+
+  it('Pays the winners and prizes it is given', async () => {
+    const airdrop = await provider.connection.requestAirdrop(buyback.publicKey, anchor.web3.LAMPORTS_PER_SOL);
+    await provider.connection.confirmTransaction(airdrop);
+    const before = await provider.connection.getBalance(player.publicKey);
+    const buybackBefore = await provider.connection.getBalance(buyback.publicKey);
+
+    await program.methods.selectWinners([{ player: player.publicKey, amount: new anchor.BN(4000) }], new anchor.BN(500))
       .accounts({
         gameState: gameAccount.publicKey,
-        winnerAccounts: [], // Mock winner accounts
-        rumble_token_burner: anchor.web3.Keypair.generate().publicKey,
+        authority: provider.wallet.publicKey,
+        buybackAccount: buyback.publicKey,
       })
+      .remainingAccounts([{ pubkey: player.publicKey, isWritable: true, isSigner: false }])
       .rpc();
 
     const gameState = await program.account.gameState.fetch(gameAccount.publicKey);
-    assert.ok(gameState.winners.length > 0);
+    assert.ok(gameState.winners.length === 1);
+    assert.ok(gameState.winners[0].key.equals(player.publicKey));
     assert.ok(gameState.active === true);
-    assert.ok(gameState.prizePool.toNumber() === 0);
+    // The 500 lamports left unpaid roll over.
+    assert.ok(gameState.totalDeposits.toNumber() === 0);
+    assert.ok(gameState.prizePool.toNumber() === 500);
+    assert.equal(await provider.connection.getBalance(player.publicKey), before + 4000);
+    assert.equal(await provider.connection.getBalance(buyback.publicKey), buybackBefore + 500);
   });
 
   it('Resets the game state', async () => {
     await program.methods.resetGame()
       .accounts({
         gameState: gameAccount.publicKey,
-        admin: provider.wallet.publicKey,
+        authority: provider.wallet.publicKey,
       })
       .rpc();
 
@@ -94,5 +151,31 @@ describe('rumble', () => {
     assert.ok(gameState.players.length === 0);
     assert.ok(gameState.winners.length === 0);
     assert.ok(gameState.totalDeposits.toNumber() === 0);
+    assert.ok(gameState.prizePool.toNumber() === 500);
+  });
+
+  it('Pays the next round out of its deposits and the rollover', async () => {
+    await program.methods.deposit(new anchor.BN(5000))
+      .accounts({
+        gameState: gameAccount.publicKey,
+        player: player.publicKey,
+        systemProgram: anchor.web3.SystemProgram.programId,
+      })
+      .signers([player])
+      .rpc();
+    const before = await provider.connection.getBalance(player.publicKey);
+
+    await program.methods.selectWinners([{ player: player.publicKey, amount: new anchor.BN(4950) }], new anchor.BN(550))
+      .accounts({
+        gameState: gameAccount.publicKey,
+        authority: provider.wallet.publicKey,
+        buybackAccount: buyback.publicKey,
+      })
+      .remainingAccounts([{ pubkey: player.publicKey, isWritable: true, isSigner: false }])
+      .rpc();
+
+    const gameState = await program.account.gameState.fetch(gameAccount.publicKey);
+    assert.ok(gameState.prizePool.toNumber() === 0);
+    assert.equal(await provider.connection.getBalance(player.publicKey), before + 4950);
   });
 });
\ No newline at end of file
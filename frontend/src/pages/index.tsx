@@ -1,49 +1,295 @@
 import React, { useEffect, useState } from 'react';
-import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';
+import { ConnectionProvider, WalletProvider, useConnection, useWallet } from '@solana/wallet-adapter-react';
 import { WalletModalProvider, WalletMultiButton } from '@solana/wallet-adapter-react-ui';
 import { PhantomWalletAdapter, SolflareWalletAdapter } from '@solana/wallet-adapter-wallets';
-import { PublicKey } from '@solana/web3.js';
+import { LAMPORTS_PER_SOL, PublicKey, SystemProgram, Transaction, TransactionInstruction } from '@solana/web3.js';
 import io from 'socket.io-client';
+import bs58 from 'bs58';
 import { toast, ToastContainer } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
 import styles from '../styles/Home.module.css';
 
 const wallets = [new PhantomWalletAdapter(), new SolflareWalletAdapter()];
+const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
 
 const socket = io('http://localhost:8080');
+const apiUrl = process.env.NEXT_PUBLIC_API_URL ?? 'http://localhost:3000';
 
-const Home = () => {
-  const [gameState, setGameState] = useState<string>('');
-  const [winners, setWinners] = useState<{ playerKey: string; prize: number }[]>([]);
-  const [playerKey, setPlayerKey] = useState<string>('');
-  const [depositAmount, setDepositAmount] = useState<number>(0);
+const SignInButton = () => {
+  const { publicKey, signMessage } = useWallet();
+  const [authenticatedAs, setAuthenticatedAs] = useState<string>('');
 
   useEffect(() => {
-    socket.on('connect', () => {
-      console.log('Connected to backend WebSocket');
+    socket.on('AUTH_CHALLENGE', async (data: { message: string }) => {
+      if (!publicKey || !signMessage) return;
+      try {
+        const signature = await signMessage(new TextEncoder().encode(data.message));
+        socket.emit('AUTH_LOGIN', { publicKey: publicKey.toBase58(), signature: bs58.encode(signature) });
+      } catch (error) {
+        toast.error(`Sign-in cancelled: ${(error as Error).message}`);
+      }
+    });
+
+    socket.on('AUTHENTICATED', (data: { publicKey: string }) => {
+      setAuthenticatedAs(data.publicKey);
+      toast.success(`Signed in as ${data.publicKey}`);
     });
 
+    return () => {
+      socket.off('AUTH_CHALLENGE');
+      socket.off('AUTHENTICATED');
+    };
+  }, [publicKey, signMessage]);
+
+  if (authenticatedAs) {
+    return <span>Signed in</span>;
+  }
+
+  return (
+    <button className={styles.button} onClick={() => socket.emit('AUTH_CHALLENGE')} disabled={!publicKey || !signMessage}>
+      Sign In
+    </button>
+  );
+};
+
+interface GameRules {
+  durationMs: number;
+  minDeposit: string;
+  maxDeposit: string | null;
+  maxPlayers: number | null;
+  winnerBps: number;
+  buybackBps: number;
+}
+
+interface LobbyEntry {
+  gameId: string;
+  round: number;
+  playerCount: number;
+  prizePool: string;
+  closesAt: string;
+  timeRemainingMs: number;
+  config: GameRules;
+  programAccount: string | null;
+  vaultAddress: string | null;
+  depositMemo: string | null;
+}
+
+const LOBBY_REFRESH_MS = 10_000;
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Open games, refreshed periodically; time remaining is counted down from each game's closesAt.
+const Lobby = ({ selectedGameId, onSelect }: { selectedGameId: string; onSelect: (game: LobbyEntry) => void }) => {
+  const [games, setGames] = useState<LobbyEntry[]>([]);
+  const [now, setNow] = useState<number>(Date.now());
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch(`${apiUrl}/games/lobby?limit=100`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        setGames((await response.json()).items);
+      } catch (error) {
+        // Refreshes retry on their own, so a failing lobby is reported once rather than on every attempt.
+        toast.error(`Could not load the lobby: ${(error as Error).message}`, { toastId: 'lobby-load' });
+      }
+    };
+    load();
+    const refresh = setInterval(load, LOBBY_REFRESH_MS);
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      clearInterval(refresh);
+      clearInterval(tick);
+    };
+  }, []);
+
+  return (
+    <div className={styles.gameState}>
+      <h2>Lobby</h2>
+      {games.length > 0 ? (
+        <ul>
+          {games.map((game) => (
+            <li key={game.gameId}>
+              {game.gameId} - Players: {game.playerCount}
+              {game.config.maxPlayers !== null ? `/${game.config.maxPlayers}` : ''} - Pool:{' '}
+              {Number(game.prizePool) / LAMPORTS_PER_SOL} SOL - Closes in{' '}
+              {formatRemaining(new Date(game.closesAt).getTime() - now)}{' '}
+              <button className={styles.button} onClick={() => onSelect(game)} disabled={game.gameId === selectedGameId}>
+                {game.gameId === selectedGameId ? 'Joined' : 'Join'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p>No open games.</p>
+      )}
+    </div>
+  );
+};
+
+// The backend builds the program's deposit for the signed-in wallet, which only signs and sends it.
+const requestDepositTransaction = (gameId: string, lamports: bigint) =>
+  new Promise<Transaction>((resolve, reject) => {
+    const onTransaction = (data: { gameId: string; transaction: string }) => {
+      if (data.gameId !== gameId) return;
+      socket.off('DEPOSIT_TRANSACTION', onTransaction);
+      socket.off('ERROR', onError);
+      resolve(Transaction.from(Uint8Array.from(atob(data.transaction), (c) => c.charCodeAt(0))));
+    };
+    const onError = (data: { message: string }) => {
+      socket.off('DEPOSIT_TRANSACTION', onTransaction);
+      reject(new Error(data.message));
+    };
+    socket.on('DEPOSIT_TRANSACTION', onTransaction);
+    socket.once('ERROR', onError);
+    socket.emit('DEPOSIT_TRANSACTION', { gameId, amount: lamports.toString() });
+  });
+
+// Sends the deposit on-chain first, through the program for games that have a program account; the backend
+// only credits it once the transaction is finalized.
+const DepositForm = ({ game }: { game: LobbyEntry | null }) => {
+  const { connection } = useConnection();
+  const { publicKey, sendTransaction } = useWallet();
+  const [depositAmount, setDepositAmount] = useState<number>(0);
+  const [pending, setPending] = useState<boolean>(false);
+
+  const handleDeposit = async () => {
+    if (!publicKey) {
+      toast.error('Connect a wallet before depositing.');
+      return;
+    }
+    if (!game) {
+      toast.error('Join a game from the lobby before depositing.');
+      return;
+    }
+    if (depositAmount <= 0) {
+      toast.error('Invalid deposit amount.');
+      return;
+    }
+    const lamports = BigInt(Math.round(depositAmount * LAMPORTS_PER_SOL));
+    setPending(true);
+    try {
+      let transaction: Transaction;
+      if (game.programAccount) {
+        transaction = await requestDepositTransaction(game.gameId, lamports);
+      } else if (game.vaultAddress && game.depositMemo) {
+        // The memo ties the transfer to this round; the backend does not credit a transfer without it.
+        transaction = new Transaction().add(
+          SystemProgram.transfer({ fromPubkey: publicKey, toPubkey: new PublicKey(game.vaultAddress), lamports }),
+          new TransactionInstruction({ keys: [], programId: MEMO_PROGRAM_ID, data: Buffer.from(game.depositMemo) }),
+        );
+      } else {
+        throw new Error(`game ${game.gameId} has no vault configured.`);
+      }
+      const signature = await sendTransaction(transaction, connection);
+      await connection.confirmTransaction(signature, 'finalized');
+      socket.emit('DEPOSIT', { amount: lamports.toString(), gameId: game.gameId, signature });
+    } catch (error) {
+      toast.error(`Deposit failed: ${(error as Error).message}`);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className={styles.depositSection}>
+      <h2>Make a Deposit</h2>
+      <input
+        type="number"
+        placeholder="Amount (SOL)"
+        value={depositAmount}
+        onChange={(e) => setDepositAmount(Number(e.target.value))}
+        className={styles.input}
+      />
+      <button className={styles.button} onClick={handleDeposit} disabled={!publicKey || !game || pending}>
+        {pending ? 'Confirming...' : 'Deposit'}
+      </button>
+    </div>
+  );
+};
+
+interface LeaderboardStanding {
+  playerKey: string;
+  rank: number;
+  compositeScore: number;
+  aboveCutLine: boolean;
+}
+
+interface LeaderboardUpdate {
+  full: boolean;
+  changes: LeaderboardStanding[];
+  removed: string[];
+}
+
+// Updates only carry the players whose standing moved or who left the ranking, so they are merged into the
+// board we already have.
+const applyLeaderboardUpdate = (board: LeaderboardStanding[], update: LeaderboardUpdate): LeaderboardStanding[] => {
+  const byPlayer = new Map(update.full ? [] : board.map((standing) => [standing.playerKey, standing]));
+  update.removed.forEach((playerKey) => byPlayer.delete(playerKey));
+  update.changes.forEach((standing) => byPlayer.set(standing.playerKey, standing));
+  return [...byPlayer.values()].sort((a, b) => a.rank - b.rank);
+};
+
+const Home = () => {
+  const [gameState, setGameState] = useState<string>('');
+  const [winners, setWinners] = useState<{ playerKey: string; prize: string }[]>([]);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardStanding[]>([]);
+  const [payouts, setPayouts] = useState<Record<string, string>>({});
+  const [selectedGame, setSelectedGame] = useState<LobbyEntry | null>(null);
+
+  // Only one game's room at a time, so the leaderboard and winners shown are the selected game's.
+  const handleSelectGame = (game: LobbyEntry) => {
+    if (selectedGame) socket.emit('LEAVE_GAME', { gameId: selectedGame.gameId });
+    socket.emit('JOIN_GAME', { gameId: game.gameId });
+    setSelectedGame(game);
+    setGameState(`Joined game ${game.gameId}.`);
+    setLeaderboard([]);
+    setWinners([]);
+    setPayouts({});
+  };
+
+  useEffect(() => {
     socket.on('GAME_STARTED', (data: { gameId: string }) => {
       toast.info(`Game Started: ${data.gameId}`);
-      setGameState(`Game ${data.gameId} has started!`);
     });
 
-    socket.on('DEPOSIT_CONFIRMED', (data: { playerKey: string; amount: number }) => {
-      toast.success(`Deposit of ${data.amount} SOL confirmed for ${data.playerKey}`);
+    socket.on('DEPOSIT_CONFIRMED', (data: { playerKey: string; amount: string }) => {
+      toast.success(`Deposit of ${Number(data.amount) / LAMPORTS_PER_SOL} SOL confirmed for ${data.playerKey}`);
     });
 
     socket.on('TRADING_EVALUATED', (data: { gameId: string }) => {
       toast.info(`Trading activities evaluated for game ${data.gameId}`);
     });
 
-    socket.on('WINNERS_SELECTED', (data: { gameId: string; winners: any[] }) => {
+    socket.on('LEADERBOARD_UPDATE', (data: LeaderboardUpdate) => {
+      setLeaderboard((board) => applyLeaderboardUpdate(board, data));
+    });
+
+    socket.on('WINNERS_SELECTED', (data: { gameId: string; winners: { playerKey: string; prize: string }[] }) => {
       setWinners(data.winners);
+      setLeaderboard([]);
+      setPayouts({});
       toast.success(`Winners selected for game ${data.gameId}`);
     });
 
+    socket.on('PAYOUT_CONFIRMED', (data: { playerKey: string; lamports: string }) => {
+      setPayouts((current) => ({ ...current, [data.playerKey]: 'paid' }));
+      toast.success(`Paid ${Number(data.lamports) / LAMPORTS_PER_SOL} SOL to ${data.playerKey}`);
+    });
+
+    socket.on('PAYOUT_FAILED', (data: { playerKey: string; message: string; willRetry: boolean }) => {
+      setPayouts((current) => ({ ...current, [data.playerKey]: data.willRetry ? 'retrying' : 'failed' }));
+      toast.error(`Payout to ${data.playerKey} failed: ${data.message}${data.willRetry ? ' Retrying.' : ''}`);
+    });
+
     socket.on('GAME_RESET', (data: { gameId: string }) => {
       setGameState(`Game ${data.gameId} has been reset.`);
       setWinners([]);
+      setLeaderboard([]);
+      setPayouts({});
       toast.info(`Game ${data.gameId} has been reset.`);
     });
 
@@ -52,11 +298,13 @@ const Home = () => {
     });
 
     return () => {
-      socket.off('connect');
       socket.off('GAME_STARTED');
       socket.off('DEPOSIT_CONFIRMED');
       socket.off('TRADING_EVALUATED');
+      socket.off('LEADERBOARD_UPDATE');
       socket.off('WINNERS_SELECTED');
+      socket.off('PAYOUT_CONFIRMED');
+      socket.off('PAYOUT_FAILED');
       socket.off('GAME_RESET');
       socket.off('ERROR');
     };
@@ -67,14 +315,6 @@ const Home = () => {
     socket.emit('START_GAME', { gameId });
   };
 
-  const handleDeposit = () => {
-    if (!playerKey || depositAmount <= 0) {
-      toast.error('Invalid player key or deposit amount.');
-      return;
-    }
-    socket.emit('DEPOSIT', { playerKey, amount: depositAmount, gameId: 'currentGameId' });
-  };
-
   return (
     <ConnectionProvider endpoint={process.env.NEXT_PUBLIC_SOLANA_RPC_URL}>
       <WalletProvider wallets={wallets} autoConnect>
@@ -83,6 +323,7 @@ const Home = () => {
             <header className={styles.header}>
               <h1>RUMBLE</h1>
               <WalletMultiButton />
+              <SignInButton />
             </header>
 
             <main className={styles.main}>
@@ -95,26 +336,23 @@ const Home = () => {
                 <p>{gameState}</p>
               </div>
 
-              <div className={styles.depositSection}>
-                <h2>Make a Deposit</h2>
-                <input
-                  type="text"
-                  placeholder="Player Public Key"
-                  value={playerKey}
-                  onChange={(e) => setPlayerKey(e.target.value)}
-                  className={styles.input}
-                />
-                <input
-                  type="number"
-                  placeholder="Amount (SOL)"
-                  value={depositAmount}
-                  onChange={(e) => setDepositAmount(Number(e.target.value))}
-                  className={styles.input}
-                />
-                <button className={styles.button} onClick={handleDeposit}>
-                  Deposit
-                </button>
-              </div>
+              <Lobby selectedGameId={selectedGame?.gameId ?? ''} onSelect={handleSelectGame} />
+
+              <DepositForm game={selectedGame} />
+
+              {leaderboard.length > 0 && (
+                <div className={styles.winners}>
+                  <h2>Provisional Leaderboard</h2>
+                  <ol>
+                    {leaderboard.map((standing) => (
+                      <li key={standing.playerKey}>
+                        #{standing.rank} {standing.playerKey} - Score: {standing.compositeScore.toFixed(3)}
+                        {standing.aboveCutLine ? ' (in the money)' : ''}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
 
               <div className={styles.winners}>
                 <h2>Winners</h2>
@@ -122,7 +360,8 @@ const Home = () => {
                   <ul>
                     {winners.map((winner, index) => (
                       <li key={index}>
-                        {winner.playerKey} - Prize: {winner.prize} SOL
+                        {winner.playerKey} - Prize: {Number(winner.prize) / LAMPORTS_PER_SOL} SOL
+                        {payouts[winner.playerKey] ? ` (${payouts[winner.playerKey]})` : ''}
                       </li>
                     ))}
                   </ul>